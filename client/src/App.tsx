@@ -4,7 +4,7 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { ColorPaletteSwitcher } from "@/components/ColorPaletteSwitcher";
-import { MessageSquare, Settings as SettingsIcon, Users, BarChart3, Phone, PhoneCall, Megaphone, Send, MessageCircle, Home } from "lucide-react";
+import { MessageSquare, Settings as SettingsIcon, Users, BarChart3, Phone, PhoneCall, Megaphone, Send, MessageCircle, Home, Ban, FlaskConical } from "lucide-react";
 import "@/styles/palette-vars.css";
 import ContactCampaigns from "@/pages/contact-campaigns";
 import CampaignDashboard from "@/pages/campaign-dashboard";
@@ -17,6 +17,8 @@ import WhatsAppMessaging from "@/pages/whatsapp-messaging";
 import LiveCallsPage from "@/pages/live-calls";
 import CallsAnalytics from "@/pages/calls-analytics";
 import CampaignTimingAnalytics from "@/pages/campaign-timing-analytics";
+import SuppressionsPage from "@/pages/suppressions";
+import CallSimulatorPage from "@/pages/call-simulator";
 import NotFound from "@/pages/not-found";
 
 function Navigation({ children }: { children: React.ReactNode }) {
@@ -59,6 +61,18 @@ function Navigation({ children }: { children: React.ReactNode }) {
       icon: Home,
       current: location === "/campaign-dashboard",
     },
+    {
+      name: "Do Not Contact",
+      href: "/suppressions",
+      icon: Ban,
+      current: location === "/suppressions",
+    },
+    {
+      name: "Call Simulator",
+      href: "/call-simulator",
+      icon: FlaskConical,
+      current: location === "/call-simulator",
+    },
     {
       name: "Settings",
       href: "/settings",
@@ -162,6 +176,8 @@ function Router() {
         <Route path="/contact-campaigns" component={ContactCampaigns} />
         <Route path="/whatsapp-chats" component={WhatsAppChats} />
         <Route path="/whatsapp-messaging" component={WhatsAppMessaging} />
+        <Route path="/suppressions" component={SuppressionsPage} />
+        <Route path="/call-simulator" component={CallSimulatorPage} />
         <Route path="/settings" component={SettingsPage} />
         <Route path="/enhanced-settings" component={EnhancedSettings} />
         <Route component={NotFound} />
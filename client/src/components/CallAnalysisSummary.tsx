@@ -0,0 +1,83 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { RefreshCw } from 'lucide-react';
+import type { Call, CallAnalysis } from '@shared/schema';
+
+interface CallAnalysisSummaryProps {
+  call: Call;
+}
+
+const SENTIMENT_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  positive: 'default',
+  neutral: 'secondary',
+  negative: 'destructive',
+};
+
+export function CallAnalysisSummary({ call }: CallAnalysisSummaryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const analysis = call.analysis as CallAnalysis | null;
+
+  const analyzeMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/calls/${call.id}/analyze`),
+    onSuccess: () => {
+      toast({ title: 'Call re-analysed' });
+      queryClient.invalidateQueries({ queryKey: ['/api/calls'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Analysis failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 flex flex-row items-center justify-between">
+        <CardTitle className="text-lg">Call Analysis</CardTitle>
+        {call.status !== 'active' && (
+          <Button size="sm" variant="outline" disabled={analyzeMutation.isPending} onClick={() => analyzeMutation.mutate()}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {analysis ? 'Re-analyse' : 'Analyse'}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {!analysis ? (
+          <p className="text-muted-foreground">This call hasn't been analysed.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {call.disposition && <Badge variant="outline">{call.disposition}</Badge>}
+              <Badge variant={SENTIMENT_VARIANTS[analysis.sentiment]}>{analysis.sentiment}</Badge>
+              <Badge variant="secondary">Score {analysis.successScore}/100</Badge>
+            </div>
+            <p>{analysis.summary}</p>
+            {analysis.keyPoints.length > 0 && (
+              <div>
+                <h4 className="font-medium">Key points</h4>
+                <ul className="list-disc pl-5 text-gray-600">
+                  {analysis.keyPoints.map((point, index) => <li key={index}>{point}</li>)}
+                </ul>
+              </div>
+            )}
+            {analysis.objections.length > 0 && (
+              <div>
+                <h4 className="font-medium">Objections</h4>
+                <ul className="list-disc pl-5 text-gray-600">
+                  {analysis.objections.map((objection, index) => <li key={index}>{objection}</li>)}
+                </ul>
+              </div>
+            )}
+            <div>
+              <h4 className="font-medium">Next step</h4>
+              <p className="text-gray-600">{analysis.nextStep || 'None agreed'}</p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
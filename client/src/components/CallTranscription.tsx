@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Download, Play, Pause, Volume2, VolumeX } from 'lucide-react';
+import { useWebSocket } from '@/hooks/use-websocket';
 import type { CallTranscription, CallRecording } from '@shared/schema';
 
 interface CallTranscriptionProps {
@@ -14,18 +15,35 @@ interface CallTranscriptionProps {
 
 export function CallTranscription({ callId, isActive = false }: CallTranscriptionProps) {
   const [autoScroll, setAutoScroll] = useState(true);
+  const queryClient = useQueryClient();
+  const { lastMessage } = useWebSocket();
 
-  // Fetch transcriptions with real-time updates for active calls
-  const { data: transcriptions = [], refetch: refetchTranscriptions } = useQuery({
+  // Fetch transcriptions - segments of active calls then arrive over /ws as they are spoken
+  const { data: transcriptions = [] } = useQuery({
     queryKey: ['call-transcriptions', callId],
     queryFn: async () => {
       const response = await fetch(`/api/calls/${callId}/transcriptions`);
       if (!response.ok) throw new Error('Failed to fetch transcriptions');
       return response.json() as Promise<CallTranscription[]>;
     },
-    refetchInterval: isActive ? 2000 : false, // Poll every 2 seconds for active calls
   });
 
+  useEffect(() => {
+    if (lastMessage?.type !== 'call_transcription' || lastMessage.callId !== callId) return;
+    const segment = lastMessage.transcription as CallTranscription;
+    queryClient.setQueryData<CallTranscription[]>(['call-transcriptions', callId], (current = []) =>
+      current.some((existing) => existing.id === segment.id)
+        ? current
+        : [...current, segment].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    );
+  }, [lastMessage, callId, queryClient]);
+
+  // Conversion finishes in the background after the call
+  useEffect(() => {
+    if (lastMessage?.type !== 'recording_ready' || lastMessage.callId !== callId) return;
+    queryClient.invalidateQueries({ queryKey: ['call-recording', callId] });
+  }, [lastMessage, callId, queryClient]);
+
   // Fetch recording download URL
   const { data: recording } = useQuery({
     queryKey: ['call-recording', callId],
@@ -46,12 +64,18 @@ export function CallTranscription({ callId, isActive = false }: CallTranscriptio
     }
   }, [transcriptions, autoScroll, callId]);
 
-  const handleDownloadRecording = async () => {
+  const handleDownloadRecording = async (format: 'mp3' | 'mp4') => {
     if (!recording) return;
+
+    // Converted recordings redirect to a signed storage link, which the browser downloads itself
+    if (recording.conversionStatus === 'completed') {
+      window.location.href = `/api/calls/${callId}/recording/download?format=${format}`;
+      return;
+    }
     
     try {
       // Use the server proxy endpoint for downloading
-      const response = await fetch(`/api/calls/${callId}/recording/download`);
+      const response = await fetch(`/api/calls/${callId}/recording/download?format=${format}`);
       
       if (!response.ok) {
         const errorData = await response.json();
@@ -64,7 +88,7 @@ export function CallTranscription({ callId, isActive = false }: CallTranscriptio
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `call-recording-${callId}.${recording.mp4Url ? 'mp4' : 'wav'}`;
+      link.download = `call-recording-${callId}.wav`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -85,6 +109,12 @@ export function CallTranscription({ callId, isActive = false }: CallTranscriptio
     });
   };
 
+  // Position in the call, e.g. 1:05
+  const formatOffset = (seconds: number) => {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+  };
+
   const getSpeakerIcon = (speaker: string) => {
     return speaker === 'ai_agent' ? '🤖' : '👤';
   };
@@ -116,11 +146,22 @@ export function CallTranscription({ callId, isActive = false }: CallTranscriptio
             {autoScroll ? 'Disable' : 'Enable'} Auto-scroll
           </Button>
           
-          {recording && (
+          {recording && recording.mp3Url && (
             <Button
               variant="outline"
               size="sm"
-              onClick={handleDownloadRecording}
+              onClick={() => handleDownloadRecording('mp3')}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download MP3
+            </Button>
+          )}
+
+          {recording && !recording.purgedAt && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDownloadRecording('mp4')}
               disabled={recording.conversionStatus === 'processing'}
             >
               <Download className="w-4 h-4 mr-2" />
@@ -162,14 +203,20 @@ export function CallTranscription({ callId, isActive = false }: CallTranscriptio
                   <div className="flex-1">
                     <p className="text-sm text-gray-900">{transcription.transcript}</p>
                     <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
-                      <span>{formatTimestamp(transcription.timestamp)}</span>
+                      <span>
+                        {transcription.startOffset != null && `${formatOffset(transcription.startOffset)} · `}
+                        {formatTimestamp(transcription.timestamp)}
+                      </span>
                       {transcription.confidence && (
                         <span>Confidence: {Math.round(transcription.confidence * 100)}%</span>
                       )}
-                      {transcription.duration && (
+                      {transcription.duration != null && (
                         <span>Duration: {transcription.duration}s</span>
                       )}
                     </div>
+                    {transcription.audioSegmentUrl && (
+                      <audio controls preload="none" src={transcription.audioSegmentUrl} className="mt-2 h-8 w-full" />
+                    )}
                   </div>
                 </div>
               ))}
@@ -177,18 +224,26 @@ export function CallTranscription({ callId, isActive = false }: CallTranscriptio
           )}
         </ScrollArea>
 
-        {recording && recording.conversionStatus === 'processing' && (
+        {recording && ['pending', 'processing'].includes(recording.conversionStatus) && (
           <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
             <div className="flex items-center space-x-2">
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-yellow-600"></div>
-              <span className="text-sm text-yellow-800">Converting recording to MP4...</span>
+              <span className="text-sm text-yellow-800">Converting recording to MP3 and MP4...</span>
             </div>
           </div>
         )}
 
+        {recording && recording.purgedAt && (
+          <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+            <span className="text-sm text-gray-700">This recording was deleted under the campaign's retention policy.</span>
+          </div>
+        )}
+
         {recording && recording.conversionStatus === 'failed' && (
           <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
-            <span className="text-sm text-red-800">Recording conversion failed. Audio file may still be available.</span>
+            <span className="text-sm text-red-800">
+              Recording conversion failed{recording.conversionError ? `: ${recording.conversionError}` : ''}. Audio file may still be available.
+            </span>
           </div>
         )}
       </CardContent>
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useWebSocket } from '@/hooks/use-websocket';
+import { apiRequest } from '@/lib/queryClient';
+import { Edit, XCircle } from 'lucide-react';
+import { format, isToday, isTomorrow } from 'date-fns';
+import type { ScheduledCall } from '@shared/schema';
+
+interface Callback extends ScheduledCall {
+  contactName: string;
+  campaignName: string;
+}
+
+// Value for <input type="datetime-local"> in the browser's timezone
+const toLocalInput = (value: string | Date) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+// The booked time as the prospect sees it
+const formatContactTime = (callback: Callback) =>
+  callback.timezone
+    ? new Date(callback.scheduledFor).toLocaleString(undefined, {
+      timeZone: callback.timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+    : undefined;
+
+export function CallbacksPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { lastMessage } = useWebSocket();
+  const [editing, setEditing] = useState<Callback | null>(null);
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [note, setNote] = useState('');
+
+  const { data: callbacks = [] } = useQuery<Callback[]>({ queryKey: ['/api/callbacks'] });
+
+  // Callbacks booked on live calls show up without a refresh
+  useEffect(() => {
+    if (lastMessage?.type === 'callback_updated') {
+      queryClient.invalidateQueries({ queryKey: ['/api/callbacks'] });
+    }
+  }, [lastMessage, queryClient]);
+
+  const updateMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('PATCH', `/api/callbacks/${editing!.id}`, {
+        scheduledFor: new Date(scheduledFor).toISOString(),
+        note: note || null,
+      }),
+    onSuccess: () => {
+      toast({ title: 'Callback updated' });
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/callbacks'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Failed to update callback', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/callbacks/${id}/cancel`),
+    onSuccess: () => {
+      toast({ title: 'Callback cancelled' });
+      queryClient.invalidateQueries({ queryKey: ['/api/callbacks'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Failed to cancel callback', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openEditor = (callback: Callback) => {
+    setEditing(callback);
+    setScheduledFor(toLocalInput(callback.scheduledFor));
+    setNote(callback.note || '');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scheduled Callbacks</CardTitle>
+        <CardDescription>Prospects who asked to be called back - the dialer calls them at the time they picked</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {callbacks.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">No callbacks booked.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Contact</TableHead>
+                <TableHead>Campaign</TableHead>
+                <TableHead>Scheduled</TableHead>
+                <TableHead>Asked For</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {callbacks.map((callback) => {
+                const at = new Date(callback.scheduledFor);
+                const contactTime = formatContactTime(callback);
+                return (
+                  <TableRow key={callback.id}>
+                    <TableCell>
+                      <div className="font-medium">{callback.contactName}</div>
+                      <div className="text-sm text-gray-500">{callback.phoneNumber}</div>
+                    </TableCell>
+                    <TableCell>{callback.campaignName}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">
+                        {isToday(at) ? 'Today' : isTomorrow(at) ? 'Tomorrow' : format(at, 'MMM dd')} {format(at, 'HH:mm')}
+                      </div>
+                      {contactTime && (
+                        <div className="text-sm text-gray-500">{contactTime} their time</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {callback.requestedTime ? <Badge variant="outline">"{callback.requestedTime}"</Badge> : '-'}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate" title={callback.note || undefined}>
+                      {callback.note || '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Button variant="outline" size="sm" onClick={() => openEditor(callback)}>
+                          <Edit className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={cancelMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Cancel the callback to ${callback.contactName}?`)) {
+                              cancelMutation.mutate(callback.id);
+                            }
+                          }}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Cancel
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Callback - {editing?.contactName}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="callback-time">Call at (your time)</Label>
+              <Input
+                id="callback-time"
+                type="datetime-local"
+                value={scheduledFor}
+                onChange={(e) => setScheduledFor(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="callback-note">Note for the agent</Label>
+              <Textarea id="callback-note" rows={4} value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+            <Button onClick={() => updateMutation.mutate()} disabled={!scheduledFor || updateMutation.isPending}>
+              {updateMutation.isPending ? 'Saving...' : 'Save Callback'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
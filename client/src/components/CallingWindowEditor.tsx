@@ -0,0 +1,153 @@
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { CallingWindow, HolidayCalendar } from '@shared/schema';
+
+interface CallingWindowEditorProps {
+  window: CallingWindow | null;
+  holidayCalendarId: string | null;
+  onChange: (window: CallingWindow | null) => void;
+  onHolidayCalendarChange: (holidayCalendarId: string | null) => void;
+}
+
+const DEFAULT_WINDOW: CallingWindow = {
+  days: [1, 2, 3, 4, 5, 6],
+  start: '09:00',
+  end: '19:00',
+  quietWindows: [{ start: '13:00', end: '14:00' }],
+  defaultTimezone: 'Asia/Kolkata',
+};
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const NO_CALENDAR = 'none';
+
+export function CallingWindowEditor({ window, holidayCalendarId, onChange, onHolidayCalendarChange }: CallingWindowEditorProps) {
+  const { data: calendars = [] } = useQuery<HolidayCalendar[]>({
+    queryKey: ['/api/holiday-calendars'],
+  });
+
+  const update = (changes: Partial<CallingWindow>) => onChange({ ...window!, ...changes });
+
+  const toggleDay = (day: number) => {
+    const days = window!.days.includes(day)
+      ? window!.days.filter((value) => value !== day)
+      : [...window!.days, day].sort();
+    if (days.length > 0) update({ days });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Calling Hours</Label>
+          <p className="text-xs text-muted-foreground">
+            {window
+              ? "Calls and WhatsApp sends outside these hours (in the contact's local time) wait for the next allowed slot."
+              : 'Calls and messages go out as soon as they are due.'}
+          </p>
+        </div>
+        <Switch
+          checked={!!window}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_WINDOW : null)}
+        />
+      </div>
+
+      {window && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {DAYS.map((label, day) => (
+              <Button
+                key={label}
+                type="button"
+                size="sm"
+                variant={window.days.includes(day) ? 'default' : 'outline'}
+                onClick={() => toggleDay(day)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input type="time" value={window.start} onChange={(e) => update({ start: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Until</Label>
+              <Input type="time" value={window.end} onChange={(e) => update({ end: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Fallback timezone</Label>
+              <Input
+                value={window.defaultTimezone}
+                placeholder="Asia/Kolkata"
+                onChange={(e) => update({ defaultTimezone: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Quiet windows</Label>
+            {window.quietWindows.map((quiet, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={quiet.start}
+                  onChange={(e) => update({ quietWindows: window.quietWindows.map((q, i) => (i === index ? { ...q, start: e.target.value } : q)) })}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={quiet.end}
+                  onChange={(e) => update({ quietWindows: window.quietWindows.map((q, i) => (i === index ? { ...q, end: e.target.value } : q)) })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update({ quietWindows: window.quietWindows.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => update({ quietWindows: [...window.quietWindows, { start: '13:00', end: '14:00' }] })}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Quiet Window
+            </Button>
+          </div>
+        </>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs">Holiday calendar</Label>
+        <Select
+          value={holidayCalendarId || NO_CALENDAR}
+          onValueChange={(value) => onHolidayCalendarChange(value === NO_CALENDAR ? null : value)}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="No holiday calendar" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CALENDAR}>No holiday calendar</SelectItem>
+            {calendars.map((calendar) => (
+              <SelectItem key={calendar.id} value={calendar.id}>{calendar.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { CampaignVariant, TtsProviderName } from '@shared/schema';
+
+interface CampaignVariantsEditorProps {
+  variants: CampaignVariant[] | null;
+  provider: TtsProviderName;
+  elevenLabsVoices: Array<{ voice_id: string; name: string }>;
+  onChange: (variants: CampaignVariant[] | null) => void;
+}
+
+const CAMPAIGN_VOICE = '__campaign__';
+
+// The control runs the campaign as configured; the challenger starts as a copy to edit
+const STARTER_VARIANTS: CampaignVariant[] = [
+  { id: 'control', name: 'Control', weight: 1 },
+  { id: 'variant_b', name: 'Variant B', weight: 1 },
+];
+
+export function CampaignVariantsEditor({ variants, provider, elevenLabsVoices, onChange }: CampaignVariantsEditorProps) {
+  const runExperiment = !!variants && variants.length > 0;
+  const totalWeight = variants?.reduce((sum, variant) => sum + (variant.weight || 0), 0) || 0;
+
+  const updateVariant = (index: number, changes: Partial<CampaignVariant>) => {
+    onChange(variants!.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  // Empty fields fall back to the campaign's own
+  const override = (value: string) => value.trim() ? value : undefined;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>A/B Test</Label>
+          <p className="text-xs text-muted-foreground">
+            {runExperiment
+              ? 'Each contact is assigned one variant by weight and keeps it on redials. Blank fields use the campaign settings above. The first variant is the control.'
+              : 'Split calls between variants of the intro, prompt, persona and voice, and compare how each performs.'}
+          </p>
+        </div>
+        <Switch
+          checked={runExperiment}
+          onCheckedChange={(checked) => onChange(checked ? STARTER_VARIANTS : null)}
+        />
+      </div>
+
+      {runExperiment && variants!.map((variant, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              value={variant.id}
+              placeholder="variant_id"
+              className="w-36 font-mono text-xs"
+              onChange={(e) => updateVariant(index, { id: e.target.value.toLowerCase().replace(/[^a-z0-9_-]/g, '_') })}
+            />
+            <Input
+              value={variant.name}
+              placeholder="Variant name"
+              onChange={(e) => updateVariant(index, { name: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={variant.weight}
+              className="w-20"
+              onChange={(e) => updateVariant(index, { weight: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) })}
+            />
+            <span className="w-12 text-xs text-muted-foreground">
+              {totalWeight > 0 ? `${Math.round((variant.weight / totalWeight) * 100)}%` : '0%'}
+            </span>
+            <Button type="button" variant="ghost" size="sm" disabled={variants!.length <= 2} onClick={() => onChange(variants!.filter((_, i) => i !== index))}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              value={variant.agentName || ''}
+              placeholder="Agent name (campaign default)"
+              onChange={(e) => updateVariant(index, { agentName: override(e.target.value) })}
+            />
+            {provider === 'elevenlabs' ? (
+              <Select
+                value={variant.voiceId || CAMPAIGN_VOICE}
+                onValueChange={(voiceId) => updateVariant(index, { voiceId: voiceId === CAMPAIGN_VOICE ? undefined : voiceId })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Voice" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CAMPAIGN_VOICE}>Campaign voice</SelectItem>
+                  {elevenLabsVoices.map((voice) => (
+                    <SelectItem key={voice.voice_id} value={voice.voice_id}>{voice.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                value={variant.ttsVoice || ''}
+                placeholder="Voice (campaign default)"
+                onChange={(e) => updateVariant(index, { ttsVoice: override(e.target.value) })}
+              />
+            )}
+          </div>
+          <Textarea
+            value={variant.introLine || ''}
+            placeholder="Introduction (campaign default)"
+            rows={2}
+            onChange={(e) => updateVariant(index, { introLine: override(e.target.value) })}
+          />
+          <Textarea
+            value={variant.aiPrompt || ''}
+            placeholder="AI prompt (campaign default)"
+            rows={3}
+            onChange={(e) => updateVariant(index, { aiPrompt: override(e.target.value) })}
+          />
+        </div>
+      ))}
+
+      {runExperiment && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...variants!, { id: `variant_${variants!.length + 1}`, name: `Variant ${variants!.length + 1}`, weight: 1 }])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Variant
+        </Button>
+      )}
+    </div>
+  );
+}
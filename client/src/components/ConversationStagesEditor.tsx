@@ -0,0 +1,163 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import type { ConversationStage } from '@shared/schema';
+
+interface ConversationStagesEditorProps {
+  stages: ConversationStage[] | null;
+  onChange: (stages: ConversationStage[] | null) => void;
+}
+
+// Starting point when a campaign switches from the default script to custom stages
+const STARTER_STAGES: ConversationStage[] = [
+  {
+    id: 'greeting',
+    name: 'Greeting',
+    goal: 'Confirm you are speaking with the right person.',
+    requiredSlots: [],
+    transitions: ['closing'],
+    exitCriteria: 'The caller confirmed who they are.',
+    terminal: false,
+  },
+  {
+    id: 'closing',
+    name: 'Closing',
+    goal: 'Thank the caller and say goodbye.',
+    requiredSlots: [],
+    transitions: [],
+    exitCriteria: '',
+    terminal: true,
+  },
+];
+
+const parseList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+export function ConversationStagesEditor({ stages, onChange }: ConversationStagesEditorProps) {
+  const useCustomStages = !!stages && stages.length > 0;
+
+  const updateStage = (index: number, changes: Partial<ConversationStage>) => {
+    onChange(stages!.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const next = [...stages!];
+    const [stage] = next.splice(index, 1);
+    next.splice(index + direction, 0, stage);
+    onChange(next);
+  };
+
+  const addStage = () => {
+    onChange([
+      ...stages!,
+      {
+        id: `stage_${stages!.length + 1}`,
+        name: `Stage ${stages!.length + 1}`,
+        goal: '',
+        requiredSlots: [],
+        transitions: [],
+        exitCriteria: '',
+        terminal: false,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Conversation Stages</Label>
+          <p className="text-xs text-muted-foreground">
+            {useCustomStages
+              ? 'The call starts in the first stage and ends when a terminal stage is reached.'
+              : 'Using the default LabsCheck script (verify contact, pitch, collect contact details, closing).'}
+          </p>
+        </div>
+        <Switch
+          checked={useCustomStages}
+          onCheckedChange={(checked) => onChange(checked ? STARTER_STAGES : null)}
+        />
+      </div>
+
+      {useCustomStages && stages!.map((stage, index) => (
+        <div key={index} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{index + 1}</Badge>
+            <Input
+              value={stage.name}
+              placeholder="Stage name"
+              onChange={(e) => updateStage(index, { name: e.target.value })}
+            />
+            <Input
+              value={stage.id}
+              placeholder="stage_id"
+              className="w-40 font-mono text-xs"
+              onChange={(e) => updateStage(index, { id: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_') })}
+            />
+            <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => moveStage(index, -1)}>
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" disabled={index === stages!.length - 1} onClick={() => moveStage(index, 1)}>
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" disabled={stages!.length === 1} onClick={() => onChange(stages!.filter((_, i) => i !== index))}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Textarea
+            value={stage.goal}
+            placeholder="What should the agent achieve in this stage?"
+            rows={2}
+            onChange={(e) => updateStage(index, { goal: e.target.value })}
+          />
+          <Input
+            value={stage.exitCriteria}
+            placeholder="Exit criteria - when is this stage complete?"
+            onChange={(e) => updateStage(index, { exitCriteria: e.target.value })}
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Required slots (comma separated)</Label>
+              <Input
+                key={`slots-${index}-${stage.requiredSlots.join(',')}`}
+                defaultValue={stage.requiredSlots.join(', ')}
+                placeholder="whatsapp, email"
+                onBlur={(e) => updateStage(index, { requiredSlots: parseList(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Can move to (stage ids)</Label>
+              <Input
+                key={`transitions-${index}-${stage.transitions.join(',')}`}
+                defaultValue={stage.transitions.join(', ')}
+                placeholder="closing"
+                disabled={stage.terminal}
+                onBlur={(e) => updateStage(index, { transitions: parseList(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={stage.terminal}
+              onCheckedChange={(checked) => updateStage(index, { terminal: checked, transitions: checked ? [] : stage.transitions })}
+            />
+            <span className="text-sm">Ends the call</span>
+          </div>
+        </div>
+      ))}
+
+      {useCustomStages && (
+        <Button type="button" variant="outline" size="sm" onClick={addStage}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Stage
+        </Button>
+      )}
+    </div>
+  );
+}
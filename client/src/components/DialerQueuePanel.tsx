@@ -0,0 +1,123 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { useWebSocket } from '@/hooks/use-websocket';
+import { apiRequest } from '@/lib/queryClient';
+import { Pause, Play, XCircle } from 'lucide-react';
+
+interface DialerProgress {
+  campaignId: string;
+  campaignName: string;
+  status: string;
+  pending: number;
+  dialing: number;
+  dialed: number;
+  failed: number;
+  cancelled: number;
+  activeCalls: number;
+}
+
+export function DialerQueuePanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { lastMessage } = useWebSocket();
+
+  const { data: queues = [] } = useQuery<DialerProgress[]>({
+    queryKey: ['/api/dialer/campaigns'],
+  });
+
+  // Live progress arrives over /ws as the dialer works through the queue
+  useEffect(() => {
+    if (lastMessage?.type !== 'dialer_progress') return;
+    const progress = lastMessage.progress as DialerProgress;
+    queryClient.setQueryData<DialerProgress[]>(['/api/dialer/campaigns'], (current = []) => {
+      const others = current.filter((queue) => queue.campaignId !== progress.campaignId);
+      return progress.status === 'running' || progress.status === 'paused' ? [...others, progress] : others;
+    });
+  }, [lastMessage, queryClient]);
+
+  const controlMutation = useMutation({
+    mutationFn: ({ campaignId, action }: { campaignId: string; action: 'pause' | 'resume' | 'cancel' }) =>
+      apiRequest('POST', `/api/campaigns/${campaignId}/dialer/${action}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/dialer/campaigns'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Failed to update dialer', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (queues.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dialer Queue</CardTitle>
+        <CardDescription>Campaign calls waiting to be dialed</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {queues.map((queue) => {
+          const total = queue.pending + queue.dialing + queue.dialed + queue.failed;
+          const done = queue.dialed + queue.failed;
+          return (
+            <div key={queue.campaignId} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{queue.campaignName}</span>
+                  <Badge variant={queue.status === 'paused' ? 'secondary' : 'default'}>{queue.status}</Badge>
+                </div>
+                <div className="flex items-center gap-2">
+                  {queue.status === 'paused' ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={controlMutation.isPending}
+                      onClick={() => controlMutation.mutate({ campaignId: queue.campaignId, action: 'resume' })}
+                    >
+                      <Play className="h-4 w-4 mr-1" />
+                      Resume
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={controlMutation.isPending}
+                      onClick={() => controlMutation.mutate({ campaignId: queue.campaignId, action: 'pause' })}
+                    >
+                      <Pause className="h-4 w-4 mr-1" />
+                      Pause
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    disabled={controlMutation.isPending}
+                    onClick={() => {
+                      if (confirm('Cancel all queued calls for this campaign? Calls in progress will finish normally.')) {
+                        controlMutation.mutate({ campaignId: queue.campaignId, action: 'cancel' });
+                      }
+                    }}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+              <Progress value={total > 0 ? (done / total) * 100 : 0} className="h-2" />
+              <div className="flex gap-4 text-sm text-muted-foreground">
+                <span>{queue.pending} queued</span>
+                <span>{queue.activeCalls} in progress</span>
+                <span>{queue.dialed} dialed</span>
+                {queue.failed > 0 && <span className="text-red-500">{queue.failed} failed</span>}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2 } from 'lucide-react';
+import type { DispositionCode } from '@shared/schema';
+
+interface DispositionCodesEditorProps {
+  codes: DispositionCode[] | null;
+  onChange: (codes: DispositionCode[] | null) => void;
+}
+
+// Same codes the server falls back to when a campaign has none
+const DEFAULT_CODES: DispositionCode[] = [
+  { code: 'interested', description: 'Wants to go ahead, or asked for details, pricing or a demo' },
+  { code: 'information_shared', description: 'Shared contact details for a follow-up but made no decision' },
+  { code: 'callback_requested', description: 'Asked to be called back at another time' },
+  { code: 'not_interested', description: 'Declined the offer' },
+  { code: 'opted_out', description: 'Asked never to be contacted again' },
+  { code: 'wrong_contact', description: 'Not the owner or decision maker, or a wrong number' },
+  { code: 'transferred', description: 'Was handed to a human team member' },
+  { code: 'no_conversation', description: 'Hung up or said nothing meaningful' },
+];
+
+export function DispositionCodesEditor({ codes, onChange }: DispositionCodesEditorProps) {
+  const useCustomCodes = !!codes && codes.length > 0;
+
+  const updateCode = (index: number, changes: Partial<DispositionCode>) => {
+    onChange(codes!.map((code, i) => (i === index ? { ...code, ...changes } : code)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Call Outcomes</Label>
+          <p className="text-xs text-muted-foreground">
+            {useCustomCodes
+              ? 'After each call the analysis picks the outcome whose description fits best.'
+              : 'Using the default outcomes: interested, information shared, callback requested, not interested, opted out, wrong contact, transferred, no conversation.'}
+          </p>
+        </div>
+        <Switch
+          checked={useCustomCodes}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_CODES : null)}
+        />
+      </div>
+
+      {useCustomCodes && codes!.map((code, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <Input
+            value={code.code}
+            placeholder="outcome_code"
+            className="w-44 font-mono text-xs"
+            onChange={(e) => updateCode(index, { code: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_') })}
+          />
+          <Input
+            value={code.description}
+            placeholder="When this outcome applies"
+            onChange={(e) => updateCode(index, { description: e.target.value })}
+          />
+          <Button type="button" variant="ghost" size="sm" disabled={codes!.length === 1} onClick={() => onChange(codes!.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {useCustomCodes && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...codes!, { code: `outcome_${codes!.length + 1}`, description: '' }])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Outcome
+        </Button>
+      )}
+    </div>
+  );
+}
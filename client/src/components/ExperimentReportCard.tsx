@@ -0,0 +1,82 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ExperimentReport, VariantComparison } from '@shared/schema';
+
+const toPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+// Difference against the control, flagged once it's significant
+function Comparison({ comparison, format }: { comparison?: VariantComparison; format: (difference: number) => string }) {
+  if (!comparison) return <span className="text-xs text-muted-foreground">control</span>;
+
+  const sign = comparison.difference > 0 ? '+' : '';
+  return (
+    <span className="flex items-center gap-1 text-xs">
+      <span className={comparison.difference > 0 ? 'text-green-600' : comparison.difference < 0 ? 'text-red-600' : 'text-muted-foreground'}>
+        {sign}{format(comparison.difference)}
+      </span>
+      {comparison.pValue === null
+        ? <Badge variant="outline">too few calls</Badge>
+        : comparison.significant
+          ? <Badge className="bg-green-100 text-green-800">p={comparison.pValue.toFixed(3)}</Badge>
+          : <Badge variant="secondary">p={comparison.pValue.toFixed(2)}</Badge>}
+    </span>
+  );
+}
+
+export function ExperimentReportCard({ campaignId }: { campaignId: string }) {
+  const { data: report } = useQuery<ExperimentReport>({ queryKey: ['/api/campaigns', campaignId, 'experiment'], queryFn: () => fetch(`/api/campaigns/${campaignId}/experiment`).then(res => res.json()) });
+
+  if (!report || report.variants.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>A/B Test</CardTitle>
+        <CardDescription>
+          Rates are per answered call. Each variant is compared with the control; differences are significant at p &lt; 0.05.
+          {report.unassignedCalls > 0 && ` ${report.unassignedCalls} calls ran before the test and are left out.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variant</TableHead>
+              <TableHead>Calls</TableHead>
+              <TableHead>Answered</TableHead>
+              <TableHead>Conversation Rate</TableHead>
+              <TableHead>Capture Rate</TableHead>
+              <TableHead>Avg. Score</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.variants.map((variant) => (
+              <TableRow key={variant.variantId}>
+                <TableCell>
+                  <div className="font-medium">{variant.name}</div>
+                  <div className="text-xs text-muted-foreground">weight {variant.weight}</div>
+                </TableCell>
+                <TableCell>{variant.calls}</TableCell>
+                <TableCell>{variant.answered}</TableCell>
+                <TableCell>
+                  <div>{toPercent(variant.conversationRate)}</div>
+                  <Comparison comparison={variant.vsControl?.conversationRate} format={toPercent} />
+                </TableCell>
+                <TableCell>
+                  <div>{toPercent(variant.captureRate)}</div>
+                  <Comparison comparison={variant.vsControl?.captureRate} format={toPercent} />
+                </TableCell>
+                <TableCell>
+                  <div>{variant.averageSuccessScore ?? '-'}</div>
+                  <Comparison comparison={variant.vsControl?.averageSuccessScore} format={(difference) => difference.toFixed(1)} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
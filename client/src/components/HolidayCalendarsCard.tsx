@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Trash2 } from 'lucide-react';
+import type { Holiday, HolidayCalendar } from '@shared/schema';
+
+// "2026-01-26 Republic Day" per line
+const parseHolidays = (text: string): Holiday[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [date, ...name] = line.split(/\s+/);
+      return { date, name: name.join(' ') };
+    });
+
+export function HolidayCalendarsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [holidaysText, setHolidaysText] = useState('');
+
+  const { data: calendars = [] } = useQuery<HolidayCalendar[]>({
+    queryKey: ['/api/holiday-calendars'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/holiday-calendars', { name, holidays: parseHolidays(holidaysText) }),
+    onSuccess: () => {
+      toast({ title: 'Holiday calendar saved' });
+      setName('');
+      setHolidaysText('');
+      queryClient.invalidateQueries({ queryKey: ['/api/holiday-calendars'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Failed to save holiday calendar', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/holiday-calendars/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/holiday-calendars'] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Holiday Calendars</CardTitle>
+        <CardDescription>
+          Campaigns attached to a calendar don't call or send on these dates, in the contact's local time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {calendars.map((calendar) => (
+          <div key={calendar.id} className="flex items-center justify-between border rounded-md p-3">
+            <div>
+              <p className="font-medium">{calendar.name}</p>
+              <p className="text-sm text-gray-500">
+                {(calendar.holidays as Holiday[]).map((holiday) => holiday.name || holiday.date).join(', ') || 'No dates'}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                if (confirm(`Delete "${calendar.name}"? Campaigns using it will no longer skip these dates.`)) {
+                  deleteMutation.mutate(calendar.id);
+                }
+              }}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label htmlFor="calendar-name">New calendar</Label>
+          <Input id="calendar-name" value={name} placeholder="India public holidays 2026" onChange={(e) => setName(e.target.value)} />
+          <Textarea
+            value={holidaysText}
+            rows={5}
+            placeholder={'2026-01-26 Republic Day\n2026-08-15 Independence Day\n2026-10-02 Gandhi Jayanti'}
+            onChange={(e) => setHolidaysText(e.target.value)}
+          />
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!name || !holidaysText.trim() || createMutation.isPending}
+          >
+            {createMutation.isPending ? 'Saving...' : 'Save Calendar'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Plus, Trash2 } from 'lucide-react';
+import type { Campaign, InboundRouting } from '@shared/schema';
+
+const NO_DEFAULT = 'none';
+
+export function InboundRoutingCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [routing, setRouting] = useState<InboundRouting | null>(null);
+
+  const { data: saved } = useQuery<InboundRouting>({ queryKey: ['/api/inbound-routing'] });
+  const { data: campaigns = [] } = useQuery<Campaign[]>({ queryKey: ['/api/campaigns'] });
+
+  useEffect(() => {
+    if (saved) setRouting(saved);
+  }, [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest('PUT', '/api/inbound-routing', routing),
+    onSuccess: () => {
+      toast({ title: 'Inbound routing saved' });
+      queryClient.invalidateQueries({ queryKey: ['/api/inbound-routing'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Failed to save inbound routing', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!routing) return null;
+
+  const update = (changes: Partial<InboundRouting>) => setRouting({ ...routing, ...changes });
+  const updateRoute = (index: number, changes: Partial<InboundRouting['numberRoutes'][number]>) =>
+    update({ numberRoutes: routing.numberRoutes.map((route, i) => (i === index ? { ...route, ...changes } : route)) });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Inbound Calls</CardTitle>
+        <CardDescription>
+          Which campaign's agent answers when someone calls your Twilio numbers. Point each number's voice webhook at /api/calls/webhook/inbound.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Number routes</Label>
+          {routing.numberRoutes.map((route, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                className="w-48"
+                value={route.number}
+                placeholder="+919876543210"
+                onChange={(e) => updateRoute(index, { number: e.target.value })}
+              />
+              <Select value={route.campaignId} onValueChange={(value) => updateRoute(index, { campaignId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Campaign" />
+                </SelectTrigger>
+                <SelectContent>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ numberRoutes: routing.numberRoutes.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ numberRoutes: [...routing.numberRoutes, { number: '', campaignId: '' }] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Number
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Route returning callers to their last campaign</Label>
+            <p className="text-sm text-gray-500">Used when the dialled number has no route of its own</p>
+          </div>
+          <Switch
+            checked={routing.routeToLastCampaign}
+            onCheckedChange={(checked) => update({ routeToLastCampaign: checked })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label>Default campaign</Label>
+          <Select
+            value={routing.defaultCampaignId || NO_DEFAULT}
+            onValueChange={(value) => update({ defaultCampaignId: value === NO_DEFAULT ? null : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_DEFAULT}>None - hang up on unrouted calls</SelectItem>
+              {campaigns.map((campaign) => (
+                <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={routing.numberRoutes.some((route) => !route.number.trim() || !route.campaignId) || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Routing'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { LlmConfig, LlmModel, LlmProviderName } from '@shared/schema';
+
+interface LlmProviderInfo {
+  name: LlmProviderName;
+  label: string;
+  configured: boolean;
+}
+
+interface LlmConfigEditorProps {
+  model: string;
+  value: LlmConfig | null;
+  onModelChange: (model: string) => void;
+  onChange: (config: LlmConfig | null) => void;
+}
+
+const DEFAULT_LLM_CONFIG: LlmConfig = { provider: 'openai', temperature: 0.6, maxTokens: 100, timeoutMs: 8000, fallbacks: [] };
+
+const MODEL_PLACEHOLDERS: Record<LlmProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  local: 'llama3.1:8b',
+};
+
+function ProviderSelect({ providers, value, onChange }: {
+  providers: LlmProviderInfo[];
+  value: LlmProviderName;
+  onChange: (provider: LlmProviderName) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(provider) => onChange(provider as LlmProviderName)}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select provider" />
+      </SelectTrigger>
+      <SelectContent>
+        {providers.map((provider) => (
+          <SelectItem key={provider.name} value={provider.name}>
+            {provider.label}{provider.configured ? '' : ' (not configured)'}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function LlmConfigEditor({ model, value, onModelChange, onChange }: LlmConfigEditorProps) {
+  const { data: providers = [] } = useQuery<LlmProviderInfo[]>({ queryKey: ['/api/llm/providers'] });
+
+  const updateFallback = (index: number, changes: Partial<LlmModel>) => {
+    onChange({ ...value!, fallbacks: value!.fallbacks.map((fallback, i) => (i === index ? { ...fallback, ...changes } : fallback)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Language Model</Label>
+          <p className="text-xs text-muted-foreground">
+            {value
+              ? 'Which model writes the agent\'s replies, and the models it falls back to when that one errors or is slow.'
+              : 'OpenAI, with short replies and no fallback model.'}
+          </p>
+        </div>
+        <Switch checked={!!value} onCheckedChange={(checked) => onChange(checked ? DEFAULT_LLM_CONFIG : null)} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {value && (
+          <div className="space-y-1">
+            <Label className="text-xs">Provider</Label>
+            <ProviderSelect providers={providers} value={value.provider} onChange={(provider) => onChange({ ...value, provider })} />
+          </div>
+        )}
+        <div className={value ? 'space-y-1' : 'space-y-1 col-span-2'}>
+          <Label className="text-xs">Model</Label>
+          <Input value={model} placeholder={MODEL_PLACEHOLDERS[value?.provider || 'openai']} onChange={(e) => onModelChange(e.target.value)} />
+        </div>
+
+        {value && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">Temperature (0-2)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={value.temperature}
+                onChange={(e) => onChange({ ...value, temperature: Math.min(2, Math.max(0, parseFloat(e.target.value) || 0)) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Max reply tokens</Label>
+              <Input
+                type="number"
+                min={16}
+                max={4000}
+                value={value.maxTokens}
+                onChange={(e) => onChange({ ...value, maxTokens: Math.min(4000, Math.max(16, parseInt(e.target.value) || 16)) })}
+              />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label className="text-xs">Timeout (seconds)</Label>
+              <Input
+                type="number"
+                min={1}
+                max={60}
+                value={value.timeoutMs / 1000}
+                onChange={(e) => onChange({ ...value, timeoutMs: Math.min(60, Math.max(1, parseFloat(e.target.value) || 1)) * 1000 })}
+              />
+              <p className="text-xs text-muted-foreground">How long each model gets to answer - to start answering on streaming calls - before the next one is tried.</p>
+            </div>
+          </>
+        )}
+      </div>
+
+      {value && value.fallbacks.map((fallback, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-20 text-xs text-muted-foreground">Fallback {index + 1}</span>
+          <div className="w-56">
+            <ProviderSelect providers={providers} value={fallback.provider} onChange={(provider) => updateFallback(index, { provider })} />
+          </div>
+          <Input
+            value={fallback.model}
+            placeholder={MODEL_PLACEHOLDERS[fallback.provider]}
+            onChange={(e) => updateFallback(index, { model: e.target.value })}
+          />
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange({ ...value, fallbacks: value.fallbacks.filter((_, i) => i !== index) })}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {value && value.fallbacks.length < 3 && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, fallbacks: [...value.fallbacks, { provider: 'openai', model: MODEL_PLACEHOLDERS.openai }] })}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Fallback Model
+        </Button>
+      )}
+    </div>
+  );
+}
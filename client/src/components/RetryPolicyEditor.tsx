@@ -0,0 +1,115 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { RetryPolicy } from '@shared/schema';
+
+interface RetryPolicyEditorProps {
+  policy: RetryPolicy | null;
+  onChange: (policy: RetryPolicy | null) => void;
+}
+
+const DEFAULT_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  backoffMinutes: 30,
+  backoffMultiplier: 2,
+  retryOn: ['no-answer', 'busy', 'failed'],
+  retryWindowHours: 48,
+};
+
+const OUTCOMES: Array<{ value: RetryPolicy['retryOn'][number]; label: string }> = [
+  { value: 'no-answer', label: 'No answer' },
+  { value: 'busy', label: 'Busy' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'voicemail', label: 'Voicemail' },
+];
+
+export function RetryPolicyEditor({ policy, onChange }: RetryPolicyEditorProps) {
+  const update = (changes: Partial<RetryPolicy>) => onChange({ ...policy!, ...changes });
+
+  const toggleOutcome = (outcome: RetryPolicy['retryOn'][number], checked: boolean) => {
+    const retryOn = checked
+      ? [...policy!.retryOn, outcome]
+      : policy!.retryOn.filter((value) => value !== outcome);
+    if (retryOn.length > 0) update({ retryOn });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Automatic Redials</Label>
+          <p className="text-xs text-muted-foreground">
+            {policy
+              ? `Up to ${policy.maxAttempts} attempts within ${policy.retryWindowHours} hours of the first call.`
+              : 'Contacts who don\'t pick up are not called again.'}
+          </p>
+        </div>
+        <Switch
+          checked={!!policy}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_POLICY : null)}
+        />
+      </div>
+
+      {policy && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Max attempts (including first call)</Label>
+              <Input
+                type="number"
+                min={1}
+                max={10}
+                value={policy.maxAttempts}
+                onChange={(e) => update({ maxAttempts: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Retry window (hours)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={policy.retryWindowHours}
+                onChange={(e) => update({ retryWindowHours: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">First retry after (minutes)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={policy.backoffMinutes}
+                onChange={(e) => update({ backoffMinutes: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Backoff multiplier</Label>
+              <Input
+                type="number"
+                min={1}
+                step={0.5}
+                value={policy.backoffMultiplier}
+                onChange={(e) => update({ backoffMultiplier: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Retry when the call ends with</Label>
+            <div className="flex flex-wrap gap-4">
+              {OUTCOMES.map((outcome) => (
+                <label key={outcome.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={policy.retryOn.includes(outcome.value)}
+                    onCheckedChange={(checked) => toggleOutcome(outcome.value, checked === true)}
+                  />
+                  {outcome.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
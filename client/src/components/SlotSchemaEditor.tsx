@@ -0,0 +1,107 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { SlotDefinition } from '@shared/schema';
+
+interface SlotSchemaEditorProps {
+  slots: SlotDefinition[] | null;
+  onChange: (slots: SlotDefinition[] | null) => void;
+}
+
+// Same fields the server falls back to when a campaign has no schema
+const DEFAULT_SLOTS: SlotDefinition[] = [
+  { name: 'owner_name', description: 'Name of the lab owner or manager', type: 'text', options: [] },
+  { name: 'whatsapp', description: 'WhatsApp number for follow-up messages', type: 'phone', options: [] },
+  { name: 'email', description: 'Email address for follow-up', type: 'email', options: [] },
+  { name: 'lab_name', description: 'Name of the lab', type: 'text', options: [] },
+  { name: 'city', description: 'City the lab operates in', type: 'text', options: [] },
+  { name: 'interest_level', description: 'How interested they are in partnering', type: 'enum', options: ['high', 'medium', 'low', 'none'] },
+];
+
+const SLOT_TYPES: Array<{ value: SlotDefinition['type']; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'email', label: 'Email' },
+  { value: 'number', label: 'Number' },
+  { value: 'enum', label: 'One of...' },
+];
+
+export function SlotSchemaEditor({ slots, onChange }: SlotSchemaEditorProps) {
+  const useCustomSlots = !!slots && slots.length > 0;
+
+  const updateSlot = (index: number, changes: Partial<SlotDefinition>) => {
+    onChange(slots!.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Details to Capture</Label>
+          <p className="text-xs text-muted-foreground">
+            {useCustomSlots
+              ? 'The agent records these as the caller shares them. Values are validated before they are saved.'
+              : 'Using the default fields: owner name, WhatsApp, email, lab name, city, interest level.'}
+          </p>
+        </div>
+        <Switch
+          checked={useCustomSlots}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_SLOTS : null)}
+        />
+      </div>
+
+      {useCustomSlots && slots!.map((slot, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <Input
+            value={slot.name}
+            placeholder="field_name"
+            className="w-36 font-mono text-xs"
+            onChange={(e) => updateSlot(index, { name: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_') })}
+          />
+          <Input
+            value={slot.description}
+            placeholder="What the agent should ask for"
+            onChange={(e) => updateSlot(index, { description: e.target.value })}
+          />
+          <Select value={slot.type} onValueChange={(value) => updateSlot(index, { type: value as SlotDefinition['type'] })}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SLOT_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {slot.type === 'enum' && (
+            <Input
+              key={`options-${index}-${slot.options.join(',')}`}
+              defaultValue={slot.options.join(', ')}
+              placeholder="high, medium, low"
+              className="w-40"
+              onBlur={(e) => updateSlot(index, { options: e.target.value.split(',').map(option => option.trim()).filter(Boolean) })}
+            />
+          )}
+          <Button type="button" variant="ghost" size="sm" disabled={slots!.length === 1} onClick={() => onChange(slots!.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {useCustomSlots && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...slots!, { name: `field_${slots!.length + 1}`, description: '', type: 'text', options: [] }])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Field
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { SttConfig, SttProviderName } from '@shared/schema';
+
+interface SttProviderInfo {
+  name: SttProviderName;
+  label: string;
+  configured: boolean;
+}
+
+interface SttConfigEditorProps {
+  value: SttConfig | null;
+  callMode: 'gather' | 'stream';
+  onChange: (config: SttConfig | null) => void;
+}
+
+const DEFAULT_STT_CONFIG: SttConfig = { provider: 'twilio', minConfidence: 0.4 };
+
+export function SttConfigEditor({ value, callMode, onChange }: SttConfigEditorProps) {
+  const { data: providers = [] } = useQuery<SttProviderInfo[]>({ queryKey: ['/api/stt/providers'] });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Speech Recognition</Label>
+          <p className="text-xs text-muted-foreground">
+            {value
+              ? 'How the agent hears callers, and how sure it must be before answering.'
+              : 'Twilio speech recognition in the campaign language.'}
+          </p>
+        </div>
+        <Switch checked={!!value} onCheckedChange={(checked) => onChange(checked ? DEFAULT_STT_CONFIG : null)} />
+      </div>
+
+      {value && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1 col-span-2">
+            <Label className="text-xs">Provider</Label>
+            <Select value={value.provider} onValueChange={(provider) => onChange({ ...value, provider: provider as SttProviderName, model: undefined })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select provider" />
+              </SelectTrigger>
+              <SelectContent>
+                {providers.map((provider) => (
+                  <SelectItem key={provider.name} value={provider.name}>
+                    {provider.label}{provider.configured ? '' : ' (not configured)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {callMode === 'stream' && value.provider === 'twilio' && (
+              <p className="text-xs text-muted-foreground">Streaming calls are transcribed with OpenAI Whisper.</p>
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Language (optional, e.g. en-IN)</Label>
+            <Input value={value.language || ''} onChange={(e) => onChange({ ...value, language: e.target.value || undefined })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Model (optional)</Label>
+            <Input
+              value={value.model || ''}
+              placeholder={value.provider === 'google' ? 'phone_call' : value.provider === 'twilio' ? 'experimental_conversations' : 'whisper-1'}
+              onChange={(e) => onChange({ ...value, model: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label className="text-xs">Minimum confidence (0-1)</Label>
+            <Input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={value.minConfidence}
+              onChange={(e) => onChange({ ...value, minConfidence: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })}
+            />
+            <p className="text-xs text-muted-foreground">Below this the agent asks the caller to repeat, up to twice.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useWebSocket } from '@/hooks/use-websocket';
+import { apiRequest } from '@/lib/queryClient';
+import { MessageSquareLock, PhoneForwarded, PhoneOff } from 'lucide-react';
+import type { CallEvent } from '@shared/schema';
+
+interface SupervisorControlsProps {
+  callId: string;
+  isActive: boolean;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  whisper: 'Whisper',
+  hangup: 'Hung up',
+  takeover: 'Took over',
+};
+
+// Remembered between calls so supervisors don't retype it
+const SUPERVISOR_NAME_KEY = 'supervisorName';
+
+export function SupervisorControls({ callId, isActive }: SupervisorControlsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { lastMessage } = useWebSocket();
+  const [supervisor, setSupervisor] = useState(() => localStorage.getItem(SUPERVISOR_NAME_KEY) || '');
+  const [instruction, setInstruction] = useState('');
+  const [phone, setPhone] = useState('');
+
+  const eventsKey = [`/api/calls/${callId}/events`];
+  const { data: events = [] } = useQuery<CallEvent[]>({ queryKey: eventsKey });
+
+  // Interventions by other supervisors show up without a refresh
+  useEffect(() => {
+    if (lastMessage?.type === 'call_event' && lastMessage.callId === callId) {
+      queryClient.invalidateQueries({ queryKey: eventsKey });
+    }
+  }, [lastMessage, callId, queryClient]);
+
+  useEffect(() => {
+    localStorage.setItem(SUPERVISOR_NAME_KEY, supervisor);
+  }, [supervisor]);
+
+  const actionMutation = useMutation({
+    mutationFn: ({ action, body }: { action: 'whisper' | 'hangup' | 'takeover'; body: Record<string, string> }) =>
+      apiRequest('POST', `/api/calls/${callId}/supervisor/${action}`, { supervisor: supervisor || undefined, ...body }),
+    onSuccess: (_, { action }) => {
+      toast({ title: action === 'whisper' ? 'Whisper sent to the agent' : action === 'hangup' ? 'Call ending' : 'Ringing you in' });
+      if (action === 'whisper') setInstruction('');
+      queryClient.invalidateQueries({ queryKey: eventsKey });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Supervisor action failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Supervisor</CardTitle>
+        <CardDescription>The caller never hears whispers. Every action is kept in the call's audit trail.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isActive && (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor={`supervisor-${callId}`}>Your name</Label>
+              <Input id={`supervisor-${callId}`} value={supervisor} placeholder="supervisor" onChange={(e) => setSupervisor(e.target.value)} />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor={`whisper-${callId}`}>Whisper to the agent</Label>
+              <Textarea
+                id={`whisper-${callId}`}
+                rows={2}
+                value={instruction}
+                placeholder="e.g. Offer the 20% first-month discount"
+                onChange={(e) => setInstruction(e.target.value)}
+              />
+              <Button
+                size="sm"
+                disabled={!instruction.trim() || actionMutation.isPending}
+                onClick={() => actionMutation.mutate({ action: 'whisper', body: { instruction } })}
+              >
+                <MessageSquareLock className="w-4 h-4 mr-2" />
+                Whisper
+              </Button>
+            </div>
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor={`takeover-${callId}`}>Take over on</Label>
+                <Input id={`takeover-${callId}`} value={phone} placeholder="+919876543210" onChange={(e) => setPhone(e.target.value)} />
+              </div>
+              <Button
+                variant="outline"
+                disabled={!phone.trim() || actionMutation.isPending}
+                onClick={() => actionMutation.mutate({ action: 'takeover', body: { phone: phone.trim() } })}
+              >
+                <PhoneForwarded className="w-4 h-4 mr-2" />
+                Take Over
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={actionMutation.isPending}
+                onClick={() => {
+                  if (confirm('End this call with a goodbye?')) actionMutation.mutate({ action: 'hangup', body: {} });
+                }}
+              >
+                <PhoneOff className="w-4 h-4 mr-2" />
+                Hang Up
+              </Button>
+            </div>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Audit trail</h4>
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No supervisor actions on this call.</p>
+          ) : (
+            events.map((event) => (
+              <div key={event.id} className="flex items-start gap-2 text-sm">
+                <Badge variant="outline">{EVENT_LABELS[event.type] || event.type}</Badge>
+                <div className="flex-1">
+                  <span className="font-medium">{event.actor}</span>
+                  {event.detail && <span className="text-gray-600"> - {event.detail}</span>}
+                </div>
+                <span className="text-xs text-gray-500">{new Date(event.createdAt).toLocaleTimeString()}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ConversationStage, TransferPolicy } from '@shared/schema';
+
+interface TransferPolicyEditorProps {
+  policy: TransferPolicy | null;
+  stages: ConversationStage[] | null;
+  onChange: (policy: TransferPolicy | null) => void;
+}
+
+const DEFAULT_POLICY: TransferPolicy = {
+  targets: [],
+  ringStrategy: 'simultaneous',
+  ringTimeoutSeconds: 20,
+  onCallerRequest: true,
+  onHighIntent: false,
+  onStages: [],
+  announcement: 'Let me connect you with one of our team members now. Please stay on the line.',
+  fallback: 'resume',
+};
+
+// One number per line or comma separated
+const parseTargets = (text: string) =>
+  text
+    .split(/[\n,]/)
+    .map((number) => number.trim())
+    .filter(Boolean);
+
+export function TransferPolicyEditor({ policy, stages, onChange }: TransferPolicyEditorProps) {
+  const update = (changes: Partial<TransferPolicy>) => onChange({ ...policy!, ...changes });
+
+  const toggleStage = (stageId: string, checked: boolean) => {
+    update({
+      onStages: checked
+        ? [...policy!.onStages, stageId]
+        : policy!.onStages.filter((id) => id !== stageId),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Transfer to a Rep</Label>
+          <p className="text-xs text-muted-foreground">
+            {policy
+              ? 'Hot prospects are bridged to your reps, who hear a short summary of the call before connecting.'
+              : 'Every call stays with the AI agent until it ends.'}
+          </p>
+        </div>
+        <Switch
+          checked={!!policy}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_POLICY : null)}
+        />
+      </div>
+
+      {policy && (
+        <>
+          <div className="space-y-1">
+            <Label className="text-xs">Rep numbers (E.164, one per line)</Label>
+            <Textarea
+              rows={2}
+              value={policy.targets.join('\n')}
+              placeholder={'+919876543210\n+919812345678'}
+              onChange={(e) => update({ targets: parseTargets(e.target.value) })}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Ring</Label>
+              <Select
+                value={policy.ringStrategy}
+                onValueChange={(value) => update({ ringStrategy: value as TransferPolicy['ringStrategy'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="simultaneous">All reps at once</SelectItem>
+                  <SelectItem value="sequential">One rep at a time</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Ring timeout (seconds)</Label>
+              <Input
+                type="number"
+                min={5}
+                max={60}
+                value={policy.ringTimeoutSeconds}
+                onChange={(e) => update({ ringTimeoutSeconds: Math.min(60, Math.max(5, parseInt(e.target.value) || 20)) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">If nobody answers</Label>
+              <Select
+                value={policy.fallback}
+                onValueChange={(value) => update({ fallback: value as TransferPolicy['fallback'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="resume">Agent carries on</SelectItem>
+                  <SelectItem value="hangup">Promise a callback and hang up</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Transfer when</Label>
+            <div className="flex flex-wrap gap-4">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={policy.onCallerRequest}
+                  onCheckedChange={(checked) => update({ onCallerRequest: checked === true })}
+                />
+                Caller asks for a person
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={policy.onHighIntent}
+                  onCheckedChange={(checked) => update({ onHighIntent: checked === true })}
+                />
+                Caller shows buying intent
+              </label>
+              {(stages || []).filter((stage) => !stage.terminal).map((stage) => (
+                <label key={stage.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={policy.onStages.includes(stage.id)}
+                    onCheckedChange={(checked) => toggleStage(stage.id, checked === true)}
+                  />
+                  Reaches "{stage.name}"
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Handoff line (spoken to the caller)</Label>
+            <Input value={policy.announcement} onChange={(e) => update({ announcement: e.target.value })} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Trash2 } from 'lucide-react';
+
+interface TtsCacheStats {
+  backend: string;
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+  maxAgeDays: number;
+  hits: number;
+  misses: number;
+  renders: number;
+  hitRate: number;
+}
+
+const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+export function TtsCacheCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: stats } = useQuery<TtsCacheStats>({ queryKey: ['/api/tts-cache/stats'], refetchInterval: 30000 });
+
+  const evictMutation = useMutation({
+    mutationFn: async (all: boolean) => {
+      const response = await apiRequest('POST', '/api/tts-cache/evict', { all });
+      return response.json();
+    },
+    onSuccess: (result: { removed: number; freedBytes: number }) => {
+      toast({ title: 'TTS cache evicted', description: `Removed ${result.removed} files (${toMb(result.freedBytes)} MB)` });
+      queryClient.invalidateQueries({ queryKey: ['/api/tts-cache/stats'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Failed to evict TTS cache', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!stats) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audio Cache</CardTitle>
+        <CardDescription>
+          Rendered speech is reused for repeated lines, so intros and fixed phrases play without waiting on ElevenLabs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <div className="text-gray-500">Storage</div>
+            <div className="font-medium">{stats.backend}</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Files</div>
+            <div className="font-medium">{stats.entries}</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Size</div>
+            <div className="font-medium">{toMb(stats.totalBytes)} / {toMb(stats.maxBytes)} MB</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Hit rate</div>
+            <div className="font-medium">
+              {Math.round(stats.hitRate * 100)}% ({stats.hits} hits, {stats.renders} renders)
+            </div>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500">Files unused for {stats.maxAgeDays} days are removed automatically.</p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => evictMutation.mutate(false)} disabled={evictMutation.isPending}>
+            Evict Now
+          </Button>
+          <Button
+            variant="outline"
+            disabled={evictMutation.isPending}
+            onClick={() => {
+              if (confirm('Delete all cached audio? Lines will be rendered again on their next use.')) {
+                evictMutation.mutate(true);
+              }
+            }}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear Cache
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
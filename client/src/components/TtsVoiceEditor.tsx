@@ -0,0 +1,144 @@
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { TtsProviderName, TtsVoice } from '@shared/schema';
+
+interface TtsProviderInfo {
+  name: TtsProviderName;
+  label: string;
+  configured: boolean;
+  canStream: boolean;
+  defaultVoice: string;
+  voices: Array<{ id: string; name: string }>;
+}
+
+interface TtsVoiceEditorProps {
+  provider: TtsProviderName;
+  voice: string | null; // Primary voice for twilio / local; ElevenLabs uses the Voice Agent picker
+  fallback: TtsVoice | null;
+  callMode: 'gather' | 'stream';
+  onProviderChange: (provider: TtsProviderName, voice: string | null) => void;
+  onVoiceChange: (voice: string) => void;
+  onFallbackChange: (fallback: TtsVoice | null) => void;
+}
+
+// Pick from the provider's suggested voices, or type any voice it accepts
+function VoicePicker({ provider, value, onChange }: {
+  provider?: TtsProviderInfo;
+  value: string;
+  onChange: (voice: string) => void;
+}) {
+  if (!provider || provider.voices.length === 0) {
+    return <Input value={value} placeholder={provider?.defaultVoice} onChange={(e) => onChange(e.target.value)} />;
+  }
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select voice" />
+      </SelectTrigger>
+      <SelectContent>
+        {provider.voices.map((voice) => (
+          <SelectItem key={voice.id} value={voice.id}>{voice.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function TtsVoiceEditor({
+  provider,
+  voice,
+  fallback,
+  callMode,
+  onProviderChange,
+  onVoiceChange,
+  onFallbackChange,
+}: TtsVoiceEditorProps) {
+  const { data: providers = [] } = useQuery<TtsProviderInfo[]>({ queryKey: ['/api/tts/providers'] });
+  const find = (name?: TtsProviderName) => providers.find((candidate) => candidate.name === name);
+  const primary = find(provider);
+  const backup = find(fallback?.provider);
+
+  const providerSelect = (value: TtsProviderName, onChange: (name: TtsProviderName) => void) => (
+    <Select value={value} onValueChange={(name) => onChange(name as TtsProviderName)}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select engine" />
+      </SelectTrigger>
+      <SelectContent>
+        {providers.map((candidate) => (
+          <SelectItem key={candidate.name} value={candidate.name}>
+            {candidate.label}{candidate.configured ? '' : ' (not configured)'}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label>Voice Engine</Label>
+        {providerSelect(provider, (name) => onProviderChange(name, name === 'elevenlabs' ? null : find(name)?.defaultVoice || null))}
+        {provider !== 'elevenlabs' && (
+          <VoicePicker provider={primary} value={voice || ''} onChange={onVoiceChange} />
+        )}
+        {callMode === 'stream' && primary && !primary.canStream && (
+          <p className="text-xs text-red-500">Twilio voices can't speak into a media stream - use turn-based call mode.</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Backup Voice</Label>
+          <p className="text-xs text-muted-foreground">
+            {fallback
+              ? 'If the voice engine above fails, calls carry on in this voice.'
+              : 'If the voice engine fails, the call ends with an apology.'}
+          </p>
+        </div>
+        <Switch
+          checked={!!fallback}
+          onCheckedChange={(checked) =>
+            onFallbackChange(checked ? { provider: 'twilio', voice: find('twilio')?.defaultVoice || 'Polly.Aditi' } : null)
+          }
+        />
+      </div>
+
+      {fallback && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Engine</Label>
+            {providerSelect(fallback.provider, (name) =>
+              onFallbackChange({ provider: name, voice: find(name)?.defaultVoice || '' })
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Voice</Label>
+            <VoicePicker
+              provider={backup}
+              value={fallback.voice}
+              onChange={(value) => onFallbackChange({ ...fallback, voice: value })}
+            />
+          </div>
+          {fallback.provider === 'twilio' && (
+            <div className="space-y-1 col-span-2">
+              <Label className="text-xs">Language (optional, e.g. en-IN)</Label>
+              <Input
+                value={fallback.language || ''}
+                onChange={(e) => onFallbackChange({ ...fallback, language: e.target.value || undefined })}
+              />
+              {callMode === 'stream' && (
+                <p className="text-xs text-muted-foreground">
+                  Streaming calls switch to turn-based calls to speak in a Twilio voice.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
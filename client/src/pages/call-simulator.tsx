@@ -0,0 +1,350 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Copy, FlaskConical, Plus, Trash2 } from "lucide-react";
+import type { Campaign, SimulationEnding, SimulationResult } from "@shared/schema";
+
+interface SimulatorStatus {
+  enabled: boolean;
+  stubs: boolean;
+}
+
+type TurnKind = "say" | "digits" | "silence";
+
+interface TurnDraft {
+  kind: TurnKind;
+  input: string;
+  agentReply: string;
+}
+
+const EVENT_COLORS: Record<string, string> = {
+  agent: "text-blue-700",
+  caller: "text-green-700",
+  dial: "text-purple-700",
+  note: "text-orange-700",
+};
+
+const ENDED_BY_LABELS: Record<SimulationEnding, string> = {
+  agent: "Agent hung up",
+  caller: "Caller hung up",
+  supervisor: "Supervisor ended the call",
+  error: "Simulation error",
+};
+
+export default function CallSimulatorPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [campaignId, setCampaignId] = useState("");
+  const [direction, setDirection] = useState<"outbound" | "inbound">("outbound");
+  const [phoneNumber, setPhoneNumber] = useState("+15005550006");
+  const [answeredBy, setAnsweredBy] = useState("human");
+  const [dialStatus, setDialStatus] = useState("no-answer");
+  const [turns, setTurns] = useState<TurnDraft[]>([{ kind: "say", input: "", agentReply: "" }]);
+  const [agentSaid, setAgentSaid] = useState("");
+  const [endedBy, setEndedBy] = useState<SimulationEnding | "any">("any");
+  const [result, setResult] = useState<SimulationResult | null>(null);
+
+  const { data: status } = useQuery<SimulatorStatus>({ queryKey: ["/api/simulator"] });
+  const { data: campaigns = [] } = useQuery<Campaign[]>({ queryKey: ["/api/campaigns"] });
+
+  // The script as the API and `npm run simulate` take it
+  const buildScript = () => ({
+    campaignId: campaignId || undefined,
+    direction,
+    phoneNumber,
+    answeredBy,
+    dialStatus,
+    turns: turns.map((turn) => ({
+      ...(turn.kind === "say" && turn.input.trim() ? { say: turn.input.trim() } : {}),
+      ...(turn.kind === "digits" && turn.input.trim() ? { digits: turn.input.trim() } : {}),
+      ...(turn.agentReply.trim() ? { agentReply: turn.agentReply.trim() } : {}),
+    })),
+    expect: {
+      agentSaid: agentSaid.split("\n").map((line) => line.trim()).filter(Boolean),
+      ...(endedBy !== "any" ? { endedBy } : {}),
+    },
+  });
+
+  const stubsMutation = useMutation({
+    mutationFn: (enabled: boolean) => apiRequest("PUT", "/api/simulator/stubs", { enabled }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/simulator"] }),
+    onError: (error: any) => {
+      toast({ title: "Failed to switch stubs", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/simulator/calls", buildScript())).json() as Promise<SimulationResult>,
+    onSuccess: (data) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/calls"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Simulation failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateTurn = (index: number, changes: Partial<TurnDraft>) => {
+    setTurns(turns.map((turn, i) => (i === index ? { ...turn, ...changes } : turn)));
+  };
+
+  const copyScript = async () => {
+    await navigator.clipboard.writeText(JSON.stringify(buildScript(), null, 2));
+    toast({ title: "Script copied", description: "Save it to a file and run it with npm run simulate" });
+  };
+
+  if (status && !status.enabled) {
+    return (
+      <div className="container mx-auto p-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Call Simulator</h1>
+        <p className="text-gray-600 dark:text-gray-300">
+          The simulator is off in production. Set CALL_SIMULATOR=true on the server to use it.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+          Call Simulator
+        </h1>
+        <p className="text-gray-600 dark:text-gray-300">
+          Run a scripted caller through the real Twilio webhooks without placing a phone call
+        </p>
+      </div>
+
+      <div className="grid gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Call</CardTitle>
+              <CardDescription>How the simulated call reaches the agent</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label>Stub model and voices</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Replies come from the script, lines are spoken by a stub voice - affects every call on this server
+                  </p>
+                </div>
+                <Switch
+                  checked={!!status?.stubs}
+                  disabled={stubsMutation.isPending}
+                  onCheckedChange={(checked) => stubsMutation.mutate(checked)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Direction</Label>
+                  <Select value={direction} onValueChange={(value) => setDirection(value as "outbound" | "inbound")}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="outbound">Outbound (we dial)</SelectItem>
+                      <SelectItem value="inbound">Inbound (they call us)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Campaign</Label>
+                  <Select value={campaignId} onValueChange={setCampaignId} disabled={direction === "inbound"}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={direction === "inbound" ? "Routed as a real call" : "Pick a campaign"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {campaigns.map((campaign) => (
+                        <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="simulator-phone">Caller number</Label>
+                  <Input id="simulator-phone" value={phoneNumber} onChange={(e) => setPhoneNumber(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Answered by</Label>
+                  <Select value={answeredBy} onValueChange={setAnsweredBy} disabled={direction === "inbound"}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="human">Human</SelectItem>
+                      <SelectItem value="machine_end_beep">Answering machine</SelectItem>
+                      <SelectItem value="fax">Fax</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Transfers</Label>
+                  <Select value={dialStatus} onValueChange={setDialStatus}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="completed">Rep answers</SelectItem>
+                      <SelectItem value="no-answer">No answer</SelectItem>
+                      <SelectItem value="busy">Busy</SelectItem>
+                      <SelectItem value="failed">Failed</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Expectations</CardTitle>
+              <CardDescription>Checked once the call has ended</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="simulator-agent-said">The agent says (one phrase per line)</Label>
+                <Textarea
+                  id="simulator-agent-said"
+                  rows={4}
+                  value={agentSaid}
+                  placeholder="won't call you again"
+                  onChange={(e) => setAgentSaid(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Call ended by</Label>
+                <Select value={endedBy} onValueChange={(value) => setEndedBy(value as SimulationEnding | "any")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Anyone</SelectItem>
+                    <SelectItem value="agent">Agent</SelectItem>
+                    <SelectItem value="caller">Caller</SelectItem>
+                    <SelectItem value="supervisor">Supervisor</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Caller Script</CardTitle>
+            <CardDescription>
+              One entry per time the agent listens - the caller hangs up once the script runs out
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {turns.map((turn, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <Select value={turn.kind} onValueChange={(value) => updateTurn(index, { kind: value as TurnKind })}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="say">Says</SelectItem>
+                    <SelectItem value="digits">Presses</SelectItem>
+                    <SelectItem value="silence">Stays silent</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={turn.input}
+                  disabled={turn.kind === "silence"}
+                  placeholder={turn.kind === "digits" ? "1" : "What the caller says"}
+                  onChange={(e) => updateTurn(index, { input: e.target.value })}
+                />
+                <Input
+                  value={turn.agentReply}
+                  disabled={!status?.stubs || turn.kind === "silence"}
+                  placeholder={status?.stubs ? "Stubbed agent reply (optional)" : "Agent replies with the live model"}
+                  onChange={(e) => updateTurn(index, { agentReply: e.target.value })}
+                />
+                <Button type="button" variant="ghost" size="sm" onClick={() => setTurns(turns.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setTurns([...turns, { kind: "say", input: "", agentReply: "" }])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Turn
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={copyScript}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy as JSON
+              </Button>
+              <Button
+                className="ml-auto"
+                onClick={() => runMutation.mutate()}
+                disabled={(direction === "outbound" && !campaignId) || runMutation.isPending}
+              >
+                <FlaskConical className="h-4 w-4 mr-2" />
+                {runMutation.isPending ? "Running..." : "Run Simulation"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {result && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <CardTitle>Result</CardTitle>
+                <Badge variant={result.passed ? "default" : "destructive"}>{result.passed ? "Passed" : "Failed"}</Badge>
+                <Badge variant="outline">{ENDED_BY_LABELS[result.endedBy]}</Badge>
+              </div>
+              <CardDescription>
+                Call {result.callId ?? "not created"} ({result.callSid})
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {result.checks.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {result.checks.map((check, index) => (
+                    <li key={index} className={check.passed ? "text-green-700" : "text-red-600"}>
+                      {check.passed ? "✓" : "✗"} {check.expectation}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="rounded-md border bg-muted/30 p-3 font-mono text-xs space-y-1 max-h-96 overflow-y-auto">
+                {result.events.map((event, index) => (
+                  <div key={index} className={EVENT_COLORS[event.kind] || "text-gray-500"}>
+                    <span className="inline-block w-16 text-right mr-2 text-gray-400">{event.at}ms</span>
+                    <span className="inline-block w-16">{event.kind}</span>
+                    <span className="break-all">{event.detail}</span>
+                  </div>
+                ))}
+              </div>
+              {result.transcript.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  <h4 className="font-medium">Transcript</h4>
+                  {result.transcript.map((line) => (
+                    <p key={line.id}>
+                      <span className="font-medium">{line.speaker === "ai_agent" ? "Agent" : "Caller"}:</span> {line.transcript}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Phone, TrendingUp, Clock, Target, Download, Filter, MessageSquare, Play } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { CallTranscription } from "@/components/CallTranscription";
+import { CallAnalysisSummary } from "@/components/CallAnalysisSummary";
 import type { Call, CallRecording } from "@shared/schema";
 
 export default function CallsAnalyticsPage() {
@@ -39,8 +40,11 @@ export default function CallsAnalyticsPage() {
 
   const calculateSuccessRate = () => {
     if (!calls.length) return 0;
-    const completedCalls = calls.filter((call) => call.status === 'completed').length;
-    return Math.round((completedCalls / calls.length) * 100);
+    // Voicemail drops reached a machine, not a person, so they don't count towards success
+    const reachedCalls = calls.filter((call) => call.disposition !== 'voicemail' && call.disposition !== 'fax');
+    if (!reachedCalls.length) return 0;
+    const completedCalls = reachedCalls.filter((call) => call.status === 'completed').length;
+    return Math.round((completedCalls / reachedCalls.length) * 100);
   };
 
   const calculateAverageDuration = () => {
@@ -60,6 +64,13 @@ export default function CallsAnalyticsPage() {
         return;
       }
 
+      // Converted recordings redirect to a signed storage link, which the browser downloads itself
+      const recording = await checkResponse.json() as CallRecording;
+      if (recording.conversionStatus === 'completed' && !recording.purgedAt) {
+        window.location.href = `/api/calls/${callId}/recording/download`;
+        return;
+      }
+
       // Use the server proxy endpoint for downloading
       const downloadUrl = `/api/calls/${callId}/recording/download`;
       const response = await fetch(downloadUrl);
@@ -219,6 +230,20 @@ export default function CallsAnalyticsPage() {
                       <Badge variant={getStatusColor(call.status)}>
                         {call.status}
                       </Badge>
+                      {call.disposition && (
+                        <Badge variant="outline">{call.disposition}</Badge>
+                      )}
+                      {call.successScore !== null && (
+                        <Badge variant="secondary">{call.successScore}/100{call.sentiment ? ` · ${call.sentiment}` : ''}</Badge>
+                      )}
+                      {call.transferStatus && (
+                        <Badge variant={call.transferStatus === 'connected' ? 'default' : 'outline'}>
+                          {call.transferStatus === 'connected' ? `Transferred to ${call.transferredTo}` : `Transfer ${call.transferStatus}`}
+                        </Badge>
+                      )}
+                      {call.attemptNumber > 1 && (
+                        <Badge variant="secondary">Attempt {call.attemptNumber}</Badge>
+                      )}
                       {call.duration && (
                         <span className="text-sm text-gray-500">
                           {formatDuration(call.duration)}
@@ -239,7 +264,10 @@ export default function CallsAnalyticsPage() {
                           <DialogHeader>
                             <DialogTitle>Call Transcription - {call.phoneNumber}</DialogTitle>
                           </DialogHeader>
-                          <CallTranscription callId={call.id} isActive={false} />
+                          <div className="space-y-4 overflow-y-auto">
+                            <CallAnalysisSummary call={call} />
+                            <CallTranscription callId={call.id} isActive={false} />
+                          </div>
                         </DialogContent>
                       </Dialog>
                       
@@ -7,6 +7,8 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { TotalCampaignAnalytics } from '@/components/TotalCampaignAnalytics';
+import { DialerQueuePanel } from '@/components/DialerQueuePanel';
+import { CallbacksPanel } from '@/components/CallbacksPanel';
 import { 
   Calendar, 
   Users, 
@@ -143,6 +145,9 @@ export default function CampaignDashboard() {
         </div>
       </div>
 
+      {/* Campaigns currently being dialed */}
+      <DialerQueuePanel />
+
       {/* Total Campaign Analytics - Lifetime Stats */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
@@ -459,6 +464,8 @@ export default function CampaignDashboard() {
         </TabsContent>
 
         <TabsContent value="followups" className="space-y-4">
+          <CallbacksPanel />
+
           <Card>
             <CardHeader>
               <CardTitle>Upcoming Follow-ups</CardTitle>
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
@@ -14,6 +15,16 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { ConversationStagesEditor } from "@/components/ConversationStagesEditor";
+import { SlotSchemaEditor } from "@/components/SlotSchemaEditor";
+import { DispositionCodesEditor } from "@/components/DispositionCodesEditor";
+import { RetryPolicyEditor } from "@/components/RetryPolicyEditor";
+import { CallingWindowEditor } from "@/components/CallingWindowEditor";
+import { TransferPolicyEditor } from "@/components/TransferPolicyEditor";
+import { TtsVoiceEditor } from "@/components/TtsVoiceEditor";
+import { SttConfigEditor } from "@/components/SttConfigEditor";
+import { CampaignVariantsEditor } from "@/components/CampaignVariantsEditor";
+import { LlmConfigEditor } from "@/components/LlmConfigEditor";
 
 // Campaign form schema
 const campaignSchema = z.object({
@@ -23,10 +34,49 @@ const campaignSchema = z.object({
   language: z.string().min(1, "Language is required"),
   elevenlabsModel: z.string().min(1, "ElevenLabs model is required"),
   voiceId: z.string().min(1, "Voice selection is required"),
+  ttsProvider: z.enum(["elevenlabs", "twilio", "local"]),
+  ttsVoice: z.string().nullable(),
+  ttsFallback: z.any().nullable(),
+  sttConfig: z.any().nullable(),
+  openaiModel: z.string().min(1, "Model is required"),
+  llmConfig: z.any().nullable(),
+  callMode: z.enum(["gather", "stream"]),
+  conversationStages: z.array(z.any()).nullable(),
+  slotSchema: z.array(z.any()).nullable(),
+  dispositionCodes: z.array(z.any()).nullable(),
+  voicemailAction: z.enum(["hangup", "leave_message"]),
+  voicemailMessage: z.string(),
+  recordingEnabled: z.boolean(),
+  recordingConsentMessage: z.string(),
+  recordingRetentionDays: z.number().int().min(1, "At least 1 day").nullable(),
+  retryPolicy: z.any().nullable(),
+  maxConcurrentCalls: z.coerce.number().int().min(1, "At least 1 call"),
+  callsPerMinute: z.coerce.number().int().min(1, "At least 1 call per minute"),
+  callingWindow: z.any().nullable(),
+  holidayCalendarId: z.string().nullable(),
+  transferPolicy: z.any().nullable(),
+  variants: z.array(z.any()).nullable(),
 });
 
 type CampaignFormData = z.infer<typeof campaignSchema>;
 
+// As /api/elevenlabs/voices returns them
+interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category: string;
+}
+
+const CALL_MODES = [
+  { value: "gather", label: "Turn-based (Gather)" },
+  { value: "stream", label: "Streaming with barge-in (Media Streams)" },
+];
+
+const VOICEMAIL_ACTIONS = [
+  { value: "hangup", label: "Hang up" },
+  { value: "leave_message", label: "Leave a message" },
+];
+
 const ELEVENLABS_MODELS = [
   { value: "eleven_multilingual_v2", label: "Multilingual V2 (Recommended)" },
   { value: "eleven_english_v1", label: "English V1" },
@@ -38,7 +88,16 @@ const ELEVENLABS_MODELS = [
 
 const LANGUAGES = [
   { value: "en", label: "English" },
+  { value: "en-IN", label: "English (India)" },
   { value: "hi", label: "Hindi" },
+  { value: "hi-Latn", label: "Hinglish (Hindi-English, Roman script)" },
+  { value: "mr", label: "Marathi" },
+  { value: "bn", label: "Bengali" },
+  { value: "gu", label: "Gujarati" },
+  { value: "ta", label: "Tamil" },
+  { value: "te", label: "Telugu" },
+  { value: "kn", label: "Kannada" },
+  { value: "ml", label: "Malayalam" },
   { value: "es", label: "Spanish" },
   { value: "fr", label: "French" },
   { value: "de", label: "German" },
@@ -65,7 +124,7 @@ export default function CampaignManagerPage() {
   });
 
   // Fetch ElevenLabs voices
-  const { data: voices = [], isLoading: isLoadingVoices } = useQuery({
+  const { data: voices = [], isLoading: isLoadingVoices } = useQuery<ElevenLabsVoice[]>({
     queryKey: ['/api/elevenlabs/voices'],
   });
 
@@ -79,16 +138,35 @@ export default function CampaignManagerPage() {
       language: "en",
       elevenlabsModel: "eleven_multilingual_v2",
       voiceId: voices[0]?.voice_id || "21m00Tcm4TlvDq8ikWAM",
+      ttsProvider: "elevenlabs",
+      ttsVoice: null,
+      ttsFallback: null,
+      sttConfig: null,
+      openaiModel: "gpt-4o",
+      llmConfig: null,
+      callMode: "gather",
+      conversationStages: null,
+      slotSchema: null,
+      dispositionCodes: null,
+      voicemailAction: "hangup",
+      voicemailMessage: "",
+      recordingEnabled: false,
+      recordingConsentMessage: "",
+      recordingRetentionDays: null,
+      retryPolicy: null,
+      maxConcurrentCalls: 3,
+      callsPerMinute: 10,
+      callingWindow: null,
+      holidayCalendarId: null,
+      transferPolicy: null,
+      variants: null,
     },
   });
 
   // Create campaign mutation
   const createCampaignMutation = useMutation({
-    mutationFn: (data: CampaignFormData) => fetch('/api/campaigns', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data),
-    }).then(res => res.json()),
+    mutationFn: (data: CampaignFormData) =>
+      apiRequest('POST', '/api/campaigns', data).then(res => res.json()),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/campaigns'] });
       toast({
@@ -110,11 +188,7 @@ export default function CampaignManagerPage() {
   // Update campaign mutation
   const updateCampaignMutation = useMutation({
     mutationFn: ({ id, data }: { id: string; data: CampaignFormData }) => 
-      fetch(`/api/campaigns/${id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-      }).then(res => res.json()),
+      apiRequest('PUT', `/api/campaigns/${id}`, data).then(res => res.json()),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/campaigns'] });
       toast({
@@ -172,6 +246,28 @@ export default function CampaignManagerPage() {
       language: campaign.language || "en",
       elevenlabsModel: campaign.elevenlabsModel || "eleven_multilingual_v2",
       voiceId: campaign.voiceId || "21m00Tcm4TlvDq8ikWAM",
+      ttsProvider: campaign.ttsProvider || "elevenlabs",
+      ttsVoice: campaign.ttsVoice || null,
+      ttsFallback: campaign.ttsFallback || null,
+      sttConfig: campaign.sttConfig || null,
+      openaiModel: campaign.openaiModel || "gpt-4o",
+      llmConfig: campaign.llmConfig || null,
+      callMode: campaign.callMode || "gather",
+      conversationStages: campaign.conversationStages || null,
+      slotSchema: campaign.slotSchema || null,
+      dispositionCodes: campaign.dispositionCodes || null,
+      voicemailAction: campaign.voicemailAction || "hangup",
+      voicemailMessage: campaign.voicemailMessage || "",
+      recordingEnabled: campaign.recordingEnabled ?? false,
+      recordingConsentMessage: campaign.recordingConsentMessage || "",
+      recordingRetentionDays: campaign.recordingRetentionDays ?? null,
+      retryPolicy: campaign.retryPolicy || null,
+      maxConcurrentCalls: campaign.maxConcurrentCalls || 3,
+      callsPerMinute: campaign.callsPerMinute || 10,
+      callingWindow: campaign.callingWindow || null,
+      holidayCalendarId: campaign.holidayCalendarId || null,
+      transferPolicy: campaign.transferPolicy || null,
+      variants: campaign.variants || null,
     });
     setIsDialogOpen(true);
   };
@@ -225,6 +321,13 @@ export default function CampaignManagerPage() {
         });
         setShowCallDialog(false);
         setPhoneNumber("");
+      } else if (result.deferred) {
+        toast({
+          title: "Call Scheduled",
+          description: `Outside this campaign's calling hours - the call will be placed at ${new Date(result.scheduledFor).toLocaleString()}`,
+        });
+        setShowCallDialog(false);
+        setPhoneNumber("");
       } else {
         toast({
           title: "Call Failed",
@@ -382,6 +485,182 @@ export default function CampaignManagerPage() {
                   )}
                 </div>
 
+                {/* Voice engine and backup voice */}
+                <TtsVoiceEditor
+                  provider={form.watch("ttsProvider")}
+                  voice={form.watch("ttsVoice")}
+                  fallback={form.watch("ttsFallback")}
+                  callMode={form.watch("callMode")}
+                  onProviderChange={(provider, voice) => {
+                    form.setValue("ttsProvider", provider);
+                    form.setValue("ttsVoice", voice);
+                  }}
+                  onVoiceChange={(voice) => form.setValue("ttsVoice", voice)}
+                  onFallbackChange={(fallback) => form.setValue("ttsFallback", fallback)}
+                />
+
+                {/* Speech recognition provider and confidence threshold */}
+                <SttConfigEditor
+                  value={form.watch("sttConfig")}
+                  callMode={form.watch("callMode")}
+                  onChange={(config) => form.setValue("sttConfig", config)}
+                />
+
+                {/* Reply model, its settings and fallback chain */}
+                <LlmConfigEditor
+                  model={form.watch("openaiModel")}
+                  value={form.watch("llmConfig")}
+                  onModelChange={(model) => form.setValue("openaiModel", model)}
+                  onChange={(config) => form.setValue("llmConfig", config)}
+                />
+
+                {/* Call Mode Selection */}
+                <div className="space-y-2">
+                  <Label>Call Mode</Label>
+                  <Select value={form.watch("callMode")} onValueChange={(value) => form.setValue("callMode", value as CampaignFormData["callMode"])}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select call mode" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CALL_MODES.map((mode) => (
+                        <SelectItem key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Answering machine handling */}
+                <div className="space-y-2">
+                  <Label>If Voicemail Answers</Label>
+                  <Select value={form.watch("voicemailAction")} onValueChange={(value) => form.setValue("voicemailAction", value as CampaignFormData["voicemailAction"])}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select voicemail action" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VOICEMAIL_ACTIONS.map((action) => (
+                        <SelectItem key={action.value} value={action.value}>
+                          {action.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {form.watch("voicemailAction") === "leave_message" && (
+                    <Textarea
+                      {...form.register("voicemailMessage")}
+                      placeholder="Hi, this is Aavika from LabsCheck. Sorry we missed you - we'll try again soon."
+                      rows={3}
+                    />
+                  )}
+                </div>
+
+                {/* Call recording, announced before the intro */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label>Record Calls</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Caller and agent are recorded on separate channels and converted to MP3 and MP4 after the call.
+                      </p>
+                    </div>
+                    <Switch
+                      checked={form.watch("recordingEnabled")}
+                      onCheckedChange={(checked) => form.setValue("recordingEnabled", checked)}
+                    />
+                  </div>
+                  {form.watch("recordingEnabled") && (
+                    <>
+                      <Textarea
+                        {...form.register("recordingConsentMessage")}
+                        placeholder="This call may be recorded for quality and training purposes."
+                        rows={2}
+                      />
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="recordingRetentionDays" className="whitespace-nowrap">Delete recordings after</Label>
+                        <Input
+                          id="recordingRetentionDays"
+                          type="number"
+                          min={1}
+                          className="w-24"
+                          placeholder="Never"
+                          value={form.watch("recordingRetentionDays") ?? ""}
+                          onChange={(e) => form.setValue("recordingRetentionDays", e.target.value ? parseInt(e.target.value) : null)}
+                        />
+                        <span className="text-sm text-muted-foreground">days</span>
+                      </div>
+                      {form.formState.errors.recordingRetentionDays && (
+                        <p className="text-sm text-red-500">{form.formState.errors.recordingRetentionDays.message}</p>
+                      )}
+                    </>
+                  )}
+                </div>
+
+                {/* Dialer pacing */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="maxConcurrentCalls">Max Concurrent Calls</Label>
+                    <Input id="maxConcurrentCalls" type="number" min={1} {...form.register("maxConcurrentCalls")} />
+                    {form.formState.errors.maxConcurrentCalls && (
+                      <p className="text-sm text-red-500">{form.formState.errors.maxConcurrentCalls.message}</p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="callsPerMinute">Calls per Minute</Label>
+                    <Input id="callsPerMinute" type="number" min={1} {...form.register("callsPerMinute")} />
+                    {form.formState.errors.callsPerMinute && (
+                      <p className="text-sm text-red-500">{form.formState.errors.callsPerMinute.message}</p>
+                    )}
+                  </div>
+                </div>
+
+                {/* When calls and sends may go out */}
+                <CallingWindowEditor
+                  window={form.watch("callingWindow")}
+                  holidayCalendarId={form.watch("holidayCalendarId")}
+                  onChange={(window) => form.setValue("callingWindow", window)}
+                  onHolidayCalendarChange={(id) => form.setValue("holidayCalendarId", id)}
+                />
+
+                {/* Redials for unanswered calls */}
+                <RetryPolicyEditor
+                  policy={form.watch("retryPolicy")}
+                  onChange={(policy) => form.setValue("retryPolicy", policy)}
+                />
+
+                {/* Handoff to human reps */}
+                <TransferPolicyEditor
+                  policy={form.watch("transferPolicy")}
+                  stages={form.watch("conversationStages")}
+                  onChange={(policy) => form.setValue("transferPolicy", policy)}
+                />
+
+                {/* Conversation Stages */}
+                <ConversationStagesEditor
+                  stages={form.watch("conversationStages")}
+                  onChange={(stages) => form.setValue("conversationStages", stages)}
+                />
+
+                {/* Slots captured during the call */}
+                <SlotSchemaEditor
+                  slots={form.watch("slotSchema")}
+                  onChange={(slots) => form.setValue("slotSchema", slots)}
+                />
+
+                {/* Outcomes the post-call analysis chooses from */}
+                <DispositionCodesEditor
+                  codes={form.watch("dispositionCodes")}
+                  onChange={(codes) => form.setValue("dispositionCodes", codes)}
+                />
+
+                {/* Weighted variants of the intro, prompt, persona and voice */}
+                <CampaignVariantsEditor
+                  variants={form.watch("variants")}
+                  provider={form.watch("ttsProvider")}
+                  elevenLabsVoices={voices}
+                  onChange={(variants) => form.setValue("variants", variants)}
+                />
+
                 <DialogFooter>
                   <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                     Cancel
@@ -9,6 +9,7 @@ import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
 import Sidebar from '@/components/sidebar';
+import { ExperimentReportCard } from '@/components/ExperimentReportCard';
 import { 
   Clock, 
   Phone, 
@@ -24,7 +25,8 @@ import {
   Eye,
   ArrowRight,
   Zap,
-  Target
+  Target,
+  Voicemail
 } from 'lucide-react';
 
 interface CampaignAnalytics {
@@ -32,6 +34,7 @@ interface CampaignAnalytics {
   totalCalls: number;
   callBreakdown: {
     completed: number;
+    voicemail: number;
     failed: number;
     active: number;
   };
@@ -44,10 +47,13 @@ interface CampaignAnalytics {
   };
   successMetrics: {
     averageSuccessScore: number;
+    analysedCount: number;
     whatsappSentCount: number;
     emailSentCount: number;
     dataCollectedCount: number;
   };
+  dispositionBreakdown: Record<string, number>;
+  sentimentBreakdown: Record<string, number>;
   recentCalls: Array<{
     id: string;
     contactName: string;
@@ -57,7 +63,8 @@ interface CampaignAnalytics {
     startTime: string;
     endTime: string;
     aiResponseTime: number;
-    successScore: number;
+    successScore: number | null;
+    sentiment: string | null;
     whatsappSent: boolean;
     emailSent: boolean;
     conversationSummary?: string;
@@ -290,6 +297,15 @@ export default function CampaignTimingAnalytics() {
                       <span className="font-medium">{campaignAnalytics.callBreakdown.completed}</span>
                     </div>
                     <Progress value={(campaignAnalytics.callBreakdown.completed / campaignAnalytics.totalCalls) * 100} className="h-2" />
+
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center gap-2">
+                        <Voicemail className="h-4 w-4 text-amber-500" />
+                        Voicemail
+                      </span>
+                      <span className="font-medium">{campaignAnalytics.callBreakdown.voicemail}</span>
+                    </div>
+                    <Progress value={(campaignAnalytics.callBreakdown.voicemail / campaignAnalytics.totalCalls) * 100} className="h-2" />
                     
                     <div className="flex items-center justify-between">
                       <span className="flex items-center gap-2">
@@ -311,6 +327,9 @@ export default function CampaignTimingAnalytics() {
                   </div>
                 </CardContent>
               </Card>
+
+              {/* Per-variant results when the campaign runs an A/B test */}
+              <ExperimentReportCard campaignId={selectedCampaignId} />
             </TabsContent>
 
             <TabsContent value="timing" className="space-y-6">
@@ -406,9 +425,13 @@ export default function CampaignTimingAnalytics() {
                           </TableCell>
                           <TableCell>{call.aiResponseTime}ms</TableCell>
                           <TableCell>
-                            <Badge className={getSuccessColor(call.successScore || 0)}>
-                              {call.successScore || 0}/100
-                            </Badge>
+                            {call.successScore !== null ? (
+                              <Badge className={getSuccessColor(call.successScore)}>
+                                {call.successScore}/100
+                              </Badge>
+                            ) : (
+                              <span className="text-sm text-gray-500">Not analysed</span>
+                            )}
                           </TableCell>
                           <TableCell>
                             <div className="flex items-center gap-1">
@@ -459,6 +482,9 @@ export default function CampaignTimingAnalytics() {
                         <span className="font-bold">{campaignAnalytics.successMetrics.averageSuccessScore}/100</span>
                       </div>
                       <Progress value={campaignAnalytics.successMetrics.averageSuccessScore} className="h-2" />
+                      <p className="text-xs text-gray-500">
+                        From {campaignAnalytics.successMetrics.analysedCount} analysed call{campaignAnalytics.successMetrics.analysedCount === 1 ? '' : 's'}
+                      </p>
                     </div>
                     
                     <div className="space-y-2">
@@ -506,6 +532,52 @@ export default function CampaignTimingAnalytics() {
                     </div>
                   </CardContent>
                 </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Call Outcomes</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {Object.keys(campaignAnalytics.dispositionBreakdown).length === 0 ? (
+                      <p className="text-sm text-gray-500">No calls have an outcome yet</p>
+                    ) : (
+                      Object.entries(campaignAnalytics.dispositionBreakdown)
+                        .sort(([, a], [, b]) => b - a)
+                        .map(([disposition, count]) => (
+                          <div key={disposition} className="space-y-2">
+                            <div className="flex justify-between">
+                              <span>{disposition.replace(/_/g, ' ')}</span>
+                              <span className="font-bold">{count}</span>
+                            </div>
+                            <Progress value={(count / campaignAnalytics.totalCalls) * 100} className="h-2" />
+                          </div>
+                        ))
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Caller Sentiment</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {['positive', 'neutral', 'negative'].map((sentiment) => {
+                      const count = campaignAnalytics.sentimentBreakdown[sentiment] || 0;
+                      const analysed = campaignAnalytics.successMetrics.analysedCount;
+                      return (
+                        <div key={sentiment} className="space-y-2">
+                          <div className="flex justify-between">
+                            <span className="capitalize">{sentiment}</span>
+                            <span className="font-bold">
+                              {count} ({analysed ? Math.round((count / analysed) * 100) : 0}%)
+                            </span>
+                          </div>
+                          <Progress value={analysed ? (count / analysed) * 100 : 0} className="h-2" />
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
               </div>
             </TabsContent>
           </Tabs>
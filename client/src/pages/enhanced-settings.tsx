@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -11,7 +11,10 @@ import { FileUpload } from "@/components/ui/file-upload";
 import { useToast } from "@/hooks/use-toast";
 import { Settings, Save, Upload, Mic, MessageSquare, Bot, Globe, Volume2, FileAudio, Languages } from "lucide-react";
 import Sidebar from "@/components/sidebar";
-import { useMutation } from "@tanstack/react-query";
+import { HolidayCalendarsCard } from "@/components/HolidayCalendarsCard";
+import { InboundRoutingCard } from "@/components/InboundRoutingCard";
+import { TtsCacheCard } from "@/components/TtsCacheCard";
+import { useMutation, useQuery } from "@tanstack/react-query";
 
 // Removed IndicTTSConfig - using only ElevenLabs
 
@@ -35,6 +38,7 @@ interface SystemSettings {
   };
   calling: {
     maxConcurrentCalls: number;
+    callsPerMinute: number;
     callTimeout: number;
     recordCalls: boolean;
   };
@@ -65,11 +69,27 @@ export default function EnhancedSettings() {
     },
     calling: {
       maxConcurrentCalls: 5,
+      callsPerMinute: 20,
       callTimeout: 300,
       recordCalls: true
     }
   });
 
+  // Load saved settings over the defaults
+  const { data: savedSettings } = useQuery<Partial<SystemSettings>>({
+    queryKey: ['/api/settings'],
+  });
+
+  useEffect(() => {
+    if (savedSettings) {
+      setSettings((current) => ({
+        ...current,
+        ...savedSettings,
+        calling: { ...current.calling, ...savedSettings.calling },
+      }));
+    }
+  }, [savedSettings]);
+
   // Save settings mutation
   const saveSettingsMutation = useMutation({
     mutationFn: async (settings: SystemSettings) => {
@@ -78,7 +98,10 @@ export default function EnhancedSettings() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(settings)
       });
-      if (!response.ok) throw new Error('Failed to save settings');
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Please try again later.');
+      }
       return response.json();
     },
     onSuccess: () => {
@@ -87,10 +110,10 @@ export default function EnhancedSettings() {
         description: "Your configuration has been updated.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error saving settings",
-        description: "Please try again later.",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -298,6 +321,8 @@ export default function EnhancedSettings() {
                     </div>
                   </CardContent>
                 </Card>
+
+                <TtsCacheCard />
               </TabsContent>
 
               <TabsContent value="transcription" className="space-y-6">
@@ -552,6 +577,21 @@ export default function EnhancedSettings() {
                         />
                       </div>
 
+                      <div>
+                        <Label htmlFor="calls-per-minute">Calls per Minute</Label>
+                        <Input
+                          id="calls-per-minute"
+                          type="number"
+                          value={settings.calling.callsPerMinute}
+                          onChange={(e) => setSettings({
+                            ...settings,
+                            calling: { ...settings.calling, callsPerMinute: parseInt(e.target.value) }
+                          })}
+                          min={1}
+                          max={120}
+                        />
+                      </div>
+
                       <div>
                         <Label htmlFor="call-timeout">Call Timeout (seconds)</Label>
                         <Input
@@ -583,6 +623,10 @@ export default function EnhancedSettings() {
                     </div>
                   </CardContent>
                 </Card>
+
+                <HolidayCalendarsCard />
+
+                <InboundRoutingCard />
               </TabsContent>
             </Tabs>
           </div>
@@ -6,6 +6,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Phone, PhoneCall, Clock, User, MessageSquare, Download } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { CallTranscription } from "@/components/CallTranscription";
+import { SupervisorControls } from "@/components/SupervisorControls";
 import type { Call, Contact, Campaign, CallMessage } from "@shared/schema";
 
 interface ConversationTurn {
@@ -19,10 +20,12 @@ interface ActiveCall {
   contactId: string;
   campaignId: string;
   phoneNumber: string;
+  direction: 'inbound' | 'outbound';
   twilioCallSid: string;
   conversationHistory: ConversationTurn[];
   status: 'active' | 'completed' | 'failed';
   startTime: Date;
+  language: string | null; // Follows the caller when they switch language
 }
 
 export default function LiveCallsPage() {
@@ -140,6 +143,10 @@ export default function LiveCallsPage() {
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
+                        <Badge variant="outline">
+                          {call.direction === 'inbound' ? 'Inbound' : 'Outbound'}
+                        </Badge>
+                        {call.language && <Badge variant="outline">{call.language}</Badge>}
                         <Badge variant={call.status === 'active' ? 'default' : 'secondary'}>
                           {call.status}
                         </Badge>
@@ -176,19 +183,22 @@ export default function LiveCallsPage() {
                         <span>Contact: {call.contactId}</span>
                       </div>
                       
-                      {/* Live Transcription Button */}
+                      {/* Live transcript and supervisor controls */}
                       <Dialog>
                         <DialogTrigger asChild>
                           <Button variant="outline" size="sm">
                             <MessageSquare className="w-4 h-4 mr-2" />
-                            View Transcription
+                            Monitor
                           </Button>
                         </DialogTrigger>
-                        <DialogContent className="max-w-4xl max-h-[80vh]">
+                        <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
                           <DialogHeader>
-                            <DialogTitle>Live Call Transcription - {call.phoneNumber}</DialogTitle>
+                            <DialogTitle>Live Call - {call.phoneNumber}</DialogTitle>
                           </DialogHeader>
-                          <CallTranscription callId={call.id} isActive={call.status === 'active'} />
+                          <div className="grid gap-4 lg:grid-cols-[3fr_2fr]">
+                            <CallTranscription callId={call.id} isActive={call.status === 'active'} />
+                            <SupervisorControls callId={call.id} isActive={call.status === 'active'} />
+                          </div>
                         </DialogContent>
                       </Dialog>
                     </div>
@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { apiRequest } from "@/lib/queryClient";
+import { Ban, Upload } from "lucide-react";
+import type { Suppression, SuppressionChannel } from "@shared/schema";
+
+const SOURCE_LABELS: Record<string, string> = {
+  call_phrase: "Asked on call",
+  whatsapp_keyword: "WhatsApp STOP",
+  dnc_list: "DNC list",
+  manual: "Added manually",
+};
+
+const CHANNEL_LABELS: Record<SuppressionChannel, string> = {
+  all: "All channels",
+  call: "Calls",
+  whatsapp: "WhatsApp",
+  email: "Email",
+};
+
+export default function SuppressionsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { lastMessage } = useWebSocket();
+  const [includeLifted, setIncludeLifted] = useState(false);
+  const [search, setSearch] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [channel, setChannel] = useState<SuppressionChannel>("all");
+  const [reason, setReason] = useState("");
+  const [dncFile, setDncFile] = useState<File | null>(null);
+
+  const queryKey = [`/api/suppressions?includeLifted=${includeLifted}`];
+  const { data: suppressions = [], isLoading } = useQuery<Suppression[]>({ queryKey });
+
+  const refresh = () => queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/suppressions"),
+  });
+
+  // Opt-outs from calls and WhatsApp arrive while the page is open
+  useEffect(() => {
+    if (lastMessage?.type === "suppression_updated") refresh();
+  }, [lastMessage]);
+
+  const addMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/suppressions", {
+      phone: phone || null,
+      email: email || null,
+      channel,
+      reason: reason || null,
+      source: "manual",
+    }),
+    onSuccess: () => {
+      toast({ title: "Added to do-not-contact list" });
+      setPhone("");
+      setEmail("");
+      setReason("");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to add entry", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const liftMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      apiRequest("POST", `/api/suppressions/${id}/lift`, { reason }),
+    onSuccess: () => {
+      toast({ title: "Suppression lifted" });
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to lift suppression", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch("/api/suppressions/upload", { method: "POST", body: formData });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Upload failed");
+      return data as { added: number; alreadySuppressed: number; invalid: number };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Do-not-call list imported",
+        description: `${data.added} numbers added, ${data.alreadySuppressed} already listed, ${data.invalid} lines skipped`,
+      });
+      setDncFile(null);
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to import list", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const filtered = suppressions.filter((entry) => {
+    const term = search.trim().toLowerCase();
+    if (!term) return true;
+    return [entry.phone, entry.email, entry.reason].some((value) => value?.toLowerCase().includes(term));
+  });
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+          Do Not Contact
+        </h1>
+        <p className="text-gray-600 dark:text-gray-300">
+          People on this list are never called, sent WhatsApp templates or emailed by any campaign
+        </p>
+      </div>
+
+      <div className="grid gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Add Entry</CardTitle>
+              <CardDescription>Suppress a phone number or email address by hand</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="suppression-phone">Phone</Label>
+                  <Input id="suppression-phone" value={phone} placeholder="+91 98765 43210" onChange={(e) => setPhone(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="suppression-email">Email</Label>
+                  <Input id="suppression-email" value={email} placeholder="name@example.com" onChange={(e) => setEmail(e.target.value)} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Channel</Label>
+                  <Select value={channel} onValueChange={(value) => setChannel(value as SuppressionChannel)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="suppression-reason">Reason</Label>
+                  <Input id="suppression-reason" value={reason} placeholder="Requested by email" onChange={(e) => setReason(e.target.value)} />
+                </div>
+              </div>
+              <Button
+                onClick={() => addMutation.mutate()}
+                disabled={(!phone.trim() && !email.trim()) || addMutation.isPending}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                {addMutation.isPending ? "Adding..." : "Add to List"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Upload Do-Not-Call List</CardTitle>
+              <CardDescription>
+                A national registry export as CSV or plain text - every number found is blocked on all channels
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input type="file" accept=".csv,.txt" onChange={(e) => setDncFile(e.target.files?.[0] || null)} />
+              <Button
+                onClick={() => dncFile && uploadMutation.mutate(dncFile)}
+                disabled={!dncFile || uploadMutation.isPending}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {uploadMutation.isPending ? "Importing..." : "Import List"}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Suppressed Contacts ({filtered.length})</CardTitle>
+              <CardDescription>Opt-outs from calls and WhatsApp are added here automatically</CardDescription>
+            </div>
+            <div className="flex items-center gap-4">
+              <Input className="w-56" value={search} placeholder="Search..." onChange={(e) => setSearch(e.target.value)} />
+              <div className="flex items-center gap-2">
+                <Switch id="include-lifted" checked={includeLifted} onCheckedChange={setIncludeLifted} />
+                <Label htmlFor="include-lifted" className="text-sm">Show lifted</Label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : filtered.length === 0 ? (
+              <p className="text-sm text-gray-500">Nobody is on the do-not-contact list.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Phone / Email</TableHead>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Added</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filtered.map((entry) => (
+                    <TableRow key={entry.id} className={entry.liftedAt ? "opacity-60" : undefined}>
+                      <TableCell className="font-medium">{entry.phone || entry.email}</TableCell>
+                      <TableCell>{CHANNEL_LABELS[entry.channel as SuppressionChannel] || entry.channel}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{SOURCE_LABELS[entry.source] || entry.source}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate" title={entry.reason || undefined}>{entry.reason || "-"}</TableCell>
+                      <TableCell>{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        {entry.liftedAt ? (
+                          <span className="text-xs text-gray-500" title={entry.liftReason || undefined}>
+                            Lifted {new Date(entry.liftedAt).toLocaleDateString()}
+                          </span>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              const liftReason = prompt(`Lift the block on ${entry.phone || entry.email}? Enter a reason:`);
+                              if (liftReason !== null) liftMutation.mutate({ id: entry.id, reason: liftReason });
+                            }}
+                          >
+                            Lift
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,6 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import path from 'path';
-import fs from "fs";
 import { storage } from "./storage";
 import { db } from "./db";
 import { 
@@ -16,7 +14,19 @@ import {
   insertCampaignSchema,
   insertCallSchema,
   insertWhatsAppTemplateSchema, 
-  insertBulkMessageJobSchema
+  insertBulkMessageJobSchema,
+  insertHolidayCalendarSchema,
+  insertSuppressionSchema,
+  inboundRoutingSchema,
+  systemSettingsSchema,
+  updateCallbackSchema,
+  supervisorWhisperSchema,
+  supervisorHangupSchema,
+  supervisorTakeoverSchema,
+  simulatorScriptSchema,
+  type Campaign,
+  type Contact,
+  type InsertCampaign
 } from "@shared/schema";
 import { sql, eq, desc, and } from "drizzle-orm";
 import { MessagingService } from "./services/messagingService";
@@ -24,6 +34,7 @@ import { WhatsAppTemplateService } from "./services/whatsappTemplateService";
 import { WhatsAppService } from "./services/whatsappService";
 import { callManager } from "./services/callManager";
 import { twilioService } from "./services/twilioService";
+import type { DialerAction } from "./services/dialerService";
 import express from "express";  
 import multer from "multer";
 
@@ -33,6 +44,11 @@ const upload = multer({
   limits: { fileSize: 50 * 1024 * 1024 } // 50MB limit for large CSV files
 });
 
+// Twilio call statuses that mean the call is over
+const FINAL_CALL_STATUSES = ['completed', 'failed', 'busy', 'no-answer', 'canceled'];
+// Contacts a campaign start loads per query
+const CAMPAIGN_CONTACT_CHUNK_SIZE = 1000;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // CRITICAL: Register webhook routes FIRST to bypass Vite middleware
@@ -91,7 +107,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
   // WebSocket server for real-time updates
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Twilio Media Streams connect here for calls running in 'stream' mode
+  const { mediaStreamService, MEDIA_STREAM_PATH } = await import('./services/mediaStreamService');
+  const mediaStreamWss = new WebSocketServer({ noServer: true });
+  mediaStreamWss.on('connection', (ws) => mediaStreamService.handleConnection(ws));
+
+  // Route upgrades by path ourselves - a path-bound WebSocketServer rejects every other path,
+  // which would break the media stream endpoint and Vite HMR
+  httpServer.on('upgrade', (request, socket, head) => {
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+    if (pathname === '/ws') {
+      wss.handleUpgrade(request, socket, head, (ws) => wss.emit('connection', ws, request));
+    } else if (pathname === MEDIA_STREAM_PATH) {
+      mediaStreamWss.handleUpgrade(request, socket, head, (ws) => mediaStreamWss.emit('connection', ws, request));
+    }
+  });
 
   // Broadcast to all connected clients
   const broadcast = (data: any) => {
@@ -105,6 +137,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Export broadcast function for use in other modules
   (global as any).broadcastToClients = broadcast;
 
+  // Dial queued campaign calls and redials as capacity allows
+  const { dialerService } = await import('./services/dialerService');
+  dialerService.start();
+
+  // Send WhatsApp campaign messages that were held back until the contact's calling window opened
+  const { scheduledMessageService } = await import('./services/scheduledMessageService');
+  scheduledMessageService.start();
+
+  // Convert finished call recordings to MP3 and MP4, and purge those past their campaign's retention period
+  const { recordingService } = await import('./services/recordingService');
+  const { mediaStore, isValidMediaKey, getMediaContentType } = await import('./services/mediaStorage');
+  const { mediaUrlService } = await import('./services/mediaUrlService');
+  recordingService.start();
+
+  // Evict least recently used TTS audio once the cache outgrows its limits
+  const { ttsCacheService } = await import('./services/ttsCacheService');
+  const { ttsService } = await import('./services/ttsService');
+  const { sttService } = await import('./services/sttService');
+  const { transcriptService } = await import('./services/transcriptService');
+  const { languageService } = await import('./services/languageService');
+  const { getPhrases } = await import('./services/phrases');
+  const { variantService } = await import('./services/variantService');
+  ttsCacheService.start();
+
+  // Render a campaign's intro and fixed phrases in the background so its first call doesn't wait on TTS
+  const prerenderCampaignAudio = (campaign: Campaign) => {
+    ttsCacheService.prerenderCampaign(campaign).catch(error => {
+      console.error(`❌ Pre-rendering audio for campaign ${campaign.id} failed:`, error);
+    });
+  };
+
   wss.on('connection', (ws) => {
     console.log('WebSocket client connected');
 
@@ -113,6 +176,169 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Holiday calendars campaigns can attach to skip calling on public holidays
+  app.get('/api/holiday-calendars', async (req, res) => {
+    try {
+      res.json(await storage.getHolidayCalendars());
+    } catch (error) {
+      console.error('Error fetching holiday calendars:', error);
+      res.status(500).json({ error: 'Failed to fetch holiday calendars' });
+    }
+  });
+
+  app.post('/api/holiday-calendars', async (req, res) => {
+    try {
+      const calendarData = insertHolidayCalendarSchema.safeParse(req.body);
+      if (!calendarData.success) {
+        return res.status(400).json({ error: calendarData.error.issues.map(issue => issue.message).join('; ') });
+      }
+      res.status(201).json(await storage.createHolidayCalendar(calendarData.data));
+    } catch (error) {
+      console.error('Error creating holiday calendar:', error);
+      res.status(500).json({ error: 'Failed to create holiday calendar' });
+    }
+  });
+
+  app.put('/api/holiday-calendars/:id', async (req, res) => {
+    try {
+      const calendarData = insertHolidayCalendarSchema.partial().safeParse(req.body);
+      if (!calendarData.success) {
+        return res.status(400).json({ error: calendarData.error.issues.map(issue => issue.message).join('; ') });
+      }
+      const calendar = await storage.updateHolidayCalendar(req.params.id, calendarData.data);
+      if (!calendar) {
+        return res.status(404).json({ error: 'Holiday calendar not found' });
+      }
+      res.json(calendar);
+    } catch (error) {
+      console.error('Error updating holiday calendar:', error);
+      res.status(500).json({ error: 'Failed to update holiday calendar' });
+    }
+  });
+
+  app.delete('/api/holiday-calendars/:id', async (req, res) => {
+    try {
+      const deleted = await storage.deleteHolidayCalendar(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Holiday calendar not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting holiday calendar:', error);
+      res.status(500).json({ error: 'Failed to delete holiday calendar' });
+    }
+  });
+
+  // Do-not-contact registry
+  app.get('/api/suppressions', async (req, res) => {
+    try {
+      res.json(await storage.getSuppressions(req.query.includeLifted === 'true'));
+    } catch (error) {
+      console.error('Error fetching suppressions:', error);
+      res.status(500).json({ error: 'Failed to fetch suppressions' });
+    }
+  });
+
+  app.post('/api/suppressions', async (req, res) => {
+    try {
+      const suppressionData = insertSuppressionSchema.safeParse(req.body);
+      if (!suppressionData.success) {
+        return res.status(400).json({ error: suppressionData.error.issues.map(issue => issue.message).join('; ') });
+      }
+      const { suppressionService } = await import('./services/suppressionService');
+      res.status(201).json(await suppressionService.add(suppressionData.data));
+    } catch (error) {
+      console.error('Error adding suppression:', error);
+      res.status(500).json({ error: 'Failed to add suppression' });
+    }
+  });
+
+  app.post('/api/suppressions/:id/lift', async (req, res) => {
+    try {
+      const { suppressionService } = await import('./services/suppressionService');
+      const lifted = await suppressionService.lift(req.params.id, req.body?.reason);
+      if (!lifted) {
+        return res.status(404).json({ error: 'Active suppression not found' });
+      }
+      res.json(lifted);
+    } catch (error) {
+      console.error('Error lifting suppression:', error);
+      res.status(500).json({ error: 'Failed to lift suppression' });
+    }
+  });
+
+  // National do-not-call list upload - numbers one per line or in any CSV column
+  app.post('/api/suppressions/upload', upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      req.setTimeout(15 * 60 * 1000);
+      res.setTimeout(15 * 60 * 1000);
+
+      const { suppressionService } = await import('./services/suppressionService');
+      const result = await suppressionService.importDncList(
+        req.file.buffer.toString('utf-8'),
+        req.body?.reason || `DNC list ${req.file.originalname}`
+      );
+      res.json(result);
+    } catch (error) {
+      console.error('Error importing DNC list:', error);
+      res.status(500).json({ error: 'Failed to import do-not-call list' });
+    }
+  });
+
+  // Which campaign answers inbound calls
+  app.get('/api/inbound-routing', async (req, res) => {
+    try {
+      const { inboundCallService } = await import('./services/inboundCallService');
+      res.json(await inboundCallService.getRouting());
+    } catch (error) {
+      console.error('Error fetching inbound routing:', error);
+      res.status(500).json({ error: 'Failed to fetch inbound routing' });
+    }
+  });
+
+  app.put('/api/inbound-routing', async (req, res) => {
+    try {
+      const routing = inboundRoutingSchema.safeParse(req.body);
+      if (!routing.success) {
+        return res.status(400).json({ error: routing.error.issues.map(issue => issue.message).join('; ') });
+      }
+      const { inboundCallService } = await import('./services/inboundCallService');
+      res.json(await inboundCallService.saveRouting(routing.data));
+    } catch (error) {
+      console.error('Error saving inbound routing:', error);
+      res.status(500).json({ error: 'Failed to save inbound routing' });
+    }
+  });
+
+  // Settings saved from the settings page - the dialer reads its global caps from here
+  app.get('/api/settings', async (req, res) => {
+    try {
+      const { settingsService } = await import('./services/settingsService');
+      res.json(await settingsService.getSettings());
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+      res.status(500).json({ error: 'Failed to fetch settings' });
+    }
+  });
+
+  app.post('/api/settings', async (req, res) => {
+    try {
+      const settings = systemSettingsSchema.safeParse(req.body);
+      if (!settings.success) {
+        return res.status(400).json({ error: settings.error.issues.map(issue => issue.message).join('; ') });
+      }
+      const { settingsService } = await import('./services/settingsService');
+      res.json(await settingsService.saveSettings(settings.data));
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      res.status(500).json({ error: 'Failed to save settings' });
+    }
+  });
+
   // Health check routes
   const { HealthController } = await import('./controllers/HealthController');
   const healthController = new HealthController();
@@ -143,6 +369,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // TTS providers a campaign can speak with, for the primary and backup voice pickers
+  app.get('/api/tts/providers', async (req, res) => {
+    try {
+      const { ttsProviders } = await import('./services/ttsProviders');
+      const providers = await Promise.all(Object.values(ttsProviders).map(async provider => ({
+        name: provider.name,
+        label: provider.label,
+        configured: provider.isConfigured(),
+        canStream: !!provider.playFormat, // Twilio voices can't speak into a media stream
+        defaultVoice: provider.defaultVoice,
+        voices: await provider.listVoices().catch(() => [])
+      })));
+      res.json(providers);
+    } catch (error) {
+      console.error('Error fetching TTS providers:', error);
+      res.status(500).json({ error: 'Failed to fetch TTS providers' });
+    }
+  });
+
+  // STT providers a campaign can recognise callers with
+  app.get('/api/stt/providers', async (req, res) => {
+    try {
+      const { sttProviders } = await import('./services/sttProviders');
+      res.json(Object.values(sttProviders).map(provider => ({
+        name: provider.name,
+        label: provider.label,
+        configured: provider.isConfigured()
+      })));
+    } catch (error) {
+      console.error('Error fetching STT providers:', error);
+      res.status(500).json({ error: 'Failed to fetch STT providers' });
+    }
+  });
+
+  // LLM providers a campaign's agent can reply with, for the model and fallback pickers
+  app.get('/api/llm/providers', async (req, res) => {
+    try {
+      const { llmProviders } = await import('./services/llmProviders');
+      res.json(Object.values(llmProviders).map(provider => ({
+        name: provider.name,
+        label: provider.label,
+        configured: provider.isConfigured()
+      })));
+    } catch (error) {
+      console.error('Error fetching LLM providers:', error);
+      res.status(500).json({ error: 'Failed to fetch LLM providers' });
+    }
+  });
+
   // Campaigns API routes
   app.get('/api/campaigns', async (req, res) => {
     try {
@@ -160,6 +435,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const campaign = await storage.createCampaign(campaignData);
 
       broadcast({ type: 'campaign_created', campaign });
+      prerenderCampaignAudio(campaign);
 
       res.status(201).json(campaign);
     } catch (error) {
@@ -171,11 +447,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/campaigns/:id', async (req, res) => {
     try {
       const { id } = req.params;
-      const campaignData = req.body;
+      const campaignData = insertCampaignSchema.partial().safeParse(req.body);
+      if (!campaignData.success) {
+        return res.status(400).json({ error: campaignData.error.issues.map(issue => issue.message).join('; ') });
+      }
 
-      const updatedCampaign = await storage.updateCampaign(id, campaignData);
+      const updatedCampaign = await storage.updateCampaign(id, campaignData.data);
 
       broadcast({ type: 'campaign_updated', campaign: updatedCampaign });
+      if (updatedCampaign) prerenderCampaignAudio(updatedCampaign);
 
       res.json(updatedCampaign);
     } catch (error) {
@@ -326,34 +606,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // AUDIO SERVING ENDPOINT
   // ===========================
 
-  // Serve audio files for Twilio to play
-  app.get('/audio/:filename', (req, res) => {
+  // Serve cached TTS audio - content-addressed, so it never changes and is never cleaned up here
+  app.get('/audio/tts/:file', mediaUrlService.requireSignature, async (req, res) => {
     try {
-      const filename = req.params.filename;
-      const audioFilePath = path.join(process.cwd(), 'temp', filename);
-
-      if (!fs.existsSync(audioFilePath)) {
-        console.log('Audio file not found:', audioFilePath);
+      const audio = await ttsCacheService.read(req.params.file);
+      if (!audio) {
         return res.status(404).send('Audio file not found');
       }
 
-      res.setHeader('Content-Type', 'audio/mpeg');
-      res.setHeader('Cache-Control', 'public, max-age=3600');
+      res.setHeader('Content-Type', ttsCacheService.getContentType(req.params.file));
+      res.setHeader('Cache-Control', 'public, max-age=86400, immutable');
+      res.send(audio);
+    } catch (error) {
+      console.error('Error serving cached audio:', error);
+      res.status(500).send('Error serving audio file');
+    }
+  });
 
-      const audioStream = fs.createReadStream(audioFilePath);
-      audioStream.pipe(res);
+  // Signed links to objects in the disk media store - bucket stores sign their own
+  app.get('/media/*', mediaUrlService.requireSignature, async (req, res) => {
+    try {
+      const key = req.path.slice('/media/'.length);
+      const download = typeof req.query.download === 'string' ? req.query.download : undefined;
+      if (!isValidMediaKey(key)) {
+        return res.status(404).send('File not found');
+      }
 
-      // Clean up file after 5 minutes
-      setTimeout(() => {
-        if (fs.existsSync(audioFilePath)) {
-          fs.unlinkSync(audioFilePath);
-          console.log(`🗑️ Cleaned up audio file: ${filename}`);
-        }
-      }, 5 * 60 * 1000);
+      const data = await mediaStore.get(key);
+      if (!data) {
+        return res.status(404).send('File not found');
+      }
 
+      res.setHeader('Content-Type', getMediaContentType(key));
+      res.setHeader('Cache-Control', 'private, no-store');
+      if (download) {
+        res.setHeader('Content-Disposition', `attachment; filename="${download.replace(/"/g, '')}"`);
+      }
+      res.send(data);
     } catch (error) {
-      console.error('Error serving audio file:', error);
-      res.status(500).send('Error serving audio file');
+      console.error('Error serving media file:', error);
+      res.status(500).send('Error serving file');
+    }
+  });
+
+  // Caller audio kept with the live transcript
+  app.get('/audio/segments/:callId/:file', mediaUrlService.requireSignature, async (req, res) => {
+    try {
+      const audio = await transcriptService.readSegment(req.params.callId, req.params.file);
+      if (!audio) {
+        return res.status(404).send('Audio segment not found');
+      }
+
+      res.setHeader('Content-Type', 'audio/wav');
+      res.setHeader('Cache-Control', 'private, max-age=86400, immutable');
+      res.send(audio);
+    } catch (error) {
+      console.error('Error serving audio segment:', error);
+      res.status(500).send('Error serving audio segment');
     }
   });
 
@@ -561,6 +870,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Templates are outreach, so they are refused for anyone who opted out
+      if (messageData.isTemplate || messageData.templateName) {
+        const { suppressionService } = await import('./services/suppressionService');
+        if (await suppressionService.isSuppressed({ phone: messageData.phone }, 'whatsapp')) {
+          return res.status(409).json({ error: 'This number is on the do-not-contact list' });
+        }
+      }
+
       // Create the message in database first
       const message = await storage.createWhatsAppMessage({
         contactId: messageData.contactId,
@@ -771,7 +1088,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const campaignId = `campaign_${Date.now()}`;
       
       // Get campaign template settings if provided
-      let campaignSettings = {
+      let campaignSettings: Omit<InsertCampaign, 'name'> = {
         aiPrompt: 'You are Anvika from LabsCheck, a diagnostic comparison platform. Your goal is to onboard pathology labs to our free platform. Be professional, clear, and focus on the value proposition: no commission, increased visibility, and direct patient bookings.',
         introLine: 'Hi, this is Anvika from LabsCheck. Am I speaking with the owner or manager of the lab?',
         agentName: 'Anvika',
@@ -794,7 +1111,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
               openaiModel: template.openaiModel,
               language: template.language,
               elevenlabsModel: template.elevenlabsModel,
-              voiceId: template.voiceId
+              voiceId: template.voiceId,
+              // Carry over how the template dials, not just what it says
+              callMode: template.callMode,
+              conversationStages: template.conversationStages,
+              slotSchema: template.slotSchema,
+              dispositionCodes: template.dispositionCodes,
+              voicemailAction: template.voicemailAction,
+              voicemailMessage: template.voicemailMessage,
+              recordingEnabled: template.recordingEnabled,
+              recordingConsentMessage: template.recordingConsentMessage,
+              recordingRetentionDays: template.recordingRetentionDays,
+              retryPolicy: template.retryPolicy,
+              maxConcurrentCalls: template.maxConcurrentCalls,
+              callsPerMinute: template.callsPerMinute,
+              callingWindow: template.callingWindow,
+              holidayCalendarId: template.holidayCalendarId,
+              transferPolicy: template.transferPolicy,
+              ttsProvider: template.ttsProvider,
+              ttsVoice: template.ttsVoice,
+              ttsFallback: template.ttsFallback,
+              sttConfig: template.sttConfig,
+              llmConfig: template.llmConfig,
+              variants: template.variants
             };
           } else {
             console.log(`⚠️ Campaign template not found: ${campaignTemplateId}, using defaults`);
@@ -806,7 +1145,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Create campaign record in database first
-      await storage.createCampaign({
+      const campaignRecord = await storage.createCampaign({
         id: campaignId,
         name: `Campaign ${new Date().toISOString().split('T')[0]}`,
         script: `Multi-channel campaign for ${contactIds.length} contacts`,
@@ -815,46 +1154,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       console.log(`✅ Created campaign record: ${campaignId}`);
+      prerenderCampaignAudio(campaignRecord);
+      const { callingWindowService } = await import('./services/callingWindowService');
       
+      // Load every contact up front, a chunk of ids per query
+      const contactsById = new Map<string, Contact>();
+      for (let i = 0; i < contactIds.length; i += CAMPAIGN_CONTACT_CHUNK_SIZE) {
+        const chunk = await storage.getContactsByIds(contactIds.slice(i, i + CAMPAIGN_CONTACT_CHUNK_SIZE));
+        chunk.forEach(contact => contactsById.set(contact.id, contact));
+      }
+
       let processedCount = 0;
       const results = [];
 
-      // Process each contact with delays for WhatsApp campaigns
-      for (let i = 0; i < contactIds.length; i++) {
-        const contactId = contactIds[i];
-        try {
-          // Get contact details
-          const contact = await storage.getContact(contactId);
-          if (!contact) {
-            console.log(`⚠️ Contact not found: ${contactId}`);
-            results.push({ contactId, status: 'failed', error: 'Contact not found' });
-            continue;
-          }
+      for (const contactId of contactIds) {
+        if (contactsById.has(contactId)) continue;
+        console.log(`⚠️ Contact not found: ${contactId}`);
+        results.push({ contactId, status: 'failed', error: 'Contact not found' });
+      }
+      const foundIds: string[] = contactIds.filter((contactId: string) => contactsById.has(contactId));
 
-          console.log(`📞 Processing contact: ${contact.name} (${contact.phone})`);
+      if ((channel === 'CALL' || channel === 'BOTH') && foundIds.length > 0) {
+        // Queue every AI call in one go - the dialer worker paces them against the concurrency caps
+        try {
+          const queued = await dialerService.enqueue(campaignId, foundIds.map(contactId => ({
+            contactId,
+            phoneNumber: contactsById.get(contactId)!.phone
+          })));
+          queued.forEach(job => results.push({ contactId: job.contactId, status: 'call_queued', jobId: job.id }));
+        } catch (callError) {
+          console.error(`❌ Call queue error for campaign ${campaignId}:`, callError);
+          const error = callError instanceof Error ? callError.message : 'Unknown call error';
+          foundIds.forEach(contactId => results.push({ contactId, status: 'call_failed', error }));
+        }
+      }
 
-          // Handle different channels
-          if (channel === 'CALL' || channel === 'BOTH') {
-            // Start AI call
-            try {
-              console.log(`📞 Starting AI call for ${contact.phone}`);
-              
-              // Import callManager dynamically
-              const { callManager } = await import('./services/callManager');
-              const callResult = await callManager.startCall(contactId, campaignId, contact.phone);
-              
-              if (callResult.success) {
-                console.log(`✅ Call initiated for ${contact.phone}: ${callResult.callId}`);
-                results.push({ contactId, status: 'call_started', callId: callResult.callId });
-              } else {
-                console.log(`❌ Call failed for ${contact.phone}: ${callResult.error}`);
-                results.push({ contactId, status: 'call_failed', error: callResult.error });
-              }
-            } catch (callError) {
-              console.error(`❌ Call error for ${contact.phone}:`, callError);
-              results.push({ contactId, status: 'call_failed', error: callError instanceof Error ? callError.message : 'Unknown call error' });
-            }
-          }
+      // Process each contact with delays for WhatsApp campaigns
+      for (let i = 0; i < foundIds.length; i++) {
+        const contactId = foundIds[i];
+        try {
+          const contact = contactsById.get(contactId)!;
 
           if (channel === 'WHATSAPP' || channel === 'BOTH') {
             // Send WhatsApp template message via Meta Business API
@@ -876,66 +1215,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
               console.log(`📋 Template parameters for ${contact.phone}:`, templateParameters);
 
-              // Create database record for tracking
-              const message = await storage.createWhatsAppMessage({
-                contactId: contactId,
-                phone: contact.phone,
-                message: whatsappTemplate, // Store template name for reference
-                messageType: 'template',
-                direction: 'outbound',
-                status: 'pending',
-                templateName: whatsappTemplate,
-                campaignId: null
-              });
+              // Outside the campaign's calling hours - hold the send until the contact's next allowed slot
+              const deferredUntil = await callingWindowService.getDeferral(campaignRecord, contactId);
+              if (deferredUntil) {
+                const message = await storage.createWhatsAppMessage({
+                  contactId: contactId,
+                  phone: contact.phone,
+                  message: whatsappTemplate,
+                  messageType: 'template',
+                  direction: 'outbound',
+                  status: 'scheduled',
+                  templateName: whatsappTemplate,
+                  campaignId: null,
+                  scheduledFor: deferredUntil
+                });
+                console.log(`🌙 WhatsApp to ${contact.phone} deferred to ${deferredUntil.toISOString()}`);
+                results.push({ contactId, status: 'whatsapp_deferred', messageId: message.id, scheduledFor: deferredUntil, templateUsed: whatsappTemplate });
+              } else {
+                // Create database record for tracking
+                const message = await storage.createWhatsAppMessage({
+                  contactId: contactId,
+                  phone: contact.phone,
+                  message: whatsappTemplate, // Store template name for reference
+                  messageType: 'template',
+                  direction: 'outbound',
+                  status: 'pending',
+                  templateName: whatsappTemplate,
+                  campaignId: null
+                });
 
-              // Send via Meta Business API using template endpoint
-              try {
-                const { whatsappService } = await import('./services/whatsappService');
+                // Send via Meta Business API using template endpoint
+                try {
+                  const { whatsappService } = await import('./services/whatsappService');
                 
-                console.log(`📱 Calling Meta Business API for template "${whatsappTemplate}" to ${contact.phone}`);
+                  console.log(`📱 Calling Meta Business API for template "${whatsappTemplate}" to ${contact.phone}`);
                 
-                // Always use template API - never send regular text messages for campaigns
-                const whatsappResponse = await whatsappService.sendTemplateMessage(
-                  contact.phone,
-                  whatsappTemplate,
-                  'en_US', // Use template's language or default
-                  templateParameters.length > 0 ? templateParameters : undefined
-                );
-
-                // Update database with Meta response
-                await storage.updateWhatsAppMessage(message.id, {
-                  whatsappMessageId: whatsappResponse.messages?.[0]?.id,
-                  status: 'sent'
-                });
-
-                console.log(`✅ Meta Business API template message sent to ${contact.phone}: ${whatsappResponse.messages?.[0]?.id}`);
-                results.push({ contactId, status: 'whatsapp_sent', messageId: message.id, templateUsed: whatsappTemplate });
-
-                // Apply random delay for WhatsApp-only campaigns
-                if (channel === 'WHATSAPP' && req.body.delaySeconds && i < contactIds.length - 1) {
-                  const baseDelay = req.body.delaySeconds * 1000; // Convert to milliseconds
-                  const randomMultiplier = 0.5 + Math.random(); // Random between 0.5 and 1.5
-                  const actualDelay = Math.round(baseDelay * randomMultiplier);
+                  // Always use template API - never send regular text messages for campaigns
+                  const whatsappResponse = await whatsappService.sendTemplateMessage(
+                    contact.phone,
+                    whatsappTemplate,
+                    'en_US', // Use template's language or default
+                    templateParameters.length > 0 ? templateParameters : undefined
+                  );
+
+                  // Update database with Meta response
+                  await storage.updateWhatsAppMessage(message.id, {
+                    whatsappMessageId: whatsappResponse.messages?.[0]?.id,
+                    status: 'sent'
+                  });
+
+                  console.log(`✅ Meta Business API template message sent to ${contact.phone}: ${whatsappResponse.messages?.[0]?.id}`);
+                  results.push({ contactId, status: 'whatsapp_sent', messageId: message.id, templateUsed: whatsappTemplate });
+
+                  // Apply random delay for WhatsApp-only campaigns
+                  if (channel === 'WHATSAPP' && req.body.delaySeconds && i < foundIds.length - 1) {
+                    const baseDelay = req.body.delaySeconds * 1000; // Convert to milliseconds
+                    const randomMultiplier = 0.5 + Math.random(); // Random between 0.5 and 1.5
+                    const actualDelay = Math.round(baseDelay * randomMultiplier);
                   
-                  console.log(`⏳ Applying random delay: ${actualDelay}ms (${randomMultiplier.toFixed(2)}x base delay)`);
-                  await new Promise(resolve => setTimeout(resolve, actualDelay));
-                }
+                    console.log(`⏳ Applying random delay: ${actualDelay}ms (${randomMultiplier.toFixed(2)}x base delay)`);
+                    await new Promise(resolve => setTimeout(resolve, actualDelay));
+                  }
 
-              } catch (whatsappError) {
-                console.error(`❌ Meta Business API error for ${contact.phone}:`, whatsappError);
+                } catch (whatsappError) {
+                  console.error(`❌ Meta Business API error for ${contact.phone}:`, whatsappError);
                 
-                // Update status to failed - no fallback to regular messages for templates
-                await storage.updateWhatsAppMessage(message.id, { 
-                  status: 'failed',
-                  failedReason: whatsappError instanceof Error ? whatsappError.message : 'Meta API error'
-                });
+                  // Update status to failed - no fallback to regular messages for templates
+                  await storage.updateWhatsAppMessage(message.id, { 
+                    status: 'failed',
+                    failedReason: whatsappError instanceof Error ? whatsappError.message : 'Meta API error'
+                  });
                 
-                results.push({ 
-                  contactId, 
-                  status: 'whatsapp_failed', 
-                  error: `Meta Business API error: ${whatsappError instanceof Error ? whatsappError.message : 'Unknown error'}`,
-                  templateUsed: whatsappTemplate
-                });
+                  results.push({ 
+                    contactId, 
+                    status: 'whatsapp_failed', 
+                    error: `Meta Business API error: ${whatsappError instanceof Error ? whatsappError.message : 'Unknown error'}`,
+                    templateUsed: whatsappTemplate
+                  });
+                }
               }
             } catch (messageError) {
               console.error(`❌ WhatsApp template error for ${contact.phone}:`, messageError);
@@ -971,6 +1328,143 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Dialer queue progress for campaigns that are dialing or paused
+  app.get("/api/dialer/campaigns", async (req, res) => {
+    try {
+      res.json(await dialerService.getActiveProgress());
+    } catch (error) {
+      console.error('Error fetching dialer progress:', error);
+      res.status(500).json({ error: "Failed to fetch dialer progress" });
+    }
+  });
+
+  app.get("/api/campaigns/:id/dialer", async (req, res) => {
+    try {
+      const progress = await dialerService.getProgress(req.params.id);
+      if (!progress) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      res.json(progress);
+    } catch (error) {
+      console.error('Error fetching dialer progress:', error);
+      res.status(500).json({ error: "Failed to fetch dialer progress" });
+    }
+  });
+
+  // Pause, resume or cancel a campaign's queued calls
+  app.post("/api/campaigns/:id/dialer/:action", async (req, res) => {
+    try {
+      const { id, action } = req.params;
+      if (!['pause', 'resume', 'cancel'].includes(action)) {
+        return res.status(400).json({ error: "Action must be pause, resume or cancel" });
+      }
+
+      const progress = await dialerService.control(id, action as DialerAction);
+      if (!progress) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+      res.json(progress);
+    } catch (error) {
+      console.error('Error controlling dialer:', error);
+      res.status(500).json({ error: "Failed to update dialer" });
+    }
+  });
+
+  // TTS cache size, hit rate and limits
+  app.get('/api/tts-cache/stats', async (req, res) => {
+    try {
+      res.json(await ttsCacheService.getStats());
+    } catch (error) {
+      console.error('Error fetching TTS cache stats:', error);
+      res.status(500).json({ error: 'Failed to fetch TTS cache stats' });
+    }
+  });
+
+  // Run eviction now - { all: true } empties the cache
+  app.post('/api/tts-cache/evict', async (req, res) => {
+    try {
+      res.json(await ttsCacheService.evict({ all: req.body?.all === true }));
+    } catch (error) {
+      console.error('Error evicting TTS cache:', error);
+      res.status(500).json({ error: 'Failed to evict TTS cache' });
+    }
+  });
+
+  // Re-render a campaign's fixed lines, e.g. after changing its voice
+  app.post('/api/campaigns/:id/prerender', async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ error: 'Campaign not found' });
+      }
+      res.json(await ttsCacheService.prerenderCampaign(campaign));
+    } catch (error) {
+      console.error('Error pre-rendering campaign audio:', error);
+      res.status(500).json({ error: 'Failed to pre-render campaign audio' });
+    }
+  });
+
+  // Per-variant outcomes of a campaign's A/B test, each compared against the control
+  app.get('/api/campaigns/:id/experiment', async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ error: 'Campaign not found' });
+      }
+      res.json(await variantService.getReport(campaign));
+    } catch (error) {
+      console.error('Error building experiment report:', error);
+      res.status(500).json({ error: 'Failed to build experiment report' });
+    }
+  });
+
+  // Callbacks prospects asked for - pending ones by default, ?status=all for the full history
+  app.get("/api/callbacks", async (req, res) => {
+    try {
+      const { callbackService } = await import('./services/callbackService');
+      const status = (req.query.status as string) || 'pending';
+      res.json(await callbackService.list({
+        campaignId: req.query.campaignId as string | undefined,
+        statuses: status === 'all' ? undefined : status.split(',')
+      }));
+    } catch (error) {
+      console.error('Error fetching callbacks:', error);
+      res.status(500).json({ error: "Failed to fetch callbacks" });
+    }
+  });
+
+  app.patch("/api/callbacks/:id", async (req, res) => {
+    try {
+      const changes = updateCallbackSchema.safeParse(req.body);
+      if (!changes.success) {
+        return res.status(400).json({ error: changes.error.issues.map(issue => issue.message).join('; ') });
+      }
+      const { callbackService } = await import('./services/callbackService');
+      const callback = await callbackService.update(req.params.id, changes.data);
+      if (!callback) {
+        return res.status(404).json({ error: "Pending callback not found" });
+      }
+      res.json(callback);
+    } catch (error) {
+      console.error('Error updating callback:', error);
+      res.status(500).json({ error: "Failed to update callback" });
+    }
+  });
+
+  app.post("/api/callbacks/:id/cancel", async (req, res) => {
+    try {
+      const { callbackService } = await import('./services/callbackService');
+      const callback = await callbackService.cancel(req.params.id);
+      if (!callback) {
+        return res.status(404).json({ error: "Pending callback not found" });
+      }
+      res.json(callback);
+    } catch (error) {
+      console.error('Error cancelling callback:', error);
+      res.status(500).json({ error: "Failed to cancel callback" });
+    }
+  });
+
   // Real data only - Campaign Dashboard API (for today's activity)
   app.get("/api/campaigns/dashboard", async (req, res) => {
     try {
@@ -1225,12 +1719,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .leftJoin(contacts, eq(calls.contactId, contacts.id))
         .where(eq(calls.campaignId, campaignId))
         .orderBy(desc(calls.startTime));
+      const analysedCalls = campaignCalls.filter((c: any) => c.call.successScore !== null);
+      const countBy = (values: Array<string | null>) => values.reduce((counts: Record<string, number>, value) => {
+        if (value) counts[value] = (counts[value] || 0) + 1;
+        return counts;
+      }, {});
 
       const detailedAnalytics = {
         campaignId,
         totalCalls: campaignCalls.length,
         callBreakdown: {
-          completed: campaignCalls.filter((c: any) => c.call.status === 'completed').length,
+          completed: campaignCalls.filter((c: any) => c.call.status === 'completed' && c.call.disposition !== 'voicemail').length,
+          voicemail: campaignCalls.filter((c: any) => c.call.disposition === 'voicemail').length,
           failed: campaignCalls.filter((c: any) => c.call.status === 'failed').length,
           active: campaignCalls.filter((c: any) => c.call.status === 'active').length,
         },
@@ -1242,21 +1742,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
           shortestCall: Math.min(...campaignCalls.map((c: any) => c.call.duration || 0).filter((d: number) => d > 0)),
         },
         successMetrics: {
-          averageSuccessScore: campaignCalls.length ? Math.round(campaignCalls.reduce((sum: number, c: any) => sum + (c.call.successScore || 0), 0) / campaignCalls.length) : 0,
+          // Only analysed calls have a score
+          averageSuccessScore: analysedCalls.length ? Math.round(analysedCalls.reduce((sum: number, c: any) => sum + c.call.successScore, 0) / analysedCalls.length) : 0,
+          analysedCount: analysedCalls.length,
           whatsappSentCount: campaignCalls.filter((c: any) => c.call.whatsappSent).length,
           emailSentCount: campaignCalls.filter((c: any) => c.call.emailSent).length,
           dataCollectedCount: campaignCalls.filter((c: any) => c.call.collectedData).length,
         },
+        // From the post-call analysis, plus outcomes set during the call (voicemail, opt-outs, callbacks)
+        dispositionBreakdown: countBy(campaignCalls.map((c: any) => c.call.disposition)),
+        sentimentBreakdown: countBy(campaignCalls.map((c: any) => c.call.sentiment)),
         recentCalls: campaignCalls.slice(0, 10).map((c: any) => ({
           id: c.call.id,
           contactName: c.contact?.name || 'Unknown',
           phoneNumber: c.call.phoneNumber,
           duration: c.call.duration,
           status: c.call.status,
+          disposition: c.call.disposition,
           startTime: c.call.startTime,
           endTime: c.call.endTime,
           aiResponseTime: c.call.aiResponseTime,
           successScore: c.call.successScore,
+          sentiment: c.call.sentiment,
+          analysis: c.call.analysis,
           whatsappSent: c.call.whatsappSent,
           emailSent: c.call.emailSent,
           conversationSummary: c.call.conversationSummary,
@@ -1388,6 +1896,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
 
         res.json({ success: true, callId: result.callId });
+      } else if (result.deferredUntil) {
+        // Outside the campaign's calling hours - queue it for the next allowed slot
+        const [queued] = await dialerService.enqueue(campaignId, [{ contactId, phoneNumber }], result.deferredUntil);
+        res.status(202).json({ success: false, deferred: true, scheduledFor: result.deferredUntil, jobId: queued.id });
       } else {
         res.status(400).json({ error: result.error });
       }
@@ -1425,6 +1937,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           callId: result.callId,
           message: 'Call initiated with natural conversation flow including background typing sounds'
         });
+      } else if (result.deferredUntil) {
+        const [queued] = await dialerService.enqueue(campaignId, [{ contactId: tempContact.id, phoneNumber }], result.deferredUntil);
+        res.status(202).json({
+          success: false,
+          deferred: true,
+          scheduledFor: result.deferredUntil,
+          jobId: queued.id,
+          message: `Outside calling hours - the call will be placed at ${result.deferredUntil.toISOString()}`
+        });
       } else {
         res.status(500).json({ 
           success: false, 
@@ -1455,7 +1976,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get active calls
   app.get("/api/calls/active", async (req, res) => {
     try {
-      const activeCalls = callManager.getActiveCalls();
+      const activeCalls = await callManager.getActiveCalls();
       res.json(activeCalls);
     } catch (error) {
       console.error('Error fetching active calls:', error);
@@ -1488,11 +2009,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every attempt made for the same contact in the same redial chain, plus any redial still pending
+  app.get("/api/calls/:id/attempts", async (req, res) => {
+    try {
+      const call = await storage.getCall(req.params.id);
+      if (!call) {
+        return res.status(404).json({ error: "Call not found" });
+      }
+
+      const originalCallId = call.originalCallId || call.id;
+      const attempts = await storage.getCallAttempts(originalCallId);
+      const scheduled = await storage.getScheduledCallsForAttempt(originalCallId);
+      res.json({
+        attempts,
+        pendingRetries: scheduled.filter(scheduledCall => scheduledCall.status === 'pending')
+      });
+    } catch (error) {
+      console.error('Error fetching call attempts:', error);
+      res.status(500).json({ error: "Failed to fetch call attempts" });
+    }
+  });
+
+  // Re-run the post-call analysis, e.g. after changing the campaign's disposition codes
+  app.post("/api/calls/:id/analyze", async (req, res) => {
+    try {
+      const call = await storage.getCall(req.params.id);
+      if (!call) {
+        return res.status(404).json({ error: "Call not found" });
+      }
+      if (call.status === 'active') {
+        return res.status(409).json({ error: "Calls are analysed once they have ended" });
+      }
+
+      const { callAnalysisService } = await import('./services/callAnalysisService');
+      const analysis = await callAnalysisService.analyze(call.id);
+      if (!analysis) {
+        return res.status(422).json({ error: "Nothing to analyse - the caller never spoke, or the analysis failed" });
+      }
+      res.json(await storage.getCall(call.id));
+    } catch (error) {
+      console.error('Error analysing call:', error);
+      res.status(500).json({ error: "Failed to analyse call" });
+    }
+  });
+
+  // Supervisor audit trail: whispers, hangups and takeovers on a call
+  app.get("/api/calls/:id/events", async (req, res) => {
+    try {
+      const { supervisorService } = await import('./services/supervisorService');
+      res.json(await supervisorService.getEvents(req.params.id));
+    } catch (error) {
+      console.error('Error fetching call events:', error);
+      res.status(500).json({ error: "Failed to fetch call events" });
+    }
+  });
+
+  // Private instruction for the agent's next reply
+  app.post("/api/calls/:id/supervisor/whisper", async (req, res) => {
+    try {
+      const whisper = supervisorWhisperSchema.safeParse(req.body);
+      if (!whisper.success) {
+        return res.status(400).json({ error: whisper.error.issues.map(issue => issue.message).join('; ') });
+      }
+      const { supervisorService } = await import('./services/supervisorService');
+      const event = await supervisorService.whisper(req.params.id, whisper.data.supervisor, whisper.data.instruction);
+      if (!event) {
+        return res.status(404).json({ error: "Active call not found" });
+      }
+      res.json(event);
+    } catch (error) {
+      console.error('Error whispering to agent:', error);
+      res.status(500).json({ error: "Failed to whisper to the agent" });
+    }
+  });
+
+  // End the call with a goodbye in the campaign voice
+  app.post("/api/calls/:id/supervisor/hangup", async (req, res) => {
+    try {
+      const hangup = supervisorHangupSchema.safeParse(req.body);
+      if (!hangup.success) {
+        return res.status(400).json({ error: hangup.error.issues.map(issue => issue.message).join('; ') });
+      }
+      const { supervisorService } = await import('./services/supervisorService');
+      const event = await supervisorService.hangup(req.params.id, hangup.data.supervisor);
+      if (!event) {
+        return res.status(404).json({ error: "Active call not found" });
+      }
+      res.json(event);
+    } catch (error) {
+      console.error('Error ending call for supervisor:', error);
+      res.status(500).json({ error: "Failed to end the call" });
+    }
+  });
+
+  // Bridge a human into the call in place of the agent
+  app.post("/api/calls/:id/supervisor/takeover", async (req, res) => {
+    try {
+      const takeover = supervisorTakeoverSchema.safeParse(req.body);
+      if (!takeover.success) {
+        return res.status(400).json({ error: takeover.error.issues.map(issue => issue.message).join('; ') });
+      }
+      const { supervisorService } = await import('./services/supervisorService');
+      const event = await supervisorService.takeOver(req.params.id, takeover.data.supervisor, takeover.data.phone);
+      if (!event) {
+        return res.status(404).json({ error: "Active call not found" });
+      }
+      res.json(event);
+    } catch (error) {
+      console.error('Error taking over call:', error);
+      res.status(500).json({ error: "Failed to take over the call" });
+    }
+  });
+
   // Get live call transcriptions
   app.get("/api/calls/:id/transcriptions", async (req, res) => {
     try {
       const transcriptions = await storage.getCallTranscriptions(req.params.id);
-      res.json(transcriptions);
+      res.json(transcriptions.map(transcription => transcriptService.withSignedAudio(transcription)));
     } catch (error) {
       console.error('Error fetching call transcriptions:', error);
       res.status(500).json({ error: "Failed to fetch transcriptions" });
@@ -1510,10 +2143,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         transcript,
         confidence,
         duration,
-        audioSegmentUrl
+        audioSegmentUrl: mediaUrlService.toStoredPath(audioSegmentUrl)
       });
       
-      res.json(transcription);
+      res.json(transcriptService.withSignedAudio(transcription));
     } catch (error) {
       console.error('Error creating call transcription:', error);
       res.status(500).json({ error: "Failed to create transcription" });
@@ -1534,6 +2167,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Time-limited link to a converted recording, for players and sharing
+  app.get("/api/calls/:id/recording/url", async (req, res) => {
+    try {
+      const recording = await storage.getCallRecording(req.params.id);
+      if (!recording) {
+        return res.status(404).json({ error: "Recording not found" });
+      }
+      if (recording.purgedAt) {
+        return res.status(410).json({ error: "Recording was deleted under the campaign's retention policy" });
+      }
+
+      const signed = await recordingService.getDownloadUrl(recording, req.query.format === 'mp3' ? 'mp3' : 'mp4');
+      if (!signed) {
+        return res.status(409).json({ error: `Recording is not ready (conversion ${recording.conversionStatus})` });
+      }
+      res.json(signed);
+    } catch (error) {
+      console.error('Error signing recording URL:', error);
+      res.status(500).json({ error: "Failed to create recording link" });
+    }
+  });
+
   // Download call recording file (proxy through server for authentication)
   app.get("/api/calls/:id/recording/download", async (req, res) => {
     try {
@@ -1542,6 +2197,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Recording not found" });
       }
 
+      if (recording.purgedAt) {
+        return res.status(410).json({ error: "Recording was deleted under the campaign's retention policy" });
+      }
+
+      // Converted recordings come straight from storage through a signed link, as MP4 unless MP3 is asked for
+      const format = req.query.format === 'mp3' ? 'mp3' : 'mp4';
+      const signed = await recordingService.getDownloadUrl(recording, format);
+      if (signed) {
+        return res.redirect(302, signed.url);
+      }
+
       // Only handle actual Twilio recordings - no demo/sample files
       if (!recording.recordingUrl.includes('api.twilio.com')) {
         return res.status(404).json({ error: "No actual recording available - only demo data exists" });
@@ -1571,9 +2237,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ error: "Recording not accessible from Twilio" });
         }
         
-        // Set appropriate headers for file download
-        res.setHeader('Content-Disposition', `attachment; filename="call-recording-${req.params.id}.${recording.mp4Url ? 'mp4' : 'wav'}"`);
-        res.setHeader('Content-Type', recording.mp4Url ? 'video/mp4' : 'audio/wav');
+        // Not converted yet - hand over Twilio's original
+        res.setHeader('Content-Disposition', `attachment; filename="call-recording-${req.params.id}.wav"`);
+        res.setHeader('Content-Type', 'audio/wav');
         
         // Stream the recording directly to response
         const buffer = await response.arrayBuffer();
@@ -1610,6 +2276,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ===========================
+  // CALL SIMULATOR
+  // ===========================
+
+  // Whether simulated calls can run here, and whether the model and voices are stubbed
+  app.get('/api/simulator', async (req, res) => {
+    const { callSimulator } = await import('./services/callSimulator');
+    const { simulatorStubs } = await import('./services/simulatorStubs');
+    res.json({ enabled: callSimulator.isEnabled(), stubs: simulatorStubs.isEnabled() });
+  });
+
+  app.put('/api/simulator/stubs', async (req, res) => {
+    const { callSimulator } = await import('./services/callSimulator');
+    if (!callSimulator.isEnabled()) {
+      return res.status(404).json({ error: 'The call simulator is off in production - set CALL_SIMULATOR=true to use it' });
+    }
+    if (typeof req.body?.enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be true or false' });
+    }
+    const { simulatorStubs } = await import('./services/simulatorStubs');
+    simulatorStubs.setEnabled(req.body.enabled);
+    res.json({ enabled: true, stubs: simulatorStubs.isEnabled() });
+  });
+
+  // Run a scripted call through the webhooks - answers once the simulated call has ended
+  app.post('/api/simulator/calls', async (req, res) => {
+    try {
+      const { callSimulator } = await import('./services/callSimulator');
+      if (!callSimulator.isEnabled()) {
+        return res.status(404).json({ error: 'The call simulator is off in production - set CALL_SIMULATOR=true to use it' });
+      }
+      const script = simulatorScriptSchema.safeParse(req.body);
+      if (!script.success) {
+        return res.status(400).json({ error: script.error.issues.map(issue => issue.message).join('; ') });
+      }
+      res.json(await callSimulator.run(script.data));
+    } catch (error) {
+      console.error('Error simulating call:', error);
+      res.status(500).json({ error: 'Failed to simulate call' });
+    }
+  });
+
   // ===========================
   // TWILIO WEBHOOK ROUTES
   // ===========================
@@ -1629,76 +2337,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).send('Missing callId or campaignId');
       }
 
-      // Get campaign for intro generation
-      const campaign = await storage.getCampaign(campaignId as string);
-      if (!campaign) {
+      // Get campaign for intro generation, as the call's A/B variant runs it
+      const configuredCampaign = await storage.getCampaign(campaignId as string);
+      if (!configuredCampaign) {
         console.log('❌ Campaign not found for answer webhook');
         return res.status(404).send('Campaign not found');
       }
+      const campaign = variantService.apply(configuredCampaign, (await storage.getCall(callId as string))?.variantId);
+
+      // Answering machines get the campaign voicemail (or a hangup) instead of the pitch
+      const { AnsweredBy } = req.body;
+      const { voicemailService } = await import('./services/voicemailService');
+      if (voicemailService.isMachine(AnsweredBy)) {
+        const twiml = await voicemailService.handleMachineAnswer(callId as string, campaign, AnsweredBy);
+        return res.type('text/xml').send(twiml);
+      }
+      if (AnsweredBy) {
+        await storage.updateCall(callId as string, { answeredBy: AnsweredBy });
+      }
 
-      // Ensure call is tracked
-      console.log(`🔗 Answer webhook for call ${callId}, ensuring it's tracked as active`);
-      const dbCall = await storage.getCall(callId as string);
-      if (dbCall && dbCall.status === 'active') {
-        callManager.ensureCallIsTracked(callId as string, dbCall);
+      // Recorded campaigns play the notice first and come back here once it has been heard -
+      // only then does recording start, so the notice itself is never recorded
+      if (req.query.consented !== 'true') {
+        const consent = await recordingService.getConsentTwiML(
+          callId as string,
+          campaign,
+          `/api/calls/webhook/answer?callId=${callId}&campaignId=${campaignId}&consented=true`
+        );
+        if (consent) return res.type('text/xml').send(consent);
+      } else {
+        await recordingService.startRecording(callId as string, req.body.CallSid, campaign).catch(error => {
+          console.error(`❌ Error starting recording for call ${callId}:`, error);
+        });
+      }
+
+      // Streaming campaigns hand the call to the Media Streams pipeline, which speaks the intro itself
+      if (campaign.callMode === 'stream') {
+        console.log(`🔊 Connecting call ${callId} to media stream`);
+        const twiml = twilioService.generateStreamTwiML(mediaStreamService.getStreamUrl(), mediaStreamService.getStreamParameters(callId as string, {
+          campaignId: campaignId as string
+        }));
+        return res.type('text/xml').send(twiml);
       }
 
       // Generate intro with ElevenLabs
       const introText = campaign.introLine || "Hello, this is an AI calling agent from LabsCheck.";
       let twiml;
 
-      try {
-        console.log(`🎤 Generating ElevenLabs intro with campaign voice: ${campaign.voiceId}`);
-        console.log(`📋 Campaign details - Model: ${campaign.elevenlabsModel}, Language: ${campaign.language}`);
-        console.log(`📝 Intro text: "${introText}"`);
-
-        const { ElevenLabsService } = await import('./services/elevenlabsService');
-        const fs = await import('fs');
-        const path = await import('path');
-
-        const voiceConfig = campaign.voiceConfig as any;
-        const audioBuffer = await ElevenLabsService.textToSpeech(
-          introText,
-          campaign.voiceId,
-          {
-            stability: voiceConfig?.stability || 0.5,
-            similarityBoost: voiceConfig?.similarityBoost || 0.75,
-            style: voiceConfig?.style || 0.0,
-            speakerBoost: voiceConfig?.useSpeakerBoost || true,
-            model: campaign.elevenlabsModel || 'eleven_turbo_v2',
-            language: campaign.language || 'en'
-          }
-        );
+      // Record the intro as the first assistant turn so the model sees it when the session is rehydrated
+      const { callSessionStore } = await import('./services/callSessionStore');
+      await callSessionStore.appendOpeningLine(callId as string, introText);
 
-        // Save audio file
-        const audioFileName = `intro_${callId}.mp3`;
-        const audioFilePath = path.default.join(process.cwd(), 'temp', audioFileName);
-        const tempDir = path.default.join(process.cwd(), 'temp');
-        if (!fs.default.existsSync(tempDir)) {
-          fs.default.mkdirSync(tempDir, { recursive: true });
-        }
-        fs.default.writeFileSync(audioFilePath, audioBuffer);
+      try {
+        console.log(`🎤 Intro in campaign voice ${campaign.voiceId}: "${introText}"`);
 
-        // Create accessible URL
-        const baseUrl = process.env.REPLIT_DEV_DOMAIN ? 
-          `https://${process.env.REPLIT_DEV_DOMAIN}` : 
-          `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.repl.co`;
-        const audioUrl = `${baseUrl}/audio/${audioFileName}`;
+        // Intros are pre-rendered when the campaign is saved, so this is normally a cache hit
+        const speech = await ttsService.getSpeech(campaign, introText);
+        transcriptService.recordAgentLine(callId as string, introText, speech);
 
-        console.log(`✅ ElevenLabs intro generated successfully: ${audioUrl}`);
+        console.log(`✅ Intro ready: ${speech.audioUrl || `<Say> in ${speech.say?.voice}`}`);
 
-        // Generate TwiML with ElevenLabs audio and background typing sounds
+        // Generate TwiML with the intro and background typing sounds
         twiml = twilioService.generateTwiML('gather', {
-          audioUrl: audioUrl,
+          text: introText,
+          ...speech,
           action: `/api/calls/${callId}/process-speech`,
           recordingCallback: `/api/calls/recording-complete?callId=${callId}`,
-          language: campaign.language || 'en',
+          ...sttService.getListenOptions(campaign),
           addTypingSound: true,
           addThinkingPause: true
         });
 
-      } catch (elevenlabsError) {
-        console.error('❌ ElevenLabs intro failed:', elevenlabsError);
+      } catch (ttsError) {
+        console.error('❌ Intro failed in every campaign voice:', ttsError);
 
         // Return error TwiML that will end call gracefully
         const errorTwiml = `<?xml version="1.0" encoding="UTF-8"?>
@@ -1734,72 +2445,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).send('Missing callId or campaignId');
       }
 
-      // Ensure call is tracked in active calls
-      console.log(`🔗 Webhook triggered for call ${callId}, ensuring it's tracked as active`);
-      const dbCall = await storage.getCall(callId as string);
-      if (dbCall && dbCall.status === 'active') {
-        // Make sure call manager is tracking this call
-        callManager.ensureCallIsTracked(callId as string, dbCall);
-      }
-
-      // Get campaign for initial script
-      const campaign = await storage.getCampaign(campaignId as string);
-      if (!campaign) {
+      // Get campaign for initial script, as the call's A/B variant runs it
+      const configuredCampaign = await storage.getCampaign(campaignId as string);
+      if (!configuredCampaign) {
         return res.status(404).send('Campaign not found');
       }
+      const campaign = variantService.apply(configuredCampaign, (await storage.getCall(callId as string))?.variantId);
 
       // Try ElevenLabs first, fallback to Twilio if fails
       const introText = campaign.introLine || "Hello, this is an AI calling agent from LabsCheck.";
       let twiml;
 
-      try {
-        console.log(`🎤 Generating ElevenLabs intro with campaign voice: ${campaign.voiceId}`);
-        console.log(`📋 Campaign details - Model: ${campaign.elevenlabsModel}, Language: ${campaign.language}`);
-        console.log(`📝 Intro text: "${introText}"`);
-
-        const { ElevenLabsService } = await import('./services/elevenlabsService');
-        const fs = await import('fs');
-        const path = await import('path');
-
-        const voiceConfig = campaign.voiceConfig as any;
-        const audioBuffer = await ElevenLabsService.textToSpeech(
-          introText,
-          campaign.voiceId,
-          {
-            stability: voiceConfig?.stability || 0.5,
-            similarityBoost: voiceConfig?.similarityBoost || 0.75,
-            style: voiceConfig?.style || 0.0,
-            speakerBoost: voiceConfig?.useSpeakerBoost || true,
-            model: campaign.elevenlabsModel || 'eleven_turbo_v2',
-            language: campaign.language || 'en'
-          }
-        );
+      // Record the intro as the first assistant turn so the model sees it when the session is rehydrated
+      const { callSessionStore } = await import('./services/callSessionStore');
+      await callSessionStore.appendOpeningLine(callId as string, introText);
 
-        // Save audio file
-        const audioFileName = `intro_${callId}.mp3`;
-        const audioFilePath = path.join(process.cwd(), 'temp', audioFileName);
-        const tempDir = path.join(process.cwd(), 'temp');
-        if (!fs.existsSync(tempDir)) {
-          fs.mkdirSync(tempDir, { recursive: true });
-        }
-        fs.writeFileSync(audioFilePath, audioBuffer);
-
-        // Use same URL construction pattern as conversation responses for consistency
-        const baseUrl = process.env.REPLIT_DEV_DOMAIN ? 
-          `https://${process.env.REPLIT_DEV_DOMAIN}` : 
-          `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.repl.co`;
-        const audioUrl = `${baseUrl}/audio/${audioFileName}`;
+      try {
+        console.log(`🎤 Intro in campaign voice ${campaign.voiceId}: "${introText}"`);
 
-        console.log(`🔗 Created ElevenLabs intro audio URL: ${audioUrl}`);
+        const speech = await ttsService.getSpeech(campaign, introText);
+        transcriptService.recordAgentLine(callId as string, introText, speech);
 
-        console.log(`✅ Using ElevenLabs voice: ${campaign.voiceId}, audio URL: ${audioUrl}`);
+        console.log(`✅ Intro ready: ${speech.audioUrl || `<Say> in ${speech.say?.voice}`}`);
 
-        // Use ElevenLabs audio in TwiML
         twiml = twilioService.generateTwiML('gather', {
-          audioUrl: audioUrl,
+          text: introText,
+          ...speech,
           action: `/api/calls/${callId}/process-speech`,
           recordingCallback: `/api/calls/recording-complete?callId=${callId}`,
-          language: campaign.language || 'en'
+          ...sttService.getListenOptions(campaign)
         });
 
       } catch (elevenlabsError) {
@@ -1807,11 +2481,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error('❌ ElevenLabs error details:', elevenlabsError instanceof Error ? elevenlabsError.message : String(elevenlabsError));
 
         // Fallback to fast Twilio TTS
+        transcriptService.recordAgentLine(callId as string, introText);
         twiml = twilioService.generateTwiML('gather', {
           text: introText,
           action: `/api/calls/${callId}/process-speech`,
           recordingCallback: `/api/calls/recording-complete?callId=${callId}`,
-          language: campaign.language || 'en',
+          ...sttService.getListenOptions(campaign),
           voice: 'alice'
         });
       }
@@ -1829,7 +2504,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Enhanced speech processing to use OpenAI Whisper for transcription
+  // Transcribe a finished recording with the campaign's STT provider
   app.post("/api/calls/recording-complete", async (req, res) => {
     try {
       const { callId } = req.query;
@@ -1840,17 +2515,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Missing callId or recording URL' });
       }
 
-      console.log(`🎙️ Processing recording for enhanced OpenAI Whisper: ${recordingUrl}`);
-
-      // Download and transcribe audio using OpenAI Whisper directly
-      const audioResponse = await fetch(recordingUrl);
-      const audioBuffer = Buffer.from(await audioResponse.arrayBuffer());
-
-      // Import OpenAI service for enhanced transcription
-      const { OpenAIService } = await import('./services/openaiService');
-      const speechText = await OpenAIService.transcribeAudio(audioBuffer);
+      console.log(`🎙️ Processing recording for call ${callId}: ${recordingUrl}`);
 
-      console.log(`🎤 Enhanced OpenAI Whisper transcription: "${speechText}"`);
+      const dbCall = await storage.getCall(callId as string);
+      const campaign = dbCall ? await variantService.getCampaignForCall(dbCall) : undefined;
+      const callLanguage = dbCall?.language || campaign?.language || 'en';
+      const heard = await sttService.fromWebhook(campaign, req.body, callLanguage);
+      const speechText = heard.text;
+      transcriptService.record(callId as string, {
+        speaker: 'customer',
+        transcript: speechText,
+        confidence: heard.confidence,
+        audio: heard.audio
+      });
+      await languageService.followCaller(callId as string, callLanguage, speechText);
 
       // Process the transcribed speech
       const result = await callManager.processSpeechInput(callId as string, speechText);
@@ -1865,77 +2543,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Enhanced speech processing with OpenAI Whisper fallback
+  // What the caller said: Twilio's <Gather> result, or a <Record>ing transcribed by the campaign's STT provider
   app.post("/api/calls/:callId/process-speech", async (req, res) => {
     try {
       const { callId } = req.params;
+      const dbCall = await storage.getCall(callId);
+      const campaign = dbCall ? await variantService.getCampaignForCall(dbCall) : undefined;
+      const callLanguage = dbCall?.language || campaign?.language || 'en';
 
-      // First try to get speech result from Twilio's direct speech recognition
-      let speechText = "";
-      if (req.body.SpeechResult) {
-        const { directSpeechService } = await import('./services/directSpeechService');
-        const rawSpeechText = directSpeechService.processTwilioSpeechInput(
-          req.body.SpeechResult,
-          req.body.UnstableSpeechResult, 
-          req.body.Digits
-        );
-        speechText = directSpeechService.validateSpeechInput(rawSpeechText);
-        console.log(`🎤 Twilio speech recognition result: "${speechText}"`);
-      }
-
-      // If no speech from Twilio, check if there's a recording URL for OpenAI Whisper processing
-      if ((!speechText || speechText.trim() === "") && req.body.RecordingUrl) {
-        console.log(`🎧 No Twilio speech result, using OpenAI Whisper for: ${req.body.RecordingUrl}`);
-
-        try {
-          const audioResponse = await fetch(req.body.RecordingUrl);
-          const audioBuffer = Buffer.from(await audioResponse.arrayBuffer());
-
-          const { OpenAIService } = await import('./services/openaiService');
-          speechText = await OpenAIService.transcribeAudio(audioBuffer);
-          console.log(`🎤 OpenAI Whisper backup transcription: "${speechText}"`);
-        } catch (whisperError) {
-          console.error('❌ OpenAI Whisper fallback failed:', whisperError);
-        }
-      }
+      const { directSpeechService } = await import('./services/directSpeechService');
+      const heard = await sttService.fromWebhook(campaign, req.body, callLanguage);
+      const speechText = directSpeechService.validateSpeechInput(heard.text);
 
       console.log(`🎤 Final processed speech for call ${callId}: "${speechText}"`);
+      transcriptService.record(callId, {
+        speaker: 'customer',
+        transcript: speechText,
+        confidence: heard.confidence,
+        audio: heard.audio
+      });
 
       if (!speechText || speechText.trim() === "") {
         // Continue listening with better prompt
         console.log('🔄 No speech detected, continuing to listen...');
-        const dbCall = await storage.getCall(callId);
-        const campaign = dbCall?.campaignId ? await storage.getCampaign(dbCall.campaignId) : null;
 
-        const twiml = twilioService.generateTwiML('gather', {
-          text: 'I\'m here. Please speak when you\'re ready.',
-          action: `/api/calls/${callId}/process-speech`,
-          language: campaign?.language || 'en',
-          addTypingSound: true,
-          addThinkingPause: true
-        });
+        // Silence counter is persisted so repeated empty gathers end the call on any instance
+        const { twiml } = await callManager.handleSilence(callId, campaign);
         res.type('text/xml').send(twiml);
         return;
       }
 
-      // Import direct speech service for validation
-      const { directSpeechService } = await import('./services/directSpeechService');
+      // Callers on Indian campaigns may switch to Hindi, English or Hinglish mid-call - follow them
+      const language = await languageService.followCaller(callId, callLanguage, speechText);
+
+      // "Stop calling me" ends the call and puts the number on the do-not-contact list
+      const { suppressionService } = await import('./services/suppressionService');
+      if (suppressionService.isCallOptOut(speechText)) {
+        console.log('🚫 User asked not to be called again');
+        const goodbye = await callManager.handleOptOut(callId, speechText, language);
+        const speech = await callManager.getPhraseSpeech(campaign, goodbye, language);
+        transcriptService.recordAgentLine(callId, goodbye, speech);
+        res.type('text/xml').send(twilioService.generateTwiML('hangup', {
+          text: goodbye,
+          ...speech,
+          language
+        }));
+        return;
+      }
 
       // Check if call should end based on speech content
       if (directSpeechService.shouldEndCall(speechText)) {
         console.log('🔚 User indicated call should end');
-        const dbCall = await storage.getCall(callId);
-        const campaign = dbCall?.campaignId ? await storage.getCampaign(dbCall.campaignId) : null;
-
+        const { endCallGoodbye } = getPhrases(language);
+        const speech = await callManager.getPhraseSpeech(campaign, endCallGoodbye, language);
+        transcriptService.recordAgentLine(callId, endCallGoodbye, speech);
         const twiml = twilioService.generateTwiML('hangup', {
-          text: 'I understand. Thank you for your time. Have a great day!',
-          language: campaign?.language || 'en',
+          text: endCallGoodbye,
+          ...speech,
+          language,
           addTypingSound: true
         });
         res.type('text/xml').send(twiml);
         return;
       }
 
+      // Low-confidence transcripts aren't worth a model turn - ask the caller to repeat
+      if (sttService.isUnclear(campaign, heard)) {
+        const repeatRequest = await callManager.handleUnclearSpeech(callId, speechText);
+        if (repeatRequest) {
+          const speech = await callManager.getPhraseSpeech(campaign, repeatRequest, language);
+          transcriptService.recordAgentLine(callId, repeatRequest, speech);
+          res.type('text/xml').send(twilioService.generateTwiML('gather', {
+            text: repeatRequest,
+            ...speech,
+            action: `/api/calls/${callId}/process-speech`,
+            ...sttService.getListenOptions(campaign, language)
+          }));
+          return;
+        }
+      }
+
       // Process with AI using campaign settings
       const result = await callManager.processSpeechInput(callId, speechText);
 
@@ -1951,20 +2638,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Warm transfer: runs on the rep's leg when they pick up, before the caller is bridged
+  app.post('/api/calls/:id/transfer/whisper', async (req, res) => {
+    try {
+      const { transferService } = await import('./services/transferService');
+      const twiml = await transferService.handleRepAnswered(req.params.id, req.body.To || req.body.Called || 'unknown');
+      res.type('text/xml').send(twiml);
+    } catch (error) {
+      console.error('Transfer whisper error:', error);
+      res.type('text/xml').send('<Response></Response>');
+    }
+  });
+
+  // Warm transfer: <Dial> finished - the bridged call ended or no rep answered
+  app.post('/api/calls/:id/transfer/status', async (req, res) => {
+    try {
+      const { transferService } = await import('./services/transferService');
+      const twiml = await transferService.handleDialResult(
+        req.params.id,
+        req.body.DialCallStatus || 'failed',
+        parseInt(req.query.target as string) || 0
+      );
+      res.type('text/xml').send(twiml);
+    } catch (error) {
+      console.error('Transfer status error:', error);
+      res.type('text/xml').send(twilioService.generateTwiML('hangup'));
+    }
+  });
+
+  // Inbound voice webhook - set as the "A call comes in" URL on our Twilio numbers
+  app.post("/api/calls/webhook/inbound", async (req, res) => {
+    try {
+      const { CallSid, From, To } = req.body;
+      console.log(`📲 Inbound call ${CallSid} from ${From} to ${To}`);
+
+      const { inboundCallService } = await import('./services/inboundCallService');
+      const twiml = await inboundCallService.answer({ callSid: CallSid, from: From, to: To });
+      res.type('text/xml').send(twiml);
+    } catch (error) {
+      console.error('Inbound call webhook error:', error);
+      res.type('text/xml').send(twilioService.generateTwiML('hangup'));
+    }
+  });
+
+  // Recorded inbound calls come back here once the recording notice has played
+  app.post("/api/calls/webhook/inbound/greeting", async (req, res) => {
+    try {
+      const { inboundCallService } = await import('./services/inboundCallService');
+      res.type('text/xml').send(await inboundCallService.greetAfterConsent(req.query.callId as string));
+    } catch (error) {
+      console.error('Inbound greeting webhook error:', error);
+      res.type('text/xml').send(twilioService.generateTwiML('hangup'));
+    }
+  });
+
   // Call status webhook
   app.post("/api/calls/webhook/status", async (req, res) => {
     try {
-      const { callId } = req.query;
       const { CallStatus, CallDuration, CallSid, From, To } = req.body;
+      // Outbound calls carry our call id; inbound numbers post the plain URL, so look those up by SID
+      const callId = (req.query.callId as string) || (CallSid && (await storage.getCallByTwilioSid(CallSid))?.id);
 
       console.log(`📞 Call Status Update - CallID: ${callId}, Status: ${CallStatus}, Duration: ${CallDuration}, SID: ${CallSid}, From: ${From}, To: ${To}`);
       console.log(`📋 Full webhook body:`, req.body);
 
-      if (callId && (CallStatus === 'completed' || CallStatus === 'failed')) {
+      if (callId && FINAL_CALL_STATUSES.includes(CallStatus)) {
         console.log(`🔚 Call ${callId} ending with status: ${CallStatus}, duration: ${CallDuration}`);
         await callManager.completeCall(
           callId as string, 
-          CallDuration ? parseInt(CallDuration) : undefined
+          CallDuration ? parseInt(CallDuration) : undefined,
+          CallStatus
         );
 
         broadcast({
@@ -1981,7 +2724,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Removed recording webhook - not needed for direct speech processing
+  // Recording status webhook - Twilio posts here when a call recording finishes
+  app.post("/api/calls/webhook/recording-status", async (req, res) => {
+    try {
+      const callId = req.query.callId as string;
+      if (!callId) {
+        return res.status(400).send('Missing callId');
+      }
+
+      await recordingService.handleStatusCallback(callId, req.body);
+      res.status(200).send('OK');
+    } catch (error) {
+      console.error('Recording status webhook error:', error);
+      res.status(500).send('Error');
+    }
+  });
 
   // Global reference for broadcasting
   (global as any).broadcastToClients = broadcast;
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  decodeMulawSample,
+  encodeMulawSample,
+  mulawFrameEnergy,
+  mulawToPcm16,
+  pcm16ToMulaw,
+  pcm16ToWav,
+  resamplePcm16,
+  wavToPcm16,
+  MULAW_FRAME_BYTES
+} from './audioCodec';
+
+test('μ-law silence decodes to zero', () => {
+  assert.equal(encodeMulawSample(0), 0xff);
+  assert.equal(decodeMulawSample(0xff), 0);
+});
+
+test('μ-law round trips stay within the quantisation step', () => {
+  for (const sample of [-30000, -12000, -1000, -40, 40, 1000, 12000, 30000]) {
+    const decoded = decodeMulawSample(encodeMulawSample(sample));
+    assert.equal(Math.sign(decoded), Math.sign(sample));
+    assert.ok(Math.abs(decoded - sample) <= Math.abs(sample) / 16 + 8, `${sample} came back as ${decoded}`);
+  }
+});
+
+test('μ-law buffers convert to PCM and back', () => {
+  // 0x7f is μ-law's negative zero, which comes back as 0xff
+  const mulaw = Buffer.from([0x00, 0x10, 0x7e, 0x80, 0xaa, 0xff]);
+  const pcm = mulawToPcm16(mulaw);
+  assert.equal(pcm.length, mulaw.length * 2);
+  assert.deepEqual(pcm16ToMulaw(pcm), mulaw);
+});
+
+test('WAV files wrap and unwrap PCM', () => {
+  const pcm = Buffer.alloc(64);
+  for (let i = 0; i < 32; i++) pcm.writeInt16LE(i * 100 - 1600, i * 2);
+
+  const wav = pcm16ToWav(pcm, 16000);
+  assert.equal(wav.length, 44 + pcm.length);
+  const unwrapped = wavToPcm16(wav);
+  assert.equal(unwrapped.sampleRate, 16000);
+  assert.deepEqual(unwrapped.pcm, pcm);
+
+  assert.throws(() => wavToPcm16(Buffer.from('not audio at all')), /Not a WAV file/);
+});
+
+test('resampling changes the sample count by the rate ratio', () => {
+  const pcm = Buffer.alloc(16000 * 2);
+  assert.equal(resamplePcm16(pcm, 16000, 8000).length, 8000 * 2);
+  assert.equal(resamplePcm16(pcm, 8000, 8000), pcm);
+});
+
+test('frame energy separates silence from speech', () => {
+  assert.equal(mulawFrameEnergy(Buffer.alloc(MULAW_FRAME_BYTES, 0xff)), 0);
+  assert.equal(mulawFrameEnergy(Buffer.alloc(0)), 0);
+  assert.ok(mulawFrameEnergy(Buffer.alloc(MULAW_FRAME_BYTES, encodeMulawSample(8000))) > 7000);
+});
@@ -0,0 +1,131 @@
+// Audio helpers for Twilio Media Streams
+// Twilio sends and expects 8kHz mono G.711 μ-law, one byte per sample, in 20ms frames.
+
+export const MULAW_SAMPLE_RATE = 8000;
+export const MULAW_FRAME_BYTES = 160; // 20ms at 8kHz
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+// Decode a single μ-law byte to a signed 16-bit PCM sample
+export function decodeMulawSample(value: number): number {
+  const muLaw = ~value & 0xff;
+  const sign = muLaw & 0x80;
+  const exponent = (muLaw >> 4) & 0x07;
+  const mantissa = muLaw & 0x0f;
+  const sample = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+  return sign ? -sample : sample;
+}
+
+// Encode a signed 16-bit PCM sample to a μ-law byte
+export function encodeMulawSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+// Convert a μ-law buffer to 16-bit little-endian PCM
+export function mulawToPcm16(mulaw: Buffer): Buffer {
+  const pcm = Buffer.alloc(mulaw.length * 2);
+  for (let i = 0; i < mulaw.length; i++) {
+    pcm.writeInt16LE(decodeMulawSample(mulaw[i]), i * 2);
+  }
+  return pcm;
+}
+
+// Convert 16-bit little-endian PCM to a μ-law buffer
+export function pcm16ToMulaw(pcm: Buffer): Buffer {
+  const mulaw = Buffer.alloc(Math.floor(pcm.length / 2));
+  for (let i = 0; i < mulaw.length; i++) {
+    mulaw[i] = encodeMulawSample(pcm.readInt16LE(i * 2));
+  }
+  return mulaw;
+}
+
+// Wrap raw 16-bit mono PCM in a WAV header so Whisper and other STT APIs accept it
+export function pcm16ToWav(pcm: Buffer, sampleRate: number = MULAW_SAMPLE_RATE): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  header.writeUInt16LE(2, 32); // block align
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+// Pull 16-bit mono PCM out of a WAV file, e.g. one rendered by Piper or espeak
+export function wavToPcm16(wav: Buffer): { pcm: Buffer; sampleRate: number } {
+  if (wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const channels = wav.readUInt16LE(body + 2);
+      const bitsPerSample = wav.readUInt16LE(body + 14);
+      if (wav.readUInt16LE(body) !== 1 || channels !== 1 || bitsPerSample !== 16) {
+        throw new Error('Only 16-bit mono PCM WAV is supported');
+      }
+      sampleRate = wav.readUInt32LE(body + 4);
+    } else if (chunkId === 'data') {
+      if (!sampleRate) throw new Error('WAV data chunk before fmt chunk');
+      // Streamed WAVs may leave the size unset (0 or 0xFFFFFFFF) - take everything that follows
+      const end = chunkSize > 0 && body + chunkSize <= wav.length ? body + chunkSize : wav.length;
+      return { pcm: wav.subarray(body, end - ((end - body) % 2)), sampleRate };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+// Linear-interpolation resample of 16-bit mono PCM - good enough for speech going down to 8kHz
+export function resamplePcm16(pcm: Buffer, fromRate: number, toRate: number): Buffer {
+  if (fromRate === toRate) return pcm;
+
+  const inputSamples = Math.floor(pcm.length / 2);
+  const outputSamples = Math.floor(inputSamples * toRate / fromRate);
+  const output = Buffer.alloc(outputSamples * 2);
+  for (let i = 0; i < outputSamples; i++) {
+    const position = i * fromRate / toRate;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, inputSamples - 1);
+    const fraction = position - index;
+    const sample = pcm.readInt16LE(index * 2) * (1 - fraction) + pcm.readInt16LE(next * 2) * fraction;
+    output.writeInt16LE(Math.round(sample), i * 2);
+  }
+  return output;
+}
+
+// Root-mean-square energy of a μ-law frame, used for voice activity detection
+export function mulawFrameEnergy(frame: Buffer): number {
+  if (frame.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    const sample = decodeMulawSample(frame[i]);
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / frame.length);
+}
@@ -0,0 +1,148 @@
+import {
+  callAnalysisSchema,
+  SENTIMENTS,
+  type Call,
+  type CallAnalysis,
+  type Campaign,
+  type DispositionCode
+} from '@shared/schema';
+import { storage } from '../storage';
+import { OpenAIService } from './openaiService';
+import { llmService } from './llmService';
+import { variantService } from './variantService';
+
+// Post-call analysis
+// Once a conversation has ended, the transcript goes to the model on its own - not through the
+// sales-agent prompt - and comes back as one JSON object: a disposition from the campaign's list,
+// the caller's sentiment, a structured summary (key points, objections, agreed next step) and a
+// 1-100 success score. The results are written to the call, where campaign analytics pick them up.
+
+// Used for campaigns that haven't defined their own disposition codes
+export const DEFAULT_DISPOSITION_CODES: DispositionCode[] = [
+  { code: 'interested', description: 'Wants to go ahead, or asked for details, pricing or a demo' },
+  { code: 'information_shared', description: 'Shared contact details for a follow-up but made no decision' },
+  { code: 'callback_requested', description: 'Asked to be called back at another time' },
+  { code: 'not_interested', description: 'Declined the offer' },
+  { code: 'opted_out', description: 'Asked never to be contacted again' },
+  { code: 'wrong_contact', description: 'Not the owner or decision maker, or a wrong number' },
+  { code: 'transferred', description: 'Was handed to a human team member' },
+  { code: 'no_conversation', description: 'Hung up or said nothing meaningful' },
+];
+
+// Analysis runs on the campaign's models, but wants a steadier, longer answer than a spoken reply
+const ANALYSIS_TEMPERATURE = 0.2;
+const ANALYSIS_MAX_TOKENS = 800;
+const ANALYSIS_MIN_TIMEOUT_MS = 30 * 1000;
+
+export class CallAnalysisService {
+  // Disposition codes for a campaign, falling back to the default
+  getDispositionCodes(campaign: Campaign): DispositionCode[] {
+    const codes = campaign.dispositionCodes as DispositionCode[] | null;
+    return codes && codes.length > 0 ? codes : DEFAULT_DISPOSITION_CODES;
+  }
+
+  // Analyse a finished call and write the results to it - undefined when the caller never spoke or the model failed
+  async analyze(callId: string): Promise<CallAnalysis | undefined> {
+    const call = await storage.getCall(callId);
+    const campaign = call ? await variantService.getCampaignForCall(call) : undefined;
+    if (!call || !campaign) return undefined;
+
+    const messages = await storage.getCallConversation(callId);
+    if (!messages.some(message => message.role === 'user')) return undefined;
+
+    const transcript = messages
+      .map(message => `${message.role === 'user' ? 'Caller' : 'Agent'}: ${message.content}`)
+      .join('\n');
+    const codes = this.getDispositionCodes(campaign);
+
+    const llm = llmService.getConfig(campaign);
+
+    try {
+      const raw = await OpenAIService.generateJson(
+        this.buildPrompt(campaign, call, codes),
+        transcript,
+        { name: 'call_analysis', schema: this.buildJsonSchema(codes) },
+        {
+          ...llm,
+          temperature: ANALYSIS_TEMPERATURE,
+          maxTokens: ANALYSIS_MAX_TOKENS,
+          timeoutMs: Math.max(llm.timeoutMs, ANALYSIS_MIN_TIMEOUT_MS)
+        }
+      ) as Record<string, unknown>;
+      // Strict JSON schemas can't bound numbers, so the score is clamped here
+      const score = Number(raw.successScore);
+      const parsed = callAnalysisSchema.safeParse({
+        ...raw,
+        successScore: Number.isFinite(score) ? Math.min(100, Math.max(1, Math.round(score))) : raw.successScore
+      });
+      if (!parsed.success) {
+        throw new Error(parsed.error.issues.map(issue => issue.message).join('; '));
+      }
+      const analysis = parsed.data;
+
+      // Outcomes fixed during the call - an opt-out, a booked callback, a supervisor hangup - are kept
+      await storage.updateCall(callId, {
+        disposition: call.disposition || analysis.disposition,
+        sentiment: analysis.sentiment,
+        successScore: analysis.successScore,
+        conversationSummary: analysis.summary,
+        analysis
+      });
+      console.log(`📊 Call ${callId} analysed: ${analysis.disposition}, ${analysis.sentiment}, score ${analysis.successScore}`);
+
+      if ((global as any).broadcastToClients) {
+        (global as any).broadcastToClients({ type: 'call_analyzed', callId, analysis });
+      }
+      return analysis;
+    } catch (error) {
+      console.error(`❌ Post-call analysis failed for call ${callId}:`, error);
+      return undefined;
+    }
+  }
+
+  private buildPrompt(campaign: Campaign, call: Call, codes: DispositionCode[]): string {
+    const slots = Object.entries((call.collectedData as Record<string, { value: string }> | null) || {})
+      .map(([name, slot]) => `- ${name}: ${slot.value}`);
+
+    return `You analyse phone calls that an AI agent named ${campaign.agentName} has just finished. The user message is the transcript.
+
+What the campaign is trying to achieve:
+${campaign.aiPrompt}
+
+DETAILS THE AGENT CAPTURED:
+${slots.length > 0 ? slots.join('\n') : '- nothing'}
+${call.transferStatus ? `\nThe call was handed to a human rep (transfer ${call.transferStatus}).\n` : ''}
+Return:
+- disposition: the code that best describes how the call ended, one of:
+${codes.map(disposition => `  - ${disposition.code}: ${disposition.description}`).join('\n')}
+- sentiment: the caller's overall attitude towards the agent and the offer
+- summary: two or three sentences on what happened
+- keyPoints: facts worth remembering for the next conversation with this caller
+- objections: concerns or reasons for hesitating the caller raised, empty if none
+- nextStep: the next step both sides agreed on, or null if none was agreed
+- successScore: 1-100, how close the call came to the campaign's goal - 1 when the caller refused or the call never got going, around 50 when they were interested but nothing was agreed, 100 when the goal was fully met
+
+Write the summary, key points, objections and next step in English, whatever language the call was in.`;
+  }
+
+  // Strict mode: every property required, no others allowed
+  private buildJsonSchema(codes: DispositionCode[]): Record<string, unknown> {
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required: ['disposition', 'sentiment', 'summary', 'keyPoints', 'objections', 'nextStep', 'successScore'],
+      properties: {
+        disposition: { type: 'string', enum: codes.map(disposition => disposition.code) },
+        sentiment: { type: 'string', enum: [...SENTIMENTS] },
+        summary: { type: 'string' },
+        keyPoints: { type: 'array', items: { type: 'string' } },
+        objections: { type: 'array', items: { type: 'string' } },
+        nextStep: { type: ['string', 'null'] },
+        successScore: { type: 'integer' }
+      }
+    };
+  }
+}
+
+// Export singleton instance
+export const callAnalysisService = new CallAnalysisService();
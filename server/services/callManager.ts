@@ -1,37 +1,55 @@
-import { OpenAIService } from './openaiService';
-import { ElevenLabsService } from './elevenlabsService';
+import { OpenAIService, combineTools, type ChatTools } from './openaiService';
 import { twilioService } from './twilioService';
-import { directSpeechService } from './directSpeechService';
 // Removed OpenAI speech service import - using Twilio direct speech recognition
 import { storage } from '../storage';
+import { callSessionStore, createInitialSessionState, type CallSession } from './callSessionStore';
+import { conversationEngine } from './conversationEngine';
+import { slotService } from './slotService';
+import { redialService } from './redialService';
+import { callingWindowService } from './callingWindowService';
+import { suppressionService } from './suppressionService';
+import { transferService } from './transferService';
+import { callbackService } from './callbackService';
+import { callAnalysisService } from './callAnalysisService';
+import { ttsService, type Speech } from './ttsService';
+import { sttService } from './sttService';
+import { transcriptService } from './transcriptService';
+import { variantService } from './variantService';
+import { llmService } from './llmService';
+import { getPhrases } from './phrases';
+import type { Campaign, ConversationStage, TransferReason } from '@shared/schema';
 // Using built-in fetch available in Node.js 18+
 
-interface ConversationTurn {
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
+// Consecutive empty gathers before the call is ended
+const MAX_SILENT_TURNS = 3;
+// Times in a row the agent asks the caller to repeat a low-confidence transcript
+const MAX_REPEAT_REQUESTS = 2;
+
+export interface TurnContext {
+  session: CallSession;
+  campaign: Campaign;
+  speechText: string;
+  priorHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
+  stage: ConversationStage;
+  language: string; // The call's current language
+  systemPrompt: string;
+  tools: ChatTools;
 }
 
-interface ActiveCall {
-  id: string;
-  contactId: string;
-  campaignId: string;
-  phoneNumber: string;
-  twilioCallSid: string;
-  conversationHistory: ConversationTurn[];
-  status: 'active' | 'completed' | 'failed';
-  startTime: Date;
+export interface HandoffLine {
+  reason: TransferReason;
+  announcement: string; // Spoken to the caller before the reps are dialed
 }
 
 export class CallManager {
-  private activeCalls: Map<string, ActiveCall> = new Map();
-
   // Start a new call
   async startCall(
     contactId: string,
     campaignId: string,
-    phoneNumber: string
-  ): Promise<{ success: boolean; callId?: string; error?: string }> {
+    phoneNumber: string,
+    attempt?: { attemptNumber: number; originalCallId: string | null },
+    callerContext?: string
+  ): Promise<{ success: boolean; callId?: string; error?: string; deferredUntil?: Date }> {
     try {
       // Get campaign details
       const campaign = await storage.getCampaign(campaignId);
@@ -39,13 +57,37 @@ export class CallManager {
         return { success: false, error: 'Campaign not found' };
       }
 
+      // Never dial anyone on the do-not-contact registry
+      const suppression = await suppressionService.findSuppression({ phone: phoneNumber }, 'call');
+      if (suppression) {
+        return { success: false, error: `Number is on the do-not-contact list (${suppression.source})` };
+      }
+
+      // Respect the campaign's calling hours and holidays in the contact's local time
+      const deferredUntil = await callingWindowService.getDeferral(campaign, contactId);
+      if (deferredUntil) {
+        return {
+          success: false,
+          deferredUntil,
+          error: `Outside calling hours - next allowed slot is ${deferredUntil.toISOString()}`
+        };
+      }
+
+      // Campaigns running an A/B test give each contact one of their variants
+      const variant = variantService.assign(campaign, contactId || phoneNumber);
+
       // Create call record in database
       const newCall = await storage.createCall({
         contactId,
         campaignId,
         phoneNumber,
         status: 'active',
-        startTime: new Date()
+        startTime: new Date(),
+        attemptNumber: attempt?.attemptNumber ?? 1,
+        originalCallId: attempt?.originalCallId ?? null,
+        language: campaign.language,
+        variantId: variant?.id ?? null,
+        sessionState: callerContext ? { ...createInitialSessionState(), callerContext } : undefined
       });
 
       // Initiate Twilio call
@@ -61,23 +103,11 @@ export class CallManager {
         return { success: false, error: twilioResult.error };
       }
 
-      // Update call with Twilio SID
+      // Update call with Twilio SID - session state lives on this row from now on
       await storage.updateCall(newCall.id, { 
         twilioCallSid: twilioResult.twilioCallSid 
       });
 
-      // Track active call
-      this.activeCalls.set(newCall.id, {
-        id: newCall.id,
-        contactId,
-        campaignId,
-        phoneNumber,
-        twilioCallSid: twilioResult.twilioCallSid!,
-        conversationHistory: [],
-        status: 'active',
-        startTime: new Date()
-      });
-
       return { success: true, callId: newCall.id };
     } catch (error) {
       console.error('Error starting call:', error);
@@ -88,21 +118,98 @@ export class CallManager {
     }
   }
 
-  // Ensure a call is tracked in active calls (used after server restarts)
-  ensureCallIsTracked(callId: string, dbCall: any): void {
-    if (!this.activeCalls.has(callId)) {
-      console.log(`🔄 Adding call ${callId} to active calls tracking`);
-      this.activeCalls.set(callId, {
-        id: dbCall.id,
-        contactId: dbCall.contactId,
-        campaignId: dbCall.campaignId,
-        phoneNumber: dbCall.phoneNumber,
-        twilioCallSid: dbCall.twilioCallSid,
-        conversationHistory: [],
-        status: 'active',
-        startTime: dbCall.startTime
+  // Rehydrate the session, persist the caller's turn and gather what the model needs to reply
+  // Shared by the <Gather> webhook flow and the Media Streams pipeline
+  async beginTurn(callId: string, speechText: string): Promise<TurnContext | undefined> {
+    // Rehydrate the session from the database on every turn
+    const session = await callSessionStore.load(callId);
+    if (!session || session.status !== 'active') {
+      console.log(`❌ Call ${callId} not found in database or not active`);
+      return undefined;
+    }
+
+    // Get campaign for script context, as the call's variant runs it
+    const campaign = await variantService.getCampaignForCall(session);
+    if (!campaign) return undefined;
+
+    // History passed to the model excludes the current utterance, which goes in as the user message
+    const priorHistory = session.conversationHistory.slice(-4).map(turn => ({ // Only last 4 exchanges for speed
+      role: turn.role,
+      content: turn.content
+    }));
+
+    // Persist the user turn before generating so a concurrent webhook sees it
+    session.conversationHistory.push(await callSessionStore.appendTurn(callId, 'user', speechText));
+
+    // Details the caller shares are captured through record_slot tool calls during generation,
+    // and callback requests are booked in the caller's local time
+    const timezone = await callbackService.getTimezone(campaign, session.contactId);
+    const tools = combineTools(
+      slotService.createTools(campaign, callId, session.state.turnCount + 1, slots => {
+        session.slots = slots;
+      }),
+      callbackService.createTools(campaign, callId, session.contactId, timezone)
+    );
+
+    // Build the prompt for whichever campaign stage the call is in
+    const stage = conversationEngine.getCurrentStage(campaign, session.state.stage);
+    const whisper = session.state.supervisorWhisper;
+    const language = session.language || campaign.language;
+    const systemPrompt = conversationEngine.buildSystemPrompt(campaign, stage, session.slots, {
+      callerContext: session.state.callerContext,
+      timezone,
+      supervisorWhisper: whisper,
+      language
+    });
+
+    // A whisper steers one reply - one sent while this turn was being prepared waits for the next
+    if (whisper) {
+      await callSessionStore.update(callId, draft => {
+        const pending = draft.state.supervisorWhisper;
+        if (pending?.startsWith(whisper)) draft.state.supervisorWhisper = pending.slice(whisper.length).trim() || undefined;
       });
     }
+
+    return { session, campaign, speechText, priorHistory, stage, language, systemPrompt, tools };
+  }
+
+  // Persist the agent's reply, advance the stage and decide whether the call is over or goes to a rep
+  async endTurn(turn: TurnContext, rawResponse: string): Promise<{ reply: string; shouldEndCall: boolean; transfer?: HandoffLine }> {
+    const { session, campaign, stage } = turn;
+    const outcome = conversationEngine.applyReply(campaign, stage, rawResponse, session.slots);
+
+    // Save AI response, bump turn counters and move to the next stage
+    session.conversationHistory.push(await callSessionStore.appendTurn(session.id, 'assistant', outcome.reply));
+    const updated = await callSessionStore.update(session.id, draft => {
+      draft.state.turnCount += 1;
+      draft.state.silenceCount = 0;
+      draft.state.unclearCount = 0;
+      draft.state.stage = outcome.nextStage.id;
+    });
+    if (updated) session.state = updated.state;
+
+    // Broadcast real-time update
+    this.broadcastCallUpdate(session);
+
+    // Hot prospects and handoff stages go to a rep instead of continuing (or ending) with the agent
+    const transferReason = transferService.getReplyTrigger(campaign, session, {
+      transferRequested: outcome.transferRequested,
+      previousStageId: stage.id,
+      nextStageId: outcome.nextStage.id
+    });
+    if (transferReason) {
+      const announcement = await transferService.begin(session, campaign, transferReason);
+      return { reply: outcome.reply, shouldEndCall: false, transfer: { reason: transferReason, announcement } };
+    }
+
+    return { reply: outcome.reply, shouldEndCall: outcome.shouldEndCall };
+  }
+
+  // The caller asked for a person - hand over without asking the model
+  async transferOnRequest(turn: TurnContext): Promise<HandoffLine | undefined> {
+    if (!transferService.isCallerRequest(turn.campaign, turn.session, turn.speechText)) return undefined;
+    const announcement = await transferService.begin(turn.session, turn.campaign, 'caller_request');
+    return { reason: 'caller_request', announcement };
   }
 
   // Process speech input during call
@@ -111,45 +218,8 @@ export class CallManager {
     speechText: string
   ): Promise<{ twiml: string; success: boolean }> {
     try {
-      console.log(`🔍 Looking for active call: ${callId}`);
-      console.log(`📊 Active calls count: ${this.activeCalls.size}`);
-      console.log(`📋 Active call IDs: ${Array.from(this.activeCalls.keys()).join(', ')}`);
-
-      let activeCall = this.activeCalls.get(callId);
-
-      // If call not in memory, try to reconstruct from database
-      if (!activeCall) {
-        console.log(`⚠️ Call ${callId} not found in active calls, reconstructing from database`);
-        const dbCall = await storage.getCall(callId);
-        if (dbCall && dbCall.status === 'active') {
-          activeCall = {
-            id: dbCall.id,
-            contactId: dbCall.contactId!,
-            campaignId: dbCall.campaignId!,
-            phoneNumber: dbCall.phoneNumber,
-            twilioCallSid: dbCall.twilioCallSid!,
-            conversationHistory: [],
-            status: 'active',
-            startTime: dbCall.startTime
-          };
-          this.activeCalls.set(callId, activeCall);
-          console.log(`✅ Reconstructed active call from database`);
-        } else {
-          console.log(`❌ Call ${callId} not found in database or not active`);
-          return {
-            twiml: twilioService.generateTwiML('hangup', { 
-              text: 'Thank you for your time. Goodbye.',
-              language: 'en',
-              voice: 'alice'
-            }),
-            success: false
-          };
-        }
-      }
-
-      // Get campaign for script context
-      const campaign = await storage.getCampaign(activeCall.campaignId);
-      if (!campaign) {
+      const turn = await this.beginTurn(callId, speechText);
+      if (!turn) {
         return {
           twiml: twilioService.generateTwiML('hangup', { 
             text: 'Thank you for your time. Goodbye.',
@@ -159,152 +229,83 @@ export class CallManager {
           success: false
         };
       }
+      const { campaign } = turn;
+
+      // Callers asking for a person are handed over without waiting on the model
+      let transfer = await this.transferOnRequest(turn);
+      let aiResponse: string;
+      let shouldEndCall = false;
+
+      if (transfer) {
+        aiResponse = transfer.announcement;
+      } else {
+        // Generate AI response quickly using campaign settings
+        const aiResult = await OpenAIService.generateResponse(
+          speechText,
+          turn.systemPrompt,
+          turn.priorHistory,
+          llmService.getConfig(campaign),
+          turn.tools
+        );
 
-      // Add user message to conversation history
-      activeCall.conversationHistory.push({
-        role: 'user',
-        content: speechText,
-        timestamp: new Date()
-      });
-
-      // Extract contact information from speech (optimized for speed)
-      const contactInfo = directSpeechService.extractContactInfo(speechText);
-
-      // Get current call data to check existing contact info
-      const currentCall = await storage.getCall(callId);
-      const hasContactInfo = {
-        whatsapp: currentCall?.extractedWhatsapp || contactInfo.whatsapp,
-        email: currentCall?.extractedEmail || contactInfo.email
-      };
-
-      // Update call with any new contact info
-      if (contactInfo.whatsapp || contactInfo.email) {
-        await storage.updateCall(callId, {
-          extractedWhatsapp: hasContactInfo.whatsapp,
-          extractedEmail: hasContactInfo.email
-        });
-        console.log(`✅ Updated contact info - WhatsApp: ${hasContactInfo.whatsapp}, Email: ${hasContactInfo.email}`);
-      }
-
-      // Generate AI response quickly using campaign settings
-      const aiResult = await OpenAIService.generateResponse(
-        speechText,
-        campaign.script || campaign.aiPrompt,
-        activeCall.conversationHistory.slice(-4).map(turn => ({ // Only last 4 exchanges for speed
-          role: turn.role,
-          content: turn.content
-        })),
-        hasContactInfo,
-        campaign.openaiModel
-      );
-
-      const aiResponse = aiResult.response;
-
-      // Add AI response to conversation history
-      activeCall.conversationHistory.push({
-        role: 'assistant',
-        content: aiResponse,
-        timestamp: new Date()
-      });
-
-      // Save conversation to database
-      try {
-        await storage.createCallMessage({
-          callId,
-          role: 'user',
-          content: speechText
-        });
-        await storage.createCallMessage({
-          callId,
-          role: 'assistant', 
-          content: aiResponse
-        });
-        console.log('✅ Messages saved to database successfully');
-      } catch (dbError) {
-        console.error('❌ Database save error:', dbError);
+        const result = await this.endTurn(turn, aiResult.response);
+        transfer = result.transfer;
+        shouldEndCall = result.shouldEndCall;
+        aiResponse = transfer ? `${result.reply} ${transfer.announcement}` : result.reply;
       }
 
-      // Check if conversation should end (only after collecting BOTH WhatsApp and email)
-      const hasAllContactInfo = hasContactInfo.whatsapp && hasContactInfo.email;
-      const shouldEndCall = (hasAllContactInfo && (
-                           activeCall.conversationHistory.length >= 8 || 
-                           aiResponse.toLowerCase().includes('thank you for your time') ||
-                           aiResponse.toLowerCase().includes('goodbye')
-                           )) ||
-                           speechText.toLowerCase().includes('not interested') ||
-                           speechText.toLowerCase().includes('hang up');
-
-      // Generate ElevenLabs audio with fast fallback to Twilio if it fails
+      // Speak in the campaign voice, or its backup voice if the primary provider is failing
       let twiml;
 
       try {
-        console.log(`🎤 Generating ElevenLabs audio with campaign voice: ${campaign.voiceId}`);
-        const voiceConfig = campaign.voiceConfig as any;
-        const audioBuffer = await ElevenLabsService.textToSpeech(
-          aiResponse,
-          campaign.voiceId,
-          {
-            stability: voiceConfig?.stability || 0.5,
-            similarityBoost: voiceConfig?.similarityBoost || 0.75,
-            style: voiceConfig?.style || 0.0,
-            speakerBoost: voiceConfig?.useSpeakerBoost || true,
-            model: campaign.elevenlabsModel || 'eleven_turbo_v2'
-          }
-        );
-
-        // Save audio file temporarily
-        const fs = await import('fs');
-        const path = await import('path');
-        const audioFileName = `response_${callId}_${Date.now()}.mp3`;
-        const tempDir = path.default.join(process.cwd(), 'temp');
-        if (!fs.default.existsSync(tempDir)) {
-          fs.default.mkdirSync(tempDir, { recursive: true });
-        }
-        const audioFilePath = path.default.join(tempDir, audioFileName);
-        fs.default.writeFileSync(audioFilePath, audioBuffer);
+        // Replies that repeat (goodbyes, confirmations) come straight from the TTS cache
+        const speech = { text: aiResponse, ...await ttsService.getSpeech(campaign, aiResponse, turn.language) };
+        transcriptService.recordAgentLine(callId, aiResponse, speech);
 
-        // Create accessible URL
-        const baseUrl = process.env.REPLIT_DEV_DOMAIN ? 
-          `https://${process.env.REPLIT_DEV_DOMAIN}` : 
-          `https://${process.env.REPL_SLUG}.${process.env.REPL_OWNER}.repl.co`;
-        const audioUrl = `${baseUrl}/audio/${audioFileName}`;
+        console.log(`✅ Reply ready: ${speech.audioUrl || `<Say> in ${speech.say?.voice}`}`);
 
-        console.log(`✅ Using ElevenLabs voice: ${campaign.voiceId}, audio URL: ${audioUrl}`);
-
-        if (shouldEndCall) {
+        if (transfer) {
+          twiml = transferService.buildDialTwiML(callId, campaign, 0, speech);
+        } else if (shouldEndCall) {
           twiml = twilioService.generateTwiML('hangup', {
-            audioUrl: audioUrl, // Use ElevenLabs audio
-            language: campaign.language || 'en',
+            ...speech,
+            language: turn.language,
             addTypingSound: true,
             addThinkingPause: true
           });
           setTimeout(() => this.completeCall(callId), 1000);
         } else {
           twiml = twilioService.generateTwiML('gather', {
-            audioUrl: audioUrl,
+            ...speech,
             action: `/api/calls/${callId}/process-speech`,
             recordingCallback: `/api/calls/recording-complete?callId=${callId}`,
-            language: campaign.language || 'en',
+            ...sttService.getListenOptions(campaign, turn.language),
             addTypingSound: true,
             addThinkingPause: true
           });
         }
 
-      } catch (elevenlabsError) {
-        console.error('❌ ElevenLabs TTS failed - maintaining voice consistency, no fallback:', elevenlabsError);
+      } catch (ttsError) {
+        console.error('❌ Every voice configured for the campaign failed:', ttsError);
 
-        // No fallback to maintain voice consistency - end call gracefully
-        twiml = twilioService.generateTwiML('hangup', {
-          text: 'I apologize, there was a technical issue. We will call you back shortly.',
-          language: campaign.language || 'en',
-          addTypingSound: true
-        });
-        setTimeout(() => this.completeCall(callId), 1000);
+        if (transfer) {
+          // A rep can still take the call - connect without the handoff line
+          twiml = transferService.buildDialTwiML(callId, campaign);
+        } else {
+          // End the call gracefully, in the pre-rendered apology if we have it
+          const { technicalIssue } = getPhrases(turn.language);
+          const apology = await ttsService.getCachedSpeech(campaign, technicalIssue, turn.language);
+          transcriptService.recordAgentLine(callId, technicalIssue, apology);
+          twiml = twilioService.generateTwiML('hangup', {
+            text: technicalIssue,
+            ...apology,
+            language: turn.language,
+            addTypingSound: true
+          });
+          setTimeout(() => this.completeCall(callId), 1000);
+        }
       }
 
-      // Broadcast real-time update
-      this.broadcastCallUpdate(activeCall);
-
       return { twiml, success: true };
     } catch (error) {
       console.error('❌ Error processing speech input:', error);
@@ -320,32 +321,142 @@ export class CallManager {
     }
   }
 
+  // The caller asked not to be called again - register the opt-out and return the goodbye line in the call's language
+  async handleOptOut(callId: string, speechText: string, language?: string): Promise<string> {
+    const goodbye = getPhrases(language).optOutGoodbye;
+    await callSessionStore.appendTurn(callId, 'user', speechText);
+    await callSessionStore.appendTurn(callId, 'assistant', goodbye);
+
+    const call = await storage.getCall(callId);
+    if (call) {
+      await storage.updateCall(callId, { disposition: 'opted_out' });
+      await suppressionService.add({
+        phone: call.phoneNumber,
+        channel: 'all',
+        source: 'call_phrase',
+        reason: speechText,
+        contactId: call.contactId
+      });
+    }
+
+    setTimeout(() => this.completeCall(callId), 1000);
+    return goodbye;
+  }
+
   // Removed processRecording method - using direct speech recognition only
 
-  // Handle call completion
-  async completeCall(callId: string, duration?: number): Promise<void> {
+  // Count a silent turn - the reprompt to speak, or the goodbye once the caller has been silent too long
+  async registerSilence(callId: string, campaign?: Campaign | null): Promise<{ text: string; language: string; shouldHangup: boolean }> {
+    const session = await callSessionStore.update(callId, draft => {
+      draft.state.silenceCount += 1;
+    });
+    const language = session?.language || campaign?.language || 'en';
+    const phrases = getPhrases(language);
+
+    if (!session || session.state.silenceCount >= MAX_SILENT_TURNS) {
+      console.log(`🔇 Call ${callId} silent for ${session?.state.silenceCount ?? 0} turns, ending call`);
+      return { text: phrases.silenceGoodbye, language, shouldHangup: true };
+    }
+    return { text: phrases.silenceReprompt, language, shouldHangup: false };
+  }
+
+  // Handle a gather that returned no speech - reprompt until the silence limit is hit
+  async handleSilence(callId: string, campaign?: Campaign | null): Promise<{ twiml: string; shouldHangup: boolean }> {
+    const { text, language, shouldHangup } = await this.registerSilence(callId, campaign);
+
+    if (shouldHangup) {
+      setTimeout(() => this.completeCall(callId), 1000);
+      const goodbye = await this.getPhraseSpeech(campaign, text, language);
+      transcriptService.recordAgentLine(callId, text, goodbye);
+      return {
+        twiml: twilioService.generateTwiML('hangup', {
+          text,
+          ...goodbye,
+          language
+        }),
+        shouldHangup: true
+      };
+    }
+
+    const reprompt = await this.getPhraseSpeech(campaign, text, language);
+    transcriptService.recordAgentLine(callId, text, reprompt);
+    return {
+      twiml: twilioService.generateTwiML('gather', {
+        text,
+        ...reprompt,
+        action: `/api/calls/${callId}/process-speech`,
+        ...sttService.getListenOptions(campaign, language),
+        addTypingSound: true,
+        addThinkingPause: true
+      }),
+      shouldHangup: false
+    };
+  }
+
+  // The transcript was too unsure to act on - returns the line asking the caller to repeat, in the call's language,
+  // or undefined once they have been asked enough times and the best guess should go to the model
+  async handleUnclearSpeech(callId: string, speechText: string): Promise<string | undefined> {
+    const session = await callSessionStore.update(callId, draft => {
+      draft.state.unclearCount = (draft.state.unclearCount || 0) + 1;
+    });
+    if (!session || (session.state.unclearCount || 0) > MAX_REPEAT_REQUESTS) {
+      console.log(`🤷 Still unclear after ${MAX_REPEAT_REQUESTS} repeats on call ${callId}, going with "${speechText}"`);
+      return undefined;
+    }
+
+    console.log(`🤷 Unclear speech on call ${callId} ("${speechText}"), asking the caller to repeat`);
+    return getPhrases(session.language).repeatRequest;
+  }
+
+  // Fixed phrase in the campaign voice, usually pre-rendered - empty if no voice can speak it
+  async getPhraseSpeech(campaign: Campaign | null | undefined, text: string, language?: string): Promise<Speech> {
+    if (!campaign) return {};
+    try {
+      return await ttsService.getSpeech(campaign, text, language);
+    } catch (error) {
+      console.error(`❌ Could not render "${text}":`, error);
+      return {};
+    }
+  }
+
+  // Handle call completion - safe to call from several webhooks, only the first one runs follow-ups
+  // status carries Twilio's final outcome ('busy', 'no-answer', ...) when nobody picked up
+  async completeCall(callId: string, duration?: number, status = 'completed'): Promise<void> {
     try {
-      const activeCall = this.activeCalls.get(callId);
-      if (!activeCall) return;
+      const session = await callSessionStore.load(callId);
+      if (!session) return;
 
       // Update call status in database
-      await storage.updateCall(callId, {
-        status: 'completed',
+      const completed = await storage.completeActiveCall(callId, {
+        status,
         endTime: new Date(),
-        duration: duration || Math.floor((Date.now() - activeCall.startTime.getTime()) / 1000)
+        duration: duration || Math.floor((Date.now() - session.startTime.getTime()) / 1000)
       });
+      if (!completed) return;
+
+      // Unanswered attempts are redialed according to the campaign's retry policy
+      await redialService.scheduleRetry(completed);
+
+      // Nobody was spoken to, so there is nothing to summarise or follow up on - and callers who
+      // opted out must not hear from us again, not even a follow-up
+      if (
+        status !== 'completed' ||
+        completed.disposition === 'voicemail' ||
+        completed.disposition === 'fax' ||
+        completed.disposition === 'opted_out'
+      ) {
+        console.log(`Call ${callId} ended (${completed.disposition || status})`);
+        return;
+      }
 
-      // Remove from active calls
-      this.activeCalls.delete(callId);
-
-      // Generate call summary using AI
-      const summary = await this.generateCallSummary(activeCall.conversationHistory);
-      if (summary) {
-        await storage.updateCall(callId, { conversationSummary: summary });
+      // Disposition, sentiment, structured summary and success score
+      const analysis = await callAnalysisService.analyze(callId);
+      if (analysis) {
+        await callbackService.attachSummary(callId, analysis.summary);
       }
 
       // Extract contact information and send follow-up if needed
-      await this.processPostCallActions(callId, activeCall.conversationHistory);
+      await this.processPostCallActions(callId);
 
       console.log(`Call ${callId} completed successfully`);
     } catch (error) {
@@ -353,56 +464,19 @@ export class CallManager {
     }
   }
 
-  // Generate call summary using AI
-  private async generateCallSummary(conversationHistory: ConversationTurn[]): Promise<string> {
+  // Process post-call actions (WhatsApp follow-up) from the slots recorded during the call
+  private async processPostCallActions(callId: string): Promise<void> {
     try {
-      const conversationText = conversationHistory
-        .map(turn => `${turn.role}: ${turn.content}`)
-        .join('\n');
-
-      const summaryResponse = await OpenAIService.generateResponse(
-        `Please provide a brief summary of this call conversation:\n${conversationText}`,
-        "Generate a concise call summary focusing on key points discussed and outcomes.",
-        []
-      );
+      const session = await callSessionStore.load(callId);
+      const whatsapp = session?.slots.whatsapp?.value;
 
-      return summaryResponse.response;
-    } catch (error) {
-      console.error('Error generating call summary:', error);
-      return 'Call completed - summary generation failed';
-    }
-  }
+      // Send follow-up WhatsApp message if a number was captured
+      if (whatsapp) {
+        const message = "Thank you for your time during our call. We'll follow up with the information discussed about LabsCheck partnerships.";
+        const result = await twilioService.sendWhatsAppMessage(whatsapp, message);
 
-  // Process post-call actions (WhatsApp follow-up, contact updates)
-  private async processPostCallActions(callId: string, conversationHistory: ConversationTurn[]): Promise<void> {
-    try {
-      // Extract WhatsApp/email from conversation if mentioned
-      const conversationText = conversationHistory
-        .map(turn => turn.content)
-        .join(' ');
-
-      // Simple regex to extract WhatsApp numbers and emails
-      const whatsappMatch = conversationText.match(/(\+?[\d\s\-\(\)]{10,})/);
-      const emailMatch = conversationText.match(/[\w\.-]+@[\w\.-]+\.\w+/);
-
-      if (whatsappMatch || emailMatch) {
-        const extractedWhatsapp = whatsappMatch ? whatsappMatch[1].replace(/\D/g, '') : undefined;
-        const extractedEmail = emailMatch ? emailMatch[0] : undefined;
-
-        // Update call record with extracted data
-        await storage.updateCall(callId, {
-          extractedWhatsapp,
-          extractedEmail
-        });
-
-        // Send follow-up WhatsApp message if number was extracted
-        if (extractedWhatsapp) {
-          const message = "Thank you for your time during our call. We'll follow up with the information discussed about LabsCheck partnerships.";
-          const result = await twilioService.sendWhatsAppMessage(extractedWhatsapp, message);
-
-          if (result.success) {
-            await storage.updateCall(callId, { whatsappSent: true });
-          }
+        if (result.success) {
+          await storage.updateCall(callId, { whatsappSent: true });
         }
       }
     } catch (error) {
@@ -410,18 +484,20 @@ export class CallManager {
     }
   }
 
-  // Get active calls
-  getActiveCalls(): ActiveCall[] {
-    return Array.from(this.activeCalls.values());
+  // Get active calls from the database so every instance sees the same list
+  async getActiveCalls(): Promise<CallSession[]> {
+    const calls = await storage.getActiveCalls();
+    const sessions = await Promise.all(calls.map(call => callSessionStore.load(call.id)));
+    return sessions.filter((session): session is CallSession => !!session);
   }
 
   // Get call by ID
-  getCall(callId: string): ActiveCall | undefined {
-    return this.activeCalls.get(callId);
+  async getCall(callId: string): Promise<CallSession | undefined> {
+    return callSessionStore.load(callId);
   }
 
   // Broadcast call updates via WebSocket
-  private broadcastCallUpdate(call: ActiveCall): void {
+  private broadcastCallUpdate(call: CallSession): void {
     try {
       const broadcastFn = (global as any).broadcastToClients;
       if (broadcastFn) {
@@ -430,6 +506,7 @@ export class CallManager {
           call: {
             id: call.id,
             status: call.status,
+            stage: call.state.stage,
             conversationHistory: call.conversationHistory,
             duration: Math.floor((Date.now() - call.startTime.getTime()) / 1000)
           }
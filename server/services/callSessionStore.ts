@@ -0,0 +1,146 @@
+import { storage } from '../storage';
+import type { Call } from '@shared/schema';
+
+// Durable call session state
+// Conversation history lives in call_messages, everything else (stage, slots,
+// silence counters) lives on the calls row. Every webhook rehydrates from here,
+// so a restart or a second server instance picks up exactly where the call was.
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+}
+
+export interface CollectedSlot {
+  value: string;
+  turn: number; // Conversation turn the value was captured on
+  source: string; // How the value was captured, e.g. 'tool_call'
+  confidence: number; // 0-1, as reported by the model
+  capturedAt?: string;
+}
+
+export interface CallSessionState {
+  stage?: string;
+  turnCount: number;
+  silenceCount: number;
+  unclearCount?: number; // Repeat requests in a row for transcripts below the campaign's confidence threshold
+  transferAttempted?: boolean; // A call is handed to a rep at most once
+  callerContext?: string; // What we already know about the caller (inbound history, callback notes), added to every prompt
+  supervisorWhisper?: string; // Private supervisor instruction for the agent's next reply, cleared once used
+  lastActivityAt?: string;
+}
+
+export interface CallSession {
+  id: string;
+  contactId: string;
+  campaignId: string;
+  phoneNumber: string;
+  direction: string;
+  twilioCallSid: string;
+  status: string;
+  startTime: Date;
+  language: string | null; // null on calls from before languages were tracked - use the campaign's
+  variantId: string | null; // Campaign A/B variant the call runs
+  conversationHistory: ConversationTurn[];
+  slots: Record<string, CollectedSlot>;
+  state: CallSessionState;
+  version: number;
+}
+
+export interface CallSessionStore {
+  load(callId: string): Promise<CallSession | undefined>;
+  appendTurn(callId: string, role: ConversationTurn['role'], content: string): Promise<ConversationTurn>;
+  appendOpeningLine(callId: string, content: string): Promise<boolean>;
+  update(callId: string, mutate: (session: CallSession) => void): Promise<CallSession | undefined>;
+}
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+export function createInitialSessionState(): CallSessionState {
+  return { turnCount: 0, silenceCount: 0 };
+}
+
+export class DatabaseCallSessionStore implements CallSessionStore {
+  // Rebuild the full session, including conversation history
+  async load(callId: string): Promise<CallSession | undefined> {
+    const session = await this.loadWithoutHistory(callId);
+    if (!session) return undefined;
+
+    const messages = await storage.getCallConversation(callId);
+    session.conversationHistory = messages.map(message => ({
+      role: message.role as ConversationTurn['role'],
+      content: message.content,
+      timestamp: message.timestamp
+    }));
+
+    return session;
+  }
+
+  // Turns are append-only rows, so concurrent writers never overwrite each other
+  async appendTurn(callId: string, role: ConversationTurn['role'], content: string): Promise<ConversationTurn> {
+    const message = await storage.createCallMessage({ callId, role, content });
+    return { role, content, timestamp: message.timestamp };
+  }
+
+  // The agent's first line, recorded once - Twilio retrying the answer webhook must not repeat it in the history
+  async appendOpeningLine(callId: string, content: string): Promise<boolean> {
+    const messages = await storage.getCallConversation(callId);
+    if (messages.length > 0) return false;
+    await this.appendTurn(callId, 'assistant', content);
+    return true;
+  }
+
+  // Read-modify-write with optimistic locking; the mutation is re-applied on a fresh copy after a conflict
+  async update(callId: string, mutate: (session: CallSession) => void): Promise<CallSession | undefined> {
+    for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      const session = await this.loadWithoutHistory(callId);
+      if (!session) return undefined;
+
+      mutate(session);
+      session.state.lastActivityAt = new Date().toISOString();
+
+      const updated = await storage.updateCallSession(callId, {
+        sessionState: session.state,
+        collectedData: Object.keys(session.slots).length > 0 ? session.slots : null
+      }, session.version);
+
+      if (updated) {
+        session.version = updated.sessionVersion;
+        return session;
+      }
+
+      console.log(`🔁 Session for call ${callId} changed concurrently, retrying (attempt ${attempt})`);
+    }
+
+    throw new Error(`Could not update session for call ${callId} after ${MAX_UPDATE_ATTEMPTS} attempts`);
+  }
+
+  private async loadWithoutHistory(callId: string): Promise<CallSession | undefined> {
+    const call = await storage.getCall(callId);
+    if (!call) return undefined;
+    return this.fromCall(call);
+  }
+
+  private fromCall(call: Call): CallSession {
+    const state = (call.sessionState as CallSessionState | null) || createInitialSessionState();
+    return {
+      id: call.id,
+      contactId: call.contactId!,
+      campaignId: call.campaignId!,
+      phoneNumber: call.phoneNumber,
+      direction: call.direction,
+      twilioCallSid: call.twilioCallSid!,
+      status: call.status,
+      startTime: call.startTime,
+      language: call.language,
+      variantId: call.variantId,
+      conversationHistory: [],
+      slots: (call.collectedData as Record<string, CollectedSlot> | null) || {},
+      state: { ...createInitialSessionState(), ...state },
+      version: call.sessionVersion
+    };
+  }
+}
+
+export const callSessionStore: CallSessionStore = new DatabaseCallSessionStore();
@@ -0,0 +1,367 @@
+import { randomBytes } from 'crypto';
+import type { SimulationEnding, SimulationEvent, SimulationResult, SimulatorScript, SimulatorTurn } from '@shared/schema';
+import { storage } from '../storage';
+import { env } from '../config/environment';
+import { simulatorStubs } from './simulatorStubs';
+import { twilioSttProvider } from './sttProviders';
+import { directSpeechService } from './directSpeechService';
+import { variantService } from './variantService';
+
+// Offline call simulator
+// Plays Twilio's part in a call against our own webhooks, without a phone: it answers (or places)
+// a call, reads each TwiML document we return, speaks scripted caller lines or keypresses into
+// <Gather> and <Record> actions as SpeechResult/Digits, follows <Redirect>s, answers <Dial>s with
+// the script's outcome and finishes with the status callback. Simulated calls get a SID starting
+// SIM, so supervisor redirects and hangups reach the simulation instead of Twilio. Combined with
+// the model and TTS stubs (see simulatorStubs) a whole conversation runs deterministically.
+
+export const SIMULATED_CALL_SID_PREFIX = 'SIM';
+const MAX_REQUESTS = 60; // Webhook requests per call before the simulation gives up on a loop
+const REQUEST_TIMEOUT_MS = 60 * 1000;
+
+interface TwimlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: TwimlNode[];
+  text: string;
+}
+
+interface Simulation {
+  callSid: string;
+  callId?: string;
+  script: SimulatorScript;
+  params: Record<string, string>; // Sent with every webhook request, as Twilio does
+  startedAt: number;
+  nextTurn: number;
+  events: SimulationEvent[];
+  redirect?: string; // TwiML a supervisor swapped in
+  hungUp: boolean;
+}
+
+export function isSimulatedCallSid(callSid: string | null | undefined): boolean {
+  return !!callSid && callSid.startsWith(SIMULATED_CALL_SID_PREFIX);
+}
+
+export class CallSimulator {
+  private readonly active = new Map<string, Simulation>();
+
+  // Off in production unless CALL_SIMULATOR=true - simulated calls are real rows in the calls table
+  isEnabled(): boolean {
+    return env.NODE_ENV !== 'production' || process.env.CALL_SIMULATOR === 'true';
+  }
+
+  // Run a scripted call from answer to status callback
+  async run(script: SimulatorScript): Promise<SimulationResult> {
+    const callSid = `${SIMULATED_CALL_SID_PREFIX}${randomBytes(16).toString('hex')}`;
+    const to = script.to || env.TWILIO_PHONE_NUMBER || '+15005550006';
+    const simulation: Simulation = {
+      callSid,
+      script,
+      params: {
+        CallSid: callSid,
+        AccountSid: env.TWILIO_ACCOUNT_SID || 'ACsimulator',
+        From: script.direction === 'inbound' ? script.phoneNumber : to,
+        To: script.direction === 'inbound' ? to : script.phoneNumber,
+        Direction: script.direction === 'inbound' ? 'inbound' : 'outbound-api',
+        CallStatus: 'in-progress',
+        ApiVersion: '2010-04-01'
+      },
+      startedAt: Date.now(),
+      nextTurn: 0,
+      events: [],
+      hungUp: false
+    };
+    this.active.set(callSid, simulation);
+    console.log(`🧪 Simulating ${script.direction} call ${callSid}${simulatorStubs.isEnabled() ? ' with stubs' : ''}`);
+
+    let endedBy: SimulationEnding;
+    try {
+      const answer = await this.answer(simulation);
+      endedBy = answer ? await this.execute(simulation, answer.twiml, answer.url) : 'error';
+    } catch (error) {
+      this.log(simulation, 'note', `Simulation failed: ${error instanceof Error ? error.message : String(error)}`);
+      endedBy = 'error';
+    } finally {
+      this.active.delete(callSid);
+    }
+
+    // Twilio reports the end of the call whoever hung up
+    await this.sendStatus(simulation, 'completed').catch(error => {
+      this.log(simulation, 'note', `Status callback failed: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    this.clearReplies(simulation);
+
+    const transcript = simulation.callId ? await storage.getCallTranscriptions(simulation.callId) : [];
+    const checks = this.check(simulation, endedBy, transcript.filter(line => line.speaker === 'ai_agent').map(line => line.transcript));
+    const result: SimulationResult = {
+      callId: simulation.callId,
+      callSid,
+      endedBy,
+      events: simulation.events,
+      transcript,
+      checks,
+      passed: endedBy !== 'error' && checks.every(check => check.passed)
+    };
+    console.log(`🧪 Simulated call ${callSid} ended by ${endedBy}: ${result.passed ? 'passed' : 'failed'}`);
+    return result;
+  }
+
+  // A supervisor replaced the call's TwiML - it runs as soon as the current verb finishes
+  redirect(callSid: string, twiml: string): boolean {
+    const simulation = this.active.get(callSid);
+    if (!simulation) return false;
+    simulation.redirect = twiml;
+    this.log(simulation, 'note', 'Call redirected to new TwiML');
+    return true;
+  }
+
+  hangup(callSid: string): boolean {
+    const simulation = this.active.get(callSid);
+    if (!simulation) return false;
+    simulation.hungUp = true;
+    this.log(simulation, 'note', 'Call hung up from outside its TwiML');
+    return true;
+  }
+
+  // Outbound calls are created the way the dialer creates them, inbound ones go through our inbound webhook
+  private async answer(simulation: Simulation): Promise<{ twiml: string; url: string } | undefined> {
+    const { script } = simulation;
+
+    if (script.direction === 'inbound') {
+      const url = '/api/calls/webhook/inbound';
+      const twiml = await this.request(simulation, url, {});
+      simulation.callId = (await storage.getCallByTwilioSid(simulation.callSid))?.id;
+      if (!simulation.callId) this.log(simulation, 'note', 'No campaign picked up the inbound call');
+      return { twiml, url };
+    }
+
+    const campaign = await storage.getCampaign(script.campaignId!);
+    if (!campaign) {
+      this.log(simulation, 'note', `Campaign ${script.campaignId} not found`);
+      return undefined;
+    }
+    const contact = script.contactId ? await storage.getContact(script.contactId) : undefined;
+    const phoneNumber = contact?.phone || script.phoneNumber;
+    const variant = variantService.assign(campaign, contact?.id || phoneNumber);
+    const call = await storage.createCall({
+      contactId: contact?.id ?? null,
+      campaignId: campaign.id,
+      phoneNumber,
+      status: 'active',
+      startTime: new Date(),
+      twilioCallSid: simulation.callSid,
+      language: campaign.language,
+      variantId: variant?.id ?? null
+    });
+    simulation.callId = call.id;
+
+    for (const status of ['initiated', 'ringing']) {
+      await this.sendStatus(simulation, status);
+    }
+    const url = `/api/calls/webhook/answer?callId=${call.id}&campaignId=${campaign.id}`;
+    return { twiml: await this.request(simulation, url, { AnsweredBy: script.answeredBy }), url };
+  }
+
+  // Work through TwiML documents the way Twilio does until someone hangs up
+  private async execute(simulation: Simulation, twiml: string, documentUrl: string): Promise<SimulationEnding> {
+    for (let requests = 0; requests < MAX_REQUESTS; requests++) {
+      let next: { url: string; params: Record<string, string> } | undefined;
+
+      for (const verb of parseTwiml(twiml).children) {
+        if (simulation.hungUp) return 'supervisor';
+        if (simulation.redirect) break;
+
+        switch (verb.name) {
+          case 'Say':
+          case 'Play':
+            this.speak(simulation, verb);
+            continue;
+          case 'Pause':
+            continue;
+          case 'Hangup':
+            this.log(simulation, 'agent', '(hangs up)');
+            return 'agent';
+          case 'Redirect':
+            next = { url: verb.text.trim() || documentUrl, params: {} };
+            break;
+          case 'Gather':
+          case 'Record': {
+            verb.children.forEach(child => this.speak(simulation, child));
+            const turn = this.takeTurn(simulation);
+            if (!turn) {
+              this.log(simulation, 'caller', '(hangs up)');
+              return 'caller';
+            }
+            const input = this.prepareInput(simulation, turn);
+            // Twilio only posts to the action when it heard something - otherwise it moves on to the next verb
+            if (!input) continue;
+            next = { url: verb.attributes.action || documentUrl, params: input };
+            break;
+          }
+          case 'Dial': {
+            const numbers = verb.children.map(child => child.text.trim()).filter(Boolean);
+            this.log(simulation, 'dial', `Dialling ${numbers.join(', ') || verb.text.trim()}: ${simulation.script.dialStatus}`);
+            if (!verb.attributes.action) continue;
+            next = {
+              url: verb.attributes.action,
+              params: { DialCallStatus: simulation.script.dialStatus, DialCallDuration: simulation.script.dialStatus === 'completed' ? '30' : '0' }
+            };
+            break;
+          }
+          case 'Connect':
+            this.log(simulation, 'note', 'Media Streams calls can\'t be simulated - use a campaign in gather mode');
+            return 'error';
+          default:
+            this.log(simulation, 'note', `Skipped unsupported verb <${verb.name}>`);
+            continue;
+        }
+        break;
+      }
+
+      if (simulation.redirect) {
+        twiml = simulation.redirect;
+        simulation.redirect = undefined;
+        continue;
+      }
+      if (simulation.hungUp) return 'supervisor';
+      // A document that runs out without a <Redirect> ends the call
+      if (!next) return 'agent';
+
+      documentUrl = next.url;
+      twiml = await this.request(simulation, next.url, next.params);
+    }
+
+    this.log(simulation, 'note', `Gave up after ${MAX_REQUESTS} webhook requests`);
+    return 'error';
+  }
+
+  private speak(simulation: Simulation, verb: TwimlNode): void {
+    if (verb.name === 'Say') this.log(simulation, 'agent', verb.text.trim());
+    if (verb.name === 'Play') this.log(simulation, 'agent', `▶ ${verb.text.trim()}`);
+  }
+
+  private takeTurn(simulation: Simulation): SimulatorTurn | undefined {
+    return simulation.script.turns[simulation.nextTurn++];
+  }
+
+  // The webhook parameters for a caller turn - undefined when they stay silent
+  private prepareInput(simulation: Simulation, turn: SimulatorTurn): Record<string, string> | undefined {
+    if (!turn.say && !turn.digits) {
+      this.log(simulation, 'caller', '(silence)');
+      return undefined;
+    }
+    const input: Record<string, string> = turn.digits
+      ? { Digits: turn.digits }
+      : { SpeechResult: turn.say!, Confidence: String(turn.confidence) };
+    this.log(simulation, 'caller', turn.digits ? `Presses ${turn.digits}` : turn.say!);
+
+    // Queue the stubbed model's answer under the words the model will be given
+    if (turn.agentReply !== undefined || turn.agentTools.length > 0) {
+      if (!simulatorStubs.isEnabled()) {
+        this.log(simulation, 'note', 'Scripted agent reply ignored - model stubs are off');
+      } else {
+        simulatorStubs.scriptReply(this.getHeardText(input), { text: turn.agentReply ?? '', toolCalls: turn.agentTools });
+      }
+    }
+    return input;
+  }
+
+  private clearReplies(simulation: Simulation): void {
+    for (const turn of simulation.script.turns) {
+      if (turn.say || turn.digits) {
+        simulatorStubs.clearReply(this.getHeardText(turn.digits ? { Digits: turn.digits } : { SpeechResult: turn.say }));
+      }
+    }
+  }
+
+  private getHeardText(input: Record<string, string | undefined>): string {
+    return directSpeechService.validateSpeechInput(twilioSttProvider.fromGather(input).text);
+  }
+
+  // POST to one of our webhooks on this server and return the TwiML it answers with
+  private async request(simulation: Simulation, url: string, params: Record<string, string>): Promise<string> {
+    const target = new URL(url, 'http://localhost');
+    this.log(simulation, 'request', [`POST ${target.pathname}`, ...Object.entries(params).map(([name, value]) => `${name}=${value}`)].join(' '));
+
+    const response = await fetch(`http://127.0.0.1:${env.PORT}${target.pathname}${target.search}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ ...simulation.params, ...params }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    const body = await response.text();
+    if (!response.ok) {
+      throw new Error(`${target.pathname} answered ${response.status}: ${body.slice(0, 200)}`);
+    }
+    return body;
+  }
+
+  private async sendStatus(simulation: Simulation, status: string): Promise<void> {
+    const query = simulation.script.direction === 'outbound' && simulation.callId ? `?callId=${simulation.callId}` : '';
+    const duration = Math.max(1, Math.round((Date.now() - simulation.startedAt) / 1000));
+    this.log(simulation, 'status', status);
+    await this.request(simulation, `/api/calls/webhook/status${query}`, {
+      CallStatus: status,
+      ...(status === 'completed' ? { CallDuration: String(duration) } : {})
+    });
+  }
+
+  private check(simulation: Simulation, endedBy: SimulationEnding, agentLines: string[]): SimulationResult['checks'] {
+    const expect = simulation.script.expect;
+    if (!expect) return [];
+
+    const spoken = [
+      ...agentLines,
+      ...simulation.events.filter(event => event.kind === 'agent').map(event => event.detail)
+    ].map(line => line.toLowerCase());
+    const checks = expect.agentSaid.map(phrase => ({
+      expectation: `Agent says "${phrase}"`,
+      passed: spoken.some(line => line.includes(phrase.toLowerCase()))
+    }));
+    if (expect.endedBy) {
+      checks.push({ expectation: `Call ended by ${expect.endedBy}`, passed: endedBy === expect.endedBy });
+    }
+    return checks;
+  }
+
+  private log(simulation: Simulation, kind: SimulationEvent['kind'], detail: string): void {
+    simulation.events.push({ at: Date.now() - simulation.startedAt, kind, detail });
+  }
+}
+
+// Just enough XML for the TwiML our routes generate: elements, attributes, text and entities
+function parseTwiml(xml: string): TwimlNode {
+  const root: TwimlNode = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  const tokens = /<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<(\/?)([A-Za-z][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+  for (const [, closing, name, attributes, selfClosing, text] of Array.from(xml.matchAll(tokens))) {
+    const parent = stack[stack.length - 1];
+    if (text !== undefined) {
+      parent.text += decodeEntities(text);
+    } else if (closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (name) {
+      const node: TwimlNode = { name, attributes: {}, children: [], text: '' };
+      for (const [, key, , doubleQuoted, singleQuoted] of Array.from(attributes.matchAll(/([\w.:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g))) {
+        node.attributes[key] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+      parent.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+
+  return root.children.find(node => node.name === 'Response') ?? root;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[entity.toLowerCase()];
+  });
+}
+
+// Export singleton instance
+export const callSimulator = new CallSimulator();
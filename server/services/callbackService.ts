@@ -0,0 +1,191 @@
+import type OpenAI from 'openai';
+import type { Campaign, Contact, ScheduledCall, UpdateCallback } from '@shared/schema';
+import { storage } from '../storage';
+import { callingWindowService } from './callingWindowService';
+import type { ChatTools } from './openaiService';
+
+// Prospect-requested callbacks
+// When a prospect says "call me tomorrow after 4", the model resolves the time against the
+// contact's local clock (given in the prompt) and books it through a schedule_callback tool call.
+// Callbacks are dialer queue rows with reason 'callback', so the dialer places them with the same
+// campaign at the booked time; the agent on that call is told what was discussed before.
+
+export const SCHEDULE_CALLBACK_TOOL = 'schedule_callback';
+
+// Prospects asking for "sometime next month" are asked to pick a nearer day
+const MAX_CALLBACK_DAYS = 30;
+// Enough notice for the dialer to pick the call up after this one has ended
+const MIN_CALLBACK_MINUTES = 5;
+
+export interface CallbackView extends ScheduledCall {
+  contactName: string;
+  campaignName: string;
+}
+
+export class CallbackService {
+  // Timezone the prospect's "tomorrow at 4" is meant in
+  async getTimezone(campaign: Campaign, contactId: string | null): Promise<string> {
+    const contact = contactId ? await storage.getContact(contactId) : undefined;
+    return callingWindowService.getContactTimezone(campaign, contact);
+  }
+
+  // Prompt lines that let the model book a callback
+  buildPromptInstructions(timezone: string): string {
+    return `CALLBACKS:
+The caller's local time right now is ${callingWindowService.formatLocal(new Date(), timezone)}.
+If the caller asks to be called back later, work out the exact local date and time they mean ("tomorrow after 4" is tomorrow at 16:00) and call ${SCHEDULE_CALLBACK_TOOL}.
+If they don't say when, ask what day and time suits them. Once it is booked, confirm the day and time and close the call politely.`;
+  }
+
+  buildTool(): OpenAI.Chat.Completions.ChatCompletionTool {
+    return {
+      type: 'function',
+      function: {
+        name: SCHEDULE_CALLBACK_TOOL,
+        description: 'Book a call back to this person at the time they asked for, in their local time.',
+        parameters: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', description: 'Local date, YYYY-MM-DD' },
+            time: { type: 'string', description: 'Local time, HH:MM (24-hour)' },
+            requested: { type: 'string', description: 'What the caller said, e.g. "tomorrow after 4"' }
+          },
+          required: ['date', 'time', 'requested']
+        }
+      }
+    };
+  }
+
+  // Tool for one conversation turn
+  createTools(campaign: Campaign, callId: string, contactId: string, timezone: string): ChatTools {
+    return {
+      definitions: [this.buildTool()],
+      execute: async (name, args) => {
+        if (name !== SCHEDULE_CALLBACK_TOOL) return `Unknown tool ${name}`;
+        return this.scheduleFromCall(campaign, callId, contactId, timezone, args);
+      }
+    };
+  }
+
+  // Validate a tool call and book (or move) this call's callback; the returned text goes back to the model
+  async scheduleFromCall(
+    campaign: Campaign,
+    callId: string,
+    contactId: string,
+    timezone: string,
+    args: Record<string, unknown>
+  ): Promise<string> {
+    const date = String(args.date ?? '');
+    const time = String(args.time ?? '');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+      return 'Error: date must be YYYY-MM-DD and time HH:MM (24-hour). Ask the caller when suits them.';
+    }
+
+    const scheduledFor = callingWindowService.toUtc(date, time, timezone);
+    const now = Date.now();
+    if (scheduledFor.getTime() < now + MIN_CALLBACK_MINUTES * 60 * 1000) {
+      return `Error: ${date} ${time} has already passed for the caller. Ask for a later time.`;
+    }
+    if (scheduledFor.getTime() > now + MAX_CALLBACK_DAYS * 24 * 60 * 60 * 1000) {
+      return `Error: callbacks can be booked at most ${MAX_CALLBACK_DAYS} days ahead. Ask for a nearer day.`;
+    }
+
+    // Don't promise a time we aren't allowed to call at
+    const deferredUntil = await callingWindowService.getDeferral(campaign, contactId, scheduledFor);
+    if (deferredUntil) {
+      return `Error: we can't call at ${date} ${time}. The earliest allowed time after that is ${callingWindowService.formatLocal(deferredUntil, timezone)} - offer it or ask for another time.`;
+    }
+
+    const call = await storage.getCall(callId);
+    if (!call) return 'Error: call is no longer active.';
+
+    // The dialer never places calls for a cancelled campaign, so a callback booked on it would never happen
+    const dialerStatus = (await storage.getCampaign(campaign.id))?.dialerStatus ?? campaign.dialerStatus;
+    if (dialerStatus === 'cancelled') {
+      return "Error: this campaign has been cancelled, so no callback can be booked. Don't promise one - apologise that you can't book a callback and close the call.";
+    }
+
+    const requestedTime = String(args.requested ?? '').trim() || `${date} ${time}`;
+    const existing = await storage.getPendingCallbackForCall(callId);
+    const callback = existing
+      ? await storage.updateScheduledCall(existing.id, { scheduledFor, requestedTime, timezone })
+      : await storage.createScheduledCall({
+        campaignId: campaign.id,
+        contactId,
+        phoneNumber: call.phoneNumber,
+        reason: 'callback',
+        sourceCallId: callId,
+        scheduledFor,
+        requestedTime,
+        timezone
+      });
+
+    await storage.updateCall(callId, { disposition: 'callback_requested' });
+
+    // Wake the campaign up so the dialer places the callback
+    if (dialerStatus === 'idle' || dialerStatus === 'completed') {
+      await storage.updateCampaign(campaign.id, { dialerStatus: 'running' });
+    }
+
+    const local = callingWindowService.formatLocal(scheduledFor, timezone);
+    console.log(`📅 Callback for ${call.phoneNumber} ("${requestedTime}") booked at ${local} ${timezone} (${scheduledFor.toISOString()})`);
+    this.broadcast(callback);
+    return `Callback booked for ${local} the caller's time. Confirm it with the caller and close the call.`;
+  }
+
+  // Store the finished call's summary on its callback so the next agent knows what was said
+  async attachSummary(callId: string, summary: string): Promise<void> {
+    const callback = await storage.getPendingCallbackForCall(callId);
+    if (!callback) return;
+    this.broadcast(await storage.updateScheduledCall(callback.id, { note: summary }));
+  }
+
+  // Prompt context for the agent placing a callback
+  buildCallerContext(callback: ScheduledCall): string {
+    const lines = [`This is a callback the person asked for${callback.requestedTime ? ` ("${callback.requestedTime}")` : ''}. Open by reminding them they asked you to call back now.`];
+    if (callback.note) {
+      lines.push(`Earlier conversation: ${callback.note}`);
+    }
+    return lines.join('\n');
+  }
+
+  // Callbacks with contact and campaign names, soonest first
+  async list(filter: { campaignId?: string; statuses?: string[] }): Promise<CallbackView[]> {
+    const rows = await storage.getCallbacks(filter);
+    return rows.map(({ callback, contact, campaign }) => this.toView(callback, contact, campaign));
+  }
+
+  // Move or annotate a callback that hasn't been dialed yet
+  async update(id: string, changes: UpdateCallback): Promise<ScheduledCall | undefined> {
+    const callback = await storage.getScheduledCall(id);
+    if (!callback || callback.reason !== 'callback' || callback.status !== 'pending') return undefined;
+
+    const updated = await storage.updateScheduledCall(id, changes);
+    console.log(`📅 Callback ${id} updated${changes.scheduledFor ? ` to ${changes.scheduledFor.toISOString()}` : ''}`);
+    this.broadcast(updated);
+    return updated;
+  }
+
+  async cancel(id: string): Promise<ScheduledCall | undefined> {
+    const callback = await storage.getScheduledCall(id);
+    if (!callback || callback.reason !== 'callback' || callback.status !== 'pending') return undefined;
+
+    const cancelled = await storage.updateScheduledCall(id, { status: 'cancelled' });
+    console.log(`📅 Callback ${id} for ${callback.phoneNumber} cancelled`);
+    this.broadcast(cancelled);
+    return cancelled;
+  }
+
+  private toView(callback: ScheduledCall, contact: Contact, campaign: Campaign): CallbackView {
+    return { ...callback, contactName: contact.name, campaignName: campaign.name };
+  }
+
+  private broadcast(callback: ScheduledCall | undefined): void {
+    if (callback && (global as any).broadcastToClients) {
+      (global as any).broadcastToClients({ type: 'callback_updated', callback });
+    }
+  }
+}
+
+// Export singleton instance
+export const callbackService = new CallbackService();
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { callingWindowSchema } from '@shared/schema';
+import { callingWindowService } from './callingWindowService';
+
+// Mon-Sat 09:00-19:00 with a lunch break
+const window = callingWindowSchema.parse({ quietWindows: [{ start: '13:00', end: '14:00' }] });
+const timezone = 'Asia/Kolkata';
+
+test('wall-clock times convert to UTC in the contact timezone', () => {
+  assert.equal(callingWindowService.toUtc('2026-10-18', '16:00', 'Asia/Kolkata').toISOString(), '2026-10-18T10:30:00.000Z');
+  assert.equal(callingWindowService.toUtc('2026-07-01', '09:00', 'America/New_York').toISOString(), '2026-07-01T13:00:00.000Z');
+  assert.equal(callingWindowService.toUtc('2026-12-01', '09:00', 'America/New_York').toISOString(), '2026-12-01T14:00:00.000Z');
+});
+
+test('wall-clock times just after a DST change use the new offset', () => {
+  // New York springs forward at 02:00 on 2026-03-08
+  assert.equal(callingWindowService.toUtc('2026-03-08', '03:30', 'America/New_York').toISOString(), '2026-03-08T07:30:00.000Z');
+  assert.equal(callingWindowService.toUtc('2026-03-08', '01:30', 'America/New_York').toISOString(), '2026-03-08T06:30:00.000Z');
+});
+
+test('an allowed moment is returned as it is', () => {
+  const from = callingWindowService.toUtc('2026-10-19', '10:07', timezone);
+  assert.equal(callingWindowService.nextAllowedTime(window, [], timezone, from).getTime(), from.getTime());
+});
+
+test('calls after hours move past Sunday to the next morning', () => {
+  const saturdayEvening = callingWindowService.toUtc('2026-10-17', '20:00', timezone);
+  assert.equal(
+    callingWindowService.nextAllowedTime(window, [], timezone, saturdayEvening).toISOString(),
+    callingWindowService.toUtc('2026-10-19', '09:00', timezone).toISOString()
+  );
+});
+
+test('holidays and quiet windows are skipped', () => {
+  const saturdayEvening = callingWindowService.toUtc('2026-10-17', '20:00', timezone);
+  const holidays = [{ date: '2026-10-19', name: 'Holiday' }];
+  assert.equal(
+    callingWindowService.nextAllowedTime(window, holidays, timezone, saturdayEvening).toISOString(),
+    callingWindowService.toUtc('2026-10-20', '09:00', timezone).toISOString()
+  );
+
+  const lunchtime = callingWindowService.toUtc('2026-10-19', '13:10', timezone);
+  assert.equal(
+    callingWindowService.nextAllowedTime(window, [], timezone, lunchtime).toISOString(),
+    callingWindowService.toUtc('2026-10-19', '14:00', timezone).toISOString()
+  );
+});
@@ -0,0 +1,212 @@
+import type { Campaign, CallingWindow, Contact, Holiday } from '@shared/schema';
+import { callingWindowSchema } from '@shared/schema';
+import { storage } from '../storage';
+
+// Calling hours, holidays and quiet windows
+// A campaign's calling window is evaluated in the contact's local time, which we derive from the
+// contact's state, then the country code of their number, then the campaign default. Anything due
+// outside the window is pushed to the next allowed slot rather than dropped.
+
+// Slots are searched on quarter-hour boundaries up to two weeks ahead
+const SLOT_MINUTES = 15;
+const SEARCH_HORIZON_DAYS = 14;
+
+const INDIAN_STATES = [
+  'andhra pradesh', 'arunachal pradesh', 'assam', 'bihar', 'chhattisgarh', 'goa', 'gujarat', 'haryana',
+  'himachal pradesh', 'jharkhand', 'karnataka', 'kerala', 'madhya pradesh', 'maharashtra', 'manipur',
+  'meghalaya', 'mizoram', 'nagaland', 'odisha', 'orissa', 'punjab', 'rajasthan', 'sikkim', 'tamil nadu',
+  'telangana', 'tripura', 'uttar pradesh', 'uttarakhand', 'west bengal', 'delhi', 'new delhi',
+  'jammu and kashmir', 'ladakh', 'puducherry', 'pondicherry', 'chandigarh', 'andaman and nicobar islands',
+  'dadra and nagar haveli and daman and diu', 'lakshadweep'
+];
+
+const US_STATE_TIMEZONES: Record<string, string> = {
+  'ct': 'America/New_York', 'de': 'America/New_York', 'dc': 'America/New_York', 'fl': 'America/New_York',
+  'ga': 'America/New_York', 'in': 'America/Indiana/Indianapolis', 'ky': 'America/New_York', 'me': 'America/New_York',
+  'md': 'America/New_York', 'ma': 'America/New_York', 'mi': 'America/Detroit', 'nh': 'America/New_York',
+  'nj': 'America/New_York', 'ny': 'America/New_York', 'nc': 'America/New_York', 'oh': 'America/New_York',
+  'pa': 'America/New_York', 'ri': 'America/New_York', 'sc': 'America/New_York', 'vt': 'America/New_York',
+  'va': 'America/New_York', 'wv': 'America/New_York',
+  'al': 'America/Chicago', 'ar': 'America/Chicago', 'il': 'America/Chicago', 'ia': 'America/Chicago',
+  'ks': 'America/Chicago', 'la': 'America/Chicago', 'mn': 'America/Chicago', 'ms': 'America/Chicago',
+  'mo': 'America/Chicago', 'ne': 'America/Chicago', 'nd': 'America/Chicago', 'ok': 'America/Chicago',
+  'sd': 'America/Chicago', 'tn': 'America/Chicago', 'tx': 'America/Chicago', 'wi': 'America/Chicago',
+  'az': 'America/Phoenix', 'co': 'America/Denver', 'id': 'America/Boise', 'mt': 'America/Denver',
+  'nm': 'America/Denver', 'ut': 'America/Denver', 'wy': 'America/Denver',
+  'ca': 'America/Los_Angeles', 'nv': 'America/Los_Angeles', 'or': 'America/Los_Angeles', 'wa': 'America/Los_Angeles',
+  'ak': 'America/Anchorage', 'hi': 'Pacific/Honolulu'
+};
+
+// Country calling codes for numbers whose country maps to a single timezone (or a sensible default)
+const COUNTRY_CODE_TIMEZONES: Array<[string, string]> = [
+  ['971', 'Asia/Dubai'], ['966', 'Asia/Riyadh'], ['974', 'Asia/Qatar'], ['965', 'Asia/Kuwait'],
+  ['968', 'Asia/Muscat'], ['973', 'Asia/Bahrain'], ['977', 'Asia/Kathmandu'], ['880', 'Asia/Dhaka'],
+  ['94', 'Asia/Colombo'], ['92', 'Asia/Karachi'], ['91', 'Asia/Kolkata'], ['65', 'Asia/Singapore'],
+  ['60', 'Asia/Kuala_Lumpur'], ['61', 'Australia/Sydney'], ['44', 'Europe/London'], ['49', 'Europe/Berlin'],
+  ['33', 'Europe/Paris'], ['1', 'America/New_York']
+];
+
+interface LocalTime {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday
+  time: string; // HH:MM
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const FULL_WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Used when a campaign has a holiday calendar but no calling window
+const ALL_DAY_WINDOW: CallingWindow = {
+  days: [0, 1, 2, 3, 4, 5, 6],
+  start: '00:00',
+  end: '24:00',
+  quietWindows: [],
+  defaultTimezone: 'Asia/Kolkata'
+};
+
+export class CallingWindowService {
+  // Calling window for a campaign - null when the campaign may call at any time
+  getWindow(campaign: Campaign): CallingWindow | null {
+    if (!campaign.callingWindow) return null;
+    const window = callingWindowSchema.safeParse(campaign.callingWindow);
+    return window.success ? window.data : null;
+  }
+
+  // Best guess at the contact's timezone
+  resolveTimezone(contact: Pick<Contact, 'state' | 'phone'> | undefined, fallback: string): string {
+    const state = contact?.state?.trim().toLowerCase();
+    if (state) {
+      if (INDIAN_STATES.includes(state)) return 'Asia/Kolkata';
+      const usState = US_STATE_TIMEZONES[state] || US_STATE_TIMEZONES[this.usStateAbbreviation(state)];
+      if (usState) return usState;
+    }
+
+    // Only trust the country code when the number is in international format
+    const phone = contact?.phone?.replace(/[^\d+]/g, '') || '';
+    if (phone.startsWith('+')) {
+      const match = COUNTRY_CODE_TIMEZONES.find(([code]) => phone.slice(1).startsWith(code));
+      if (match) return match[1];
+    }
+
+    return fallback;
+  }
+
+  // Timezone a campaign uses for this contact
+  getContactTimezone(campaign: Campaign, contact: Pick<Contact, 'state' | 'phone'> | undefined): string {
+    return this.resolveTimezone(contact, (this.getWindow(campaign) || ALL_DAY_WINDOW).defaultTimezone);
+  }
+
+  // "2026-10-18" + "16:00" on the contact's wall clock -> the actual moment
+  toUtc(date: string, time: string, timezone: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+    // Shift by the zone's offset; the second pass settles times near a DST change
+    let utc = wallClock;
+    for (let pass = 0; pass < 2; pass++) {
+      utc = wallClock - this.getOffsetMs(new Date(utc), timezone);
+    }
+    return new Date(utc);
+  }
+
+  // "Sunday 2026-10-18 16:00" in the given timezone
+  formatLocal(at: Date, timezone: string): string {
+    const local = this.getLocalTime(at, timezone);
+    return `${FULL_WEEKDAYS[local.weekday]} ${local.date} ${local.time}`;
+  }
+
+  // Whether the moment falls inside the window and off the holiday calendar
+  isAllowed(window: CallingWindow, holidays: Holiday[], timezone: string, at: Date): boolean {
+    const local = this.getLocalTime(at, timezone);
+    if (!window.days.includes(local.weekday)) return false;
+    if (holidays.some(holiday => holiday.date === local.date)) return false;
+    if (local.time < window.start || local.time >= window.end) return false;
+    return !window.quietWindows.some(quiet => local.time >= quiet.start && local.time < quiet.end);
+  }
+
+  // First allowed moment at or after `from`
+  nextAllowedTime(window: CallingWindow, holidays: Holiday[], timezone: string, from: Date): Date {
+    if (this.isAllowed(window, holidays, timezone, from)) return from;
+
+    const slotMs = SLOT_MINUTES * 60 * 1000;
+    const horizon = from.getTime() + SEARCH_HORIZON_DAYS * 24 * 60 * 60 * 1000;
+    for (let candidate = Math.ceil(from.getTime() / slotMs) * slotMs; candidate <= horizon; candidate += slotMs) {
+      if (this.isAllowed(window, holidays, timezone, new Date(candidate))) {
+        return new Date(candidate);
+      }
+    }
+
+    // A calendar that blocks two whole weeks - try again once the horizon has passed
+    return new Date(horizon);
+  }
+
+  // When a campaign may next contact this person - undefined if it may do so now
+  async getDeferral(campaign: Campaign, contactId: string | null, at = new Date()): Promise<Date | undefined> {
+    const window = this.getWindow(campaign);
+    const holidays = await this.getHolidays(campaign);
+    if (!window && holidays.length === 0) return undefined;
+
+    const contact = contactId ? await storage.getContact(contactId) : undefined;
+    const effectiveWindow = window || ALL_DAY_WINDOW;
+    const timezone = this.resolveTimezone(contact, effectiveWindow.defaultTimezone);
+
+    const next = this.nextAllowedTime(effectiveWindow, holidays, timezone, at);
+    return next.getTime() > at.getTime() ? next : undefined;
+  }
+
+  private async getHolidays(campaign: Campaign): Promise<Holiday[]> {
+    if (!campaign.holidayCalendarId) return [];
+    const calendar = await storage.getHolidayCalendar(campaign.holidayCalendarId);
+    return (calendar?.holidays as Holiday[] | undefined) || [];
+  }
+
+  private getLocalTime(at: Date, timezone: string): LocalTime {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        weekday: 'short',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit'
+      }).formatToParts(at).map(part => [part.type, part.value])
+    );
+
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      weekday: WEEKDAYS.indexOf(parts.weekday),
+      time: `${parts.hour}:${parts.minute}`
+    };
+  }
+
+  // How far the timezone's wall clock is ahead of UTC at this moment
+  private getOffsetMs(at: Date, timezone: string): number {
+    const local = this.getLocalTime(at, timezone);
+    const [year, month, day] = local.date.split('-').map(Number);
+    const [hour, minute] = local.time.split(':').map(Number);
+    return Date.UTC(year, month - 1, day, hour, minute) - Math.floor(at.getTime() / 60000) * 60000;
+  }
+
+  // "california" -> "ca"
+  private usStateAbbreviation(name: string): string {
+    const names: Record<string, string> = {
+      'alabama': 'al', 'alaska': 'ak', 'arizona': 'az', 'arkansas': 'ar', 'california': 'ca', 'colorado': 'co',
+      'connecticut': 'ct', 'delaware': 'de', 'district of columbia': 'dc', 'florida': 'fl', 'georgia': 'ga',
+      'hawaii': 'hi', 'idaho': 'id', 'illinois': 'il', 'indiana': 'in', 'iowa': 'ia', 'kansas': 'ks',
+      'kentucky': 'ky', 'louisiana': 'la', 'maine': 'me', 'maryland': 'md', 'massachusetts': 'ma',
+      'michigan': 'mi', 'minnesota': 'mn', 'mississippi': 'ms', 'missouri': 'mo', 'montana': 'mt',
+      'nebraska': 'ne', 'nevada': 'nv', 'new hampshire': 'nh', 'new jersey': 'nj', 'new mexico': 'nm',
+      'new york': 'ny', 'north carolina': 'nc', 'north dakota': 'nd', 'ohio': 'oh', 'oklahoma': 'ok',
+      'oregon': 'or', 'pennsylvania': 'pa', 'rhode island': 'ri', 'south carolina': 'sc', 'south dakota': 'sd',
+      'tennessee': 'tn', 'texas': 'tx', 'utah': 'ut', 'vermont': 'vt', 'virginia': 'va', 'washington': 'wa',
+      'west virginia': 'wv', 'wisconsin': 'wi', 'wyoming': 'wy'
+    };
+    return names[name] || name;
+  }
+}
+
+// Export singleton instance
+export const callingWindowService = new CallingWindowService();
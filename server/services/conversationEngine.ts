@@ -0,0 +1,175 @@
+import type { Campaign, ConversationStage } from '@shared/schema';
+import type { CollectedSlot } from './callSessionStore';
+import { slotService, RECORD_SLOT_TOOL } from './slotService';
+import { transferService } from './transferService';
+import { callbackService } from './callbackService';
+import { languageService } from './languageService';
+
+// Campaign-driven conversation stages
+// Each campaign defines an ordered list of stages. The engine tells the model which stage it is
+// in, which slots are still missing and where it may go next; the model signals a transition by
+// ending its reply with <<next:stage_id>>. The engine validates the move and ends the call once a
+// terminal stage is reached.
+
+const TRANSITION_MARKER = /<<\s*next\s*:\s*([a-z0-9_]+)\s*>>/i;
+const TRANSFER_MARKER = /<<\s*transfer\s*>>/i; // Model flags a caller ready for a human rep
+const ANY_MARKER = /<<[^>]*>>/g;
+
+// Used for campaigns that haven't defined their own stages - mirrors the original LabsCheck script
+export const DEFAULT_CONVERSATION_STAGES: ConversationStage[] = [
+  {
+    id: 'verify_contact',
+    name: 'Verify contact',
+    goal: "Confirm you're speaking with the lab owner or manager. If not, politely ask for the owner's contact details for follow-up.",
+    requiredSlots: [],
+    transitions: ['pitch', 'closing'],
+    exitCriteria: 'The caller confirmed they are the owner or manager, or shared how to reach them.',
+    terminal: false
+  },
+  {
+    id: 'pitch',
+    name: 'Value proposition',
+    goal: "Explain how LabsCheck helps labs get more business as a healthcare navigator connecting labs with customers. Answer questions briefly.",
+    requiredSlots: [],
+    transitions: ['collect_contact', 'closing'],
+    exitCriteria: 'The caller is open to hearing more or asks how to proceed.',
+    terminal: false
+  },
+  {
+    id: 'collect_contact',
+    name: 'Collect contact details',
+    goal: 'Collect their WhatsApp number and email address for further communication. If they agree but do not share it, ask again specifically.',
+    requiredSlots: ['whatsapp', 'email'],
+    transitions: ['closing'],
+    exitCriteria: 'Both WhatsApp number and email address have been collected.',
+    terminal: false
+  },
+  {
+    id: 'closing',
+    name: 'Closing',
+    goal: 'Thank the caller for their time and say goodbye.',
+    requiredSlots: [],
+    transitions: [],
+    exitCriteria: '',
+    terminal: true
+  }
+];
+
+export interface StageOutcome {
+  reply: string; // Reply with control markers removed - safe to speak
+  nextStage: ConversationStage;
+  shouldEndCall: boolean;
+  transferRequested: boolean;
+}
+
+export class ConversationEngine {
+  // Stages for a campaign, falling back to the default script
+  getStages(campaign: Campaign): ConversationStage[] {
+    const stages = campaign.conversationStages as ConversationStage[] | null;
+    return stages && stages.length > 0 ? stages : DEFAULT_CONVERSATION_STAGES;
+  }
+
+  // Stage the call is currently in - the first stage until the model moves on
+  getCurrentStage(campaign: Campaign, stageId?: string): ConversationStage {
+    const stages = this.getStages(campaign);
+    return stages.find(stage => stage.id === stageId) || stages[0];
+  }
+
+  // Required slots for a stage that haven't been collected yet
+  getMissingSlots(stage: ConversationStage, slots: Record<string, CollectedSlot>): string[] {
+    return stage.requiredSlots.filter(slot => !slots[slot]?.value);
+  }
+
+  // Build the system prompt for the current stage
+  buildSystemPrompt(
+    campaign: Campaign,
+    stage: ConversationStage,
+    slots: Record<string, CollectedSlot>,
+    context: { callerContext?: string; timezone?: string; supervisorWhisper?: string; language?: string } = {}
+  ): string {
+    const { callerContext, timezone, supervisorWhisper, language = campaign.language } = context;
+    const stages = this.getStages(campaign);
+    const missingSlots = this.getMissingSlots(stage, slots);
+    const collected = Object.entries(slots).map(([name, slot]) => `- ${name}: ${slot.value}`);
+    const slotDefinitions = slotService.getSchema(campaign).map(slot =>
+      `- ${slot.name}: ${slot.description}${slot.type === 'enum' ? ` (one of: ${slot.options.join(', ')})` : ''}`
+    );
+    const nextStages = stage.transitions
+      .map(id => stages.find(candidate => candidate.id === id))
+      .filter((candidate): candidate is ConversationStage => !!candidate)
+      .map(candidate => `- ${candidate.id}: ${candidate.name} - ${candidate.goal}${candidate.terminal ? ' (ends the call)' : ''}`);
+
+    const handoff = transferService.buildPromptInstructions(campaign);
+    const callbacks = timezone ? callbackService.buildPromptInstructions(timezone) : undefined;
+
+    return `You are ${campaign.agentName}, an AI calling agent speaking with someone on a phone call.
+
+Campaign Context: ${campaign.aiPrompt}
+
+LANGUAGE: ${languageService.getPromptInstructions(language)}
+${callerContext ? `\nCALLER CONTEXT:\n${callerContext}\n` : ''}
+CURRENT STAGE: ${stage.name}
+Goal: ${stage.goal}
+${stage.exitCriteria ? `Stage is complete when: ${stage.exitCriteria}\n` : ''}Still needed in this stage: ${missingSlots.length > 0 ? missingSlots.join(', ') : 'nothing'}
+
+DETAILS TO CAPTURE:
+${slotDefinitions.join('\n')}
+Whenever the caller shares one of these, call ${RECORD_SLOT_TOOL} right away with the value as you understood it.
+If the tool reports an error, ask the caller to repeat that detail.
+
+INFORMATION COLLECTED SO FAR:
+${collected.length > 0 ? collected.join('\n') : '- nothing yet'}
+
+RESPONSE GUIDELINES:
+- Keep responses natural and conversational (1-2 sentences max)
+- Sound human-like, not robotic
+- Handle interruptions gracefully
+- If the caller asks questions, answer briefly and steer back to the current goal
+- Be polite and professional but friendly
+- If they agree to share information but don't provide it, ask again specifically
+
+STAGE CONTROL:
+${nextStages.length > 0
+  ? `When the current stage is complete, end your reply with <<next:STAGE_ID>> using one of these stages:
+${nextStages.join('\n')}
+${missingSlots.length > 0 ? 'Do not move on until everything still needed is collected, unless you are ending the call.\n' : ''}If you move to a stage that ends the call, your reply must be your closing line.`
+  : 'This is the final stage. Close the conversation politely.'}
+${handoff ? `\n${handoff}\n` : ''}${callbacks ? `\n${callbacks}\n` : ''}${supervisorWhisper ? `\nSUPERVISOR INSTRUCTION (private - follow it in this reply, never mention or repeat it):\n${supervisorWhisper}\n` : ''}Never say the stage names or markers out loud.`;
+  }
+
+  // Remove control markers so they are never spoken
+  stripMarkers(text: string): string {
+    return text.replace(ANY_MARKER, '').replace(/\s{2,}/g, ' ').trim();
+  }
+
+  // Apply the model's reply: validate any requested transition and decide whether the call is over
+  applyReply(
+    campaign: Campaign,
+    stage: ConversationStage,
+    rawReply: string,
+    slots: Record<string, CollectedSlot>
+  ): StageOutcome {
+    const reply = this.stripMarkers(rawReply) || "I understand. Let me continue with our conversation.";
+    let nextStage = stage;
+
+    const requested = rawReply.match(TRANSITION_MARKER)?.[1]?.toLowerCase();
+    if (requested && requested !== stage.id) {
+      const target = this.getStages(campaign).find(candidate => candidate.id === requested);
+      const missingSlots = this.getMissingSlots(stage, slots);
+
+      if (!target || !stage.transitions.includes(requested)) {
+        console.log(`⚠️ Ignoring transition ${stage.id} -> ${requested}: not allowed by campaign stages`);
+      } else if (missingSlots.length > 0 && !target.terminal) {
+        console.log(`⚠️ Ignoring transition ${stage.id} -> ${requested}: still missing ${missingSlots.join(', ')}`);
+      } else {
+        console.log(`🧭 Stage transition ${stage.id} -> ${target.id}`);
+        nextStage = target;
+      }
+    }
+
+    return { reply, nextStage, shouldEndCall: nextStage.terminal, transferRequested: TRANSFER_MARKER.test(rawReply) };
+  }
+}
+
+// Export singleton instance
+export const conversationEngine = new ConversationEngine();
@@ -0,0 +1,266 @@
+import type { Call, Campaign, ScheduledCall } from '@shared/schema';
+import { storage } from '../storage';
+import { callManager } from './callManager';
+import { settingsService } from './settingsService';
+import { callingWindowService } from './callingWindowService';
+import { callbackService } from './callbackService';
+
+// Outbound dialer
+// Campaigns enqueue dial jobs into scheduled_calls instead of dialing inline. A single worker
+// polls the queue and starts calls while staying under the global and per-campaign
+// concurrent-call caps and calls-per-minute pace. Because the queue lives in the database,
+// pending calls survive restarts and the claim step keeps two instances from dialing the same job.
+// Each pass holds a Postgres advisory lock, so with several instances only one measures the load
+// and dials at a time and the caps hold across all of them.
+
+const POLL_INTERVAL_MS = 5 * 1000;
+// Large campaigns are inserted in chunks so one start doesn't build a query past Postgres' parameter limit
+const ENQUEUE_CHUNK_SIZE = 1000;
+const DUE_BATCH_SIZE = 50;
+const PACE_WINDOW_MS = 60 * 1000;
+// Calls still 'active' after this long are assumed to have lost their status webhook
+const STALE_ACTIVE_CALL_MS = 60 * 60 * 1000;
+// A dial takes seconds - jobs still 'dialing' after this were claimed by an instance that died mid-dial
+const STALE_DIALING_MS = 5 * 60 * 1000;
+
+export type DialerAction = 'pause' | 'resume' | 'cancel';
+
+export interface DialerProgress {
+  campaignId: string;
+  campaignName: string;
+  status: string;
+  pending: number;
+  dialing: number;
+  dialed: number;
+  failed: number;
+  cancelled: number;
+  activeCalls: number;
+}
+
+interface CallLoad {
+  active: number;
+  lastMinute: number;
+}
+
+export class DialerService {
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  // Queue calls for a campaign and make sure the dialer picks them up
+  async enqueue(
+    campaignId: string,
+    contacts: Array<{ contactId: string; phoneNumber: string }>,
+    scheduledFor = new Date()
+  ): Promise<ScheduledCall[]> {
+    const queued: ScheduledCall[] = [];
+    for (let i = 0; i < contacts.length; i += ENQUEUE_CHUNK_SIZE) {
+      queued.push(...await storage.createScheduledCalls(contacts.slice(i, i + ENQUEUE_CHUNK_SIZE).map(contact => ({
+        campaignId,
+        contactId: contact.contactId,
+        phoneNumber: contact.phoneNumber,
+        scheduledFor
+      }))));
+    }
+
+    const campaign = await storage.getCampaign(campaignId);
+    if (campaign && campaign.dialerStatus !== 'paused') {
+      await storage.updateCampaign(campaignId, { dialerStatus: 'running' });
+    }
+
+    console.log(`📋 Queued ${queued.length} calls for campaign ${campaignId}`);
+    await this.broadcastProgress(campaignId);
+    return queued;
+  }
+
+  // Pause, resume or cancel a campaign's dialing
+  async control(campaignId: string, action: DialerAction): Promise<DialerProgress | undefined> {
+    const campaign = await storage.getCampaign(campaignId);
+    if (!campaign) return undefined;
+
+    if (action === 'pause') {
+      await storage.updateCampaign(campaignId, { dialerStatus: 'paused' });
+    } else if (action === 'resume') {
+      await storage.updateCampaign(campaignId, { dialerStatus: 'running' });
+    } else {
+      // Calls already in progress finish normally - only queued calls are dropped
+      const cancelled = await storage.cancelScheduledCalls(campaignId);
+      await storage.updateCampaign(campaignId, { dialerStatus: 'cancelled' });
+      console.log(`🛑 Cancelled ${cancelled} queued calls for campaign ${campaignId}`);
+    }
+
+    console.log(`📋 Dialer ${action} for campaign ${campaignId}`);
+    return this.broadcastProgress(campaignId);
+  }
+
+  // Queue counts and live calls for a campaign
+  async getProgress(campaignId: string): Promise<DialerProgress | undefined> {
+    const campaign = await storage.getCampaign(campaignId);
+    if (!campaign) return undefined;
+
+    const counts = await storage.getScheduledCallCounts(campaignId);
+    const recentCalls = await storage.getCallsStartedSince(new Date(Date.now() - STALE_ACTIVE_CALL_MS));
+
+    return {
+      campaignId,
+      campaignName: campaign.name,
+      status: campaign.dialerStatus,
+      pending: counts.pending || 0,
+      dialing: counts.dialing || 0,
+      dialed: counts.dialed || 0,
+      failed: counts.failed || 0,
+      cancelled: counts.cancelled || 0,
+      activeCalls: recentCalls.filter(call => call.campaignId === campaignId && call.status === 'active').length
+    };
+  }
+
+  // Progress for every campaign that is dialing or paused
+  async getActiveProgress(): Promise<DialerProgress[]> {
+    const campaigns = await storage.getCampaignsByDialerStatus(['running', 'paused']);
+    const progress = await Promise.all(campaigns.map(campaign => this.getProgress(campaign.id)));
+    return progress.filter((entry): entry is DialerProgress => !!entry);
+  }
+
+  // One pass over the queue: dial as many due calls as the caps allow - skipped while another instance is dialing
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      await this.requeueStaleDials();
+      await storage.withDialerLock(() => this.dialDue());
+    } catch (error) {
+      console.error('❌ Dialer tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async dialDue(): Promise<void> {
+    const { calling } = await settingsService.getSettings();
+    const now = Date.now();
+    const recentCalls = await storage.getCallsStartedSince(new Date(now - STALE_ACTIVE_CALL_MS));
+
+    const globalLoad = this.measureLoad(recentCalls, now);
+    if (!this.hasCapacity(globalLoad, calling.maxConcurrentCalls, calling.callsPerMinute)) return;
+
+    const due = await storage.getDueScheduledCalls(new Date(now), DUE_BATCH_SIZE);
+    if (due.length === 0) return;
+
+    const campaignLoads = new Map<string, CallLoad>();
+    const touched = new Set<string>();
+
+    for (const { scheduledCall, campaign } of due) {
+      if (!this.hasCapacity(globalLoad, calling.maxConcurrentCalls, calling.callsPerMinute)) break;
+
+      if (!campaignLoads.has(campaign.id)) {
+        campaignLoads.set(campaign.id, this.measureLoad(recentCalls.filter(call => call.campaignId === campaign.id), now));
+      }
+      const campaignLoad = campaignLoads.get(campaign.id)!;
+      if (!this.hasCapacity(campaignLoad, campaign.maxConcurrentCalls, campaign.callsPerMinute)) continue;
+
+      // Outside calling hours for this contact - push the job to their next allowed slot
+      const deferredUntil = await callingWindowService.getDeferral(campaign, scheduledCall.contactId);
+      if (deferredUntil) {
+        await storage.updateScheduledCall(scheduledCall.id, { scheduledFor: deferredUntil });
+        console.log(`🌙 Deferred ${scheduledCall.phoneNumber} for campaign ${campaign.id} to ${deferredUntil.toISOString()}`);
+        continue;
+      }
+
+      const claimed = await storage.claimScheduledCall(scheduledCall.id);
+      if (!claimed) continue;
+
+      await this.dial(claimed, campaign);
+      touched.add(campaign.id);
+      globalLoad.active++;
+      globalLoad.lastMinute++;
+      campaignLoad.active++;
+      campaignLoad.lastMinute++;
+    }
+
+    for (const campaignId of Array.from(touched)) {
+      await this.finishIfDrained(campaignId);
+      await this.broadcastProgress(campaignId);
+    }
+  }
+
+  // Start the worker loop - dials cut short by a restart are put back in the queue first
+  start(): void {
+    if (this.timer) return;
+    this.requeueStaleDials().catch(error => console.error('❌ Error re-queueing interrupted dials:', error));
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    console.log('📋 Dialer worker started');
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Also checked every pass, so a crashed instance's jobs come back without waiting for a restart
+  private async requeueStaleDials(): Promise<void> {
+    const reset = await storage.resetStaleDialingScheduledCalls(new Date(Date.now() - STALE_DIALING_MS));
+    if (reset > 0) console.log(`📋 Re-queued ${reset} interrupted dial(s)`);
+  }
+
+  private async dial(scheduledCall: ScheduledCall, campaign: Campaign): Promise<void> {
+    // Callbacks remind the agent what the prospect asked for and what was said last time
+    const callerContext = scheduledCall.reason === 'callback' ? callbackService.buildCallerContext(scheduledCall) : undefined;
+    const result = await callManager.startCall(scheduledCall.contactId, campaign.id, scheduledCall.phoneNumber, {
+      attemptNumber: scheduledCall.attemptNumber,
+      originalCallId: scheduledCall.originalCallId
+    }, callerContext);
+
+    if (result.success) {
+      await storage.updateScheduledCall(scheduledCall.id, { status: 'dialed', callId: result.callId });
+      console.log(`📞 Dialed ${scheduledCall.phoneNumber} for campaign ${campaign.id} (attempt ${scheduledCall.attemptNumber}): ${result.callId}`);
+
+      if ((global as any).broadcastToClients) {
+        (global as any).broadcastToClients({
+          type: 'call_started',
+          callId: result.callId,
+          phoneNumber: scheduledCall.phoneNumber
+        });
+      }
+    } else if (result.deferredUntil) {
+      // The window closed between the check and the dial - put the job back for later
+      await storage.updateScheduledCall(scheduledCall.id, { status: 'pending', scheduledFor: result.deferredUntil });
+    } else {
+      await storage.updateScheduledCall(scheduledCall.id, { status: 'failed', lastError: result.error });
+      console.error(`❌ Dial failed for ${scheduledCall.phoneNumber}: ${result.error}`);
+    }
+  }
+
+  // Mark a running campaign completed once nothing is left to dial
+  private async finishIfDrained(campaignId: string): Promise<void> {
+    const campaign = await storage.getCampaign(campaignId);
+    if (campaign?.dialerStatus !== 'running') return;
+
+    const counts = await storage.getScheduledCallCounts(campaignId);
+    if (!counts.pending && !counts.dialing) {
+      await storage.updateCampaign(campaignId, { dialerStatus: 'completed' });
+      console.log(`✅ Dialer finished campaign ${campaignId}`);
+    }
+  }
+
+  private measureLoad(calls: Call[], now: number): CallLoad {
+    return {
+      active: calls.filter(call => call.status === 'active').length,
+      lastMinute: calls.filter(call => call.startTime.getTime() > now - PACE_WINDOW_MS).length
+    };
+  }
+
+  private hasCapacity(load: CallLoad, maxConcurrent: number, perMinute: number): boolean {
+    return load.active < maxConcurrent && load.lastMinute < perMinute;
+  }
+
+  private async broadcastProgress(campaignId: string): Promise<DialerProgress | undefined> {
+    const progress = await this.getProgress(campaignId);
+    if (progress && (global as any).broadcastToClients) {
+      (global as any).broadcastToClients({ type: 'dialer_progress', progress });
+    }
+    return progress;
+  }
+}
+
+// Export singleton instance
+export const dialerService = new DialerService();
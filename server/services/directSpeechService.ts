@@ -2,6 +2,11 @@
 // This service handles speech input directly from Twilio webhooks
 // without any recording download or external transcription
 
+import { languageService } from './languageService';
+
+// Anything but letters and marks of any script, digits, spaces and basic punctuation (incl. the Devanagari danda)
+const SPEECH_ARTIFACTS = new RegExp('[^\\p{L}\\p{M}\\p{N}\\s.,!?।-]', 'gu');
+
 export class DirectSpeechService {
   
   // Process speech input directly from Twilio gather webhook
@@ -40,7 +45,7 @@ export class DirectSpeechService {
     // Clean up common speech recognition artifacts
     let cleaned = speechText.trim()
       .replace(/\s+/g, ' ') // Multiple spaces to single space
-      .replace(/[^\w\s.,!?-]/g, '') // Remove special characters except punctuation
+      .replace(SPEECH_ARTIFACTS, '') // Remove special characters except punctuation
       .toLowerCase();
     
     // Handle common misheard phrases for Indian context
@@ -48,7 +53,9 @@ export class DirectSpeechService {
       'lab check': 'LabsCheck',
       'labs check': 'LabsCheck',
       'lab owner': 'lab owner',
-      'laboratory': 'lab'
+      'laboratory': 'lab',
+      'लैब्स चेक': 'LabsCheck',
+      'लैब चेक': 'LabsCheck'
     };
     
     for (const [incorrect, correct] of Object.entries(corrections)) {
@@ -74,71 +81,7 @@ export class DirectSpeechService {
     ];
     
     const lowerText = speechText.toLowerCase();
-    return endPhrases.some(phrase => lowerText.includes(phrase));
-  }
-  
-  // Extract useful information from speech
-  static extractContactInfo(speechText: string): {
-    whatsapp?: string;
-    email?: string;
-    name?: string;
-  } {
-    const info: any = {};
-    
-    // Extract WhatsApp number (Indian format) - handle both continuous and spaced digits
-    let whatsappMatch = speechText.match(/(?:\+91|91)?\s*[6-9]\d{9}/);
-    
-    // If no match, try to extract spaced digits (like "9 3 2 5 0 2 5 7 3 0")
-    if (!whatsappMatch) {
-      // Look for sequences of 10 digits with spaces between them
-      const spacedDigitsPattern = /\b[6-9](?:\s+\d){9}\b/;
-      const spacedDigits = speechText.match(spacedDigitsPattern);
-      if (spacedDigits) {
-        const cleanNumber = spacedDigits[0].replace(/\s+/g, '');
-        // Validate it's a 10-digit Indian mobile number
-        if (cleanNumber.length === 10 && /^[6-9]\d{9}$/.test(cleanNumber)) {
-          info.whatsapp = cleanNumber;
-        }
-      }
-    } else {
-      info.whatsapp = whatsappMatch[0].replace(/\s+/g, '');
-    }
-    
-    // Extract email - handle both standard format and spoken format (like "dot com")
-    let emailMatch = speechText.match(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/);
-    
-    // If no standard email match, try to parse spoken email format
-    if (!emailMatch) {
-      // More flexible pattern to capture any spoken email format
-      const spokenEmailPattern = /\b[\w\d]+\s*(?:at|@)\s*[\w\d]+(?:\s*(?:dot|\.)\s*[\w\d]+)*\b/i;
-      const spokenEmail = speechText.match(spokenEmailPattern);
-      if (spokenEmail) {
-        const cleanEmail = spokenEmail[0]
-          .replace(/\s*at\s*/gi, '@')
-          .replace(/\s*dot\s*/gi, '.')
-          .replace(/\s+/g, '');
-        info.email = cleanEmail;
-      }
-    } else {
-      info.email = emailMatch[0];
-    }
-    
-    // Extract name (basic pattern)
-    const namePatterns = [
-      /my name is ([a-zA-Z\s]+)/i,
-      /i am ([a-zA-Z\s]+)/i,
-      /this is ([a-zA-Z\s]+)/i
-    ];
-    
-    for (const pattern of namePatterns) {
-      const match = speechText.match(pattern);
-      if (match && match[1]) {
-        info.name = match[1].trim();
-        break;
-      }
-    }
-    
-    return info;
+    return endPhrases.some(phrase => lowerText.includes(phrase)) || languageService.matchesPhrase(speechText, 'endCallPhrases');
   }
 }
 
@@ -76,6 +76,67 @@ export class ElevenLabsService {
     }
   }
 
+  // Stream speech as 8kHz μ-law chunks for Twilio Media Streams - aborting the signal stops playback generation
+  static async *streamSpeech(
+    text: string,
+    voiceId: string,
+    settings: {
+      stability?: number;
+      similarityBoost?: number;
+      style?: number;
+      speakerBoost?: boolean;
+      model?: string;
+    } = {},
+    signal?: AbortSignal
+  ): AsyncGenerator<Buffer> {
+    const apiKey = process.env.ELEVENLABS_API_KEY;
+    if (!apiKey) {
+      throw new Error('ElevenLabs API key not configured');
+    }
+
+    const {
+      stability = 0.3,
+      similarityBoost = 0.5,
+      style = 0.0,
+      speakerBoost = false,
+      model = 'eleven_turbo_v2_5'
+    } = settings;
+
+    const response = await fetch(`${this.API_BASE}/text-to-speech/${voiceId}/stream?output_format=ulaw_8000&optimize_streaming_latency=3`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'xi-api-key': apiKey
+      },
+      body: JSON.stringify({
+        text,
+        model_id: model,
+        voice_settings: {
+          stability,
+          similarity_boost: similarityBoost,
+          style,
+          use_speaker_boost: speakerBoost
+        }
+      }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`ElevenLabs API error: ${response.status} ${response.statusText}`);
+    }
+
+    const reader = response.body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value) yield Buffer.from(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
   // Get available voices from user's ElevenLabs account
   static async getVoices(): Promise<Array<{ voice_id: string; name: string; category: string }>> {
     try {
@@ -0,0 +1,240 @@
+import type { Call, Campaign, Contact, InboundRouting } from '@shared/schema';
+import { inboundRoutingSchema } from '@shared/schema';
+import { storage } from '../storage';
+import { twilioService } from './twilioService';
+import { ttsService } from './ttsService';
+import { sttService } from './sttService';
+import { transcriptService } from './transcriptService';
+import { callSessionStore, createInitialSessionState } from './callSessionStore';
+import { mediaStreamService } from './mediaStreamService';
+import { recordingService } from './recordingService';
+import { variantService } from './variantService';
+import { fillPhrase, getPhrases } from './phrases';
+
+// Inbound calls
+// When someone calls one of our Twilio numbers we look them up (or create a contact), pick the
+// campaign whose agent should answer using the operator's routing rules, and run the same agent
+// as outbound calls with a summary of earlier calls and messages added to its prompt.
+
+const ROUTING_KEY = 'inbound_routing';
+const PRIOR_CALLS_IN_CONTEXT = 3;
+const PRIOR_MESSAGES_IN_CONTEXT = 5;
+// Names given to contacts we only know by number (inbound calls, direct calls, WhatsApp) - never greet anyone by these
+const PLACEHOLDER_NAMES = [/^Caller \d+$/, /^Direct Call\b/, /^WhatsApp User \d+$/];
+// A first name starts with a letter in any script
+const FIRST_NAME_PATTERN = new RegExp("^\\p{L}[\\p{L}\\p{M}'.-]*$", 'u');
+
+export type InboundRouteRule = 'number' | 'last_campaign' | 'default';
+
+export class InboundCallService {
+  // Saved routing rules, with defaults for anything not configured
+  async getRouting(): Promise<InboundRouting> {
+    const saved = (await storage.getAppSetting(ROUTING_KEY))?.value;
+    const routing = inboundRoutingSchema.safeParse(saved || {});
+    return routing.success ? routing.data : inboundRoutingSchema.parse({});
+  }
+
+  async saveRouting(routing: InboundRouting): Promise<InboundRouting> {
+    await storage.setAppSetting(ROUTING_KEY, routing);
+    return routing;
+  }
+
+  // Existing contact for the caller's number, or a new one
+  async findOrCreateContact(from: string): Promise<{ contact: Contact; created: boolean }> {
+    // Contacts are often stored without the country code, so try the common local forms too
+    const digits = from.replace(/\D/g, '');
+    const candidates = Array.from(new Set([from, digits, digits.slice(-10)]));
+    for (const phone of candidates) {
+      const contact = await storage.getContactByPhone(phone);
+      if (contact) return { contact, created: false };
+    }
+
+    const contact = await storage.createContact({
+      name: `Caller ${digits.slice(-4)}`,
+      phone: from,
+      notes: 'Created from inbound call'
+    });
+    return { contact, created: true };
+  }
+
+  // Campaign whose agent answers: the dialled number's route, the last campaign that touched the contact, then the default
+  async route(dialledNumber: string, contact: Contact): Promise<{ campaign: Campaign; rule: InboundRouteRule } | undefined> {
+    const routing = await this.getRouting();
+    const dialled = dialledNumber.replace(/\D/g, '');
+
+    const numberRoute = routing.numberRoutes.find(route => route.number.replace(/\D/g, '') === dialled);
+    const byNumber = numberRoute && await this.getActiveCampaign(numberRoute.campaignId);
+    if (byNumber) return { campaign: byNumber, rule: 'number' };
+
+    if (routing.routeToLastCampaign) {
+      const lastCampaignId = await this.getLastCampaignId(contact.id);
+      const byHistory = lastCampaignId && await this.getActiveCampaign(lastCampaignId);
+      if (byHistory) return { campaign: byHistory, rule: 'last_campaign' };
+    }
+
+    const byDefault = routing.defaultCampaignId && await this.getActiveCampaign(routing.defaultCampaignId);
+    if (byDefault) return { campaign: byDefault, rule: 'default' };
+
+    return undefined;
+  }
+
+  // Answer an inbound call - returns the TwiML for Twilio's voice webhook
+  async answer(params: { callSid: string; from: string; to: string }): Promise<string> {
+    const { contact } = await this.findOrCreateContact(params.from);
+    const routed = await this.route(params.to, contact);
+    if (!routed) {
+      console.log(`📵 No campaign routes inbound call from ${params.from} to ${params.to}`);
+      return twilioService.generateTwiML('hangup');
+    }
+
+    // Callers get the same A/B variant the campaign would call them with
+    const variant = variantService.assign(routed.campaign, contact.id);
+    const campaign = variantService.apply(routed.campaign, variant?.id);
+    const { rule } = routed;
+    const callerContext = await this.buildCallerContext(contact);
+    const call = await storage.createCall({
+      contactId: contact.id,
+      campaignId: campaign.id,
+      phoneNumber: params.from,
+      direction: 'inbound',
+      status: 'active',
+      startTime: new Date(),
+      twilioCallSid: params.callSid,
+      language: campaign.language,
+      variantId: variant?.id ?? null,
+      sessionState: { ...createInitialSessionState(), callerContext }
+    });
+    console.log(`📲 Inbound call ${call.id} from ${params.from} routed to campaign ${campaign.name} (${rule})`);
+
+    if ((global as any).broadcastToClients) {
+      (global as any).broadcastToClients({
+        type: 'call_started',
+        callId: call.id,
+        phoneNumber: params.from,
+        direction: 'inbound'
+      });
+    }
+
+    // Recorded campaigns play the notice first; it redirects to greetAfterConsent once heard
+    const consent = await recordingService.getConsentTwiML(call.id, campaign, `/api/calls/webhook/inbound/greeting?callId=${call.id}`);
+    if (consent) return consent;
+
+    return this.greet(call, campaign, contact);
+  }
+
+  // The recording notice has played - start recording, then greet the caller
+  async greetAfterConsent(callId: string): Promise<string> {
+    const call = callId ? await storage.getCall(callId) : undefined;
+    const contact = call?.contactId ? await storage.getContact(call.contactId) : undefined;
+    const campaign = call ? await variantService.getCampaignForCall(call) : undefined;
+    if (!call || !contact || !campaign) {
+      console.error(`❌ Inbound greeting requested for unknown call ${callId}`);
+      return twilioService.generateTwiML('hangup');
+    }
+
+    await recordingService.startRecording(call.id, call.twilioCallSid ?? undefined, campaign).catch(error => {
+      console.error(`❌ Error starting recording for inbound call ${call.id}:`, error);
+    });
+    return this.greet(call, campaign, contact);
+  }
+
+  // Opening TwiML for an answered inbound call
+  private async greet(call: Call, campaign: Campaign, contact: Contact): Promise<string> {
+    const greeting = this.getGreeting(campaign, contact);
+
+    // Streaming campaigns speak the greeting from the media stream session
+    if (campaign.callMode === 'stream') {
+      return twilioService.generateStreamTwiML(mediaStreamService.getStreamUrl(), mediaStreamService.getStreamParameters(call.id, {
+        campaignId: campaign.id,
+        greeting
+      }));
+    }
+
+    await callSessionStore.appendOpeningLine(call.id, greeting);
+    try {
+      const speech = await ttsService.getSpeech(campaign, greeting);
+      transcriptService.recordAgentLine(call.id, greeting, speech);
+      return twilioService.generateTwiML('gather', {
+        text: greeting,
+        ...speech,
+        action: `/api/calls/${call.id}/process-speech`,
+        ...sttService.getListenOptions(campaign),
+        addTypingSound: true,
+        addThinkingPause: true
+      });
+    } catch (error) {
+      // No campaign voice could speak - the caller can try again
+      console.error('❌ Inbound greeting failed:', error);
+      return twilioService.generateTwiML('hangup');
+    }
+  }
+
+  // Greeting for someone who called us - by first name when we already know it
+  getGreeting(campaign: Campaign, knownContact?: Contact): string {
+    const phrases = getPhrases(campaign.language);
+    const firstName = this.getFirstName(knownContact);
+    return firstName
+      ? fillPhrase(phrases.inboundGreetingByName, { agent: campaign.agentName, name: firstName })
+      : fillPhrase(phrases.inboundGreeting, { agent: campaign.agentName });
+  }
+
+  // The contact's real first name - undefined for placeholder names and names that don't start with a word
+  getFirstName(contact?: Contact): string | undefined {
+    const name = contact?.name.trim();
+    if (!name || PLACEHOLDER_NAMES.some(pattern => pattern.test(name))) return undefined;
+    const firstName = name.split(/\s+/)[0];
+    return FIRST_NAME_PATTERN.test(firstName) ? firstName : undefined;
+  }
+
+  // Earlier calls and messages, summarised for the agent's prompt
+  async buildCallerContext(contact: Contact): Promise<string> {
+    const lines = ['This is an inbound call: the caller phoned us, so do not open with the outbound pitch.'];
+    lines.push(`Caller: ${contact.name}${contact.company ? ` from ${contact.company}` : ''}${contact.city ? `, ${contact.city}` : ''}.`);
+
+    const calls = (await storage.getCallsByContact(contact.id))
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+      .slice(0, PRIOR_CALLS_IN_CONTEXT);
+    if (calls.length > 0) {
+      lines.push('Previous calls:');
+      for (const call of calls) {
+        const outcome = call.conversationSummary || call.disposition || call.status;
+        lines.push(`- ${call.startTime.toISOString().slice(0, 10)} (${call.direction}): ${outcome}`);
+      }
+    }
+
+    const messages = await storage.getWhatsAppMessages(contact.id, PRIOR_MESSAGES_IN_CONTEXT);
+    if (messages.length > 0) {
+      lines.push('Recent WhatsApp messages (newest first):');
+      for (const message of messages) {
+        lines.push(`- ${message.direction === 'inbound' ? 'Caller' : 'Us'}: ${message.templateName ? `[template ${message.templateName}]` : message.message}`);
+      }
+    }
+
+    if (calls.length === 0 && messages.length === 0) {
+      lines.push('We have no earlier calls or messages with this caller.');
+    }
+
+    return lines.join('\n');
+  }
+
+  private async getActiveCampaign(campaignId: string): Promise<Campaign | undefined> {
+    const campaign = await storage.getCampaign(campaignId);
+    return campaign?.isActive ? campaign : undefined;
+  }
+
+  // Most recent campaign that called or messaged the contact
+  private async getLastCampaignId(contactId: string): Promise<string | undefined> {
+    const calls = await storage.getCallsByContact(contactId);
+    const messages = await storage.getWhatsAppMessages(contactId, 20);
+    const touches = [
+      ...calls.map(call => ({ campaignId: call.campaignId, at: call.startTime })),
+      ...messages.map(message => ({ campaignId: message.campaignId, at: message.createdAt }))
+    ].filter(touch => !!touch.campaignId);
+
+    touches.sort((a, b) => b.at.getTime() - a.at.getTime());
+    return touches[0]?.campaignId || undefined;
+  }
+}
+
+// Export singleton instance
+export const inboundCallService = new InboundCallService();
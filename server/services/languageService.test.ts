@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { languageService } from './languageService';
+
+test('languages are only detected on Indian campaigns', () => {
+  assert.equal(languageService.detect('मुझे कल फोन कीजिए', 'en'), undefined);
+  assert.equal(languageService.detect('haan ji bataiye kya hai', 'fr'), undefined);
+});
+
+test('short replies are too short to switch on', () => {
+  assert.equal(languageService.detect('okay haan', 'en-IN'), undefined);
+});
+
+test('the script with the most letters picks the language', () => {
+  assert.equal(languageService.detect('मुझे कल फोन कीजिए', 'en-IN'), 'hi');
+  assert.equal(languageService.detect('আমার এখন আগ্রহ নেই', 'hi'), 'bn');
+});
+
+test('Devanagari keeps a Marathi call in Marathi', () => {
+  assert.equal(languageService.detect('मला आत्ता वेळ नाही', 'mr'), 'mr');
+  assert.equal(languageService.detect('मुझे कल फोन कीजिए', 'hi-Latn'), 'hi');
+});
+
+test('romanised Hindi is told apart from English', () => {
+  assert.equal(languageService.detect('haan ji bataiye kya hai', 'en-IN'), 'hi-Latn');
+  assert.equal(languageService.detect('What are your lab timings?', 'hi-Latn'), 'en-IN');
+});
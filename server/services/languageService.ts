@@ -0,0 +1,188 @@
+import { storage } from '../storage';
+
+// Languages the agent speaks
+// A call starts in its campaign's language. On campaigns in an Indian language (or Indian English)
+// callers often switch mid-call - to Hindi, to English, or to Hinglish, the Hindi-English mix written
+// in Roman script - so every utterance is checked for the script it was transcribed in and for common
+// romanised Hindi words. When the caller has switched, the call's language follows them: the prompt,
+// the fixed phrases, the recogniser's locale and the voice all change with it.
+
+export interface LanguageProfile {
+  code: string; // Campaign / call language
+  name: string; // As the model is told to reply in it
+  locale: string; // BCP-47, for speech recognition and Twilio <Say>
+  script: string;
+  scriptPattern?: RegExp; // Letters of a script only this language family is written in
+  indian: boolean; // Callers may switch between Indian languages and English mid-call
+  twilioVoice?: string; // <Say> voice used when a call switches into the language
+  espeakVoice?: string;
+  endCallPhrases: string[]; // Lowercased, matched as substrings
+  optOutPhrases: string[];
+}
+
+export const LANGUAGE_PROFILES: Record<string, LanguageProfile> = {
+  en: { code: 'en', name: 'English', locale: 'en-US', script: 'Latin', indian: false, endCallPhrases: [], optOutPhrases: [] },
+  'en-IN': {
+    code: 'en-IN', name: 'English', locale: 'en-IN', script: 'Latin', indian: true,
+    twilioVoice: 'Polly.Kajal-Neural', espeakVoice: 'en-us',
+    endCallPhrases: [], optOutPhrases: []
+  },
+  hi: {
+    code: 'hi', name: 'Hindi', locale: 'hi-IN', script: 'Devanagari', scriptPattern: /[\u0900-\u097F]/g, indian: true,
+    twilioVoice: 'Polly.Aditi', espeakVoice: 'hi',
+    endCallPhrases: ['रुचि नहीं', 'दिलचस्पी नहीं', 'नहीं चाहिए', 'फ़ोन रखिए', 'फोन रखिए', 'फोन रखो', 'बाद में बात'],
+    optOutPhrases: ['दोबारा कॉल मत', 'फिर से कॉल मत', 'कॉल मत करना', 'कॉल मत कीजिए', 'मेरा नंबर हटा']
+  },
+  'hi-Latn': {
+    code: 'hi-Latn', name: 'Hinglish', locale: 'en-IN', script: 'Roman', indian: true,
+    twilioVoice: 'Polly.Kajal-Neural', espeakVoice: 'en-us',
+    endCallPhrases: ['interest nahi', 'interested nahi', 'nahi chahiye', 'phone rakho', 'phone rakhiye', 'baad mein baat'],
+    optOutPhrases: ['call mat karo', 'call mat karna', 'call mat kijiye', 'dobara call mat', 'phir se call mat', 'mera number hata']
+  },
+  mr: {
+    code: 'mr', name: 'Marathi', locale: 'mr-IN', script: 'Devanagari', scriptPattern: /[\u0900-\u097F]/g, indian: true,
+    twilioVoice: 'Google.mr-IN-Standard-A', espeakVoice: 'mr',
+    endCallPhrases: ['रस नाही', 'नको आहे', 'फोन ठेवा'],
+    optOutPhrases: ['पुन्हा कॉल करू नका', 'कॉल करू नका', 'माझा नंबर काढा']
+  },
+  bn: {
+    code: 'bn', name: 'Bengali', locale: 'bn-IN', script: 'Bengali', scriptPattern: /[\u0980-\u09FF]/g, indian: true,
+    twilioVoice: 'Google.bn-IN-Standard-A', espeakVoice: 'bn',
+    endCallPhrases: ['আগ্রহ নেই', 'দরকার নেই', 'ফোন রাখুন'],
+    optOutPhrases: ['আর কল করবেন না', 'কল করবেন না', 'আমার নম্বর সরিয়ে']
+  },
+  gu: {
+    code: 'gu', name: 'Gujarati', locale: 'gu-IN', script: 'Gujarati', scriptPattern: /[\u0A80-\u0AFF]/g, indian: true,
+    twilioVoice: 'Google.gu-IN-Standard-A', espeakVoice: 'gu',
+    endCallPhrases: ['રસ નથી', 'જરૂર નથી', 'ફોન મૂકો'],
+    optOutPhrases: ['ફરીથી કૉલ ન કરશો', 'કૉલ ન કરશો', 'મારો નંબર કાઢી']
+  },
+  ta: {
+    code: 'ta', name: 'Tamil', locale: 'ta-IN', script: 'Tamil', scriptPattern: /[\u0B80-\u0BFF]/g, indian: true,
+    twilioVoice: 'Google.ta-IN-Standard-A', espeakVoice: 'ta',
+    endCallPhrases: ['விருப்பம் இல்லை', 'தேவையில்லை', 'போனை வையுங்கள்'],
+    optOutPhrases: ['மீண்டும் அழைக்க வேண்டாம்', 'அழைக்க வேண்டாம்', 'என் நம்பரை நீக்க']
+  },
+  te: {
+    code: 'te', name: 'Telugu', locale: 'te-IN', script: 'Telugu', scriptPattern: /[\u0C00-\u0C7F]/g, indian: true,
+    twilioVoice: 'Google.te-IN-Standard-A', espeakVoice: 'te',
+    endCallPhrases: ['ఆసక్తి లేదు', 'అవసరం లేదు', 'ఫోన్ పెట్టేయండి'],
+    optOutPhrases: ['మళ్ళీ కాల్ చేయకండి', 'కాల్ చేయకండి', 'నా నంబర్ తీసేయండి']
+  },
+  kn: {
+    code: 'kn', name: 'Kannada', locale: 'kn-IN', script: 'Kannada', scriptPattern: /[\u0C80-\u0CFF]/g, indian: true,
+    twilioVoice: 'Google.kn-IN-Standard-A', espeakVoice: 'kn',
+    endCallPhrases: ['ಆಸಕ್ತಿ ಇಲ್ಲ', 'ಬೇಕಾಗಿಲ್ಲ', 'ಫೋನ್ ಇಡಿ'],
+    optOutPhrases: ['ಮತ್ತೆ ಕರೆ ಮಾಡಬೇಡಿ', 'ಕರೆ ಮಾಡಬೇಡಿ', 'ನನ್ನ ನಂಬರ್ ತೆಗೆದು']
+  },
+  ml: {
+    code: 'ml', name: 'Malayalam', locale: 'ml-IN', script: 'Malayalam', scriptPattern: /[\u0D00-\u0D7F]/g, indian: true,
+    twilioVoice: 'Google.ml-IN-Standard-A', espeakVoice: 'ml',
+    endCallPhrases: ['താൽപ്പര്യമില്ല', 'ആവശ്യമില്ല', 'ഫോൺ വെക്കൂ'],
+    optOutPhrases: ['ഇനി വിളിക്കരുത്', 'വിളിക്കരുത്', 'എന്റെ നമ്പർ നീക്ക']
+  },
+  es: { code: 'es', name: 'Spanish', locale: 'es-ES', script: 'Latin', indian: false, endCallPhrases: [], optOutPhrases: [] },
+  fr: { code: 'fr', name: 'French', locale: 'fr-FR', script: 'Latin', indian: false, endCallPhrases: [], optOutPhrases: [] },
+  de: { code: 'de', name: 'German', locale: 'de-DE', script: 'Latin', indian: false, endCallPhrases: [], optOutPhrases: [] },
+  it: { code: 'it', name: 'Italian', locale: 'it-IT', script: 'Latin', indian: false, endCallPhrases: [], optOutPhrases: [] },
+  pt: { code: 'pt', name: 'Portuguese', locale: 'pt-BR', script: 'Latin', indian: false, endCallPhrases: [], optOutPhrases: [] },
+  ja: { code: 'ja', name: 'Japanese', locale: 'ja-JP', script: 'Japanese', indian: false, endCallPhrases: [], optOutPhrases: [] },
+  ko: { code: 'ko', name: 'Korean', locale: 'ko-KR', script: 'Hangul', indian: false, endCallPhrases: [], optOutPhrases: [] },
+  zh: { code: 'zh', name: 'Mandarin Chinese', locale: 'cmn-Hans-CN', script: 'Simplified Chinese', indian: false, endCallPhrases: [], optOutPhrases: [] },
+};
+
+// Common romanised Hindi words that are not also English words
+const HINGLISH_MARKERS = new Set([
+  'hai', 'hain', 'nahi', 'nahin', 'haan', 'haa', 'kya', 'kyun', 'kyu', 'aap', 'aapka', 'aapki', 'aapke', 'mera', 'meri',
+  'mere', 'hum', 'humara', 'hamara', 'mein', 'ka', 'ki', 'ke', 'ko', 'se', 'bhi', 'toh', 'ji', 'accha', 'achha', 'acha',
+  'theek', 'thik', 'kaise', 'kab', 'kahan', 'abhi', 'baad', 'baat', 'karo', 'karna', 'karenge', 'karte', 'chahiye',
+  'boliye', 'bolo', 'bataiye', 'batao', 'wala', 'wali', 'kitna', 'kitne', 'lekin', 'aur', 'yeh', 'woh', 'tha', 'thi'
+]);
+
+// Fewer words than this are too short to tell a switch from a stray "okay" or "haan"
+const MIN_DETECTION_WORDS = 3;
+
+export class LanguageService {
+  // The profile for a campaign or call language - unknown codes fall back to their base language, then English
+  getProfile(code: string | null | undefined): LanguageProfile {
+    if (!code) return LANGUAGE_PROFILES.en;
+    return LANGUAGE_PROFILES[code] || LANGUAGE_PROFILES[code.split('-')[0]] || { ...LANGUAGE_PROFILES.en, code, locale: code };
+  }
+
+  // Recogniser locale for a language code
+  getLocale(code: string): string {
+    return LANGUAGE_PROFILES[code]?.locale || (code.includes('-') ? code : this.getProfile(code).locale);
+  }
+
+  // Other locales the recogniser should listen for - callers on Indian campaigns switch between Hindi and English
+  getAlternativeLocales(code: string): string[] {
+    const profile = this.getProfile(code);
+    if (!profile.indian) return [];
+    return ['en-IN', 'hi-IN'].filter(locale => locale !== profile.locale);
+  }
+
+  // How the model should write its replies
+  getPromptInstructions(code: string): string {
+    const profile = this.getProfile(code);
+    if (profile.code === 'hi-Latn') {
+      return 'Reply in Hinglish - the natural mix of Hindi and English that urban Indians speak - written entirely in Roman script (e.g. "Aapki lab mein daily kitne tests hote hain?"). Never use Devanagari.';
+    }
+    if (profile.indian && profile.script !== 'Latin') {
+      return `Reply in ${profile.name}, written in ${profile.script} script, as it is spoken day to day. Keep the English words people normally use for business (lab, test, report, WhatsApp) in English.`;
+    }
+    return profile.indian
+      ? `Reply in English. The caller may mix in Hindi words - understand them, but keep replying in English.`
+      : `Reply in ${profile.name}.`;
+  }
+
+  // Whether text contains a phrase from any language's list - callers may opt out in whichever language they switched to
+  matchesPhrase(text: string, list: 'endCallPhrases' | 'optOutPhrases'): boolean {
+    const lowerText = text.toLowerCase();
+    return Object.values(LANGUAGE_PROFILES).some(profile => profile[list].some(phrase => lowerText.includes(phrase)));
+  }
+
+  // The language an utterance is in, or undefined when it is too short to tell or switching doesn't apply
+  detect(text: string, current: string): string | undefined {
+    const profile = this.getProfile(current);
+    const words = text.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (!profile.indian || words.length < MIN_DETECTION_WORDS) return undefined;
+
+    // Whichever script has the most letters wins
+    let best: LanguageProfile | undefined;
+    let bestCount = (text.match(/[A-Za-z]/g) || []).length;
+    for (const candidate of Object.values(LANGUAGE_PROFILES)) {
+      const count = candidate.scriptPattern ? (text.match(candidate.scriptPattern) || []).length : 0;
+      if (count > bestCount) {
+        best = candidate;
+        bestCount = count;
+      }
+    }
+    if (best) {
+      // Hindi and Marathi share Devanagari - stay in whichever the call is already in
+      return best.script === profile.script ? profile.code : best.code;
+    }
+
+    const markers = words.filter(word => HINGLISH_MARKERS.has(word.replace(/[^a-z]/g, ''))).length;
+    return markers >= 2 || markers / words.length >= 0.3 ? 'hi-Latn' : 'en-IN';
+  }
+
+  // Switch the call's language when the caller has - returns the language to carry on in
+  async followCaller(callId: string, current: string, text: string): Promise<string> {
+    const detected = this.detect(text, current);
+    if (!detected || detected === current) return current;
+
+    try {
+      await storage.updateCall(callId, { language: detected });
+    } catch (error) {
+      console.error(`❌ Could not save the language of call ${callId}:`, error);
+    }
+    console.log(`🌐 Call ${callId} switched from ${current} to ${detected}`);
+    if ((global as any).broadcastToClients) {
+      (global as any).broadcastToClients({ type: 'call_language', callId, language: detected });
+    }
+    return detected;
+  }
+}
+
+// Export singleton instance
+export const languageService = new LanguageService();
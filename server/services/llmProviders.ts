@@ -0,0 +1,305 @@
+import OpenAI from 'openai';
+import type { LlmProviderName } from '@shared/schema';
+
+// LLM providers
+// Conversations are held in OpenAI's chat format - messages, tool definitions and tool calls - as
+// the history and campaign tools already are. OpenAI and any server speaking its /chat/completions
+// API (Ollama, vLLM, LM Studio) take it as is; Anthropic's Messages API gets it translated. Every
+// provider streams, and stops when its AbortSignal fires (barge-in or a timeout). Only OpenAI holds
+// structured answers to a JSON schema; the others are asked for JSON, which the caller checks.
+
+export type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+export type ToolDefinition = OpenAI.Chat.Completions.ChatCompletionTool;
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON
+}
+
+export interface LlmRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  temperature: number;
+  maxTokens: number;
+  json?: JsonSchemaFormat; // Answer with one JSON object instead of text
+}
+
+export interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LlmReply {
+  content: string;
+  toolCalls: LlmToolCall[];
+}
+
+// Text streams as it is generated; tool calls arrive once, complete, after it
+export type LlmChunk = { type: 'text'; text: string } | { type: 'tool_calls'; toolCalls: LlmToolCall[] };
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly label: string;
+  readonly supportsJsonSchema: boolean;
+  isConfigured(): boolean;
+  complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmReply>;
+  stream(request: LlmRequest, signal?: AbortSignal): AsyncGenerator<LlmChunk>;
+}
+
+// OpenAI, or any server speaking the same /chat/completions API
+export class OpenAiLlmProvider implements LlmProvider {
+  private client?: OpenAI;
+
+  constructor(
+    readonly name: LlmProviderName,
+    readonly label: string,
+    readonly supportsJsonSchema: boolean,
+    private readonly createClient: () => OpenAI | undefined
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.getClient();
+  }
+
+  async complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmReply> {
+    const completion = await this.requireClient().chat.completions.create({
+      ...this.toParams(request),
+      stream: false
+    }, { signal, maxRetries: 0 }); // The fallback chain retries, on another model
+
+    const message = completion.choices[0]?.message;
+    return {
+      content: message?.content || '',
+      toolCalls: (message?.tool_calls || []).flatMap(call => call.type === 'function' ? [{
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments
+      }] : [])
+    };
+  }
+
+  async *stream(request: LlmRequest, signal?: AbortSignal): AsyncGenerator<LlmChunk> {
+    const stream = await this.requireClient().chat.completions.create({
+      ...this.toParams(request),
+      stream: true
+    }, { signal, maxRetries: 0 });
+
+    // Tool call names and arguments arrive in fragments keyed by index
+    const toolCalls: LlmToolCall[] = [];
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) yield { type: 'text', text: delta.content };
+      for (const fragment of delta?.tool_calls || []) {
+        const call = toolCalls[fragment.index] ||= { id: '', name: '', arguments: '' };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+    if (toolCalls.length > 0) yield { type: 'tool_calls', toolCalls: toolCalls.filter(call => !!call) };
+  }
+
+  private toParams(request: LlmRequest) {
+    // Compatible servers generally take JSON mode but not a schema
+    const responseFormat = !request.json ? undefined : this.supportsJsonSchema
+      ? { type: 'json_schema' as const, json_schema: { ...request.json, strict: true } }
+      : { type: 'json_object' as const };
+
+    return {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: 0.9,
+      frequency_penalty: 0.1,
+      presence_penalty: 0.1,
+      tools: request.tools?.length ? request.tools : undefined,
+      response_format: responseFormat
+    };
+  }
+
+  private requireClient(): OpenAI {
+    const client = this.getClient();
+    if (!client) throw new Error(`${this.label} is not configured`);
+    return client;
+  }
+
+  private getClient(): OpenAI | undefined {
+    if (!this.client) this.client = this.createClient();
+    return this.client;
+  }
+}
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicBlock[];
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Anthropic's Messages API over fetch - system prompts move to their own field, tool results become user turns
+export class AnthropicLlmProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  readonly label = 'Anthropic';
+  readonly supportsJsonSchema = false;
+
+  isConfigured(): boolean {
+    return !!process.env.ANTHROPIC_API_KEY;
+  }
+
+  async complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmReply> {
+    const response = await this.post(request, false, signal);
+    const body = await response.json() as { content: AnthropicBlock[] };
+
+    return {
+      content: body.content.flatMap(block => block.type === 'text' ? [block.text] : []).join(''),
+      toolCalls: body.content.flatMap(block => block.type === 'tool_use' ? [{
+        id: block.id,
+        name: block.name,
+        arguments: JSON.stringify(block.input ?? {})
+      }] : [])
+    };
+  }
+
+  async *stream(request: LlmRequest, signal?: AbortSignal): AsyncGenerator<LlmChunk> {
+    const response = await this.post(request, true, signal);
+    if (!response.body) throw new Error('Anthropic returned no stream');
+
+    // Server-sent events; tool inputs arrive as partial JSON keyed by content block index
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const toolCalls: LlmToolCall[] = [];
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const data = buffer.slice(0, boundary).split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trim())
+          .join('');
+        buffer = buffer.slice(boundary + 2);
+        if (!data) continue;
+
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          toolCalls[event.index] = { id: event.content_block.id, name: event.content_block.name, arguments: '' };
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield { type: 'text', text: event.delta.text };
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta' && toolCalls[event.index]) {
+          toolCalls[event.index].arguments += event.delta.partial_json;
+        } else if (event.type === 'error') {
+          throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown'}`);
+        }
+      }
+    }
+
+    const completed = toolCalls.filter(call => !!call).map(call => ({ ...call, arguments: call.arguments || '{}' }));
+    if (completed.length > 0) yield { type: 'tool_calls', toolCalls: completed };
+  }
+
+  private async post(request: LlmRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    if (!this.isConfigured()) throw new Error(`${this.label} is not configured`);
+
+    const baseUrl = (process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': process.env.ANTHROPIC_API_KEY!,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify({ ...this.toBody(request), stream }),
+      signal
+    });
+    if (!response.ok) {
+      throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  }
+
+  private toBody(request: LlmRequest) {
+    const system = request.messages
+      .filter(message => message.role === 'system' || message.role === 'developer')
+      .map(message => getText(message.content))
+      .join('\n\n');
+
+    // Anthropic wants user and assistant turns to alternate, so neighbouring turns of one role are merged
+    const messages: AnthropicMessage[] = [];
+    const append = (role: AnthropicMessage['role'], blocks: AnthropicBlock[]) => {
+      if (blocks.length === 0) return;
+      const last = messages[messages.length - 1];
+      if (last?.role === role) last.content.push(...blocks);
+      else messages.push({ role, content: blocks });
+    };
+
+    for (const message of request.messages) {
+      if (message.role === 'user') {
+        const text = getText(message.content);
+        append('user', text ? [{ type: 'text', text }] : []);
+      } else if (message.role === 'assistant') {
+        const text = getText(message.content);
+        append('assistant', [
+          ...(text ? [{ type: 'text' as const, text }] : []),
+          ...(message.tool_calls || []).flatMap(call => call.type === 'function' ? [{
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.function.name,
+            input: parseArguments(call.function.arguments)
+          }] : [])
+        ]);
+      } else if (message.role === 'tool') {
+        append('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: getText(message.content) }]);
+      }
+    }
+
+    return {
+      model: request.model,
+      system: system || undefined,
+      messages,
+      temperature: Math.min(request.temperature, 1),
+      max_tokens: request.maxTokens,
+      tools: request.tools?.length ? request.tools.map(tool => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: tool.function.parameters || { type: 'object', properties: {} }
+      })) : undefined
+    };
+  }
+}
+
+function getText(content: string | Array<{ type: string; text?: string }> | null | undefined): string {
+  if (typeof content === 'string') return content;
+  return (content || []).map(part => part.text || '').join('');
+}
+
+function parseArguments(json: string): unknown {
+  try {
+    return JSON.parse(json || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export const llmProviders: Record<LlmProviderName, LlmProvider> = {
+  openai: new OpenAiLlmProvider('openai', 'OpenAI', true, () =>
+    process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : undefined
+  ),
+  anthropic: new AnthropicLlmProvider(),
+  local: new OpenAiLlmProvider('local', 'OpenAI-compatible server', false, () =>
+    process.env.LOCAL_LLM_URL
+      ? new OpenAI({ baseURL: process.env.LOCAL_LLM_URL, apiKey: process.env.LOCAL_LLM_API_KEY || 'local' })
+      : undefined
+  ),
+};
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findSchemaMismatch } from './llmService';
+
+const schema = {
+  type: 'object',
+  properties: {
+    intent: { type: 'string', enum: ['interested', 'not_interested'] },
+    score: { type: 'integer' },
+    notes: { type: ['string', 'null'] },
+    tags: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['intent', 'score'],
+  additionalProperties: false
+};
+
+test('answers that match the schema pass', () => {
+  assert.equal(findSchemaMismatch({ intent: 'interested', score: 7, notes: null, tags: ['lab'] }, schema, '$'), null);
+});
+
+test('the first mismatch is reported with its path', () => {
+  assert.equal(findSchemaMismatch([], schema, '$'), '$ should be object');
+  assert.equal(findSchemaMismatch({ intent: 'interested' }, schema, '$'), '$.score is missing');
+  assert.equal(findSchemaMismatch({ intent: 'maybe', score: 7 }, schema, '$'), '$.intent should be one of "interested", "not_interested"');
+  assert.equal(findSchemaMismatch({ intent: 'interested', score: 7.5 }, schema, '$'), '$.score should be integer');
+  assert.equal(findSchemaMismatch({ intent: 'interested', score: 7, tags: ['lab', 3] }, schema, '$'), '$.tags[1] should be string');
+  assert.equal(findSchemaMismatch({ intent: 'interested', score: 7, mood: 'happy' }, schema, '$'), '$.mood is not allowed');
+});
@@ -0,0 +1,257 @@
+import type { Campaign, LlmConfig, LlmModel } from '@shared/schema';
+import { llmProviders, type ChatMessage, type JsonSchemaFormat, type LlmChunk, type LlmReply, type LlmRequest, type ToolDefinition } from './llmProviders';
+
+// Replies from a campaign's model, with failover
+// A campaign's openaiModel runs on the provider in its llmConfig (OpenAI unless set) with the
+// campaign's temperature and token limit. Each model gets timeoutMs to answer - to start answering,
+// when streaming - and when it errors or runs out of time the same request goes to the next model
+// in the fallback chain. A model that just failed is tried last for a minute, so each turn doesn't
+// wait on it. A stream that has started speaking can't be taken back, so it only fails over before
+// its first token. JSON answers go down the same chain: providers that can't enforce a schema are
+// asked for it in the prompt, and an answer that doesn't match moves on to the next model.
+
+export interface ResolvedLlmConfig {
+  chain: LlmModel[]; // Primary model first, then the fallbacks
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+const DEFAULT_MODEL = 'gpt-4o';
+const DEFAULT_TEMPERATURE = 0.6;
+const DEFAULT_MAX_TOKENS = 100;
+const DEFAULT_TIMEOUT_MS = 8000;
+const FAILED_MODEL_COOLDOWN_MS = 60 * 1000;
+
+export class LlmService {
+  private readonly failedUntil = new Map<string, number>();
+
+  // The campaign's LLM settings with defaults filled in
+  getConfig(campaign: Campaign | null | undefined): ResolvedLlmConfig {
+    const config = (campaign?.llmConfig || {}) as Partial<LlmConfig>;
+    const primary: LlmModel = {
+      provider: config.provider && llmProviders[config.provider] ? config.provider : 'openai',
+      model: campaign?.openaiModel || DEFAULT_MODEL
+    };
+    const fallbacks = (config.fallbacks || []).filter(fallback => !!llmProviders[fallback.provider]);
+
+    return {
+      chain: [primary, ...fallbacks].filter((model, index, chain) =>
+        chain.findIndex(other => this.getKey(other) === this.getKey(model)) === index
+      ),
+      temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+      timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    };
+  }
+
+  // One reply - throws only when every model in the chain has failed
+  async complete(config: ResolvedLlmConfig, messages: ChatMessage[], tools?: ToolDefinition[], signal?: AbortSignal): Promise<LlmReply> {
+    return this.completeWithFailover(config, signal, model => ({
+      model: model.model,
+      messages,
+      tools,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens
+    }), reply => reply);
+  }
+
+  // One JSON object matching the schema - for analysing calls, never for talking to the caller
+  async generateJson(config: ResolvedLlmConfig, systemPrompt: string, userMessage: string, schema: JsonSchemaFormat): Promise<unknown> {
+    const instruction = `Answer with only a JSON object, no other text, matching this JSON schema:\n${JSON.stringify(schema.schema)}`;
+
+    return this.completeWithFailover(config, undefined, model => ({
+      model: model.model,
+      messages: [
+        {
+          role: 'system',
+          content: llmProviders[model.provider].supportsJsonSchema ? systemPrompt : `${systemPrompt}\n\n${instruction}`
+        },
+        { role: 'user', content: userMessage }
+      ],
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      json: schema
+    }), reply => {
+      const answer = parseJsonAnswer(reply.content);
+      const problem = answer === undefined ? 'no JSON object' : findSchemaMismatch(answer, schema.schema, '$');
+      if (problem) throw new InvalidAnswerError(`answer doesn't match ${schema.name}: ${problem}`);
+      return answer;
+    });
+  }
+
+  // Stream a reply, failing over until a model starts answering - aborting the signal stops generation
+  async *stream(config: ResolvedLlmConfig, messages: ChatMessage[], tools?: ToolDefinition[], signal?: AbortSignal): AsyncGenerator<LlmChunk> {
+    let lastError: unknown;
+
+    for (const model of this.getModels(config)) {
+      const timeout = this.startTimeout(config.timeoutMs, signal);
+      let started = false;
+      try {
+        for await (const chunk of llmProviders[model.provider].stream({
+          model: model.model,
+          messages,
+          tools,
+          temperature: config.temperature,
+          maxTokens: config.maxTokens
+        }, timeout.signal)) {
+          if (!started) {
+            // Slow models only time out before their first token
+            started = true;
+            timeout.stopTimer();
+            this.failedUntil.delete(this.getKey(model));
+            this.logFailover(config, model);
+          }
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (signal?.aborted || started) throw error;
+        lastError = error;
+        this.markFailed(model, timeout.timedOut() ? new Error(`no first token within ${config.timeoutMs}ms`) : error);
+      } finally {
+        timeout.clear();
+      }
+    }
+
+    throw lastError ?? new Error('No configured LLM provider for this campaign');
+  }
+
+  // Try each model in turn until one answers and its reply passes accept, which throws to reject it
+  private async completeWithFailover<T>(
+    config: ResolvedLlmConfig,
+    signal: AbortSignal | undefined,
+    buildRequest: (model: LlmModel) => LlmRequest,
+    accept: (reply: LlmReply) => T
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (const model of this.getModels(config)) {
+      const timeout = this.startTimeout(config.timeoutMs, signal);
+      try {
+        const result = accept(await llmProviders[model.provider].complete(buildRequest(model), timeout.signal));
+        this.failedUntil.delete(this.getKey(model));
+        this.logFailover(config, model);
+        return result;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        lastError = error;
+        this.markFailed(model, timeout.timedOut() ? new Error(`no reply within ${config.timeoutMs}ms`) : error);
+      } finally {
+        timeout.clear();
+      }
+    }
+
+    throw lastError ?? new Error('No configured LLM provider for this campaign');
+  }
+
+  // Models in order, with unconfigured providers dropped and ones that failed recently moved to the back
+  private getModels(config: ResolvedLlmConfig): LlmModel[] {
+    const now = Date.now();
+    const models = config.chain.filter(model => llmProviders[model.provider].isConfigured());
+    const healthy = models.filter(model => (this.failedUntil.get(this.getKey(model)) || 0) <= now);
+    return [...healthy, ...models.filter(model => !healthy.includes(model))];
+  }
+
+  // A signal that fires on the caller's abort or after timeoutMs, whichever comes first
+  private startTimeout(timeoutMs: number, signal?: AbortSignal) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    return {
+      signal: controller.signal,
+      timedOut: () => timedOut,
+      stopTimer: () => clearTimeout(timer),
+      clear: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      }
+    };
+  }
+
+  private markFailed(model: LlmModel, error: unknown): void {
+    // A bad answer is no reason to keep the model off the next turn
+    if (!(error instanceof InvalidAnswerError)) {
+      this.failedUntil.set(this.getKey(model), Date.now() + FAILED_MODEL_COOLDOWN_MS);
+    }
+    console.error(`❌ LLM failed on ${model.provider} model ${model.model}:`, error instanceof Error ? error.message : error);
+  }
+
+  private logFailover(config: ResolvedLlmConfig, model: LlmModel): void {
+    if (this.getKey(model) !== this.getKey(config.chain[0])) {
+      console.log(`🔁 Replying with fallback ${model.provider} model ${model.model}`);
+    }
+  }
+
+  private getKey(model: LlmModel): string {
+    return `${model.provider}:${model.model}`;
+  }
+}
+
+class InvalidAnswerError extends Error {}
+
+// The JSON object in a reply, allowing for code fences or a sentence around it
+function parseJsonAnswer(content: string): unknown {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start < 0 || end < start) return undefined;
+  try {
+    return JSON.parse(content.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+// The first place value breaks the schema, or null - covers the keywords our structured-output
+// schemas use (type, enum, properties, required, additionalProperties, items)
+export function findSchemaMismatch(value: unknown, schema: Record<string, any>, path: string): string | null {
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) return `${path} should be ${types.join(' or ')}`;
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => option === value)) {
+    return `${path} should be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let index = 0; index < value.length; index++) {
+      const problem = findSchemaMismatch(value[index], schema.items, `${path}[${index}]`);
+      if (problem) return problem;
+    }
+  } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, Record<string, any>> = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (!(key in object)) return `${path}.${key} is missing`;
+    }
+    for (const key of Object.keys(object)) {
+      if (properties[key]) {
+        const problem = findSchemaMismatch(object[key], properties[key], `${path}.${key}`);
+        if (problem) return problem;
+      } else if (schema.additionalProperties === false) {
+        return `${path}.${key} is not allowed`;
+      }
+    }
+  }
+
+  return null;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    default: return typeof value === type;
+  }
+}
+
+// Export singleton instance
+export const llmService = new LlmService();
@@ -0,0 +1,431 @@
+import { createHash, createHmac } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Storage, type Bucket } from '@google-cloud/storage';
+import { mediaUrlService } from './mediaUrlService';
+
+// Media storage
+// Call recordings, caller audio segments and the TTS cache all keep their files in one store,
+// chosen with MEDIA_STORAGE: local disk (the default, under temp/), any S3-compatible bucket -
+// AWS, or MinIO for local testing - or Google Cloud Storage. Objects are addressed by key,
+// e.g. recordings/<callId>/<recordingId>.mp3, and can be handed out as time-limited signed URLs.
+// Disk URLs are signed by the media URL service and served from /media; bucket URLs are signed for the provider.
+
+export const MEDIA_BACKENDS = ['disk', 's3', 'gcs'] as const;
+export type MediaBackend = typeof MEDIA_BACKENDS[number];
+
+const KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*(\/[A-Za-z0-9][A-Za-z0-9._-]*)*$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  wav: 'audio/wav',
+  ulaw: 'audio/basic',
+};
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastAccessedAt: Date;
+}
+
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  downloadName?: string; // Served as an attachment under this name
+}
+
+export interface MediaStore {
+  readonly name: MediaBackend;
+  get(key: string): Promise<Buffer | undefined>;
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  touch(key: string): Promise<void>; // Mark as just used, for least-recently-used eviction
+  list(prefix: string): Promise<StoredObject[]>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
+
+// Keys are relative paths without '..' or empty segments, so they can't escape a disk store's directory
+export function isValidMediaKey(key: string): boolean {
+  return KEY_PATTERN.test(key) && !key.split('/').includes('..');
+}
+
+export function getMediaContentType(key: string): string {
+  return CONTENT_TYPES[path.extname(key).slice(1)] || 'application/octet-stream';
+}
+
+export class DiskMediaStore implements MediaStore {
+  readonly name = 'disk';
+
+  constructor(private readonly dir: string) {}
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Write to a temp name first so a reader never sees half a file
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  // The file's modification time doubles as its last access time
+  async touch(key: string): Promise<void> {
+    const now = new Date();
+    await fs.promises.utimes(this.resolve(key), now, now).catch(() => undefined);
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    const walk = async (relativeDir: string): Promise<void> => {
+      const entries = await fs.promises.readdir(path.join(this.dir, relativeDir), { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const key = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(key);
+        } else if (key.startsWith(prefix) && !key.endsWith('.tmp')) {
+          const stats = await fs.promises.stat(path.join(this.dir, key)).catch(() => undefined);
+          if (stats) objects.push({ key, size: stats.size, lastAccessedAt: stats.mtime });
+        }
+      }
+    };
+    // Only walk the directory the prefix points into
+    await walk(prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '');
+    return objects;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.unlink(this.resolve(key)).catch(() => undefined);
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return mediaUrlService.sign(`/media/${key}`, options);
+  }
+
+  private resolve(key: string): string {
+    if (!isValidMediaKey(key)) throw new Error(`Invalid media key: ${key}`);
+    return path.join(this.dir, key);
+  }
+}
+
+export interface S3StoreConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO - addressed path-style
+}
+
+// S3 over plain HTTPS with Signature Version 4, which MinIO and other S3-compatible stores accept too
+export class S3MediaStore implements MediaStore {
+  readonly name = 's3';
+  private readonly baseUrl: string;
+
+  constructor(private readonly config: S3StoreConfig) {
+    this.baseUrl = config.endpoint
+      ? `${config.endpoint.replace(/\/$/, '')}/${config.bucket}`
+      : `https://${config.bucket}.s3.${config.region}.amazonaws.com`;
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return undefined;
+    await this.assertOk(response, 'GET', key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async put(key: string, data: Buffer, contentType = getMediaContentType(key)): Promise<void> {
+    const response = await this.request('PUT', key, { body: data, headers: { 'content-type': contentType } });
+    await this.assertOk(response, 'PUT', key);
+  }
+
+  // S3 has no access time, so the object is copied onto itself to move its LastModified
+  async touch(key: string): Promise<void> {
+    const response = await this.request('PUT', key, {
+      headers: {
+        'x-amz-copy-source': `/${this.config.bucket}/${encodeKey(key)}`,
+        'x-amz-metadata-directive': 'REPLACE',
+        'content-type': getMediaContentType(key)
+      }
+    });
+    await this.assertOk(response, 'COPY', key);
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) query['continuation-token'] = continuationToken;
+      const response = await this.request('GET', '', { query });
+      await this.assertOk(response, 'LIST', prefix);
+
+      const xml = await response.text();
+      for (const [, contents] of Array.from(xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g))) {
+        objects.push({
+          key: decodeXml(xmlValue(contents, 'Key') || ''),
+          size: Number(xmlValue(contents, 'Size') || 0),
+          lastAccessedAt: new Date(xmlValue(contents, 'LastModified') || 0)
+        });
+      }
+      continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? decodeXml(xmlValue(xml, 'NextContinuationToken') || '') : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (response.status !== 404) await this.assertOk(response, 'DELETE', key);
+  }
+
+  // Presigned GET - the signature covers the expiry and the download name
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const url = new URL(`${this.baseUrl}/${encodeKey(key)}`);
+    const amzDate = toAmzDate(new Date());
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${this.getScope(amzDate)}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(options.expiresInSeconds),
+      'X-Amz-SignedHeaders': 'host'
+    };
+    if (options.downloadName) {
+      query['response-content-disposition'] = `attachment; filename="${options.downloadName}"`;
+    }
+
+    const signature = this.sign('GET', url, query, { host: url.host }, 'UNSIGNED-PAYLOAD', amzDate);
+    return `${url.origin}${url.pathname}?${canonicalQuery({ ...query, 'X-Amz-Signature': signature })}`;
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    options: { body?: Buffer; query?: Record<string, string>; headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    const url = new URL(key ? `${this.baseUrl}/${encodeKey(key)}` : `${this.baseUrl}/`);
+    const query = options.query || {};
+    const amzDate = toAmzDate(new Date());
+    const payloadHash = sha256Hex(options.body || '');
+    const headers: Record<string, string> = {
+      ...options.headers,
+      host: url.host,
+      'x-amz-date': amzDate,
+      'x-amz-content-sha256': payloadHash
+    };
+
+    const signature = this.sign(method, url, query, headers, payloadHash, amzDate);
+    const signedHeaders = Object.keys(headers).map(name => name.toLowerCase()).sort().join(';');
+    const queryString = canonicalQuery(query);
+    const { host, ...sentHeaders } = headers; // fetch sets Host itself
+
+    return fetch(`${url.origin}${url.pathname}${queryString ? `?${queryString}` : ''}`, {
+      method,
+      headers: {
+        ...sentHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${this.getScope(amzDate)}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      body: options.body
+    });
+  }
+
+  private sign(method: string, url: URL, query: Record<string, string>, headers: Record<string, string>, payloadHash: string, amzDate: string): string {
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const lowerHeaders = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery(query),
+      names.map(name => `${name}:${lowerHeaders[name]}\n`).join(''),
+      names.join(';'),
+      payloadHash
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, this.getScope(amzDate), sha256Hex(canonicalRequest)].join('\n');
+
+    let signingKey: Buffer = hmac(`AWS4${this.config.secretAccessKey}`, amzDate.slice(0, 8));
+    for (const part of [this.config.region, 's3', 'aws4_request']) {
+      signingKey = hmac(signingKey, part);
+    }
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private getScope(amzDate: string): string {
+    return `${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+  }
+
+  private async assertOk(response: Response, operation: string, key: string): Promise<void> {
+    if (response.ok) return;
+    const body = await response.text().catch(() => '');
+    throw new Error(`S3 ${operation} ${key} failed: ${response.status} ${xmlValue(body, 'Code') || response.statusText}`);
+  }
+}
+
+export class GcsMediaStore implements MediaStore {
+  readonly name = 'gcs';
+  private readonly bucket: Bucket;
+
+  constructor(bucketName: string) {
+    this.bucket = new Storage().bucket(bucketName);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      const [data] = await this.bucket.file(key).download();
+      return data;
+    } catch (error: any) {
+      if (error?.code === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async put(key: string, data: Buffer, contentType = getMediaContentType(key)): Promise<void> {
+    await this.bucket.file(key).save(data, {
+      resumable: false,
+      contentType,
+      metadata: { metadata: { lastAccessedAt: new Date().toISOString() } }
+    });
+  }
+
+  async touch(key: string): Promise<void> {
+    await this.bucket.file(key).setMetadata({ metadata: { lastAccessedAt: new Date().toISOString() } });
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const [files] = await this.bucket.getFiles({ prefix });
+    return files.map(file => ({
+      key: file.name,
+      size: Number(file.metadata.size || 0),
+      lastAccessedAt: new Date(String(file.metadata.metadata?.lastAccessedAt || file.metadata.updated))
+    }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.bucket.file(key).delete({ ignoreNotFound: true });
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const [url] = await this.bucket.file(key).getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: Date.now() + options.expiresInSeconds * 1000,
+      responseDisposition: options.downloadName ? `attachment; filename="${options.downloadName}"` : undefined
+    });
+    return url;
+  }
+}
+
+// The configured store - TTS_CACHE_BUCKET alone still selects GCS, as it did before there was a shared store
+export function createMediaStore(): MediaStore {
+  const backend = process.env.MEDIA_STORAGE || (process.env.TTS_CACHE_BUCKET ? 'gcs' : 'disk');
+  const bucket = process.env.MEDIA_BUCKET || process.env.TTS_CACHE_BUCKET;
+
+  if (backend === 's3') {
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY;
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error('S3 media storage needs MEDIA_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    return new S3MediaStore({
+      bucket,
+      region: process.env.S3_REGION || process.env.AWS_REGION || 'us-east-1',
+      accessKeyId,
+      secretAccessKey,
+      endpoint: process.env.S3_ENDPOINT
+    });
+  }
+
+  if (backend === 'gcs') {
+    if (!bucket) throw new Error('GCS media storage needs MEDIA_BUCKET');
+    return new GcsMediaStore(bucket);
+  }
+
+  if (backend !== 'disk') {
+    throw new Error(`Unknown MEDIA_STORAGE "${backend}" - use ${MEDIA_BACKENDS.join(', ')}`);
+  }
+  return new DiskMediaStore(process.env.MEDIA_DIR || path.join(process.cwd(), 'temp'));
+}
+
+// Creates the configured store on first use, so a bad setting fails what needs media - and the
+// recording worker at startup - instead of every module that imports this one
+class LazyMediaStore implements MediaStore {
+  private store?: MediaStore;
+
+  get name(): MediaBackend {
+    return this.getStore().name;
+  }
+
+  get(key: string): Promise<Buffer | undefined> {
+    return this.getStore().get(key);
+  }
+
+  put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    return this.getStore().put(key, data, contentType);
+  }
+
+  touch(key: string): Promise<void> {
+    return this.getStore().touch(key);
+  }
+
+  list(prefix: string): Promise<StoredObject[]> {
+    return this.getStore().list(prefix);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.getStore().delete(key);
+  }
+
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return this.getStore().getSignedUrl(key, options);
+  }
+
+  private getStore(): MediaStore {
+    if (!this.store) this.store = createMediaStore();
+    return this.store;
+  }
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+// RFC 3986 encoding, as SigV4 expects - stricter than encodeURIComponent
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function canonicalQuery(query: Record<string, string>): string {
+  return Object.keys(query).sort().map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`).join('&');
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  return xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1];
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Export singleton instance
+export const mediaStore: MediaStore = new LazyMediaStore();
@@ -0,0 +1,519 @@
+import { WebSocket, type RawData } from 'ws';
+import type { Campaign } from '@shared/schema';
+import { storage } from '../storage';
+import { getBaseUrl } from '../config/environment';
+import { OpenAIService } from './openaiService';
+import { directSpeechService } from './directSpeechService';
+import { suppressionService } from './suppressionService';
+import { callManager } from './callManager';
+import { callSessionStore } from './callSessionStore';
+import { conversationEngine } from './conversationEngine';
+import { twilioService } from './twilioService';
+import { transferService } from './transferService';
+import { ttsService, type Speech } from './ttsService';
+import { sttService } from './sttService';
+import { transcriptService } from './transcriptService';
+import { languageService } from './languageService';
+import { variantService } from './variantService';
+import { mediaUrlService } from './mediaUrlService';
+import { llmService } from './llmService';
+import { getPhrases } from './phrases';
+import { MULAW_SAMPLE_RATE, mulawFrameEnergy, mulawToPcm16, pcm16ToWav } from './audioCodec';
+
+// Streaming voice pipeline over Twilio Media Streams
+// Caller audio arrives as 20ms μ-law frames. A simple energy VAD cuts it into utterances,
+// each utterance is transcribed, LLM tokens are streamed sentence by sentence into
+// the campaign's TTS provider, and the μ-law audio goes straight back to Twilio. If the caller starts
+// talking while the agent is thinking or speaking, playback is cleared and generation aborted.
+// The stream URL is public, so a connection only gets a session once its start event carries the
+// token we signed for that call into the TwiML; anything else is closed without touching a call.
+
+export const MEDIA_STREAM_PATH = '/api/calls/media-stream';
+
+const SPEECH_ENERGY_THRESHOLD = 700; // RMS of 16-bit PCM; line noise is usually well below this
+const MIN_SPEECH_FRAMES = 10; // 200ms of speech before it counts as an utterance or a barge-in
+const END_OF_UTTERANCE_FRAMES = 35; // 700ms of silence ends the utterance
+const PRE_ROLL_FRAMES = 10; // Audio kept from just before speech started so first syllables aren't clipped
+const FRAME_MS = 20;
+const STREAM_TOKEN_TTL_SECONDS = 5 * 60; // The stream connects right after the TwiML (and any consent notice) plays
+const START_TIMEOUT_MS = 10 * 1000; // Connections that don't start a verified stream by then are dropped
+const SILENCE_TIMEOUT_MS = 8 * 1000; // Quiet line after the agent finishes - reprompt, like an empty <Gather>
+
+type AgentState = 'idle' | 'thinking' | 'speaking';
+// What happens once the caller has heard the queued audio
+type PlaybackEnd = 'listen' | 'hangup' | 'transfer';
+
+interface TwilioStreamMessage {
+  event: 'connected' | 'start' | 'media' | 'mark' | 'stop' | 'dtmf';
+  streamSid?: string;
+  start?: {
+    streamSid: string;
+    callSid: string;
+    customParameters?: Record<string, string>;
+  };
+  media?: { track?: string; payload: string };
+  mark?: { name: string };
+}
+
+class MediaStreamSession {
+  private streamSid = '';
+  private callSid = '';
+  private callId = '';
+  private campaign?: Campaign;
+  private language = 'en'; // The call's language - follows the caller when they switch
+
+  // Caller side - voice activity detection
+  private preRoll: Buffer[] = [];
+  private utteranceFrames: Buffer[] = [];
+  private utteranceStartedAt = new Date();
+  private capturing = false;
+  private speechFrames = 0;
+  private silenceFrames = 0;
+
+  // Agent side - current response and playback
+  private agentState: AgentState = 'idle';
+  private responseAbort?: AbortController;
+  private pendingMark?: string;
+  private afterPlayback: PlaybackEnd = 'listen';
+  private handingOff = false; // Caller audio is ignored while the handoff line plays
+  private markCounter = 0;
+  // Timing of the agent line being spoken, for the transcript
+  private lineStartedAt?: Date;
+  private lineAudioBytes = 0;
+  private closed = false;
+  private startTimer?: NodeJS.Timeout;
+  private silenceTimer?: NodeJS.Timeout;
+
+  constructor(private ws: WebSocket) {
+    this.startTimer = setTimeout(() => this.reject('no stream start'), START_TIMEOUT_MS);
+  }
+
+  // Route a Twilio stream event
+  async handleMessage(data: RawData): Promise<void> {
+    let message: TwilioStreamMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      console.error('❌ Media stream sent invalid JSON');
+      return;
+    }
+
+    // Nothing but a start is acted on until a verified stream has begun
+    if (message.event !== 'start' && !this.campaign) return;
+
+    switch (message.event) {
+      case 'start':
+        if (this.callId || !message.start) break;
+        await this.handleStart(message.start);
+        break;
+      case 'media':
+        if (message.media?.track && message.media.track !== 'inbound') break;
+        this.handleAudio(Buffer.from(message.media!.payload, 'base64'));
+        break;
+      case 'mark':
+        await this.handleMark(message.mark!.name);
+        break;
+      case 'stop':
+        this.close();
+        break;
+    }
+  }
+
+  // Stream started - check its token, load the call and speak the campaign intro
+  private async handleStart(start: NonNullable<TwilioStreamMessage['start']>): Promise<void> {
+    this.callId = start.customParameters?.callId || '';
+    if (!this.callId || !mediaUrlService.verifyToken(`stream:${this.callId}`, start.customParameters?.token)) {
+      this.reject(`invalid token for call ${this.callId || '(none)'}`);
+      return;
+    }
+
+    // Hangups and redirects only ever go to the Twilio call we have on record
+    const call = await storage.getCall(this.callId);
+    const campaign = call ? await variantService.getCampaignForCall(call) : undefined;
+    if (!call || !campaign || (call.twilioCallSid && call.twilioCallSid !== start.callSid)) {
+      this.reject(`unknown call ${this.callId}`);
+      return;
+    }
+
+    clearTimeout(this.startTimer);
+    this.streamSid = start.streamSid;
+    this.callSid = call.twilioCallSid || start.callSid;
+    this.campaign = campaign;
+
+    this.language = call.language || this.campaign.language;
+    console.log(`🔊 Media stream ${this.streamSid} started for call ${this.callId}`);
+
+    // Inbound calls pass their own greeting; outbound calls open with the campaign intro
+    const introText = start.customParameters?.greeting || this.campaign.introLine || "Hello, this is an AI calling agent from LabsCheck.";
+    await callSessionStore.appendOpeningLine(this.callId, introText);
+
+    const abort = this.beginResponse();
+    try {
+      await this.speak(introText, abort.signal);
+      this.recordLine(introText);
+      this.finishResponse(abort);
+    } catch (error) {
+      this.handleResponseError(error, abort);
+    }
+  }
+
+  // Run VAD on an inbound frame; completed utterances are handed to respond()
+  private handleAudio(frame: Buffer): void {
+    if (this.handingOff) return;
+    const isSpeech = mulawFrameEnergy(frame) > SPEECH_ENERGY_THRESHOLD;
+
+    if (!this.capturing) {
+      this.preRoll.push(frame);
+      if (this.preRoll.length > PRE_ROLL_FRAMES) this.preRoll.shift();
+      if (!isSpeech) return;
+
+      this.clearSilenceTimer();
+      this.capturing = true;
+      this.utteranceFrames = this.preRoll;
+      this.utteranceStartedAt = new Date(Date.now() - this.preRoll.length * FRAME_MS);
+      this.preRoll = [];
+      this.speechFrames = 0;
+      this.silenceFrames = 0;
+    } else {
+      this.utteranceFrames.push(frame);
+    }
+
+    if (isSpeech) {
+      this.speechFrames++;
+      this.silenceFrames = 0;
+    } else {
+      this.silenceFrames++;
+    }
+
+    // Barge-in: the caller is talking over the agent
+    if (this.agentState !== 'idle' && this.speechFrames >= MIN_SPEECH_FRAMES) {
+      this.bargeIn();
+    }
+
+    if (this.silenceFrames >= END_OF_UTTERANCE_FRAMES) {
+      const audio = Buffer.concat(this.utteranceFrames);
+      const hadSpeech = this.speechFrames >= MIN_SPEECH_FRAMES;
+      this.capturing = false;
+      this.utteranceFrames = [];
+      if (hadSpeech) {
+        this.respond(audio, this.utteranceStartedAt).catch(error => console.error('❌ Media stream response error:', error));
+      }
+    }
+  }
+
+  // Stop the agent mid-sentence so the caller can speak
+  private bargeIn(): void {
+    console.log(`✋ Caller barged in on call ${this.callId}`);
+    this.responseAbort?.abort();
+    this.responseAbort = undefined;
+    this.send({ event: 'clear', streamSid: this.streamSid });
+    this.agentState = 'idle';
+    this.pendingMark = undefined;
+    this.afterPlayback = 'listen';
+  }
+
+  // Transcribe an utterance and stream the reply back
+  private async respond(audio: Buffer, startedAt: Date): Promise<void> {
+    const abort = this.beginResponse();
+    let spokenText = '';
+
+    try {
+      const wav = pcm16ToWav(mulawToPcm16(audio));
+      const heard = await sttService.transcribe(this.campaign, wav, 'stream', this.language);
+      if (abort.signal.aborted) return;
+      if (!heard.text.trim()) {
+        this.agentState = 'idle';
+        this.armSilenceTimer();
+        return;
+      }
+      const speechText = directSpeechService.validateSpeechInput(heard.text);
+
+      console.log(`🎤 Streamed speech for call ${this.callId}: "${speechText}"`);
+      transcriptService.record(this.callId, {
+        speaker: 'customer',
+        transcript: speechText,
+        startedAt,
+        durationMs: (audio.length / MULAW_SAMPLE_RATE) * 1000,
+        confidence: heard.confidence,
+        audio: wav
+      });
+      this.language = await languageService.followCaller(this.callId, this.language, speechText);
+
+      if (suppressionService.isCallOptOut(speechText)) {
+        const goodbye = await callManager.handleOptOut(this.callId, speechText, this.language);
+        await this.speak(goodbye, abort.signal);
+        this.recordLine(goodbye);
+        this.finishResponse(abort, 'hangup');
+        return;
+      }
+
+      if (directSpeechService.shouldEndCall(speechText)) {
+        await callSessionStore.appendTurn(this.callId, 'user', speechText);
+        const goodbye = getPhrases(this.language).endCallGoodbye;
+        await callSessionStore.appendTurn(this.callId, 'assistant', goodbye);
+        await this.speak(goodbye, abort.signal);
+        this.recordLine(goodbye);
+        this.finishResponse(abort, 'hangup');
+        return;
+      }
+
+      // Low-confidence transcripts aren't worth a model turn - ask the caller to repeat
+      if (sttService.isUnclear(this.campaign, heard)) {
+        const repeatRequest = await callManager.handleUnclearSpeech(this.callId, speechText);
+        if (repeatRequest) {
+          await this.speak(repeatRequest, abort.signal);
+          this.recordLine(repeatRequest);
+          this.finishResponse(abort);
+          return;
+        }
+      }
+
+      const turn = await callManager.beginTurn(this.callId, speechText);
+      if (!turn) {
+        await twilioService.hangupCall(this.callSid);
+        return;
+      }
+
+      // Callers asking for a person are handed over without waiting on the model
+      const requested = await callManager.transferOnRequest(turn);
+      if (requested) {
+        await this.handOff(requested.announcement, abort);
+        return;
+      }
+
+      // Speak each sentence as soon as the model finishes it; stage markers are kept for the engine but never spoken
+      let rawResponse = '';
+      let pending = '';
+      for await (const token of OpenAIService.streamResponse(
+        speechText,
+        turn.systemPrompt,
+        turn.priorHistory,
+        llmService.getConfig(turn.campaign),
+        abort.signal,
+        turn.tools
+      )) {
+        rawResponse += token;
+        pending += token;
+        const sentenceEnd = pending.search(/[.!?।](\s|$)/);
+        if (sentenceEnd >= 0 && sentenceEnd < pending.length - 1) {
+          const sentence = conversationEngine.stripMarkers(pending.slice(0, sentenceEnd + 1));
+          pending = pending.slice(sentenceEnd + 1);
+          if (sentence) {
+            spokenText += `${sentence} `;
+            await this.speak(sentence, abort.signal);
+          }
+        }
+      }
+      const remainder = conversationEngine.stripMarkers(pending);
+      if (remainder) {
+        spokenText += remainder;
+        await this.speak(remainder, abort.signal);
+      }
+      this.recordLine(spokenText);
+
+      const { shouldEndCall, transfer } = await callManager.endTurn(turn, rawResponse);
+      if (transfer) {
+        await this.handOff(transfer.announcement, abort);
+        return;
+      }
+      this.finishResponse(abort, shouldEndCall ? 'hangup' : 'listen');
+    } catch (error) {
+      // Keep whatever the caller actually heard before the interruption
+      if (abort.signal.aborted && spokenText.trim()) {
+        await callSessionStore.appendTurn(this.callId, 'assistant', spokenText.trim());
+        this.recordLine(spokenText);
+      }
+      this.handleResponseError(error, abort);
+    }
+  }
+
+  // Speak the handoff line; the call leaves the stream for the reps' <Dial> once it has played
+  private async handOff(announcement: string, abort: AbortController): Promise<void> {
+    this.handingOff = true;
+    await this.speak(announcement, abort.signal);
+    this.recordLine(announcement);
+    this.finishResponse(abort, 'transfer');
+  }
+
+  // Synthesize one sentence and push the μ-law audio to Twilio as it arrives
+  private async speak(text: string, signal: AbortSignal): Promise<void> {
+    if (!this.campaign || signal.aborted) return;
+
+    try {
+      for await (const chunk of ttsService.stream(this.campaign, text, signal, this.language)) {
+        if (signal.aborted) return;
+        this.agentState = 'speaking';
+        this.sendAudio(chunk);
+      }
+    } catch (error) {
+      const say = ttsService.getSayVoice(this.campaign, this.language);
+      if (signal.aborted || !say) throw error;
+      await this.continueWithSay(text, say);
+    }
+  }
+
+  // Nothing that can stream is speaking - move the call to <Gather> turns in the campaign's Twilio voice.
+  // The rest of this reply is dropped; the next turns run through the regular speech webhook.
+  private async continueWithSay(text: string, say: NonNullable<Speech['say']>): Promise<void> {
+    console.log(`🔁 Call ${this.callId} leaving the media stream for Twilio voice ${say.voice}`);
+    this.responseAbort?.abort();
+    await twilioService.redirectCall(this.callSid, twilioService.generateTwiML('gather', {
+      text,
+      say,
+      action: `${getBaseUrl()}/api/calls/${this.callId}/process-speech`,
+      ...sttService.getListenOptions(this.campaign, this.language)
+    }));
+  }
+
+  // Transcript row for the line just queued, timed from its first audio chunk
+  private recordLine(text: string): void {
+    if (!text.trim()) return;
+    transcriptService.record(this.callId, {
+      speaker: 'ai_agent',
+      transcript: text,
+      startedAt: this.lineStartedAt,
+      durationMs: this.lineAudioBytes > 0 ? (this.lineAudioBytes / MULAW_SAMPLE_RATE) * 1000 : undefined
+    });
+    this.lineStartedAt = undefined;
+    this.lineAudioBytes = 0;
+  }
+
+  private sendAudio(audio: Buffer): void {
+    this.lineStartedAt ??= new Date();
+    this.lineAudioBytes += audio.length;
+    this.send({
+      event: 'media',
+      streamSid: this.streamSid,
+      media: { payload: audio.toString('base64') }
+    });
+  }
+
+  // Nobody spoke after the agent finished - reprompt, or say goodbye once the silence limit is hit
+  private async handleSilence(): Promise<void> {
+    if (this.closed || this.capturing || this.agentState !== 'idle' || !this.campaign) return;
+
+    const abort = this.beginResponse();
+    try {
+      const { text, shouldHangup } = await callManager.registerSilence(this.callId, this.campaign);
+      await this.speak(text, abort.signal);
+      this.recordLine(text);
+      this.finishResponse(abort, shouldHangup ? 'hangup' : 'listen');
+    } catch (error) {
+      this.handleResponseError(error, abort);
+    }
+  }
+
+  private armSilenceTimer(): void {
+    this.clearSilenceTimer();
+    if (this.closed) return;
+    this.silenceTimer = setTimeout(() => {
+      this.handleSilence().catch(error => console.error('❌ Media stream silence prompt error:', error));
+    }, SILENCE_TIMEOUT_MS);
+  }
+
+  private clearSilenceTimer(): void {
+    if (this.silenceTimer) clearTimeout(this.silenceTimer);
+    this.silenceTimer = undefined;
+  }
+
+  // Abort whatever the agent was doing and start a new response
+  private beginResponse(): AbortController {
+    this.clearSilenceTimer();
+    this.responseAbort?.abort();
+    const abort = new AbortController();
+    this.responseAbort = abort;
+    this.lineStartedAt = undefined;
+    this.lineAudioBytes = 0;
+    this.agentState = 'thinking';
+    return abort;
+  }
+
+  // All audio is queued - Twilio echoes the mark back once the caller has heard it
+  private finishResponse(abort: AbortController, then: PlaybackEnd = 'listen'): void {
+    if (abort.signal.aborted || this.responseAbort !== abort) return;
+
+    this.pendingMark = `turn_${++this.markCounter}`;
+    this.afterPlayback = then;
+    this.send({ event: 'mark', streamSid: this.streamSid, mark: { name: this.pendingMark } });
+  }
+
+  private handleResponseError(error: unknown, abort: AbortController): void {
+    if (abort.signal.aborted) return; // Barge-in, not a failure
+    console.error(`❌ Media stream pipeline failed for call ${this.callId}:`, error);
+    if (this.responseAbort === abort) {
+      this.responseAbort = undefined;
+      this.agentState = 'idle';
+    }
+  }
+
+  // Playback finished
+  private async handleMark(name: string): Promise<void> {
+    if (name !== this.pendingMark) return;
+
+    this.pendingMark = undefined;
+    this.responseAbort = undefined;
+    this.agentState = 'idle';
+
+    if (this.afterPlayback === 'hangup') {
+      console.log(`🔚 Ending streamed call ${this.callId}`);
+      await twilioService.hangupCall(this.callSid);
+    } else if (this.afterPlayback === 'transfer' && this.campaign) {
+      console.log(`🤝 Moving streamed call ${this.callId} to the rep transfer`);
+      await twilioService.redirectCall(this.callSid, transferService.buildDialTwiML(this.callId, this.campaign));
+    } else {
+      this.armSilenceTimer();
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  // Drop a connection that isn't a stream we started - no call is hung up or redirected for it
+  private reject(reason: string): void {
+    console.error(`❌ Rejected media stream connection: ${reason}`);
+    this.close();
+    this.ws.close(1008, 'Unauthorized');
+  }
+
+  // Stream ended - call completion itself is driven by the status webhook
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.startTimer);
+    this.clearSilenceTimer();
+    this.responseAbort?.abort();
+    console.log(`🔇 Media stream ${this.streamSid} closed for call ${this.callId}`);
+  }
+}
+
+export class MediaStreamService {
+  // Attach a Twilio Media Streams WebSocket connection
+  handleConnection(ws: WebSocket): void {
+    const session = new MediaStreamSession(ws);
+
+    ws.on('message', data => {
+      session.handleMessage(data).catch(error => console.error('❌ Media stream message error:', error));
+    });
+    ws.on('close', () => session.close());
+    ws.on('error', error => {
+      console.error('❌ Media stream socket error:', error);
+      session.close();
+    });
+  }
+
+  // Public wss:// URL Twilio should connect to
+  getStreamUrl(): string {
+    return `${getBaseUrl().replace(/^http/, 'ws')}${MEDIA_STREAM_PATH}`;
+  }
+
+  // <Stream> custom parameters for a call - Twilio echoes them in the start event, token included
+  getStreamParameters(callId: string, parameters: Record<string, string> = {}): Record<string, string> {
+    return { ...parameters, callId, token: mediaUrlService.signToken(`stream:${callId}`, STREAM_TOKEN_TTL_SECONDS) };
+  }
+}
+
+// Export singleton instance
+export const mediaStreamService = new MediaStreamService();
@@ -0,0 +1,96 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { env, getBaseUrl } from '../config/environment';
+
+// Media URLs
+// Every audio file we serve - TTS lines Twilio <Play>s, caller segments in transcripts, files in
+// the disk media store - is linked through here. Links are built from the configured base URL and
+// carry an expiry and an HMAC over the path, expiry and download name; the routes serving them
+// reject anything unsigned, expired or tampered with. Paths are checked segment by segment, so a
+// link can only ever name a file inside the media store.
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const SEGMENT_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const SIGNED_PREFIXES = ['/audio/', '/media/'];
+
+export interface MediaUrlOptions {
+  expiresInSeconds?: number;
+  downloadName?: string; // Served as an attachment under this name
+}
+
+export class MediaUrlService {
+  // Without a configured secret, links stop working when the server restarts
+  private readonly secret = process.env.MEDIA_SIGNING_SECRET || env.SESSION_SECRET || randomBytes(32).toString('hex');
+  // Long enough for Twilio to fetch and retry a <Play> at any point in a call
+  private readonly ttlSeconds = Number(process.env.MEDIA_URL_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+
+  // Relative paths of safe segments only - no '..', no empty or encoded parts
+  isSafePath(mediaPath: string): boolean {
+    const segments = mediaPath.split('/');
+    return segments[0] === '' && segments.length > 2 && segments.slice(1).every(segment => SEGMENT_PATTERN.test(segment));
+  }
+
+  // Signed absolute URL for a media path on this server, e.g. /audio/tts/<file>
+  sign(mediaPath: string, options: MediaUrlOptions = {}): string {
+    if (!this.isSafePath(mediaPath)) throw new Error(`Unsafe media path: ${mediaPath}`);
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresInSeconds ?? this.ttlSeconds);
+    const query = new URLSearchParams({ expires: String(expires), signature: this.signature(mediaPath, expires, options.downloadName) });
+    if (options.downloadName) query.set('download', options.downloadName);
+    return `${getBaseUrl()}${mediaPath}?${query}`;
+  }
+
+  verify(mediaPath: string, query: Request['query']): boolean {
+    const expires = Number(query.expires);
+    const download = typeof query.download === 'string' ? query.download : undefined;
+    if (!this.isSafePath(mediaPath) || !Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(this.signature(mediaPath, expires, download), 'hex');
+    const given = Buffer.from(typeof query.signature === 'string' ? query.signature : '', 'hex');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  // Signed token tying a value, such as a call id, to an expiry - for connections that can't carry a signed URL
+  signToken(subject: string, expiresInSeconds = this.ttlSeconds): string {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `${expires}.${this.signature(`token:${subject}`, expires)}`;
+  }
+
+  verifyToken(subject: string, token: string | undefined): boolean {
+    const [expiresPart, signature = ''] = (token || '').split('.');
+    const expires = Number(expiresPart);
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(this.signature(`token:${subject}`, expires), 'hex');
+    const given = Buffer.from(signature, 'hex');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  // Route guard for signed media - 403 for anything else
+  requireSignature = (req: Request, res: Response, next: NextFunction): void => {
+    if (!this.verify(req.path, req.query)) {
+      res.status(403).send('Link is invalid or has expired');
+      return;
+    }
+    next();
+  };
+
+  // What to keep in the database: the bare path of one of our media links, so it can be signed again when read
+  toStoredPath(url: string | null | undefined): string | null {
+    if (!url) return null;
+    const pathname = new URL(url, getBaseUrl()).pathname;
+    return SIGNED_PREFIXES.some(prefix => pathname.startsWith(prefix)) && this.isSafePath(pathname) ? pathname : url;
+  }
+
+  // Fresh link for a stored path - anything that isn't one of ours is returned as it is
+  signStored(stored: string | null): string | null {
+    if (!stored || !SIGNED_PREFIXES.some(prefix => stored.startsWith(prefix)) || !this.isSafePath(stored)) return stored;
+    return this.sign(stored);
+  }
+
+  private signature(mediaPath: string, expires: number, downloadName = ''): string {
+    return createHmac('sha256', this.secret).update(`${mediaPath}\n${expires}\n${downloadName}`).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const mediaUrlService = new MediaUrlService();
@@ -17,6 +17,12 @@ export class MessagingService {
         return false;
       }
 
+      const { suppressionService } = await import('./suppressionService');
+      if (await suppressionService.isSuppressed({ phone: whatsappNumber }, 'whatsapp')) {
+        console.log(`🚫 Skipping WhatsApp message to ${whatsappNumber} - on the do-not-contact list`);
+        return false;
+      }
+
       // Format WhatsApp number (remove + and non-digits)
       const formattedNumber = whatsappNumber.replace(/\D/g, '');
 
@@ -67,6 +73,12 @@ export class MessagingService {
     callSummary?: string
   ): Promise<boolean> {
     try {
+      const { suppressionService } = await import('./suppressionService');
+      if (await suppressionService.isSuppressed({ email: emailAddress }, 'email')) {
+        console.log(`🚫 Skipping email to ${emailAddress} - on the do-not-contact list`);
+        return false;
+      }
+
       // For now, we'll log the email (in production, use actual email service)
       console.log(`
         EMAIL NOTIFICATION:
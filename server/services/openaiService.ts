@@ -1,125 +1,155 @@
 import OpenAI from "openai";
+import { simulatorStubs } from "./simulatorStubs";
+import { llmService, type ResolvedLlmConfig } from "./llmService";
+import type { ChatMessage, JsonSchemaFormat, LlmToolCall } from "./llmProviders";
+
+// Tools the model may call mid-turn; execute() returns the text sent back as the tool result
+export interface ChatTools {
+  definitions: OpenAI.Chat.Completions.ChatCompletionTool[];
+  execute: (name: string, args: Record<string, unknown>) => Promise<string>;
+}
+
+// Offer several tool sets in one turn - each call goes to the set that defines it
+export function combineTools(...toolSets: ChatTools[]): ChatTools {
+  return {
+    definitions: toolSets.flatMap(toolSet => toolSet.definitions),
+    execute: async (name, args) => {
+      const owner = toolSets.find(toolSet => toolSet.definitions.some(definition => definition.function.name === name));
+      return owner ? owner.execute(name, args) : `Unknown tool ${name}`;
+    }
+  };
+}
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Tool calls are followed by another completion so the model can reply to the caller
+const MAX_TOOL_ROUNDS = 3;
 
 export class OpenAIService {
-  // Generate conversation response based on user input and campaign context
+  // Generate conversation response - the system prompt comes from the conversation engine, the model from the campaign's LLM config
   static async generateResponse(
     userMessage: string,
-    campaignScript: string,
+    systemPrompt: string,
     conversationHistory: Array<{ role: 'user' | 'assistant', content: string }> = [],
-    hasContactInfo: { whatsapp?: string; email?: string } = {},
-    model: string = "gpt-4o"
-  ): Promise<{ response: string; requestingContactInfo: boolean }> {
+    llm: ResolvedLlmConfig = llmService.getConfig(undefined),
+    tools?: ChatTools
+  ): Promise<{ response: string }> {
+    if (simulatorStubs.isEnabled()) {
+      return { response: await simulatorStubs.generateResponse(userMessage, tools) };
+    }
+
     try {
-      const systemPrompt = `You are Priya, an AI calling agent for LabsCheck, India's diagnostic aggregator platform.
-
-Campaign Context: ${campaignScript}
-
-CONVERSATION OBJECTIVES:
-1. Verify you're speaking with lab owner/manager 
-2. If not owner, politely collect their contact details for follow-up
-3. Explain LabsCheck's value proposition: help labs get more business through our platform
-4. CRITICAL: Collect WhatsApp number and email ID for further communication
-5. Position LabsCheck as a healthcare navigator that connects labs with customers
-
-CONTACT INFO STATUS:
-- WhatsApp Number: ${hasContactInfo.whatsapp ? 'COLLECTED ✓' : 'NEEDED'}
-- Email Address: ${hasContactInfo.email ? 'COLLECTED ✓' : 'NEEDED'}
-
-RESPONSE GUIDELINES:
-- Keep responses natural and conversational (1-2 sentences max)
-- Sound human-like, not robotic
-- Handle interruptions gracefully
-- If customer asks questions, answer briefly and redirect to main objective
-- Be polite and professional but friendly
-- Focus on business benefits for the lab partner
-- WAIT for customer to provide both WhatsApp number AND email before ending call
-- If they agree to share info but don't provide it immediately, ASK AGAIN specifically
-
-CRITICAL: You MUST collect both WhatsApp number and email ID before ending the call. Don't end until both are provided.`;
-
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      const messages: ChatMessage[] = [
         { role: "system", content: systemPrompt },
         ...conversationHistory,
         { role: "user", content: userMessage }
       ];
 
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini', // Faster model
-        messages,
-        temperature: 0.6, // Slightly lower for consistency
-        max_tokens: 100, // Shorter responses for speed
-        top_p: 0.9,
-        frequency_penalty: 0.1,
-        presence_penalty: 0.1,
-        stream: false // Ensure non-streaming for predictable timing
-      });
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const reply = await llmService.complete(llm, messages, tools?.definitions);
+        if (!tools || reply.toolCalls.length === 0) {
+          return { response: reply.content || "I understand. Let me continue with our conversation." };
+        }
 
-      const response = completion.choices[0]?.message?.content || "I understand. Let me continue with our conversation.";
+        this.pushToolCalls(messages, reply.content, reply.toolCalls);
+        await this.runToolCalls(tools, reply.toolCalls, messages);
 
-      // Check if we're requesting contact information
-      const requestingContactInfo = !hasContactInfo.whatsapp || !hasContactInfo.email;
+        // The model already said something alongside the tool calls
+        if (reply.content.trim()) {
+          return { response: reply.content };
+        }
+      }
 
-      return { response, requestingContactInfo };
+      return { response: "I understand. Let me continue with our conversation." };
     } catch (error) {
-      console.error('OpenAI API error:', error);
-      return { response: "I apologize, there seems to be a technical issue. Could you please repeat that?", requestingContactInfo: true };
+      console.error('LLM error:', error);
+      return { response: "I apologize, there seems to be a technical issue. Could you please repeat that?" };
     }
   }
 
-  // Enhanced Whisper transcription bypassing Twilio recording issues
-  static async transcribeAudio(audioBuffer: Buffer): Promise<string> {
-    try {
-      const fs = await import('fs');
-      const path = await import('path');
+  // Stream response tokens for the Media Streams pipeline - aborting the signal stops generation (barge-in)
+  static async *streamResponse(
+    userMessage: string,
+    systemPrompt: string,
+    conversationHistory: Array<{ role: 'user' | 'assistant', content: string }> = [],
+    llm: ResolvedLlmConfig = llmService.getConfig(undefined),
+    signal?: AbortSignal,
+    tools?: ChatTools
+  ): AsyncGenerator<string> {
+    if (simulatorStubs.isEnabled()) {
+      yield await simulatorStubs.generateResponse(userMessage, tools);
+      return;
+    }
 
-      // Create temp directory if not exists
-      const tempDir = path.default.join(process.cwd(), 'temp');
-      if (!fs.default.existsSync(tempDir)) {
-        fs.default.mkdirSync(tempDir, { recursive: true });
+    const messages: ChatMessage[] = [
+      { role: "system", content: systemPrompt },
+      ...conversationHistory,
+      { role: "user", content: userMessage }
+    ];
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const toolCalls: LlmToolCall[] = [];
+      let content = '';
+
+      for await (const chunk of llmService.stream(llm, messages, tools?.definitions, signal)) {
+        if (chunk.type === 'text') {
+          content += chunk.text;
+          yield chunk.text;
+        } else {
+          toolCalls.push(...chunk.toolCalls);
+        }
       }
 
-      // Use timestamp for unique filename with appropriate extension
-      const tempFilePath = path.default.join(tempDir, `whisper_${Date.now()}.wav`);
-      fs.default.writeFileSync(tempFilePath, audioBuffer);
+      if (!tools || toolCalls.length === 0) return;
 
-      console.log(`🎤 Enhanced Whisper processing: ${tempFilePath} (${audioBuffer.length} bytes)`);
+      this.pushToolCalls(messages, content, toolCalls);
+      await this.runToolCalls(tools, toolCalls, messages);
 
-      // Minimum viable audio check - very small threshold for real speech
-      if (audioBuffer.length < 100) {
-        console.warn(`⚠️ Audio buffer too small (${audioBuffer.length} bytes) - no speech detected`);
-        fs.default.unlinkSync(tempFilePath);
-        return ""; // Empty string triggers re-listening
-      }
+      if (content.trim()) return;
+    }
+  }
 
-      // Enhanced OpenAI Whisper configuration for better accuracy
-      const response = await openai.audio.transcriptions.create({
-        file: fs.default.createReadStream(tempFilePath),
-        model: "whisper-1",
-        language: "en",
-        response_format: "text",
-        temperature: 0.0, // More deterministic results
-        prompt: "This is a business conversation between an AI agent and a lab owner or manager about diagnostic services." // Context prompt for better accuracy
-      });
-
-      console.log(`✅ Enhanced Whisper transcription: "${response}"`);
-
-      // Clean up temp file
-      if (fs.default.existsSync(tempFilePath)) {
-        fs.default.unlinkSync(tempFilePath);
-      }
+  // One JSON object matching the schema - for analysing calls, never for talking to the caller
+  // Runs on the campaign's model chain; answers are checked against the schema where the provider can't enforce it
+  static async generateJson(
+    systemPrompt: string,
+    userMessage: string,
+    schema: JsonSchemaFormat,
+    llm: ResolvedLlmConfig = llmService.getConfig(undefined)
+  ): Promise<unknown> {
+    if (simulatorStubs.isEnabled()) {
+      return simulatorStubs.generateJson(schema.schema);
+    }
 
-      // Return cleaned transcription
-      const cleanedResponse = response?.toString().trim() || "";
-      return cleanedResponse;
+    return llmService.generateJson(llm, systemPrompt, userMessage, schema);
+  }
 
-    } catch (error) {
-      console.error('❌ Enhanced Whisper transcription failed:', error);
-      // Return empty string to trigger re-listening instead of error message
-      return "";
+  // Add the model's turn with its tool calls, which their results must follow
+  private static pushToolCalls(messages: ChatMessage[], content: string, toolCalls: LlmToolCall[]): void {
+    messages.push({
+      role: 'assistant',
+      content: content || null,
+      tool_calls: toolCalls.map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    });
+  }
+
+  // Execute tool calls and append their results to the conversation
+  private static async runToolCalls(
+    tools: ChatTools,
+    toolCalls: LlmToolCall[],
+    messages: ChatMessage[]
+  ): Promise<void> {
+    for (const call of toolCalls) {
+      let result: string;
+      try {
+        result = await tools.execute(call.name, JSON.parse(call.arguments || '{}'));
+      } catch (error) {
+        console.error(`❌ Tool call ${call.name} failed:`, error);
+        result = `Error: ${error instanceof Error ? error.message : 'tool failed'}`;
+      }
+      messages.push({ role: 'tool', tool_call_id: call.id, content: result });
     }
   }
 }
\ No newline at end of file
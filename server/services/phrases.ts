@@ -0,0 +1,185 @@
+import type { Campaign } from '@shared/schema';
+
+// Lines the agent says word for word, whatever the campaign - pre-rendered into the TTS cache.
+// {agent} is filled in with the campaign's agent name and {name} with the caller's first name.
+export const FIXED_PHRASES = {
+  inboundGreeting: 'Hello, thank you for calling. This is {agent}. How can I help you today?',
+  inboundGreetingByName: 'Hello {name}, thank you for calling. This is {agent}. How can I help you today?',
+  optOutGoodbye: 'I understand. We will not call you again. Have a great day!',
+  endCallGoodbye: 'I understand. Thank you for your time. Have a great day!',
+  silenceReprompt: "I'm here. Please speak when you're ready.",
+  repeatRequest: "Sorry, I didn't quite catch that. Could you say that again?",
+  silenceGoodbye: 'It seems we have a bad connection. We will call you back later. Goodbye.',
+  transferBusyResume: "I'm sorry, everyone on our team is busy right now. I can keep helping you in the meantime - what else would you like to know?",
+  transferBusyHangup: "I'm sorry, everyone on our team is busy right now. Someone will call you back shortly. Thank you, goodbye!",
+  technicalIssue: 'I apologize, there was a technical issue. We will call you back shortly.',
+  supervisorTakeover: 'Let me bring in a colleague who can help you further. One moment, please.',
+  supervisorGoodbye: "I'm afraid I have to end our call here. Thank you for your time, goodbye!"
+} as const;
+
+export type PhraseKey = keyof typeof FIXED_PHRASES;
+
+// The same lines in the other languages a call can be in - missing ones are said in English
+const LOCALIZED_PHRASES: Record<string, Partial<Record<PhraseKey, string>>> = {
+  hi: {
+    inboundGreeting: 'नमस्ते, कॉल करने के लिए धन्यवाद। मेरा नाम {agent} है। बताइए, मैं आपकी किस तरह मदद करूँ?',
+    inboundGreetingByName: 'नमस्ते {name} जी, कॉल करने के लिए धन्यवाद। मेरा नाम {agent} है। बताइए, मैं आपकी किस तरह मदद करूँ?',
+    optOutGoodbye: 'ठीक है। हम आपको दोबारा कॉल नहीं करेंगे। आपका दिन शुभ हो!',
+    endCallGoodbye: 'ठीक है। आपके समय के लिए धन्यवाद। आपका दिन शुभ हो!',
+    silenceReprompt: 'जब आप तैयार हों, कृपया बोलिए।',
+    repeatRequest: 'माफ़ कीजिए, आवाज़ ठीक से नहीं आई। क्या आप दोबारा बोल सकते हैं?',
+    silenceGoodbye: 'लगता है कनेक्शन ठीक नहीं है। हम आपको बाद में कॉल करेंगे। नमस्ते।',
+    transferBusyResume: 'माफ़ कीजिए, अभी हमारी टीम के सभी सदस्य व्यस्त हैं। तब तक आप और क्या जानना चाहेंगे?',
+    transferBusyHangup: 'माफ़ कीजिए, अभी हमारी टीम के सभी सदस्य व्यस्त हैं। कोई जल्द ही आपको वापस कॉल करेगा। धन्यवाद, नमस्ते!',
+    technicalIssue: 'माफ़ कीजिए, कुछ तकनीकी समस्या आ गई है। हम आपको जल्द ही वापस कॉल करेंगे।',
+    supervisorTakeover: 'आपकी और मदद के लिए हमारे एक सहयोगी कॉल पर आ रहे हैं। कृपया एक पल रुकिए।',
+    supervisorGoodbye: 'माफ़ कीजिए, हमें यह कॉल यहीं समाप्त करनी होगी। आपके समय के लिए धन्यवाद, नमस्ते!'
+  },
+  'hi-Latn': {
+    inboundGreeting: 'Hello, call karne ke liye thank you. Mera naam {agent} hai. Bataiye, main aapki kaise help karoon?',
+    inboundGreetingByName: 'Hello {name} ji, call karne ke liye thank you. Mera naam {agent} hai. Bataiye, main aapki kaise help karoon?',
+    optOutGoodbye: 'Theek hai. Hum aapko dobara call nahi karenge. Have a great day!',
+    endCallGoodbye: 'Theek hai. Aapke time ke liye thank you. Have a great day!',
+    silenceReprompt: 'Main yahin hoon. Jab aap ready hon, please boliye.',
+    repeatRequest: 'Sorry, aapki awaaz clear nahi aayi. Kya aap please dobara bol sakte hain?',
+    silenceGoodbye: 'Lagta hai connection theek nahi hai. Hum aapko baad mein call karenge. Bye.',
+    transferBusyResume: 'Sorry, abhi hamari team ke sab log busy hain. Tab tak aap aur kya jaanna chahenge?',
+    transferBusyHangup: 'Sorry, abhi hamari team ke sab log busy hain. Koi aapko jaldi hi call back karega. Thank you, bye!',
+    technicalIssue: 'Sorry, kuch technical issue aa gaya hai. Hum aapko jaldi hi call back karenge.',
+    supervisorTakeover: 'Aapki aur help ke liye hamare ek colleague call par aa rahe hain. Please ek moment rukiye.',
+    supervisorGoodbye: 'Sorry, humein yeh call yahin end karni hogi. Aapke time ke liye thank you, bye!'
+  },
+  mr: {
+    inboundGreeting: 'नमस्कार, कॉल केल्याबद्दल धन्यवाद. माझं नाव {agent} आहे. सांगा, मी तुम्हाला कशी मदत करू?',
+    inboundGreetingByName: 'नमस्कार {name}, कॉल केल्याबद्दल धन्यवाद. माझं नाव {agent} आहे. सांगा, मी तुम्हाला कशी मदत करू?',
+    optOutGoodbye: 'ठीक आहे. आम्ही तुम्हाला पुन्हा कॉल करणार नाही. तुमचा दिवस छान जावो!',
+    endCallGoodbye: 'ठीक आहे. तुमच्या वेळेबद्दल धन्यवाद. तुमचा दिवस छान जावो!',
+    silenceReprompt: 'तुम्ही तयार असाल तेव्हा कृपया बोला.',
+    repeatRequest: 'माफ करा, आवाज नीट ऐकू आला नाही. कृपया पुन्हा सांगाल का?',
+    silenceGoodbye: 'कनेक्शन नीट नाही असं दिसतंय. आम्ही तुम्हाला नंतर कॉल करू. नमस्कार.',
+    transferBusyResume: 'माफ करा, आमच्या टीममधील सगळे सध्या व्यस्त आहेत. तोपर्यंत तुम्हाला आणखी काय जाणून घ्यायचं आहे?',
+    transferBusyHangup: 'माफ करा, आमच्या टीममधील सगळे सध्या व्यस्त आहेत. कोणीतरी लवकरच तुम्हाला परत कॉल करेल. धन्यवाद, नमस्कार!',
+    technicalIssue: 'माफ करा, काहीतरी तांत्रिक अडचण आली आहे. आम्ही तुम्हाला लवकरच परत कॉल करू.',
+    supervisorTakeover: 'तुमच्या मदतीसाठी आमचे एक सहकारी कॉलवर येत आहेत. कृपया थोडा वेळ थांबा.',
+    supervisorGoodbye: 'माफ करा, हा कॉल आम्हाला इथेच थांबवावा लागेल. तुमच्या वेळेबद्दल धन्यवाद, नमस्कार!'
+  },
+  bn: {
+    inboundGreeting: 'নমস্কার, ফোন করার জন্য ধন্যবাদ। আমার নাম {agent}। বলুন, আমি আপনাকে কীভাবে সাহায্য করতে পারি?',
+    inboundGreetingByName: 'নমস্কার {name}, ফোন করার জন্য ধন্যবাদ। আমার নাম {agent}। বলুন, আমি আপনাকে কীভাবে সাহায্য করতে পারি?',
+    optOutGoodbye: 'ঠিক আছে। আমরা আপনাকে আর কল করব না। আপনার দিনটি ভালো কাটুক!',
+    endCallGoodbye: 'ঠিক আছে। আপনার সময়ের জন্য ধন্যবাদ। আপনার দিনটি ভালো কাটুক!',
+    silenceReprompt: 'আপনি প্রস্তুত হলে অনুগ্রহ করে বলুন।',
+    repeatRequest: 'দুঃখিত, ঠিক শুনতে পাইনি। আপনি কি আরেকবার বলবেন?',
+    silenceGoodbye: 'মনে হচ্ছে সংযোগটা ভালো নেই। আমরা আপনাকে পরে কল করব। নমস্কার।',
+    transferBusyResume: 'দুঃখিত, আমাদের টিমের সবাই এখন ব্যস্ত। ততক্ষণ আপনি আর কী জানতে চান?',
+    transferBusyHangup: 'দুঃখিত, আমাদের টিমের সবাই এখন ব্যস্ত। শীঘ্রই কেউ আপনাকে কল ব্যাক করবেন। ধন্যবাদ, নমস্কার!',
+    technicalIssue: 'দুঃখিত, একটি প্রযুক্তিগত সমস্যা হয়েছে। আমরা শীঘ্রই আপনাকে কল ব্যাক করব।',
+    supervisorTakeover: 'আপনাকে আরও সাহায্য করতে আমাদের একজন সহকর্মী কলে আসছেন। অনুগ্রহ করে একটু অপেক্ষা করুন।',
+    supervisorGoodbye: 'দুঃখিত, কলটি এখানেই শেষ করতে হবে। আপনার সময়ের জন্য ধন্যবাদ, নমস্কার!'
+  },
+  gu: {
+    inboundGreeting: 'નમસ્તે, કૉલ કરવા બદલ આભાર. મારું નામ {agent} છે. કહો, હું તમારી શું મદદ કરી શકું?',
+    inboundGreetingByName: 'નમસ્તે {name}, કૉલ કરવા બદલ આભાર. મારું નામ {agent} છે. કહો, હું તમારી શું મદદ કરી શકું?',
+    optOutGoodbye: 'ઠીક છે. અમે તમને ફરીથી કૉલ નહીં કરીએ. તમારો દિવસ શુભ રહે!',
+    endCallGoodbye: 'ઠીક છે. તમારા સમય બદલ આભાર. તમારો દિવસ શુભ રહે!',
+    silenceReprompt: 'તમે તૈયાર હો ત્યારે કૃપા કરીને બોલો.',
+    repeatRequest: 'માફ કરશો, બરાબર સંભળાયું નહીં. શું તમે ફરીથી કહી શકશો?',
+    silenceGoodbye: 'લાગે છે કે કનેક્શન બરાબર નથી. અમે તમને પછીથી કૉલ કરીશું. આવજો.',
+    transferBusyResume: 'માફ કરશો, અમારી ટીમના બધા લોકો અત્યારે વ્યસ્ત છે. ત્યાં સુધી તમે બીજું શું જાણવા માંગો છો?',
+    transferBusyHangup: 'માફ કરશો, અમારી ટીમના બધા લોકો અત્યારે વ્યસ્ત છે. કોઈ જલ્દી જ તમને પાછો કૉલ કરશે. આભાર, આવજો!',
+    technicalIssue: 'માફ કરશો, કોઈ ટેકનિકલ સમસ્યા આવી છે. અમે તમને જલ્દી જ પાછો કૉલ કરીશું.',
+    supervisorTakeover: 'તમારી વધુ મદદ માટે અમારા એક સાથી કૉલ પર જોડાઈ રહ્યા છે. કૃપા કરીને થોડી વાર રાહ જુઓ.',
+    supervisorGoodbye: 'માફ કરશો, આ કૉલ અહીં જ પૂરો કરવો પડશે. તમારા સમય બદલ આભાર, આવજો!'
+  },
+  ta: {
+    inboundGreeting: 'வணக்கம், அழைத்ததற்கு நன்றி. என் பெயர் {agent}. நான் உங்களுக்கு எப்படி உதவ முடியும்?',
+    inboundGreetingByName: 'வணக்கம் {name}, அழைத்ததற்கு நன்றி. என் பெயர் {agent}. நான் உங்களுக்கு எப்படி உதவ முடியும்?',
+    optOutGoodbye: 'சரி. இனி உங்களை அழைக்க மாட்டோம். உங்கள் நாள் இனிதாக அமையட்டும்!',
+    endCallGoodbye: 'சரி. உங்கள் நேரத்திற்கு நன்றி. உங்கள் நாள் இனிதாக அமையட்டும்!',
+    silenceReprompt: 'நீங்கள் தயாரானதும் தயவுசெய்து பேசுங்கள்.',
+    repeatRequest: 'மன்னிக்கவும், சரியாகக் கேட்கவில்லை. மீண்டும் ஒருமுறை சொல்ல முடியுமா?',
+    silenceGoodbye: 'இணைப்பு சரியில்லை போலிருக்கிறது. நாங்கள் பிறகு அழைக்கிறோம். வணக்கம்.',
+    transferBusyResume: 'மன்னிக்கவும், எங்கள் குழுவில் அனைவரும் இப்போது பிஸியாக இருக்கிறார்கள். அதுவரை நீங்கள் வேறு என்ன தெரிந்துகொள்ள விரும்புகிறீர்கள்?',
+    transferBusyHangup: 'மன்னிக்கவும், எங்கள் குழுவில் அனைவரும் இப்போது பிஸியாக இருக்கிறார்கள். விரைவில் ஒருவர் உங்களை மீண்டும் அழைப்பார். நன்றி, வணக்கம்!',
+    technicalIssue: 'மன்னிக்கவும், ஒரு தொழில்நுட்பக் கோளாறு ஏற்பட்டது. விரைவில் உங்களை மீண்டும் அழைக்கிறோம்.',
+    supervisorTakeover: 'உங்களுக்கு மேலும் உதவ எங்கள் சக ஊழியர் ஒருவர் அழைப்பில் இணைகிறார். தயவுசெய்து சிறிது நேரம் காத்திருங்கள்.',
+    supervisorGoodbye: 'மன்னிக்கவும், இந்த அழைப்பை இத்துடன் முடிக்க வேண்டும். உங்கள் நேரத்திற்கு நன்றி, வணக்கம்!'
+  },
+  te: {
+    inboundGreeting: 'నమస్కారం, కాల్ చేసినందుకు ధన్యవాదాలు. నా పేరు {agent}. నేను మీకు ఎలా సహాయం చేయగలను?',
+    inboundGreetingByName: 'నమస్కారం {name}, కాల్ చేసినందుకు ధన్యవాదాలు. నా పేరు {agent}. నేను మీకు ఎలా సహాయం చేయగలను?',
+    optOutGoodbye: 'సరే. మేము మీకు మళ్ళీ కాల్ చేయము. మీ రోజు శుభంగా గడవాలి!',
+    endCallGoodbye: 'సరే. మీ సమయానికి ధన్యవాదాలు. మీ రోజు శుభంగా గడవాలి!',
+    silenceReprompt: 'మీరు సిద్ధమైనప్పుడు దయచేసి మాట్లాడండి.',
+    repeatRequest: 'క్షమించండి, సరిగ్గా వినిపించలేదు. మరోసారి చెప్పగలరా?',
+    silenceGoodbye: 'కనెక్షన్ సరిగ్గా లేనట్టుంది. మేము మీకు తర్వాత కాల్ చేస్తాము. నమస్కారం.',
+    transferBusyResume: 'క్షమించండి, మా టీమ్‌లో అందరూ ప్రస్తుతం బిజీగా ఉన్నారు. ఈలోగా మీరు ఇంకా ఏమి తెలుసుకోవాలనుకుంటున్నారు?',
+    transferBusyHangup: 'క్షమించండి, మా టీమ్‌లో అందరూ ప్రస్తుతం బిజీగా ఉన్నారు. త్వరలో ఎవరైనా మీకు తిరిగి కాల్ చేస్తారు. ధన్యవాదాలు, నమస్కారం!',
+    technicalIssue: 'క్షమించండి, ఒక సాంకేతిక సమస్య వచ్చింది. మేము త్వరలో మీకు తిరిగి కాల్ చేస్తాము.',
+    supervisorTakeover: 'మీకు మరింత సహాయం చేయడానికి మా సహోద్యోగి ఒకరు కాల్‌లో చేరుతున్నారు. దయచేసి ఒక్క క్షణం ఆగండి.',
+    supervisorGoodbye: 'క్షమించండి, ఈ కాల్‌ను ఇక్కడితో ముగించాలి. మీ సమయానికి ధన్యవాదాలు, నమస్కారం!'
+  },
+  kn: {
+    inboundGreeting: 'ನಮಸ್ಕಾರ, ಕರೆ ಮಾಡಿದ್ದಕ್ಕೆ ಧನ್ಯವಾದಗಳು. ನನ್ನ ಹೆಸರು {agent}. ನಾನು ನಿಮಗೆ ಹೇಗೆ ಸಹಾಯ ಮಾಡಲಿ?',
+    inboundGreetingByName: 'ನಮಸ್ಕಾರ {name}, ಕರೆ ಮಾಡಿದ್ದಕ್ಕೆ ಧನ್ಯವಾದಗಳು. ನನ್ನ ಹೆಸರು {agent}. ನಾನು ನಿಮಗೆ ಹೇಗೆ ಸಹಾಯ ಮಾಡಲಿ?',
+    optOutGoodbye: 'ಸರಿ. ನಾವು ನಿಮಗೆ ಮತ್ತೆ ಕರೆ ಮಾಡುವುದಿಲ್ಲ. ನಿಮ್ಮ ದಿನ ಶುಭವಾಗಿರಲಿ!',
+    endCallGoodbye: 'ಸರಿ. ನಿಮ್ಮ ಸಮಯಕ್ಕೆ ಧನ್ಯವಾದಗಳು. ನಿಮ್ಮ ದಿನ ಶುಭವಾಗಿರಲಿ!',
+    silenceReprompt: 'ನೀವು ಸಿದ್ಧವಾದಾಗ ದಯವಿಟ್ಟು ಮಾತನಾಡಿ.',
+    repeatRequest: 'ಕ್ಷಮಿಸಿ, ಸರಿಯಾಗಿ ಕೇಳಿಸಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಇನ್ನೊಮ್ಮೆ ಹೇಳುತ್ತೀರಾ?',
+    silenceGoodbye: 'ಸಂಪರ್ಕ ಸರಿಯಾಗಿಲ್ಲ ಅನಿಸುತ್ತದೆ. ನಾವು ನಿಮಗೆ ನಂತರ ಕರೆ ಮಾಡುತ್ತೇವೆ. ನಮಸ್ಕಾರ.',
+    transferBusyResume: 'ಕ್ಷಮಿಸಿ, ನಮ್ಮ ತಂಡದ ಎಲ್ಲರೂ ಈಗ ಕಾರ್ಯನಿರತರಾಗಿದ್ದಾರೆ. ಅಲ್ಲಿಯವರೆಗೆ ನೀವು ಇನ್ನೇನು ತಿಳಿಯಲು ಬಯಸುತ್ತೀರಿ?',
+    transferBusyHangup: 'ಕ್ಷಮಿಸಿ, ನಮ್ಮ ತಂಡದ ಎಲ್ಲರೂ ಈಗ ಕಾರ್ಯನಿರತರಾಗಿದ್ದಾರೆ. ಶೀಘ್ರದಲ್ಲೇ ಯಾರಾದರೂ ನಿಮಗೆ ಮರಳಿ ಕರೆ ಮಾಡುತ್ತಾರೆ. ಧನ್ಯವಾದಗಳು, ನಮಸ್ಕಾರ!',
+    technicalIssue: 'ಕ್ಷಮಿಸಿ, ತಾಂತ್ರಿಕ ಸಮಸ್ಯೆ ಉಂಟಾಗಿದೆ. ನಾವು ಶೀಘ್ರದಲ್ಲೇ ನಿಮಗೆ ಮರಳಿ ಕರೆ ಮಾಡುತ್ತೇವೆ.',
+    supervisorTakeover: 'ನಿಮಗೆ ಇನ್ನಷ್ಟು ಸಹಾಯ ಮಾಡಲು ನಮ್ಮ ಸಹೋದ್ಯೋಗಿಯೊಬ್ಬರು ಕರೆಗೆ ಸೇರುತ್ತಿದ್ದಾರೆ. ದಯವಿಟ್ಟು ಸ್ವಲ್ಪ ಕಾಯಿರಿ.',
+    supervisorGoodbye: 'ಕ್ಷಮಿಸಿ, ಈ ಕರೆಯನ್ನು ಇಲ್ಲಿಗೆ ಮುಗಿಸಬೇಕಾಗಿದೆ. ನಿಮ್ಮ ಸಮಯಕ್ಕೆ ಧನ್ಯವಾದಗಳು, ನಮಸ್ಕಾರ!'
+  },
+  ml: {
+    inboundGreeting: 'നമസ്കാരം, വിളിച്ചതിന് നന്ദി. എന്റെ പേര് {agent}. ഞാൻ നിങ്ങളെ എങ്ങനെ സഹായിക്കണം?',
+    inboundGreetingByName: 'നമസ്കാരം {name}, വിളിച്ചതിന് നന്ദി. എന്റെ പേര് {agent}. ഞാൻ നിങ്ങളെ എങ്ങനെ സഹായിക്കണം?',
+    optOutGoodbye: 'ശരി. ഞങ്ങൾ ഇനി നിങ്ങളെ വിളിക്കില്ല. നിങ്ങളുടെ ദിവസം നല്ലതായിരിക്കട്ടെ!',
+    endCallGoodbye: 'ശരി. നിങ്ങളുടെ സമയത്തിന് നന്ദി. നിങ്ങളുടെ ദിവസം നല്ലതായിരിക്കട്ടെ!',
+    silenceReprompt: 'നിങ്ങൾ തയ്യാറാകുമ്പോൾ ദയവായി സംസാരിക്കൂ.',
+    repeatRequest: 'ക്ഷമിക്കണം, ശരിയായി കേട്ടില്ല. ഒന്നുകൂടി പറയാമോ?',
+    silenceGoodbye: 'കണക്ഷൻ ശരിയല്ലെന്ന് തോന്നുന്നു. ഞങ്ങൾ പിന്നീട് വിളിക്കാം. നമസ്കാരം.',
+    transferBusyResume: 'ക്ഷമിക്കണം, ഞങ്ങളുടെ ടീമിലെ എല്ലാവരും ഇപ്പോൾ തിരക്കിലാണ്. അതുവരെ നിങ്ങൾക്ക് മറ്റെന്താണ് അറിയേണ്ടത്?',
+    transferBusyHangup: 'ക്ഷമിക്കണം, ഞങ്ങളുടെ ടീമിലെ എല്ലാവരും ഇപ്പോൾ തിരക്കിലാണ്. ഉടൻ തന്നെ ഒരാൾ നിങ്ങളെ തിരികെ വിളിക്കും. നന്ദി, നമസ്കാരം!',
+    technicalIssue: 'ക്ഷമിക്കണം, ഒരു സാങ്കേതിക പ്രശ്നം ഉണ്ടായി. ഞങ്ങൾ ഉടൻ തിരികെ വിളിക്കാം.',
+    supervisorTakeover: 'നിങ്ങളെ കൂടുതൽ സഹായിക്കാൻ ഞങ്ങളുടെ ഒരു സഹപ്രവർത്തകൻ കോളിൽ ചേരുന്നു. ദയവായി ഒരു നിമിഷം കാത്തിരിക്കൂ.',
+    supervisorGoodbye: 'ക്ഷമിക്കണം, ഈ കോൾ ഇവിടെ അവസാനിപ്പിക്കേണ്ടതുണ്ട്. നിങ്ങളുടെ സമയത്തിന് നന്ദി, നമസ്കാരം!'
+  }
+};
+
+// The fixed phrases in a call's language
+export function getPhrases(language: string | null | undefined): Record<PhraseKey, string> {
+  return { ...FIXED_PHRASES, ...(language ? LOCALIZED_PHRASES[language] : undefined) };
+}
+
+// A phrase with its {placeholders} filled in - ones without a value are left as they are
+export function fillPhrase(phrase: string, values: Record<string, string>): string {
+  return phrase.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+// Announced before the intro on recorded calls, unless the campaign has its own wording
+const RECORDING_CONSENT: Record<string, string> = {
+  en: 'This call may be recorded for quality and training purposes.',
+  hi: 'यह कॉल गुणवत्ता और प्रशिक्षण के लिए रिकॉर्ड की जा सकती है।',
+  'hi-Latn': 'Yeh call quality aur training ke liye record ki ja sakti hai.',
+  mr: 'हा कॉल गुणवत्ता आणि प्रशिक्षणासाठी रेकॉर्ड केला जाऊ शकतो.',
+  bn: 'এই কলটি মান ও প্রশিক্ষণের জন্য রেকর্ড করা হতে পারে।',
+  gu: 'આ કૉલ ગુણવત્તા અને તાલીમ માટે રેકોર્ડ થઈ શકે છે.',
+  ta: 'இந்த அழைப்பு தரம் மற்றும் பயிற்சிக்காக பதிவு செய்யப்படலாம்.',
+  te: 'ఈ కాల్ నాణ్యత మరియు శిక్షణ కోసం రికార్డ్ చేయబడవచ్చు.',
+  kn: 'ಈ ಕರೆಯನ್ನು ಗುಣಮಟ್ಟ ಮತ್ತು ತರಬೇತಿಗಾಗಿ ರೆಕಾರ್ಡ್ ಮಾಡಬಹುದು.',
+  ml: 'ഈ കോൾ ഗുണനിലവാരത്തിനും പരിശീലനത്തിനുമായി റെക്കോർഡ് ചെയ്തേക്കാം.',
+  es: 'Esta llamada puede ser grabada con fines de calidad y formación.',
+  fr: 'Cet appel peut être enregistré à des fins de qualité et de formation.',
+  de: 'Dieser Anruf kann zu Qualitäts- und Schulungszwecken aufgezeichnet werden.',
+  it: 'Questa chiamata potrebbe essere registrata per scopi di qualità e formazione.',
+  pt: 'Esta chamada pode ser gravada para fins de qualidade e treinamento.'
+};
+
+// Recording notice for a campaign's calls - null when it doesn't record
+export function getRecordingConsent(campaign: Campaign): string | null {
+  if (!campaign.recordingEnabled) return null;
+  return campaign.recordingConsentMessage?.trim() || RECORDING_CONSENT[campaign.language] || RECORDING_CONSENT.en;
+}
@@ -0,0 +1,297 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Campaign, CallRecording } from '@shared/schema';
+import { storage } from '../storage';
+import { getBaseUrl } from '../config/environment';
+import { twilioService } from './twilioService';
+import { ttsService } from './ttsService';
+import { transcriptService } from './transcriptService';
+import { getRecordingConsent } from './phrases';
+import { mediaStore } from './mediaStorage';
+
+// Call recording
+// Campaigns with recording enabled announce it before the intro; the notice redirects back to our
+// webhook once it has played, and only then is the rest of the call recorded in dual channel through Twilio. When Twilio reports the recording complete it is queued in
+// call_recordings, and a background worker downloads the WAV and converts it with ffmpeg to an
+// MP3 for listening and an MP4 for sharing, recording the duration and file size as it goes.
+// Converted files go to the media store and are downloaded through short-lived signed URLs;
+// campaigns with a retention period have each call's audio purged, Twilio's copy included, once that
+// long has passed since the call ended.
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_URL_TTL_SECONDS = 15 * 60;
+const FFMPEG_TIMEOUT_MS = 5 * 60 * 1000;
+const START_ATTEMPTS = 3;
+const START_RETRY_MS = 1500;
+// A conversion is a download and two ffmpeg runs - recordings still 'processing' after this were
+// claimed by an instance that died mid-conversion
+const STALE_PROCESSING_MS = 30 * 60 * 1000;
+
+export type RecordingFormat = 'mp3' | 'mp4';
+
+export class RecordingService {
+  private timer?: NodeJS.Timeout;
+  private retentionTimer?: NodeJS.Timeout;
+  private converting = false;
+  private readonly urlTtlSeconds = Number(process.env.RECORDING_URL_TTL_SECONDS) || DEFAULT_URL_TTL_SECONDS;
+
+  // TwiML playing the recording notice, then redirecting to continueUrl, which starts recording and
+  // carries on with the call - undefined when the campaign doesn't record
+  async getConsentTwiML(callId: string, campaign: Campaign, continueUrl: string): Promise<string | undefined> {
+    const text = getRecordingConsent(campaign);
+    if (!text) return undefined;
+
+    try {
+      const speech = await ttsService.getSpeech(campaign, text);
+      transcriptService.recordAgentLine(callId, text, speech);
+      return twilioService.generateNoticeTwiML({ text, ...speech }, continueUrl);
+    } catch (error) {
+      // The notice must be heard before anything is recorded, so Twilio reads it rather than skipping it
+      console.error('❌ Recording notice failed in every campaign voice, using Twilio voice:', error);
+      transcriptService.recordAgentLine(callId, text);
+      return twilioService.generateNoticeTwiML({ text, say: { voice: 'alice' } }, continueUrl);
+    }
+  }
+
+  // Start recording a call the campaign records - called from the notice's redirect, so the notice itself isn't recorded
+  async startRecording(callId: string, twilioCallSid: string | undefined, campaign: Campaign): Promise<void> {
+    if (!campaign.recordingEnabled || !twilioCallSid) return;
+
+    const callbackUrl = `${getBaseUrl()}/api/calls/webhook/recording-status?callId=${callId}`;
+    // Twilio can refuse while the call is still being set up, so give it a couple more tries
+    for (let attempt = 1; attempt <= START_ATTEMPTS; attempt++) {
+      const result = await twilioService.startRecording(twilioCallSid, callbackUrl);
+      if (result.success) {
+        console.log(`⏺️ Recording call ${callId} (${result.recordingSid})`);
+        return;
+      }
+      if (attempt === START_ATTEMPTS) {
+        console.error(`❌ Could not start recording call ${callId}: ${result.error}`);
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, START_RETRY_MS));
+    }
+  }
+
+  // Twilio's recording status callback - queues finished recordings for conversion
+  async handleStatusCallback(callId: string, body: Record<string, string>): Promise<CallRecording | undefined> {
+    const { RecordingSid, RecordingUrl, RecordingStatus, RecordingDuration, RecordingChannels } = body;
+
+    if (RecordingStatus !== 'completed') {
+      console.log(`⏺️ Recording ${RecordingSid} for call ${callId} ended as ${RecordingStatus}`);
+      return undefined;
+    }
+
+    // Twilio retries callbacks it didn't see acknowledged
+    const existing = await storage.getCallRecordingBySid(RecordingSid);
+    if (existing) return existing;
+
+    const recording = await storage.createCallRecording({
+      callId,
+      recordingUrl: RecordingUrl,
+      recordingSid: RecordingSid,
+      channels: RecordingChannels ? parseInt(RecordingChannels) : null,
+      duration: RecordingDuration ? parseInt(RecordingDuration) : null,
+      conversionStatus: 'pending'
+    });
+    console.log(`⏺️ Recording ${RecordingSid} for call ${callId} queued for conversion`);
+
+    this.convertPending().catch(error => console.error('❌ Error converting recordings:', error));
+    return recording;
+  }
+
+  // Conversions cut short by a restart are picked up again, then the queue is polled as a backstop to the callback
+  start(): void {
+    if (this.timer) return;
+    this.requeueStaleConversions().catch(error => console.error('❌ Error re-queueing recording conversions:', error));
+
+    this.timer = setInterval(() => {
+      this.convertPending().catch(error => console.error('❌ Error converting recordings:', error));
+    }, POLL_INTERVAL_MS);
+    this.retentionTimer = setInterval(() => {
+      this.purgeExpired().catch(error => console.error('❌ Error purging expired call audio:', error));
+    }, RETENTION_INTERVAL_MS);
+    console.log(`⏺️ Recording conversion worker started, storing in ${mediaStore.name}`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    if (this.retentionTimer) clearInterval(this.retentionTimer);
+    this.timer = undefined;
+    this.retentionTimer = undefined;
+  }
+
+  // Convert queued recordings one at a time - ffmpeg is heavy enough that they shouldn't overlap
+  async convertPending(): Promise<void> {
+    if (this.converting) return;
+    this.converting = true;
+    try {
+      await this.requeueStaleConversions();
+      let recording: CallRecording | null;
+      while ((recording = await storage.claimPendingCallRecording())) {
+        await this.convert(recording);
+      }
+    } finally {
+      this.converting = false;
+    }
+  }
+
+  // Also checked every pass, so a crashed instance's conversions come back without waiting for a restart
+  private async requeueStaleConversions(): Promise<void> {
+    const reset = await storage.resetStaleProcessingCallRecordings(new Date(Date.now() - STALE_PROCESSING_MS));
+    if (reset > 0) console.log(`⏺️ Re-queued ${reset} interrupted recording conversion(s)`);
+  }
+
+  // Time-limited link to a converted recording - undefined until conversion has finished, or once purged
+  async getDownloadUrl(recording: CallRecording, format: RecordingFormat): Promise<{ url: string; expiresAt: Date } | undefined> {
+    const key = format === 'mp3' ? recording.mp3Url : recording.mp4Url;
+    if (recording.conversionStatus !== 'completed' || recording.purgedAt || !key) return undefined;
+    if (recording.storageBackend && recording.storageBackend !== mediaStore.name) {
+      console.error(`❌ Recording ${recording.id} is in ${recording.storageBackend} storage, but ${mediaStore.name} is configured`);
+      return undefined;
+    }
+
+    const url = await mediaStore.getSignedUrl(key, {
+      expiresInSeconds: this.urlTtlSeconds,
+      downloadName: `call-recording-${recording.callId}.${format}`
+    });
+    return { url, expiresAt: new Date(Date.now() + this.urlTtlSeconds * 1000) };
+  }
+
+  // Delete the audio of calls past their campaign's retention period, counted from when the call ended.
+  // Recordings keep their row, marked purged, and transcripts keep their text.
+  async purgeExpired(): Promise<number> {
+    const expired = await storage.getCallsPastAudioRetention(new Date());
+    let purged = 0;
+    for (const call of expired) {
+      try {
+        const segments = await mediaStore.list(`segments/${call.id}/`);
+        for (const segment of segments) await mediaStore.delete(segment.key);
+        await storage.clearCallTranscriptionAudio(call.id);
+
+        const recording = await storage.getCallRecording(call.id);
+        if (recording && !recording.purgedAt) await this.purgeRecording(recording);
+
+        await storage.updateCall(call.id, { audioPurgedAt: new Date() });
+        purged++;
+      } catch (error) {
+        console.error(`❌ Purging audio for call ${call.id} failed:`, error);
+      }
+    }
+
+    if (purged > 0) {
+      console.log(`🗑️ Purged audio for ${purged} call(s) past their campaign retention period`);
+    }
+    return purged;
+  }
+
+  private async purgeRecording(recording: CallRecording): Promise<void> {
+    if (!recording.storageBackend || recording.storageBackend === mediaStore.name) {
+      for (const key of [recording.mp3Url, recording.mp4Url]) {
+        if (key) await mediaStore.delete(key);
+      }
+    } else {
+      console.error(`❌ Recording ${recording.id} is in ${recording.storageBackend} storage - its converted files must be removed there`);
+    }
+    if (recording.recordingSid) {
+      await twilioService.deleteRecording(recording.recordingSid).catch((error: any) => {
+        if (error?.status !== 404) throw error;
+      });
+    }
+
+    await storage.updateCallRecording(recording.id, { mp3Url: null, mp4Url: null, purgedAt: new Date() });
+  }
+
+  private async convert(recording: CallRecording): Promise<void> {
+    // ffmpeg works on local files; only the results go to the media store
+    const dir = path.join(os.tmpdir(), `recording-${recording.id}`);
+    const wavPath = path.join(dir, 'original.wav');
+    const mp3Path = path.join(dir, 'recording.mp3');
+    const mp4Path = path.join(dir, 'recording.mp4');
+
+    try {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(wavPath, await twilioService.downloadRecording(recording.recordingUrl));
+
+      // Channels are kept apart, so the caller and the agent stay on their own side
+      await runFfmpeg(['-y', '-i', wavPath, '-codec:a', 'libmp3lame', '-b:a', '64k', mp3Path]);
+      await runFfmpeg(['-y', '-i', wavPath, '-codec:a', 'aac', '-b:a', '64k', '-movflags', '+faststart', mp4Path]);
+
+      const duration = await probeDuration(mp3Path).catch(() => undefined);
+      const mp4 = await fs.promises.readFile(mp4Path);
+      const mp3Key = `recordings/${recording.callId}/${recording.id}.mp3`;
+      const mp4Key = `recordings/${recording.callId}/${recording.id}.mp4`;
+      await mediaStore.put(mp3Key, await fs.promises.readFile(mp3Path), 'audio/mpeg');
+      await mediaStore.put(mp4Key, mp4, 'video/mp4');
+      const size = mp4.length;
+
+      await storage.updateCallRecording(recording.id, {
+        mp3Url: mp3Key,
+        mp4Url: mp4Key,
+        storageBackend: mediaStore.name,
+        duration: duration ?? recording.duration,
+        fileSize: size,
+        conversionStatus: 'completed',
+        conversionError: null
+      });
+      console.log(`✅ Recording for call ${recording.callId} converted and stored in ${mediaStore.name} (${size} bytes)`);
+
+      if ((global as any).broadcastToClients) {
+        (global as any).broadcastToClients({ type: 'recording_ready', callId: recording.callId, recordingId: recording.id });
+      }
+    } catch (error) {
+      console.error(`❌ Converting recording ${recording.id} for call ${recording.callId} failed:`, error);
+      await storage.updateCallRecording(recording.id, {
+        conversionStatus: 'failed',
+        conversionError: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+// Run ffmpeg (or ffprobe) and collect stdout
+function runFfmpeg(args: string[], command: string = process.env.FFMPEG_PATH || 'ffmpeg'): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${command} timed out after ${FFMPEG_TIMEOUT_MS}ms`));
+    }, FFMPEG_TIMEOUT_MS);
+
+    child.stdout.on('data', chunk => { stdout += chunk.toString(); });
+    child.stderr.on('data', chunk => { stderr += chunk.toString(); });
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        // ffmpeg prints its banner first, so the cause is at the end
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim().split('\n').slice(-3).join(' ')}`));
+      }
+    });
+  });
+}
+
+// Length of an audio file in whole seconds - undefined if ffprobe can't tell
+async function probeDuration(file: string): Promise<number | undefined> {
+  const output = await runFfmpeg(
+    ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', file],
+    process.env.FFPROBE_PATH || 'ffprobe'
+  );
+  const seconds = parseFloat(output);
+  return Number.isFinite(seconds) ? Math.round(seconds) : undefined;
+}
+
+// Export singleton instance
+export const recordingService = new RecordingService();
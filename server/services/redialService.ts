@@ -0,0 +1,82 @@
+import type { Call, Campaign, RetryPolicy, ScheduledCall } from '@shared/schema';
+import { retryPolicySchema, RETRYABLE_OUTCOMES } from '@shared/schema';
+import { storage } from '../storage';
+
+// Automatic redials
+// When an attempt ends without reaching a person, the campaign's retry policy decides whether
+// to dial the contact again and when. Redials go into the dialer queue (scheduled_calls) with a
+// future scheduledFor, and every attempt carries its attempt number and the id of the first dial.
+
+type RetryableOutcome = typeof RETRYABLE_OUTCOMES[number];
+
+export class RedialService {
+  // Retry policy for a campaign - null when the campaign doesn't redial
+  getPolicy(campaign: Campaign): RetryPolicy | null {
+    if (!campaign.retryPolicy) return null;
+    const policy = retryPolicySchema.safeParse(campaign.retryPolicy);
+    return policy.success ? policy.data : null;
+  }
+
+  // Retryable outcome of a finished attempt, if it has one
+  getOutcome(call: Call): RetryableOutcome | undefined {
+    if (call.disposition === 'voicemail') return 'voicemail';
+    return RETRYABLE_OUTCOMES.find(outcome => outcome !== 'voicemail' && outcome === call.status);
+  }
+
+  // Minutes to wait after the given attempt before dialing again
+  getBackoffMinutes(policy: RetryPolicy, attemptNumber: number): number {
+    return policy.backoffMinutes * Math.pow(policy.backoffMultiplier, attemptNumber - 1);
+  }
+
+  // Schedule the next attempt for a finished call if the campaign's policy allows it
+  async scheduleRetry(call: Call): Promise<ScheduledCall | undefined> {
+    const outcome = this.getOutcome(call);
+    if (!outcome || !call.campaignId || !call.contactId || call.direction === 'inbound') return undefined;
+
+    const campaign = await storage.getCampaign(call.campaignId);
+    const policy = campaign && this.getPolicy(campaign);
+    if (!policy || !policy.retryOn.includes(outcome)) return undefined;
+    if (campaign.dialerStatus === 'cancelled') return undefined;
+
+    if (call.attemptNumber >= policy.maxAttempts) {
+      console.log(`🔁 No redial for call ${call.id}: reached ${policy.maxAttempts} attempts`);
+      return undefined;
+    }
+
+    const originalCallId = call.originalCallId || call.id;
+    const firstAttempt = call.originalCallId ? await storage.getCall(call.originalCallId) : call;
+    const firstAttemptAt = (firstAttempt?.startTime || call.startTime).getTime();
+    const scheduledFor = new Date(Date.now() + this.getBackoffMinutes(policy, call.attemptNumber) * 60 * 1000);
+
+    if (scheduledFor.getTime() > firstAttemptAt + policy.retryWindowHours * 60 * 60 * 1000) {
+      console.log(`🔁 No redial for call ${call.id}: next attempt would fall outside the ${policy.retryWindowHours}h retry window`);
+      return undefined;
+    }
+
+    const scheduledCall = await storage.createScheduledCall({
+      campaignId: call.campaignId,
+      contactId: call.contactId,
+      phoneNumber: call.phoneNumber,
+      attemptNumber: call.attemptNumber + 1,
+      originalCallId,
+      reason: outcome,
+      scheduledFor
+    });
+
+    // Wake the campaign back up so the dialer shows and dials the redial
+    if (campaign.dialerStatus === 'idle' || campaign.dialerStatus === 'completed') {
+      await storage.updateCampaign(campaign.id, { dialerStatus: 'running' });
+    }
+
+    console.log(`🔁 Redial ${scheduledCall.attemptNumber}/${policy.maxAttempts} for ${call.phoneNumber} (${outcome}) at ${scheduledFor.toISOString()}`);
+
+    if ((global as any).broadcastToClients) {
+      (global as any).broadcastToClients({ type: 'call_retry_scheduled', scheduledCall });
+    }
+
+    return scheduledCall;
+  }
+}
+
+// Export singleton instance
+export const redialService = new RedialService();
@@ -0,0 +1,68 @@
+import type { WhatsAppMessage } from '@shared/schema';
+import { storage } from '../storage';
+import { whatsappService } from './whatsappService';
+
+// Deferred WhatsApp campaign sends
+// Template messages that fell outside a campaign's calling window are stored with status
+// 'scheduled' and a scheduledFor time. This worker sends them once that time arrives; a send claimed
+// by an instance that died before finishing it is put back in the queue after a few minutes.
+
+const POLL_INTERVAL_MS = 60 * 1000;
+// A send takes seconds - claimed messages still 'pending' after this were claimed by an instance that died mid-send
+const STALE_PENDING_MS = 5 * 60 * 1000;
+
+export class ScheduledMessageService {
+  private timer?: NodeJS.Timeout;
+
+  // Send every deferred message that has come due, including any a crashed instance claimed but never sent
+  async sendDueMessages(): Promise<void> {
+    const reset = await storage.resetStalePendingScheduledWhatsAppMessages(new Date(Date.now() - STALE_PENDING_MS));
+    if (reset > 0) console.log(`🌙 Re-queued ${reset} interrupted scheduled WhatsApp send(s)`);
+
+    const due = await storage.claimDueScheduledWhatsAppMessages(new Date());
+    for (const message of due) {
+      await this.send(message);
+    }
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sendDueMessages().catch(error => console.error('❌ Error sending scheduled WhatsApp messages:', error));
+    }, POLL_INTERVAL_MS);
+    console.log('🌙 Scheduled WhatsApp sender started');
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async send(message: WhatsAppMessage): Promise<void> {
+    try {
+      // Campaign templates always take the contact name as the first parameter
+      const contact = await storage.getContact(message.contactId);
+      const response = await whatsappService.sendTemplateMessage(
+        message.phone,
+        message.templateName || message.message,
+        'en_US',
+        [contact?.name || 'valued customer']
+      );
+
+      await storage.updateWhatsAppMessage(message.id, {
+        whatsappMessageId: response.messages?.[0]?.id,
+        status: 'sent'
+      });
+      console.log(`✅ Scheduled WhatsApp template sent to ${message.phone}: ${response.messages?.[0]?.id}`);
+    } catch (error) {
+      console.error(`❌ Scheduled WhatsApp send to ${message.phone} failed:`, error);
+      await storage.updateWhatsAppMessage(message.id, {
+        status: 'failed',
+        failedReason: error instanceof Error ? error.message : 'Meta API error'
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const scheduledMessageService = new ScheduledMessageService();
@@ -0,0 +1,48 @@
+import type { CallingSettings, SystemSettingsUpdate } from '@shared/schema';
+import { storage } from '../storage';
+
+// Operator settings
+// The settings page saves one JSON document; services read it through here so missing or
+// partially saved settings always fall back to sensible defaults.
+
+const SETTINGS_KEY = 'system';
+
+export interface SystemSettings {
+  calling: CallingSettings;
+  [section: string]: unknown; // Other settings page sections, stored as the page sends them
+}
+
+const DEFAULT_SETTINGS: SystemSettings = {
+  calling: {
+    maxConcurrentCalls: 5,
+    callsPerMinute: 20,
+    callTimeout: 300,
+    recordCalls: true
+  }
+};
+
+export class SettingsService {
+  // Saved settings merged over the defaults
+  async getSettings(): Promise<SystemSettings> {
+    const saved = (await storage.getAppSetting(SETTINGS_KEY))?.value as Partial<SystemSettings> | undefined;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...saved,
+      calling: { ...DEFAULT_SETTINGS.calling, ...saved?.calling }
+    };
+  }
+
+  async saveSettings(settings: SystemSettingsUpdate): Promise<SystemSettings> {
+    const current = await this.getSettings();
+    const merged = {
+      ...current,
+      ...settings,
+      calling: { ...current.calling, ...settings.calling }
+    };
+    await storage.setAppSetting(SETTINGS_KEY, merged);
+    return merged;
+  }
+}
+
+// Export singleton instance
+export const settingsService = new SettingsService();
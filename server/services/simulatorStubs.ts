@@ -0,0 +1,107 @@
+import type { ChatTools } from './openaiService';
+import type { Speech } from './ttsService';
+
+// Deterministic model and voice stubs
+// With stubs on (SIMULATOR_STUBS=true, or from the call simulator page) no request leaves for OpenAI
+// or a TTS provider: the model answers with the reply a simulator script queued for the caller's
+// words, or echoes them, post-call analysis gets a fixed answer shaped by its schema, and every line
+// is <Say>'d by a stub voice so nothing lands in the TTS cache. Stubs apply to the whole process,
+// so they are meant for a development server driven by the simulator - never for real calls.
+
+const STUB_VOICE = 'simulator';
+const STUB_STREAM_BYTES_PER_CHAR = 400; // Roughly 50ms of 8kHz μ-law silence per character
+const NOT_A_WORD = new RegExp('[^\\p{L}\\p{M}\\p{N}]+', 'gu');
+
+export interface ScriptedReply {
+  text: string;
+  toolCalls: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+export class SimulatorStubs {
+  private enabled = process.env.SIMULATOR_STUBS === 'true';
+  // Queued per caller utterance, so concurrent simulations with different scripts don't take each other's replies
+  private readonly replies = new Map<string, ScriptedReply[]>();
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setEnabled(enabled: boolean): void {
+    if (enabled !== this.enabled) {
+      console.log(`🧪 Model and TTS stubs ${enabled ? 'on' : 'off'}`);
+    }
+    this.enabled = enabled;
+  }
+
+  // Queue what the model says the next time the caller says this
+  scriptReply(utterance: string, reply: ScriptedReply): void {
+    const key = this.getKey(utterance);
+    this.replies.set(key, [...(this.replies.get(key) || []), reply]);
+  }
+
+  // Drop replies a simulation queued but never used
+  clearReply(utterance: string): void {
+    this.replies.delete(this.getKey(utterance));
+  }
+
+  // The stubbed chat completion - scripted tool calls run against the real tools first
+  async generateResponse(userMessage: string, tools?: ChatTools): Promise<string> {
+    const reply = this.takeReply(userMessage);
+    if (!reply) return `You said: ${userMessage.trim()}. Tell me more.`;
+
+    for (const call of reply.toolCalls) {
+      if (!tools) break;
+      const result = await tools.execute(call.name, call.arguments).catch(error => `Error: ${error instanceof Error ? error.message : 'tool failed'}`);
+      console.log(`🧪 Stub tool call ${call.name} → ${result}`);
+    }
+    return reply.text;
+  }
+
+  // A fixed object that satisfies a JSON schema: first enum value, null where allowed, lower bounds for numbers
+  generateJson(schema: Record<string, any>): unknown {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (schema.enum) return schema.enum[0];
+    if (types.includes('null')) return null;
+
+    switch (types[0]) {
+      case 'object':
+        return Object.fromEntries(Object.entries<Record<string, any>>(schema.properties || {})
+          .map(([name, property]) => [name, this.generateJson(property)]));
+      case 'array':
+        return [];
+      case 'number':
+      case 'integer':
+        return schema.minimum ?? 0;
+      case 'boolean':
+        return false;
+      default:
+        return 'Simulated';
+    }
+  }
+
+  // Every line is spoken by the stub voice - the text stays readable in the TwiML
+  getSpeech(language?: string): Speech {
+    return { say: { voice: STUB_VOICE, language } };
+  }
+
+  // Silence for Media Streams, as long as the line would take to say
+  async *streamSilence(text: string): AsyncGenerator<Buffer> {
+    yield Buffer.alloc(Math.max(1, text.length) * STUB_STREAM_BYTES_PER_CHAR, 0xff);
+  }
+
+  private takeReply(utterance: string): ScriptedReply | undefined {
+    const key = this.getKey(utterance);
+    const queued = this.replies.get(key);
+    const reply = queued?.shift();
+    if (queued && queued.length === 0) this.replies.delete(key);
+    return reply;
+  }
+
+  // Speech clean-up drops punctuation and case before the model sees the words
+  private getKey(utterance: string): string {
+    return utterance.toLowerCase().replace(NOT_A_WORD, ' ').trim();
+  }
+}
+
+// Export singleton instance
+export const simulatorStubs = new SimulatorStubs();
@@ -0,0 +1,203 @@
+import type OpenAI from 'openai';
+import type { Campaign, InsertCall, SlotDefinition } from '@shared/schema';
+import { storage } from '../storage';
+import { callSessionStore, type CollectedSlot } from './callSessionStore';
+import type { ChatTools } from './openaiService';
+
+// Structured slot capture
+// The model records details through a record_slot tool call instead of us regex-matching
+// transcripts. Every value is normalized and validated against the campaign's slot schema
+// before it is written to calls.collectedData with the turn it came from and its confidence.
+
+export const RECORD_SLOT_TOOL = 'record_slot';
+
+// Used for campaigns that haven't defined their own slots
+export const DEFAULT_SLOT_SCHEMA: SlotDefinition[] = [
+  { name: 'owner_name', description: 'Name of the lab owner or manager', type: 'text', options: [] },
+  { name: 'whatsapp', description: 'WhatsApp number for follow-up messages', type: 'phone', options: [] },
+  { name: 'email', description: 'Email address for follow-up', type: 'email', options: [] },
+  { name: 'lab_name', description: 'Name of the lab', type: 'text', options: [] },
+  { name: 'city', description: 'City the lab operates in', type: 'text', options: [] },
+  { name: 'interest_level', description: 'How interested they are in partnering', type: 'enum', options: ['high', 'medium', 'low', 'none'] }
+];
+
+// Slots mirrored onto the dedicated call columns used by exports and follow-ups
+const CALL_COLUMN_SLOTS: Record<string, keyof InsertCall> = {
+  whatsapp: 'extractedWhatsapp',
+  email: 'extractedEmail'
+};
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0', oh: '0', o: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9'
+};
+const REPEAT_WORDS: Record<string, number> = { double: 2, triple: 3 };
+
+type SlotValidation = { valid: true; value: string } | { valid: false; error: string };
+
+export class SlotService {
+  // Slot schema for a campaign, falling back to the default
+  getSchema(campaign: Campaign): SlotDefinition[] {
+    const schema = campaign.slotSchema as SlotDefinition[] | null;
+    return schema && schema.length > 0 ? schema : DEFAULT_SLOT_SCHEMA;
+  }
+
+  // Tool definition restricted to the campaign's slot names
+  buildTool(schema: SlotDefinition[]): OpenAI.Chat.Completions.ChatCompletionTool {
+    return {
+      type: 'function',
+      function: {
+        name: RECORD_SLOT_TOOL,
+        description: 'Record a detail the caller just shared. Call once per detail, as soon as it is said.',
+        parameters: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', enum: schema.map(slot => slot.name), description: 'Which detail this is' },
+            value: { type: 'string', description: 'The value exactly as you understood it, e.g. "98765 43210" or "ravi at gmail dot com"' },
+            confidence: { type: 'number', minimum: 0, maximum: 1, description: 'How sure you are that you heard it correctly' }
+          },
+          required: ['name', 'value', 'confidence']
+        }
+      }
+    };
+  }
+
+  // Tools for one conversation turn - onRecorded receives the updated slots after each successful write
+  createTools(
+    campaign: Campaign,
+    callId: string,
+    turn: number,
+    onRecorded: (slots: Record<string, CollectedSlot>) => void
+  ): ChatTools {
+    const schema = this.getSchema(campaign);
+    return {
+      definitions: [this.buildTool(schema)],
+      execute: async (name, args) => {
+        if (name !== RECORD_SLOT_TOOL) return `Unknown tool ${name}`;
+        return this.recordSlot(callId, schema, turn, args, onRecorded);
+      }
+    };
+  }
+
+  // Validate a tool call and persist it; the returned text goes back to the model as the tool result
+  async recordSlot(
+    callId: string,
+    schema: SlotDefinition[],
+    turn: number,
+    args: Record<string, unknown>,
+    onRecorded?: (slots: Record<string, CollectedSlot>) => void
+  ): Promise<string> {
+    const definition = schema.find(slot => slot.name === args.name);
+    if (!definition) {
+      return `Error: "${args.name}" is not a slot for this campaign.`;
+    }
+
+    const validation = this.validate(definition, String(args.value ?? ''));
+    if (!validation.valid) {
+      console.log(`⚠️ Rejected slot ${definition.name}="${args.value}": ${validation.error}`);
+      return `Error: ${validation.error}. Ask the caller to repeat their ${definition.description.toLowerCase()}.`;
+    }
+
+    const confidence = Math.min(1, Math.max(0, Number(args.confidence ?? 0.5) || 0));
+    const session = await callSessionStore.update(callId, draft => {
+      draft.slots[definition.name] = {
+        value: validation.value,
+        turn,
+        source: 'tool_call',
+        confidence,
+        capturedAt: new Date().toISOString()
+      };
+    });
+    if (!session) return 'Error: call is no longer active.';
+
+    const column = CALL_COLUMN_SLOTS[definition.name];
+    if (column) {
+      await storage.updateCall(callId, { [column]: validation.value });
+    }
+
+    console.log(`✅ Recorded slot ${definition.name}="${validation.value}" (confidence ${confidence}) on turn ${turn}`);
+    onRecorded?.(session.slots);
+    return `Recorded ${definition.name} = ${validation.value}.${confidence < 0.6 ? ' Confirm it with the caller.' : ''}`;
+  }
+
+  // Normalize spoken formats and check the value fits the slot type
+  validate(definition: SlotDefinition, rawValue: string): SlotValidation {
+    const value = rawValue.trim();
+    if (!value) return { valid: false, error: 'value is empty' };
+
+    switch (definition.type) {
+      case 'phone': {
+        const digits = this.normalizePhone(value);
+        if (digits.replace(/^\+/, '').length < 10 || digits.replace(/^\+/, '').length > 15) {
+          return { valid: false, error: `"${value}" is not a complete phone number` };
+        }
+        return { valid: true, value: digits };
+      }
+      case 'email': {
+        const email = this.normalizeEmail(value);
+        if (!/^[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}$/.test(email)) {
+          return { valid: false, error: `"${value}" is not a valid email address` };
+        }
+        return { valid: true, value: email };
+      }
+      case 'number': {
+        const number = Number(value.replace(/,/g, ''));
+        if (!Number.isFinite(number)) {
+          return { valid: false, error: `"${value}" is not a number` };
+        }
+        return { valid: true, value: String(number) };
+      }
+      case 'enum': {
+        const option = definition.options.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+        if (!option) {
+          return { valid: false, error: `"${value}" must be one of ${definition.options.join(', ')}` };
+        }
+        return { valid: true, value: option };
+      }
+      default: {
+        const text = value.replace(/\s+/g, ' ');
+        if (text.length > 200) return { valid: false, error: 'value is too long' };
+        return { valid: true, value: text };
+      }
+    }
+  }
+
+  // "nine eight double seven..." / "+91 98765-43210" -> "+919877..."
+  private normalizePhone(value: string): string {
+    const tokens = value.toLowerCase().replace(/[-().,]/g, ' ').split(/\s+/).filter(Boolean);
+    let result = '';
+    let repeat = 1;
+
+    for (const token of tokens) {
+      if (token === 'plus' || token === '+') {
+        if (!result) result = '+';
+      } else if (REPEAT_WORDS[token]) {
+        repeat = REPEAT_WORDS[token];
+      } else if (DIGIT_WORDS[token]) {
+        result += DIGIT_WORDS[token].repeat(repeat);
+        repeat = 1;
+      } else if (/^\+?\d+$/.test(token)) {
+        const digits = token.replace('+', '');
+        if (token.startsWith('+') && !result) result = '+';
+        // "double 5" repeats only the first digit
+        result += digits[0].repeat(repeat) + digits.slice(1);
+        repeat = 1;
+      }
+    }
+
+    return result;
+  }
+
+  // "ravi dot kumar at gmail dot com" -> "ravi.kumar@gmail.com"
+  private normalizeEmail(value: string): string {
+    return value.toLowerCase()
+      .replace(/\s+(at the rate|at)\s+/g, '@')
+      .replace(/\s+dot\s+/g, '.')
+      .replace(/\s*(underscore)\s*/g, '_')
+      .replace(/\s*(dash|hyphen)\s*/g, '-')
+      .replace(/\s+/g, '');
+  }
+}
+
+// Export singleton instance
+export const slotService = new SlotService();
@@ -0,0 +1,181 @@
+import OpenAI, { toFile } from 'openai';
+import { SpeechClient } from '@google-cloud/speech';
+import type { SttProviderName } from '@shared/schema';
+
+// Speech-to-text providers
+// Twilio recognises speech inside <Gather> and posts the text to our webhook, so there is no audio
+// to hand it. Every other provider transcribes a WAV utterance - a <Record>ing on turn-based calls,
+// or the VAD-cut audio of a media stream. Confidence is normalised to 0-1 so one threshold works
+// whichever provider a campaign uses.
+
+export interface SttResult {
+  text: string;
+  confidence: number | null; // 0-1; null when the provider gives no usable score
+  provider: SttProviderName;
+}
+
+export interface SttOptions {
+  language: string; // BCP-47, e.g. 'en-IN'
+  alternativeLanguages?: string[]; // Other languages the caller may switch to mid-call
+  model?: string;
+  prompt?: string; // Vocabulary hint for the domain
+}
+
+export interface SttProvider {
+  readonly name: SttProviderName;
+  readonly label: string;
+  readonly transcribesAudio: boolean; // false when results arrive with the <Gather> webhook instead
+  isConfigured(): boolean;
+  transcribe(wav: Buffer, options: SttOptions): Promise<SttResult>;
+}
+
+export class TwilioSttProvider implements SttProvider {
+  readonly name = 'twilio';
+  readonly label = 'Twilio speech recognition';
+  readonly transcribesAudio = false;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async transcribe(): Promise<SttResult> {
+    throw new Error('Twilio speech results arrive with the <Gather> webhook');
+  }
+
+  // Normalise a <Gather> webhook body - keypad input is taken as certain
+  fromGather(body: Record<string, string | undefined>): SttResult {
+    if (body.SpeechResult?.trim()) {
+      const confidence = parseFloat(body.Confidence ?? '');
+      return { text: body.SpeechResult.trim(), confidence: Number.isFinite(confidence) ? confidence : null, provider: this.name };
+    }
+    if (body.Digits?.trim()) {
+      return { text: `User pressed ${body.Digits.trim()}`, confidence: 1, provider: this.name };
+    }
+    return { text: '', confidence: null, provider: this.name };
+  }
+}
+
+// OpenAI Whisper, or any server speaking the same /audio/transcriptions API (faster-whisper, whisper.cpp)
+export class WhisperSttProvider implements SttProvider {
+  readonly transcribesAudio = true;
+  private client?: OpenAI;
+
+  constructor(
+    readonly name: SttProviderName,
+    readonly label: string,
+    private readonly createClient: () => OpenAI | undefined
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.getClient();
+  }
+
+  async transcribe(wav: Buffer, options: SttOptions): Promise<SttResult> {
+    const client = this.getClient();
+    if (!client) throw new Error(`${this.label} is not configured`);
+
+    const model = options.model || 'whisper-1';
+    const file = await toFile(wav, 'speech.wav', { type: 'audio/wav' });
+    // Whisper takes ISO-639-1, and detects the language itself when the caller may switch
+    const language = options.alternativeLanguages?.length ? undefined : options.language.split('-')[0];
+
+    // Only the whisper models return per-segment scores; the gpt-4o transcribers return token logprobs
+    if (model.startsWith('gpt-4o')) {
+      const response = await client.audio.transcriptions.create({
+        file,
+        model,
+        language,
+        prompt: options.prompt,
+        response_format: 'json',
+        include: ['logprobs']
+      });
+      const logprobs = (response.logprobs || []).flatMap(token => token.logprob === undefined ? [] : [token.logprob]);
+      const confidence = logprobs.length > 0
+        ? Math.exp(logprobs.reduce((total, logprob) => total + logprob, 0) / logprobs.length)
+        : null;
+      return { text: response.text.trim(), confidence, provider: this.name };
+    }
+
+    const response = await client.audio.transcriptions.create({
+      file,
+      model,
+      language,
+      prompt: options.prompt,
+      response_format: 'verbose_json',
+      temperature: 0.0
+    });
+    return { text: response.text.trim(), confidence: this.getSegmentConfidence(response.segments), provider: this.name };
+  }
+
+  // Duration-weighted probability that each segment is speech and was heard right
+  private getSegmentConfidence(segments?: Array<{ start: number; end: number; avg_logprob: number; no_speech_prob: number }>): number | null {
+    if (!segments || segments.length === 0) return null;
+    let weighted = 0;
+    let duration = 0;
+    for (const segment of segments) {
+      const length = Math.max(segment.end - segment.start, 0.01);
+      weighted += Math.exp(segment.avg_logprob) * (1 - segment.no_speech_prob) * length;
+      duration += length;
+    }
+    return weighted / duration;
+  }
+
+  private getClient(): OpenAI | undefined {
+    if (!this.client) this.client = this.createClient();
+    return this.client;
+  }
+}
+
+export class GoogleSttProvider implements SttProvider {
+  readonly name = 'google';
+  readonly label = 'Google Cloud Speech';
+  readonly transcribesAudio = true;
+  private client?: SpeechClient;
+
+  // Uses Application Default Credentials, e.g. GOOGLE_APPLICATION_CREDENTIALS
+  isConfigured(): boolean {
+    return !!(process.env.GOOGLE_APPLICATION_CREDENTIALS || process.env.GOOGLE_CLOUD_PROJECT);
+  }
+
+  async transcribe(wav: Buffer, options: SttOptions): Promise<SttResult> {
+    if (!this.client) this.client = new SpeechClient();
+
+    // Encoding and sample rate come from the WAV header
+    const [response] = await this.client.recognize({
+      config: {
+        languageCode: options.language,
+        alternativeLanguageCodes: options.alternativeLanguages,
+        model: options.model || 'phone_call',
+        useEnhanced: true,
+        enableAutomaticPunctuation: true,
+        speechContexts: options.prompt ? [{ phrases: [options.prompt] }] : undefined
+      },
+      audio: { content: wav.toString('base64') }
+    });
+
+    const alternatives = (response.results || [])
+      .map(result => result.alternatives?.[0])
+      .filter((alternative): alternative is NonNullable<typeof alternative> => !!alternative?.transcript);
+    const text = alternatives.map(alternative => alternative.transcript!.trim()).join(' ');
+    const scored = alternatives.filter(alternative => typeof alternative.confidence === 'number' && alternative.confidence > 0);
+    const confidence = scored.length > 0
+      ? scored.reduce((total, alternative) => total + alternative.confidence!, 0) / scored.length
+      : null;
+    return { text, confidence, provider: this.name };
+  }
+}
+
+export const twilioSttProvider = new TwilioSttProvider();
+
+export const sttProviders: Record<SttProviderName, SttProvider> = {
+  twilio: twilioSttProvider,
+  openai: new WhisperSttProvider('openai', 'OpenAI Whisper', () =>
+    process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : undefined
+  ),
+  google: new GoogleSttProvider(),
+  local: new WhisperSttProvider('local', 'Local Whisper server', () =>
+    process.env.LOCAL_STT_URL
+      ? new OpenAI({ baseURL: process.env.LOCAL_STT_URL, apiKey: process.env.LOCAL_STT_API_KEY || 'local' })
+      : undefined
+  ),
+};
@@ -0,0 +1,130 @@
+import type { Campaign, SttConfig, SttProviderName } from '@shared/schema';
+import { twilioService } from './twilioService';
+import { languageService } from './languageService';
+import { sttProviders, twilioSttProvider, type SttResult } from './sttProviders';
+
+// Recognising the caller, per campaign
+// Turn-based calls on Twilio speech use <Gather> as before; on any other provider the answer is
+// <Record>ed and transcribed here. Media streams always hand us audio, so a campaign left on Twilio
+// is transcribed with Whisper there. Results below the campaign's confidence threshold are not
+// sent to the model - the agent asks the caller to repeat instead (see CallManager.handleUnclearSpeech).
+// Once a call has switched language (see LanguageService) it is recognised in the caller's language.
+
+const DEFAULT_MIN_CONFIDENCE = 0.4;
+const DOMAIN_PROMPT = 'This is a business conversation between an AI agent and a lab owner or manager about diagnostic services.';
+
+export interface ResolvedSttConfig {
+  provider: SttProviderName;
+  language: string;
+  alternativeLanguages: string[];
+  model?: string;
+  minConfidence: number;
+}
+
+// A webhook result, with the caller's audio when there was a recording to transcribe
+export interface HeardSpeech extends SttResult {
+  audio?: Buffer;
+}
+
+export class SttService {
+  // The campaign's STT settings with defaults filled in, for a call held in the given language
+  getConfig(campaign: Campaign | null | undefined, transport: 'gather' | 'stream' = 'gather', callLanguage?: string): ResolvedSttConfig {
+    const config = (campaign?.sttConfig || {}) as Partial<SttConfig>;
+    const campaignLanguage = campaign?.language || 'en';
+    const spoken = callLanguage || campaignLanguage;
+    // The configured locale is for the campaign's language, not one the caller switched to
+    const language = config.language && spoken === campaignLanguage ? config.language : languageService.getLocale(spoken);
+    let provider = config.provider && sttProviders[config.provider] ? config.provider : 'twilio';
+    let model = config.model;
+
+    // Twilio can't transcribe audio we hold
+    if (transport === 'stream' && provider === 'twilio') {
+      provider = 'openai';
+      model = undefined;
+    }
+    return {
+      provider,
+      language,
+      alternativeLanguages: languageService.getAlternativeLocales(spoken).filter(locale => locale !== language),
+      model,
+      minConfidence: config.minConfidence ?? DEFAULT_MIN_CONFIDENCE
+    };
+  }
+
+  // <Gather> options for listening to the caller: Twilio speech in the call's language and the campaign's model, or a <Record>
+  getListenOptions(campaign: Campaign | null | undefined, callLanguage?: string): { language: string; speechModel?: string; record?: boolean } {
+    const config = this.getConfig(campaign, 'gather', callLanguage);
+    return config.provider === 'twilio'
+      ? { language: config.language, speechModel: config.model }
+      : { language: config.language, record: true };
+  }
+
+  // Transcribe one utterance - failures come back as an empty result, which the caller treats as silence
+  async transcribe(
+    campaign: Campaign | null | undefined,
+    wav: Buffer,
+    transport: 'gather' | 'stream' = 'gather',
+    callLanguage?: string
+  ): Promise<SttResult> {
+    const config = this.getConfig(campaign, transport, callLanguage);
+    // A recording on a Twilio campaign (the legacy recording webhook) still needs transcribing
+    const provider = sttProviders[config.provider].transcribesAudio ? sttProviders[config.provider] : sttProviders.openai;
+
+    try {
+      const result = await provider.transcribe(wav, {
+        language: config.language,
+        alternativeLanguages: config.alternativeLanguages,
+        model: provider.name === config.provider ? config.model : undefined,
+        prompt: DOMAIN_PROMPT
+      });
+      console.log(`🎤 ${provider.label} heard "${result.text}" (confidence ${this.formatConfidence(result.confidence)})`);
+      return result;
+    } catch (error) {
+      console.error(`❌ ${provider.label} transcription failed:`, error);
+      return { text: '', confidence: null, provider: provider.name };
+    }
+  }
+
+  // What the caller said, from a speech webhook: Twilio's own result or a recording to transcribe
+  async fromWebhook(
+    campaign: Campaign | null | undefined,
+    body: Record<string, string | undefined>,
+    callLanguage?: string
+  ): Promise<HeardSpeech> {
+    if (body.SpeechResult?.trim() || body.Digits?.trim()) {
+      const result = twilioSttProvider.fromGather(body);
+      console.log(`🎤 Twilio heard "${result.text}" (confidence ${this.formatConfidence(result.confidence)})`);
+      return result;
+    }
+
+    if (body.RecordingUrl) {
+      try {
+        const wav = await twilioService.downloadRecording(body.RecordingUrl);
+        return { ...await this.transcribe(campaign, wav, 'gather', callLanguage), audio: wav };
+      } catch (error) {
+        console.error('❌ Could not fetch the caller recording:', error);
+      } finally {
+        // Utterance recordings only exist to be transcribed - our copy is kept with the transcript
+        if (body.RecordingSid) {
+          twilioService.deleteRecording(body.RecordingSid).catch(error => {
+            console.error(`❌ Could not delete recording ${body.RecordingSid}:`, error);
+          });
+        }
+      }
+    }
+
+    return { text: '', confidence: null, provider: this.getConfig(campaign).provider };
+  }
+
+  // Too unsure to hand to the model - results without a score are trusted
+  isUnclear(campaign: Campaign | null | undefined, result: SttResult): boolean {
+    return result.confidence !== null && result.confidence < this.getConfig(campaign).minConfidence;
+  }
+
+  private formatConfidence(confidence: number | null): string {
+    return confidence === null ? 'n/a' : confidence.toFixed(2);
+  }
+}
+
+// Export singleton instance
+export const sttService = new SttService();
@@ -0,0 +1,105 @@
+import type { Call, CallEvent } from '@shared/schema';
+import { storage } from '../storage';
+import { twilioService } from './twilioService';
+import { callManager } from './callManager';
+import { callSessionStore } from './callSessionStore';
+import { transferService } from './transferService';
+import { transcriptService } from './transcriptService';
+import { variantService } from './variantService';
+import { getPhrases } from './phrases';
+
+// Supervisor controls for live calls
+// While following a call's live transcript, a supervisor can whisper a private instruction into the
+// agent's next prompt, end the call with a polite goodbye, or take the call over by ringing a human
+// and bridging them in. Every intervention is written to call_events - the call's audit trail - and
+// broadcast over /ws.
+
+export type SupervisorAction = 'whisper' | 'hangup' | 'takeover';
+
+export class SupervisorService {
+  // Steer the agent's next reply; several whispers before it speaks are all applied
+  async whisper(callId: string, supervisor: string, instruction: string): Promise<CallEvent | undefined> {
+    const call = await this.getActiveCall(callId);
+    if (!call) return undefined;
+
+    await callSessionStore.update(callId, draft => {
+      draft.state.supervisorWhisper = draft.state.supervisorWhisper
+        ? `${draft.state.supervisorWhisper}\n${instruction}`
+        : instruction;
+    });
+
+    console.log(`🤫 ${supervisor} whispered to the agent on call ${callId}: "${instruction}"`);
+    return this.logEvent(callId, 'whisper', supervisor, instruction);
+  }
+
+  // Say goodbye in the campaign voice and hang up, wherever the agent is in its turn
+  async hangup(callId: string, supervisor: string): Promise<CallEvent | undefined> {
+    const call = await this.getActiveCall(callId);
+    if (!call) return undefined;
+
+    const campaign = await variantService.getCampaignForCall(call);
+    const language = call.language || campaign?.language || 'en';
+    const goodbye = getPhrases(language).supervisorGoodbye;
+    const speech = await callManager.getPhraseSpeech(campaign, goodbye, language);
+    await this.redirect(call, twilioService.generateTwiML('hangup', {
+      text: goodbye,
+      ...speech,
+      language
+    }));
+
+    await callSessionStore.appendTurn(callId, 'assistant', goodbye);
+    transcriptService.recordAgentLine(callId, goodbye, speech);
+    await storage.updateCall(callId, { disposition: 'supervisor_hangup' });
+
+    console.log(`🛑 ${supervisor} ended call ${callId}`);
+    return this.logEvent(callId, 'hangup', supervisor);
+  }
+
+  // Ring a human and bridge them in - if they don't pick up, the agent carries on
+  async takeOver(callId: string, supervisor: string, phone: string): Promise<CallEvent | undefined> {
+    const call = await this.getActiveCall(callId);
+    if (!call) return undefined;
+
+    const campaign = await variantService.getCampaignForCall(call);
+    const language = call.language || campaign?.language || 'en';
+    const line = getPhrases(language).supervisorTakeover;
+    const speech = await callManager.getPhraseSpeech(campaign, line, language);
+    const twiml = await transferService.beginTakeover(callId, phone, { text: line, ...speech });
+    await this.redirect(call, twiml);
+
+    await callSessionStore.appendTurn(callId, 'assistant', line);
+    transcriptService.recordAgentLine(callId, line, speech);
+
+    console.log(`🙋 ${supervisor} is taking over call ${callId} on ${phone}`);
+    return this.logEvent(callId, 'takeover', supervisor, phone);
+  }
+
+  // The call's audit trail, oldest first
+  async getEvents(callId: string): Promise<CallEvent[]> {
+    return storage.getCallEvents(callId);
+  }
+
+  private async getActiveCall(callId: string): Promise<Call | undefined> {
+    const call = await storage.getCall(callId);
+    return call?.status === 'active' && call.twilioCallSid ? call : undefined;
+  }
+
+  // Replace whatever the call is doing - a <Gather>, a media stream or a pending reply
+  private async redirect(call: Call, twiml: string): Promise<void> {
+    const result = await twilioService.redirectCall(call.twilioCallSid!, twiml);
+    if (!result.success) {
+      throw new Error(result.error || `Could not redirect call ${call.id}`);
+    }
+  }
+
+  private async logEvent(callId: string, type: SupervisorAction, actor: string, detail?: string): Promise<CallEvent> {
+    const event = await storage.createCallEvent({ callId, type, actor, detail: detail ?? null });
+    if ((global as any).broadcastToClients) {
+      (global as any).broadcastToClients({ type: 'call_event', callId, event });
+    }
+    return event;
+  }
+}
+
+// Export singleton instance
+export const supervisorService = new SupervisorService();
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { suppressionService } from './suppressionService';
+import { DirectSpeechService } from './directSpeechService';
+
+test('call opt-outs are heard after speech cleanup strips apostrophes', () => {
+  const cleaned = DirectSpeechService.validateSpeechInput("Please don't call me again.");
+  assert.equal(suppressionService.isCallOptOut(cleaned), true);
+  assert.equal(suppressionService.isCallOptOut("Please don't call me again."), true);
+  assert.equal(suppressionService.isCallOptOut('Please don’t call this number'), true);
+  assert.equal(suppressionService.isCallOptOut('Do not call me again'), true);
+});
+
+test('call opt-outs need a full phrase, not a scheduling request', () => {
+  assert.equal(suppressionService.isCallOptOut("Don't call me after 6"), false);
+  assert.equal(suppressionService.isCallOptOut('not interested'), false);
+});
+
+test('call opt-outs match in the languages the agent speaks', () => {
+  assert.equal(suppressionService.isCallOptOut('mujhe dobara call mat karna'), true);
+  assert.equal(suppressionService.isCallOptOut('कृपया दोबारा कॉल मत करना'), true);
+});
+
+test('phone keys compare the last ten digits', () => {
+  assert.equal(suppressionService.phoneKey('+91 98765-43210'), '9876543210');
+  assert.equal(suppressionService.phoneKey('098765 43210'), '9876543210');
+  assert.equal(suppressionService.phoneKey('12345'), undefined);
+});
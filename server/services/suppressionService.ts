@@ -0,0 +1,159 @@
+import type { InsertSuppression, Suppression, SuppressionChannel } from '@shared/schema';
+import { storage } from '../storage';
+import { languageService } from './languageService';
+
+// Do-not-contact registry
+// Opt-outs heard on calls, STOP keywords on WhatsApp and uploaded national DNC lists all land in
+// the suppressions table. Every outbound path (calls, WhatsApp templates, email) checks it before
+// contacting anyone. Entries are matched on the last 10 digits of the number so local and
+// international formats of the same number collide.
+
+const PHONE_KEY_DIGITS = 10;
+// DNC files are checked and inserted in chunks so a national list doesn't build one giant query
+const IMPORT_CHUNK_SIZE = 1000;
+
+// Inbound WhatsApp messages that mean "stop messaging me"
+const WHATSAPP_STOP_KEYWORDS = ['stop', 'unsubscribe', 'stop all', 'opt out', 'optout', 'cancel', 'remove me'];
+
+// Phrases on a call that mean "don't call me again" - a plain "not interested" only ends the call,
+// and "don't call me after 6" must not suppress anyone, so the call phrases name the number or "again".
+// Callers can opt out in any language the agent speaks (see LanguageService).
+const CALL_OPT_OUT_PHRASES = [
+  'stop calling',
+  'remove my number',
+  'take me off your list',
+  'take my number off',
+  'do not call me again',
+  'do not call me anymore',
+  'do not call this number',
+  "don't call me again",
+  "don't call me anymore",
+  "don't call this number",
+  "don't ever call",
+  'never call me again',
+  'never call this number',
+  'unsubscribe'
+];
+
+// Speech cleanup (DirectSpeechService) strips apostrophes, so "don't" arrives as "dont" - compare both
+// sides without them and with whitespace collapsed
+function normalizeOptOutText(text: string): string {
+  return text.toLowerCase().replace(/['\u2018\u2019`]/g, '').replace(/\s+/g, ' ');
+}
+
+export interface DncImportResult {
+  added: number;
+  alreadySuppressed: number;
+  invalid: number;
+}
+
+export class SuppressionService {
+  // Comparable form of a phone number - undefined when it has too few digits to be one
+  phoneKey(phone: string | null | undefined): string | undefined {
+    const digits = phone?.replace(/\D/g, '') || '';
+    return digits.length >= PHONE_KEY_DIGITS ? digits.slice(-PHONE_KEY_DIGITS) : undefined;
+  }
+
+  isWhatsAppStopKeyword(text: string): boolean {
+    return WHATSAPP_STOP_KEYWORDS.includes(text.trim().toLowerCase().replace(/[.!]+$/, ''));
+  }
+
+  isCallOptOut(speechText: string): boolean {
+    const normalized = normalizeOptOutText(speechText);
+    return CALL_OPT_OUT_PHRASES.some(phrase => normalized.includes(normalizeOptOutText(phrase))) || languageService.matchesPhrase(speechText, 'optOutPhrases');
+  }
+
+  // Active entry blocking this phone or email on the channel, if any
+  async findSuppression(
+    target: { phone?: string | null; email?: string | null },
+    channel: Exclude<SuppressionChannel, 'all'>
+  ): Promise<Suppression | undefined> {
+    const [match] = await storage.findActiveSuppressions({
+      phoneKey: this.phoneKey(target.phone),
+      email: target.email?.trim() || undefined
+    }, channel);
+    return match;
+  }
+
+  async isSuppressed(
+    target: { phone?: string | null; email?: string | null },
+    channel: Exclude<SuppressionChannel, 'all'>
+  ): Promise<boolean> {
+    return !!(await this.findSuppression(target, channel));
+  }
+
+  // Add an entry, reusing an active one that already covers the same person and channel
+  async add(entry: InsertSuppression): Promise<Suppression> {
+    const channel = (entry.channel || 'all') as SuppressionChannel;
+    const [existing] = await storage.findActiveSuppressions({
+      phoneKey: this.phoneKey(entry.phone),
+      email: entry.email?.trim() || undefined
+    }, channel);
+    if (existing) return existing;
+
+    const [suppression] = await storage.createSuppressions([{
+      ...entry,
+      phone: entry.phone?.trim() || null,
+      phoneKey: this.phoneKey(entry.phone) || null,
+      email: entry.email?.trim() || null,
+      channel
+    }]);
+
+    console.log(`🚫 Suppressed ${suppression.phone || suppression.email} on ${suppression.channel} (${suppression.source})`);
+    this.broadcast(suppression);
+    return suppression;
+  }
+
+  // Lift an entry so the person can be contacted again
+  async lift(id: string, liftReason?: string): Promise<Suppression | undefined> {
+    const lifted = await storage.liftSuppression(id, liftReason);
+    if (lifted) {
+      console.log(`✅ Lifted suppression for ${lifted.phone || lifted.email}`);
+      this.broadcast(lifted);
+    }
+    return lifted;
+  }
+
+  // Load a national do-not-call list: one number per line, or CSV with numbers in any column
+  async importDncList(content: string, reason: string): Promise<DncImportResult> {
+    const phones = new Map<string, string>();
+    let invalid = 0;
+
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      const numbers = line
+        .split(/[,;\t|]/)
+        .map(cell => cell.trim().replace(/^"|"$/g, ''))
+        .filter(cell => /^\+?[\d\s\-().]+$/.test(cell) && this.phoneKey(cell) && cell.replace(/\D/g, '').length <= 15);
+
+      if (numbers.length === 0) {
+        invalid++;
+        continue;
+      }
+      for (const phone of numbers) phones.set(this.phoneKey(phone)!, phone);
+    }
+
+    const keys = Array.from(phones.keys());
+    let added = 0;
+    for (let i = 0; i < keys.length; i += IMPORT_CHUNK_SIZE) {
+      const chunk = keys.slice(i, i + IMPORT_CHUNK_SIZE);
+      const existing = new Set(await storage.getActiveSuppressedPhoneKeys(chunk));
+      const created = await storage.createSuppressions(chunk
+        .filter(key => !existing.has(key))
+        .map(key => ({ phone: phones.get(key)!, phoneKey: key, channel: 'all', source: 'dnc_list', reason })));
+      added += created.length;
+    }
+
+    console.log(`🚫 DNC import: ${added} added, ${keys.length - added} already suppressed, ${invalid} lines without a number`);
+    return { added, alreadySuppressed: keys.length - added, invalid };
+  }
+
+  private broadcast(suppression: Suppression): void {
+    if ((global as any).broadcastToClients) {
+      (global as any).broadcastToClients({ type: 'suppression_updated', suppression });
+    }
+  }
+}
+
+// Export singleton instance
+export const suppressionService = new SuppressionService();
@@ -0,0 +1,109 @@
+import { randomUUID } from 'crypto';
+import type { CallTranscription } from '@shared/schema';
+import { storage } from '../storage';
+import { wavToPcm16 } from './audioCodec';
+import { mediaStore } from './mediaStorage';
+import { mediaUrlService } from './mediaUrlService';
+import type { Speech } from './ttsService';
+
+// Live call transcripts
+// Every caller utterance and agent line is written to call_transcriptions as it is heard, with its
+// offset from the start of the call, its duration and the STT confidence, and pushed over /ws so open
+// transcripts update as the call goes. Caller audio we hold (a <Record>ing or a streamed utterance)
+// is kept as the segment's audio, under segments/ in the media store; agent lines point at their
+// rendered TTS audio. Rows keep the bare media path, and links are signed afresh whenever they are read.
+
+export type TranscriptSpeaker = 'customer' | 'ai_agent';
+
+export interface TranscriptSegment {
+  speaker: TranscriptSpeaker;
+  transcript: string;
+  // When the segment began - defaults to now for agent lines, and to now minus the duration for
+  // caller turns, which only reach us once the caller has finished
+  startedAt?: Date;
+  durationMs?: number; // Taken from the audio, or estimated from the words, when unknown
+  confidence?: number | null;
+  audio?: Buffer; // Caller WAV to keep as the segment
+  audioUrl?: string; // Audio already served elsewhere, e.g. the TTS cache
+}
+
+const SEGMENT_FILE_PATTERN = /^[a-f0-9-]{36}\.wav$/;
+const CALL_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+const SPOKEN_MS_PER_WORD = 400; // ~150 words a minute
+
+export class TranscriptService {
+  // Persist and broadcast one spoken segment - never throws, a transcript must not break the call
+  async record(callId: string, segment: TranscriptSegment): Promise<CallTranscription | undefined> {
+    const transcript = segment.transcript.trim();
+    if (!callId || !transcript) return undefined;
+
+    try {
+      const durationMs = segment.durationMs ?? this.getAudioDurationMs(segment.audio) ?? this.estimateDurationMs(transcript);
+      const startedAt = segment.startedAt
+        ?? (segment.speaker === 'customer' ? new Date(Date.now() - durationMs) : new Date());
+
+      const call = await storage.getCall(callId);
+      if (!call) return undefined;
+
+      const audioSegmentUrl = segment.audio ? await this.saveSegment(callId, segment.audio) : mediaUrlService.toStoredPath(segment.audioUrl);
+      const transcription = await storage.createCallTranscription({
+        callId,
+        speaker: segment.speaker,
+        transcript,
+        timestamp: startedAt,
+        confidence: segment.confidence ?? null,
+        startOffset: Math.max(0, (startedAt.getTime() - call.startTime.getTime()) / 1000),
+        duration: Math.round(durationMs / 100) / 10,
+        audioSegmentUrl: audioSegmentUrl || null
+      });
+
+      if ((global as any).broadcastToClients) {
+        (global as any).broadcastToClients({ type: 'call_transcription', callId, transcription: this.withSignedAudio(transcription) });
+      }
+      return transcription;
+    } catch (error) {
+      console.error(`❌ Could not save transcript segment for call ${callId}:`, error);
+      return undefined;
+    }
+  }
+
+  // An agent line returned in TwiML - it starts playing as the response reaches Twilio
+  recordAgentLine(callId: string, text: string, speech?: Speech): Promise<CallTranscription | undefined> {
+    return this.record(callId, { speaker: 'ai_agent', transcript: text, audioUrl: speech?.audioUrl });
+  }
+
+  // A transcript segment as handed to clients, with a playable link to its audio
+  withSignedAudio(transcription: CallTranscription): CallTranscription {
+    return { ...transcription, audioSegmentUrl: mediaUrlService.signStored(transcription.audioSegmentUrl) };
+  }
+
+  // Serve a kept caller segment - undefined for unknown or malformed names
+  async readSegment(callId: string, file: string): Promise<Buffer | undefined> {
+    if (!CALL_ID_PATTERN.test(callId) || !SEGMENT_FILE_PATTERN.test(file)) return undefined;
+    return mediaStore.get(`segments/${callId}/${file}`);
+  }
+
+  private async saveSegment(callId: string, wav: Buffer): Promise<string | undefined> {
+    if (!CALL_ID_PATTERN.test(callId)) return undefined;
+    const file = `${randomUUID()}.wav`;
+    await mediaStore.put(`segments/${callId}/${file}`, wav, 'audio/wav');
+    return `/audio/segments/${callId}/${file}`;
+  }
+
+  private getAudioDurationMs(wav?: Buffer): number | undefined {
+    if (!wav) return undefined;
+    try {
+      const { pcm, sampleRate } = wavToPcm16(wav);
+      return (pcm.length / 2 / sampleRate) * 1000;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private estimateDurationMs(text: string): number {
+    return text.split(/\s+/).length * SPOKEN_MS_PER_WORD;
+  }
+}
+
+// Export singleton instance
+export const transcriptService = new TranscriptService();
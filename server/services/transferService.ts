@@ -0,0 +1,243 @@
+import type { Campaign, TransferPolicy, TransferReason } from '@shared/schema';
+import { transferPolicySchema } from '@shared/schema';
+import { storage } from '../storage';
+import { getBaseUrl } from '../config/environment';
+import { twilioService } from './twilioService';
+import { ttsService, type Speech } from './ttsService';
+import { sttService } from './sttService';
+import { transcriptService } from './transcriptService';
+import { getPhrases } from './phrases';
+import { callSessionStore, type CallSession } from './callSessionStore';
+import { variantService } from './variantService';
+
+// Warm transfer to a human rep
+// A campaign's transfer policy says when the agent hands over (the caller asks for a person, the
+// model flags buying intent, or the conversation reaches certain stages) and which reps to ring.
+// The caller hears a handoff line, the call is bridged with <Dial>, and the rep who answers hears
+// a spoken summary of the call before being connected.
+
+// Phrases that mean the caller wants a person rather than the agent
+const HUMAN_REQUEST_PHRASES = [
+  'speak to a human',
+  'talk to a human',
+  'speak to a person',
+  'talk to a person',
+  'real person',
+  'speak to someone',
+  'talk to someone',
+  'speak with someone',
+  'speak to a representative',
+  'talk to a representative',
+  'speak to your manager',
+  'talk to your manager',
+  'sales person',
+  'salesperson'
+];
+
+// Dial outcomes that mean a rep picked up
+const ANSWERED_DIAL_STATUSES = ['completed', 'answered'];
+
+const REASON_DESCRIPTIONS: Record<TransferReason, string> = {
+  caller_request: 'the caller asked to speak with a person',
+  high_intent: 'the caller sounds ready to buy',
+  stage: 'the call reached a handoff stage',
+  supervisor: 'a supervisor took the call over'
+};
+
+const TAKEOVER_RING_TIMEOUT_SECONDS = 30;
+
+export class TransferService {
+  // Transfer policy for a campaign - null when calls always stay with the agent
+  getPolicy(campaign: Campaign): TransferPolicy | null {
+    if (!campaign.transferPolicy) return null;
+    const policy = transferPolicySchema.safeParse(campaign.transferPolicy);
+    return policy.success ? policy.data : null;
+  }
+
+  // Whether this call may still be handed over
+  canTransfer(campaign: Campaign, session: CallSession): boolean {
+    return !!this.getPolicy(campaign) && !session.state.transferAttempted;
+  }
+
+  // The caller asked for a person and the campaign hands those calls over
+  isCallerRequest(campaign: Campaign, session: CallSession, speechText: string): boolean {
+    if (!this.canTransfer(campaign, session) || !this.getPolicy(campaign)!.onCallerRequest) return false;
+    const lowerText = speechText.toLowerCase();
+    return HUMAN_REQUEST_PHRASES.some(phrase => lowerText.includes(phrase));
+  }
+
+  // Transfer triggered by the agent's reply: an intent flag from the model or a handoff stage
+  getReplyTrigger(
+    campaign: Campaign,
+    session: CallSession,
+    outcome: { transferRequested: boolean; previousStageId: string; nextStageId: string }
+  ): TransferReason | undefined {
+    if (!this.canTransfer(campaign, session)) return undefined;
+    const policy = this.getPolicy(campaign)!;
+
+    if (policy.onHighIntent && outcome.transferRequested) return 'high_intent';
+    if (outcome.nextStageId !== outcome.previousStageId && policy.onStages.includes(outcome.nextStageId)) return 'stage';
+    return undefined;
+  }
+
+  // Prompt lines that let the model flag a hot prospect
+  buildPromptInstructions(campaign: Campaign): string | undefined {
+    const policy = this.getPolicy(campaign);
+    if (!policy?.onHighIntent) return undefined;
+
+    return `HANDOFF TO SALES:
+If the caller shows clear buying intent (wants to sign up, asks for pricing to get started, or asks for a meeting), end your reply with <<transfer>>.
+A team member will take over - do not ask another question in that reply.`;
+  }
+
+  // Log the transfer and persist the handoff line the caller is about to hear
+  async begin(session: CallSession, campaign: Campaign, reason: TransferReason): Promise<string> {
+    const policy = this.getPolicy(campaign)!;
+
+    await callSessionStore.update(session.id, draft => {
+      draft.state.transferAttempted = true;
+    });
+    session.state.transferAttempted = true;
+
+    await callSessionStore.appendTurn(session.id, 'assistant', policy.announcement);
+    await storage.updateCall(session.id, {
+      transferStatus: 'initiated',
+      transferReason: reason,
+      transferredAt: new Date()
+    });
+
+    console.log(`🤝 Transferring call ${session.id} to a rep (${reason})`);
+    this.broadcast(session.id, 'initiated', reason);
+    return policy.announcement;
+  }
+
+  // TwiML that speaks the handoff line (if it could be voiced) and rings the campaign's reps
+  buildDialTwiML(callId: string, campaign: Campaign, targetIndex = 0, announcement: Speech & { text?: string } = {}): string {
+    const policy = this.getPolicy(campaign)!;
+    const sequential = policy.ringStrategy === 'sequential';
+    const baseUrl = getBaseUrl();
+
+    return twilioService.generateDialTwiML({
+      numbers: sequential ? [policy.targets[targetIndex]] : policy.targets,
+      action: `${baseUrl}/api/calls/${callId}/transfer/status?target=${targetIndex}`,
+      whisperUrl: `${baseUrl}/api/calls/${callId}/transfer/whisper`,
+      timeout: policy.ringTimeoutSeconds,
+      ...announcement
+    });
+  }
+
+  // A supervisor takes the call over - they are rung like a rep and hear the same summary first
+  async beginTakeover(callId: string, phone: string, announcement: Speech & { text?: string } = {}): Promise<string> {
+    await callSessionStore.update(callId, draft => {
+      draft.state.transferAttempted = true;
+    });
+    await storage.updateCall(callId, {
+      transferStatus: 'initiated',
+      transferReason: 'supervisor',
+      transferredAt: new Date()
+    });
+    this.broadcast(callId, 'initiated', 'supervisor');
+
+    const baseUrl = getBaseUrl();
+    return twilioService.generateDialTwiML({
+      numbers: [phone],
+      action: `${baseUrl}/api/calls/${callId}/transfer/status?target=0`,
+      whisperUrl: `${baseUrl}/api/calls/${callId}/transfer/whisper`,
+      timeout: TAKEOVER_RING_TIMEOUT_SECONDS,
+      ...announcement
+    });
+  }
+
+  // A rep picked up - record who and return the summary they hear before the bridge
+  async handleRepAnswered(callId: string, repNumber: string): Promise<string> {
+    await storage.updateCall(callId, { transferStatus: 'connected', transferredTo: repNumber });
+    this.broadcast(callId, 'connected');
+    console.log(`🤝 Rep ${repNumber} answered transfer for call ${callId}`);
+    return twilioService.generateWhisperTwiML(await this.buildWhisper(callId));
+  }
+
+  // <Dial> finished - hang up after a bridged call, try the next rep, or fall back
+  // A supervisor who misses their takeover leaves the call with the agent, whatever the campaign policy
+  async handleDialResult(callId: string, dialStatus: string, targetIndex: number): Promise<string> {
+    const call = await storage.getCall(callId);
+    const campaign = call ? await variantService.getCampaignForCall(call) : undefined;
+    const policy = campaign && this.getPolicy(campaign);
+    const takeover = call?.transferReason === 'supervisor';
+    if (!call || !campaign || (!policy && !takeover)) return twilioService.generateTwiML('hangup');
+
+    if (ANSWERED_DIAL_STATUSES.includes(dialStatus) || call.transferStatus === 'connected') {
+      console.log(`✅ Transferred call ${callId} finished with rep ${call.transferredTo}`);
+      return twilioService.generateTwiML('hangup');
+    }
+
+    if (policy && !takeover && policy.ringStrategy === 'sequential' && targetIndex + 1 < policy.targets.length) {
+      console.log(`🔁 Rep ${policy.targets[targetIndex]} did not answer (${dialStatus}), trying the next one`);
+      return this.buildDialTwiML(callId, campaign, targetIndex + 1);
+    }
+
+    await storage.updateCall(callId, { transferStatus: dialStatus });
+    this.broadcast(callId, dialStatus);
+
+    const resume = takeover || policy!.fallback === 'resume';
+    console.log(`⚠️ Transfer for call ${callId} failed (${dialStatus}), falling back to ${resume ? 'resume' : 'hangup'}`);
+    const language = call.language || campaign.language;
+    const phrases = getPhrases(language);
+    const text = resume ? phrases.transferBusyResume : phrases.transferBusyHangup;
+    await callSessionStore.appendTurn(callId, 'assistant', text);
+
+    try {
+      const speech = await ttsService.getSpeech(campaign, text, language);
+      transcriptService.recordAgentLine(callId, text, speech);
+      // The call continues over <Gather> even if it started on a media stream
+      return resume
+        ? twilioService.generateTwiML('gather', {
+          text,
+          ...speech,
+          action: `/api/calls/${callId}/process-speech`,
+          ...sttService.getListenOptions(campaign, language)
+        })
+        : twilioService.generateTwiML('hangup', { text, ...speech, language });
+    } catch (error) {
+      console.error('❌ Transfer fallback rendering failed, hanging up:', error);
+      return twilioService.generateTwiML('hangup');
+    }
+  }
+
+  // What the rep hears: who is on the line, why they were transferred and what was collected
+  private async buildWhisper(callId: string): Promise<string> {
+    const session = await callSessionStore.load(callId);
+    const call = await storage.getCall(callId);
+    const contact = session?.contactId ? await storage.getContact(session.contactId) : undefined;
+    const campaign = session?.campaignId ? await storage.getCampaign(session.campaignId) : undefined;
+
+    const parts = [`Transfer from the AI agent${campaign ? ` for ${campaign.name}` : ''}.`];
+    if (contact) {
+      parts.push(`You are speaking with ${contact.name}${contact.company ? ` from ${contact.company}` : ''}.`);
+    }
+    if (call?.transferReason) {
+      parts.push(`Transferred because ${REASON_DESCRIPTIONS[call.transferReason as TransferReason] || call.transferReason}.`);
+    }
+
+    const slots = Object.entries(session?.slots || {});
+    if (slots.length > 0) {
+      parts.push(`Details collected: ${slots.map(([name, slot]) => `${name.replace(/_/g, ' ')}, ${slot.value}`).join('; ')}.`);
+    }
+
+    const lastUtterance = session?.conversationHistory.filter(turn => turn.role === 'user').pop();
+    if (lastUtterance) {
+      parts.push(`They last said: ${lastUtterance.content}.`);
+    }
+
+    parts.push('Connecting you now.');
+    return parts.join(' ');
+  }
+
+  private broadcast(callId: string, status: string, reason?: TransferReason): void {
+    if ((global as any).broadcastToClients) {
+      (global as any).broadcastToClients({ type: 'call_transfer', callId, status, reason });
+    }
+  }
+}
+
+// Export singleton instance
+export const transferService = new TransferService();
@@ -0,0 +1,244 @@
+import { createHash } from 'crypto';
+import type { Campaign, TransferPolicy } from '@shared/schema';
+import { fillPhrase, getPhrases, getRecordingConsent } from './phrases';
+import { getCampaignVoices, ttsProviders, type AudioFormat, type VoiceSettings } from './ttsProviders';
+import { getMediaContentType, mediaStore, type MediaStore } from './mediaStorage';
+import { mediaUrlService } from './mediaUrlService';
+import { simulatorStubs } from './simulatorStubs';
+import { variantService } from './variantService';
+
+// Content-addressed TTS cache
+// Rendered audio is stored under a hash of the text, provider, voice and voice settings, so the same
+// line in the same voice is only ever synthesized once. Campaign intros and fixed phrases are
+// rendered ahead of time when a campaign is saved or started. Audio lives under tts-cache/ in the
+// media store, and least recently used entries are evicted once the cache outgrows its size or age limit.
+
+const FILE_EXTENSIONS: Record<AudioFormat, string> = { mp3: 'mp3', wav: 'wav', ulaw_8000: 'ulaw' };
+const CACHE_FILE_PATTERN = /^[a-f0-9]{64}\.(mp3|wav|ulaw)$/;
+const CACHE_PREFIX = 'tts-cache/';
+
+const DEFAULT_MAX_MB = 500;
+const DEFAULT_MAX_AGE_DAYS = 30;
+const EVICTION_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface CachedAudioFile {
+  file: string;
+  size: number;
+  lastAccessedAt: Date;
+}
+
+export interface TtsCacheStats {
+  backend: string;
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+  maxAgeDays: number;
+  hits: number; // Since the server started
+  misses: number;
+  renders: number;
+  hitRate: number;
+  oldestAccessAt: Date | null;
+}
+
+export class TtsCacheService {
+  private readonly store: MediaStore;
+  private readonly maxBytes: number;
+  private readonly maxAgeDays: number;
+  private readonly inFlight = new Map<string, Promise<Buffer>>();
+  private counters = { hits: 0, misses: 0, renders: 0 };
+  private timer?: NodeJS.Timeout;
+
+  constructor(store: MediaStore = mediaStore) {
+    this.store = store;
+    this.maxBytes = (Number(process.env.TTS_CACHE_MAX_MB) || DEFAULT_MAX_MB) * 1024 * 1024;
+    this.maxAgeDays = Number(process.env.TTS_CACHE_MAX_AGE_DAYS) || DEFAULT_MAX_AGE_DAYS;
+  }
+
+  // Cache file name for a line in a voice - anything that changes the audio changes the hash
+  getFileName(text: string, voice: VoiceSettings, format: AudioFormat): string {
+    const hash = createHash('sha256')
+      .update(JSON.stringify([text.trim(), voice.provider, voice.voiceId, voice.language, voice.model, voice.stability, voice.similarityBoost, voice.style, voice.speakerBoost, format]))
+      .digest('hex');
+    return `${hash}.${FILE_EXTENSIONS[format]}`;
+  }
+
+  // Cached audio for the line, if it has been rendered before
+  async lookup(text: string, voice: VoiceSettings, format: AudioFormat): Promise<Buffer | undefined> {
+    const file = this.getFileName(text, voice, format);
+    const audio = await this.store.get(CACHE_PREFIX + file);
+    if (audio) {
+      this.counters.hits++;
+      this.store.touch(CACHE_PREFIX + file).catch(error => console.error('❌ TTS cache touch failed:', error));
+    } else {
+      this.counters.misses++;
+    }
+    return audio;
+  }
+
+  // Keep audio rendered elsewhere, e.g. a streamed sentence once it has finished
+  async save(text: string, voice: VoiceSettings, format: AudioFormat, audio: Buffer): Promise<void> {
+    if (audio.length === 0) return;
+    await this.store.put(CACHE_PREFIX + this.getFileName(text, voice, format), audio);
+  }
+
+  // Cached audio, rendering it (once, even for concurrent callers) on a miss
+  async getAudio(text: string, voice: VoiceSettings, format: AudioFormat = 'mp3'): Promise<{ file: string; audio: Buffer }> {
+    const file = this.getFileName(text, voice, format);
+    const cached = await this.lookup(text, voice, format);
+    if (cached) return { file, audio: cached };
+
+    let rendering = this.inFlight.get(file);
+    if (!rendering) {
+      rendering = this.render(text, voice, format)
+        .then(async audio => {
+          await this.store.put(CACHE_PREFIX + file, audio);
+          return audio;
+        })
+        .finally(() => this.inFlight.delete(file));
+      this.inFlight.set(file, rendering);
+    }
+    return { file, audio: await rendering };
+  }
+
+  // Signed URL of a cached file, for <Play>
+  getUrl(file: string): string {
+    return mediaUrlService.sign(`/audio/tts/${file}`);
+  }
+
+  // Serve a cached file by name - undefined for unknown or malformed names
+  async read(file: string): Promise<Buffer | undefined> {
+    if (!CACHE_FILE_PATTERN.test(file)) return undefined;
+    return this.store.get(CACHE_PREFIX + file);
+  }
+
+  getContentType(file: string): string {
+    return getMediaContentType(file);
+  }
+
+  // Lines every call of this campaign may say word for word
+  getCampaignPhrases(campaign: Campaign): string[] {
+    const transferPolicy = campaign.transferPolicy as TransferPolicy | null;
+    const phrases = [
+      campaign.introLine,
+      campaign.voicemailAction === 'leave_message' ? campaign.voicemailMessage : null,
+      transferPolicy?.announcement,
+      getRecordingConsent(campaign),
+      // The caller's name is only known on the call, so the greeting by name is rendered then
+      ...Object.values(getPhrases(campaign.language))
+        .filter(phrase => !phrase.includes('{name}'))
+        .map(phrase => fillPhrase(phrase, { agent: campaign.agentName }))
+    ];
+    return Array.from(new Set(phrases.filter((phrase): phrase is string => !!phrase?.trim())));
+  }
+
+  // Render a campaign's fixed lines ahead of its first call, in its backup voice and every A/B variant too
+  async prerenderCampaign(campaign: Campaign): Promise<{ rendered: number; cached: number; failed: number }> {
+    const result = { rendered: 0, cached: 0, failed: 0 };
+    // Stubbed voices speak through <Say>, and nothing they'd render should end up in the cache
+    if (simulatorStubs.isEnabled()) return result;
+
+    // Variants sharing a voice or a line share its render
+    const jobs = new Map<string, { text: string; voice: VoiceSettings; format: AudioFormat }>();
+    for (const variant of variantService.expand(campaign)) {
+      const renders: Array<{ voice: VoiceSettings; format: AudioFormat }> = [];
+      for (const voice of getCampaignVoices(variant)) {
+        const playFormat = ttsProviders[voice.provider].playFormat;
+        if (!playFormat) continue; // Twilio speaks these itself
+        renders.push({ voice, format: playFormat });
+        // Streaming campaigns play μ-law over the socket, and fall back to <Play> for transfers and errors
+        if (variant.callMode === 'stream') renders.push({ voice, format: 'ulaw_8000' });
+      }
+      for (const text of this.getCampaignPhrases(variant)) {
+        for (const { voice, format } of renders) {
+          jobs.set(this.getFileName(text, voice, format), { text, voice, format });
+        }
+      }
+    }
+
+    for (const [file, { text, voice, format }] of Array.from(jobs)) {
+      try {
+        const exists = await this.store.get(CACHE_PREFIX + file);
+        if (exists) {
+          result.cached++;
+          continue;
+        }
+        await this.getAudio(text, voice, format);
+        result.rendered++;
+      } catch (error) {
+        result.failed++;
+        console.error(`❌ Pre-rendering "${text}" in ${voice.provider} voice ${voice.voiceId} for campaign ${campaign.id} failed:`, error);
+      }
+    }
+
+    console.log(`🗄️ Pre-rendered campaign ${campaign.id}: ${result.rendered} rendered, ${result.cached} already cached, ${result.failed} failed`);
+    return result;
+  }
+
+  async getStats(): Promise<TtsCacheStats> {
+    const files = await this.listFiles();
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      backend: this.store.name,
+      entries: files.length,
+      totalBytes: files.reduce((total, file) => total + file.size, 0),
+      maxBytes: this.maxBytes,
+      maxAgeDays: this.maxAgeDays,
+      ...this.counters,
+      hitRate: lookups > 0 ? this.counters.hits / lookups : 0,
+      oldestAccessAt: files.length > 0 ? new Date(Math.min(...files.map(file => file.lastAccessedAt.getTime()))) : null
+    };
+  }
+
+  // Drop entries unused for longer than the age limit, then the least recently used until under the size limit
+  async evict(options: { all?: boolean } = {}): Promise<{ removed: number; freedBytes: number }> {
+    const files = (await this.listFiles()).sort((a, b) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime());
+    const expiredBefore = Date.now() - this.maxAgeDays * 24 * 60 * 60 * 1000;
+    let totalBytes = files.reduce((total, file) => total + file.size, 0);
+    let removed = 0;
+    let freedBytes = 0;
+
+    for (const file of files) {
+      const expired = file.lastAccessedAt.getTime() < expiredBefore;
+      if (!options.all && !expired && totalBytes <= this.maxBytes) break;
+
+      await this.store.delete(CACHE_PREFIX + file.file);
+      totalBytes -= file.size;
+      freedBytes += file.size;
+      removed++;
+    }
+
+    if (removed > 0) {
+      console.log(`🗄️ Evicted ${removed} cached audio files (${Math.round(freedBytes / 1024)} KB)`);
+    }
+    return { removed, freedBytes };
+  }
+
+  // Start the periodic eviction loop
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.evict().catch(error => console.error('❌ TTS cache eviction failed:', error));
+    }, EVICTION_INTERVAL_MS);
+    console.log(`🗄️ TTS cache using ${this.store.name} storage`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async listFiles(): Promise<CachedAudioFile[]> {
+    const objects = await this.store.list(CACHE_PREFIX);
+    return objects
+      .map(object => ({ file: object.key.slice(CACHE_PREFIX.length), size: object.size, lastAccessedAt: object.lastAccessedAt }))
+      .filter(entry => CACHE_FILE_PATTERN.test(entry.file));
+  }
+
+  private async render(text: string, voice: VoiceSettings, format: AudioFormat): Promise<Buffer> {
+    this.counters.renders++;
+    return ttsProviders[voice.provider].synthesize(text, voice, format);
+  }
+}
+
+// Export singleton instance
+export const ttsCacheService = new TtsCacheService();
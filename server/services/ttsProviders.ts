@@ -0,0 +1,266 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import type { Campaign, TtsProviderName, TtsVoice } from '@shared/schema';
+import { ElevenLabsService } from './elevenlabsService';
+import { languageService, type LanguageProfile } from './languageService';
+import { MULAW_SAMPLE_RATE, pcm16ToMulaw, pcm16ToWav, resamplePcm16, wavToPcm16 } from './audioCodec';
+
+// Text-to-speech providers
+// ElevenLabs renders mp3 for <Play> and streams μ-law for Media Streams. The local engine
+// (Piper, or espeak-ng) renders WAV on this machine, so it keeps working offline and out of quota.
+// Twilio voices are never rendered here - the line goes into the TwiML as <Say> and Twilio speaks it.
+// ttsService decides which provider speaks a line and fails over to the campaign's backup voice.
+
+export type AudioFormat = 'mp3' | 'wav' | 'ulaw_8000'; // mp3/wav for <Play>, 8kHz μ-law for Media Streams
+
+// One voice of one provider, with everything that changes how it sounds
+export interface VoiceSettings {
+  provider: TtsProviderName;
+  voiceId: string;
+  language?: string; // Twilio <Say> language
+  // ElevenLabs only
+  model?: string;
+  stability?: number;
+  similarityBoost?: number;
+  style?: number;
+  speakerBoost?: boolean;
+}
+
+// ElevenLabs settings saved on a campaign (campaigns.voiceConfig) - anything missing uses the default
+interface CampaignVoiceConfig {
+  stability?: number;
+  similarityBoost?: number;
+  style?: number;
+  useSpeakerBoost?: boolean;
+}
+
+export interface TtsVoiceOption {
+  id: string;
+  name: string;
+}
+
+export interface TtsProvider {
+  readonly name: TtsProviderName;
+  readonly label: string;
+  readonly defaultVoice: string;
+  readonly playFormat: AudioFormat | null; // What Twilio <Play>s; null when Twilio speaks the text itself
+  isConfigured(): boolean;
+  listVoices(): Promise<TtsVoiceOption[]>;
+  synthesize(text: string, voice: VoiceSettings, format: AudioFormat): Promise<Buffer>;
+  // μ-law chunks as they are generated - providers without it are rendered whole
+  stream?(text: string, voice: VoiceSettings, signal?: AbortSignal): AsyncGenerator<Buffer>;
+  // The voice to switch to when a call moves into another language - providers without it keep their voice
+  voiceFor?(language: LanguageProfile): string | undefined;
+}
+
+const LOCAL_TTS_TIMEOUT_MS = 20000;
+
+// ElevenLabs models that only speak English, and the one used instead for other languages
+const ENGLISH_ONLY_MODELS = ['eleven_turbo_v2', 'eleven_flash_v2', 'eleven_monolingual_v1', 'eleven_english_v1'];
+const MULTILINGUAL_MODEL = 'eleven_turbo_v2_5';
+
+export class ElevenLabsTtsProvider implements TtsProvider {
+  readonly name = 'elevenlabs';
+  readonly label = 'ElevenLabs';
+  readonly defaultVoice = '21m00Tcm4TlvDq8ikWAM';
+  readonly playFormat = 'mp3';
+
+  isConfigured(): boolean {
+    return !!process.env.ELEVENLABS_API_KEY;
+  }
+
+  async listVoices(): Promise<TtsVoiceOption[]> {
+    const voices = await ElevenLabsService.getVoices();
+    return voices.map(voice => ({ id: voice.voice_id, name: voice.name }));
+  }
+
+  async synthesize(text: string, voice: VoiceSettings, format: AudioFormat): Promise<Buffer> {
+    if (format === 'mp3') {
+      return ElevenLabsService.textToSpeech(text, voice.voiceId, { ...voice, addTypingSound: false });
+    }
+    if (format === 'ulaw_8000') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of this.stream(text, voice)) {
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks);
+    }
+    throw new Error(`ElevenLabs does not render ${format}`);
+  }
+
+  stream(text: string, voice: VoiceSettings, signal?: AbortSignal): AsyncGenerator<Buffer> {
+    return ElevenLabsService.streamSpeech(text, voice.voiceId, voice, signal);
+  }
+}
+
+// Suggested voices - any voice Twilio's <Say> accepts works
+const TWILIO_VOICES: TtsVoiceOption[] = [
+  { id: 'Polly.Aditi', name: 'Aditi (Hindi / Indian English, female)' },
+  { id: 'Polly.Raveena', name: 'Raveena (Indian English, female)' },
+  { id: 'Polly.Kajal-Neural', name: 'Kajal (Indian English, female, neural)' },
+  { id: 'Polly.Joanna-Neural', name: 'Joanna (US English, female, neural)' },
+  { id: 'Polly.Matthew-Neural', name: 'Matthew (US English, male, neural)' },
+  { id: 'Polly.Amy-Neural', name: 'Amy (British English, female, neural)' },
+  { id: 'alice', name: 'Alice (Twilio)' },
+];
+
+export class TwilioSayTtsProvider implements TtsProvider {
+  readonly name = 'twilio';
+  readonly label = 'Twilio <Say> (Amazon Polly)';
+  readonly defaultVoice = 'Polly.Aditi';
+  readonly playFormat = null;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async listVoices(): Promise<TtsVoiceOption[]> {
+    return TWILIO_VOICES;
+  }
+
+  async synthesize(): Promise<Buffer> {
+    throw new Error('Twilio voices are spoken by Twilio and cannot be rendered');
+  }
+
+  voiceFor(language: LanguageProfile): string | undefined {
+    return language.twilioVoice;
+  }
+}
+
+// Offline engine on this machine: Piper when LOCAL_TTS_ENGINE=piper, otherwise espeak-ng
+export class LocalTtsProvider implements TtsProvider {
+  readonly name = 'local';
+  readonly playFormat = 'wav';
+  private readonly engine = process.env.LOCAL_TTS_ENGINE === 'piper' ? 'piper' : 'espeak';
+  private readonly piperModelsDir = process.env.PIPER_MODELS_DIR || path.join(process.cwd(), 'models', 'piper');
+
+  get label(): string {
+    return this.engine === 'piper' ? 'Local (Piper)' : 'Local (espeak-ng)';
+  }
+
+  get defaultVoice(): string {
+    return this.engine === 'piper' ? 'en_US-lessac-medium' : 'en-us';
+  }
+
+  isConfigured(): boolean {
+    return this.engine === 'espeak' || fs.existsSync(this.piperModelsDir);
+  }
+
+  // Piper voices are the .onnx models in PIPER_MODELS_DIR
+  async listVoices(): Promise<TtsVoiceOption[]> {
+    if (this.engine === 'espeak') {
+      return [
+        { id: 'en-us', name: 'English (US)' },
+        { id: 'en-gb', name: 'English (UK)' },
+        { id: 'hi', name: 'Hindi' },
+      ];
+    }
+    const files = await fs.promises.readdir(this.piperModelsDir).catch(() => [] as string[]);
+    return files
+      .filter(file => file.endsWith('.onnx'))
+      .map(file => ({ id: file.replace(/\.onnx$/, ''), name: file.replace(/\.onnx$/, '') }));
+  }
+
+  async synthesize(text: string, voice: VoiceSettings, format: AudioFormat): Promise<Buffer> {
+    const { pcm, sampleRate } = await this.render(text, voice.voiceId);
+    if (format === 'wav') return pcm16ToWav(pcm, sampleRate);
+    if (format === 'ulaw_8000') return pcm16ToMulaw(resamplePcm16(pcm, sampleRate, MULAW_SAMPLE_RATE));
+    throw new Error(`Local TTS does not render ${format}`);
+  }
+
+  // Piper models are one language each, so only espeak can follow the caller
+  voiceFor(language: LanguageProfile): string | undefined {
+    return this.engine === 'espeak' ? language.espeakVoice : undefined;
+  }
+
+  private async render(text: string, voiceId: string): Promise<{ pcm: Buffer; sampleRate: number }> {
+    if (this.engine === 'espeak') {
+      const wav = await runEngine(process.env.ESPEAK_PATH || 'espeak-ng', ['-v', voiceId, '--stdin', '--stdout'], text);
+      return wavToPcm16(wav);
+    }
+
+    // Piper writes raw PCM at the model's own sample rate, which its .onnx.json config declares
+    const model = path.resolve(this.piperModelsDir, voiceId.endsWith('.onnx') ? voiceId : `${voiceId}.onnx`);
+    const config = JSON.parse(await fs.promises.readFile(`${model}.json`, 'utf8'));
+    const pcm = await runEngine(process.env.PIPER_PATH || 'piper', ['--model', model, '--output-raw'], text);
+    return { pcm, sampleRate: config.audio?.sample_rate || 22050 };
+  }
+}
+
+// Run a TTS binary with the text on stdin and collect stdout
+function runEngine(command: string, args: string[], text: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const output: Buffer[] = [];
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${command} timed out after ${LOCAL_TTS_TIMEOUT_MS}ms`));
+    }, LOCAL_TTS_TIMEOUT_MS);
+
+    child.stdout.on('data', chunk => output.push(chunk));
+    child.stderr.on('data', chunk => { stderr += chunk.toString(); });
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0 && output.length > 0) {
+        resolve(Buffer.concat(output));
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+
+    child.stdin.on('error', () => undefined); // Reported through 'error' / 'close' instead
+    child.stdin.end(text);
+  });
+}
+
+export const ttsProviders: Record<TtsProviderName, TtsProvider> = {
+  elevenlabs: new ElevenLabsTtsProvider(),
+  twilio: new TwilioSayTtsProvider(),
+  local: new LocalTtsProvider(),
+};
+
+// The voices a campaign speaks in, primary first, then its backup. A call that has switched
+// language keeps its ElevenLabs voice on a multilingual model, and moves Twilio and espeak
+// voices to ones that speak the new language.
+export function getCampaignVoices(campaign: Campaign, language: string = campaign.language): VoiceSettings[] {
+  const voiceConfig = campaign.voiceConfig as CampaignVoiceConfig | null;
+  const model = campaign.elevenlabsModel || 'eleven_turbo_v2';
+  const profile = languageService.getProfile(language);
+  const switched = language !== campaign.language;
+  const elevenlabsVoice = (voiceId: string): VoiceSettings => ({
+    provider: 'elevenlabs',
+    voiceId,
+    model: !language.startsWith('en') && ENGLISH_ONLY_MODELS.includes(model) ? MULTILINGUAL_MODEL : model,
+    // A configured 0 or false is a real setting, so only missing values fall back
+    stability: voiceConfig?.stability ?? 0.5,
+    similarityBoost: voiceConfig?.similarityBoost ?? 0.75,
+    style: voiceConfig?.style ?? 0.0,
+    speakerBoost: voiceConfig?.useSpeakerBoost ?? true
+  });
+  const otherVoice = (voice: TtsVoice): VoiceSettings => {
+    if (voice.provider === 'elevenlabs') return elevenlabsVoice(voice.voice);
+    const matching = switched ? ttsProviders[voice.provider].voiceFor?.(profile) : undefined;
+    return matching
+      ? { provider: voice.provider, voiceId: matching, language: profile.locale }
+      : { provider: voice.provider, voiceId: voice.voice, language: voice.language };
+  };
+
+  const provider = ttsProviders[campaign.ttsProvider as TtsProviderName] ? campaign.ttsProvider as TtsProviderName : 'elevenlabs';
+  const voices = [
+    provider === 'elevenlabs'
+      ? elevenlabsVoice(campaign.voiceId)
+      : otherVoice({ provider, voice: campaign.ttsVoice || ttsProviders[provider].defaultVoice })
+  ];
+
+  const fallback = campaign.ttsFallback as TtsVoice | null;
+  if (fallback) {
+    voices.push(otherVoice(fallback));
+  }
+  return voices;
+}
@@ -0,0 +1,151 @@
+import type { Campaign } from '@shared/schema';
+import { ttsCacheService } from './ttsCacheService';
+import { getCampaignVoices, ttsProviders, type VoiceSettings } from './ttsProviders';
+import { simulatorStubs } from './simulatorStubs';
+
+// Speech in a campaign's voice, with failover
+// Every line is tried in the campaign's primary voice first and then in its configured backup
+// voice, so an ElevenLabs outage or an exhausted quota moves the call to the backup voice instead
+// of ending it. A voice that just failed is tried last for a minute, so each turn doesn't wait on it.
+// Lines are spoken in the call's language when given - see getCampaignVoices.
+
+export interface Speech {
+  audioUrl?: string; // Rendered audio for <Play>
+  say?: { voice: string; language?: string }; // Or a Twilio voice that <Say>s the text
+}
+
+const FAILED_VOICE_COOLDOWN_MS = 60 * 1000;
+const STREAM_CHUNK_BYTES = 8000; // 1s of 8kHz μ-law per media message when replaying rendered audio
+
+export class TtsService {
+  private readonly failedUntil = new Map<string, number>();
+
+  // A line ready for TwiML - throws only when every configured voice has failed
+  async getSpeech(campaign: Campaign, text: string, language?: string): Promise<Speech> {
+    if (simulatorStubs.isEnabled()) return simulatorStubs.getSpeech(language || campaign.language);
+    const voices = this.getVoices(campaign, language);
+    let lastError: unknown;
+
+    for (const voice of voices) {
+      const playFormat = ttsProviders[voice.provider].playFormat;
+      if (!playFormat) {
+        this.logFailover(campaign, voice, language);
+        return this.toSay(voice);
+      }
+
+      try {
+        const { file } = await ttsCacheService.getAudio(text, voice, playFormat);
+        this.failedUntil.delete(this.getKey(voice));
+        this.logFailover(campaign, voice, language);
+        return { audioUrl: ttsCacheService.getUrl(file) };
+      } catch (error) {
+        lastError = error;
+        this.markFailed(voice, error);
+      }
+    }
+
+    throw lastError ?? new Error(`Campaign ${campaign.id} has no voice configured`);
+  }
+
+  // A line without rendering anything - cached audio or a Twilio voice, for when every provider is failing
+  async getCachedSpeech(campaign: Campaign, text: string, language?: string): Promise<Speech> {
+    if (simulatorStubs.isEnabled()) return simulatorStubs.getSpeech(language || campaign.language);
+    for (const voice of this.getVoices(campaign, language)) {
+      const playFormat = ttsProviders[voice.provider].playFormat;
+      if (!playFormat) return this.toSay(voice);
+
+      const cached = await ttsCacheService.lookup(text, voice, playFormat).catch(() => undefined);
+      if (cached) return { audioUrl: ttsCacheService.getUrl(ttsCacheService.getFileName(text, voice, playFormat)) };
+    }
+    return {};
+  }
+
+  // μ-law audio for Media Streams. Voices are only switched before the first chunk - never mid-sentence.
+  // Twilio voices can't speak into a stream, so they are skipped here (see getSayVoice)
+  async *stream(campaign: Campaign, text: string, signal: AbortSignal, language?: string): AsyncGenerator<Buffer> {
+    if (simulatorStubs.isEnabled()) {
+      yield* simulatorStubs.streamSilence(text);
+      return;
+    }
+
+    let lastError: unknown;
+
+    for (const voice of this.getVoices(campaign, language)) {
+      const provider = ttsProviders[voice.provider];
+      if (!provider.playFormat) continue;
+
+      let started = false;
+      try {
+        // Fixed lines and repeated answers come straight from the cache
+        const cached = provider.stream
+          ? await ttsCacheService.lookup(text, voice, 'ulaw_8000')
+          : (await ttsCacheService.getAudio(text, voice, 'ulaw_8000')).audio;
+        if (cached) {
+          for (let offset = 0; offset < cached.length; offset += STREAM_CHUNK_BYTES) {
+            started = true;
+            yield cached.subarray(offset, offset + STREAM_CHUNK_BYTES);
+          }
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of provider.stream!(text, voice, signal)) {
+          started = true;
+          chunks.push(chunk);
+          yield chunk;
+        }
+
+        // Only sentences that were heard in full are worth keeping
+        if (!signal.aborted) {
+          ttsCacheService.save(text, voice, 'ulaw_8000', Buffer.concat(chunks)).catch(error => {
+            console.error('❌ Caching streamed audio failed:', error);
+          });
+        }
+        this.failedUntil.delete(this.getKey(voice));
+        return;
+      } catch (error) {
+        if (started || signal.aborted) throw error;
+        lastError = error;
+        this.markFailed(voice, error);
+      }
+    }
+
+    throw lastError ?? new Error(`Campaign ${campaign.id} has no voice that can stream`);
+  }
+
+  // The Twilio voice a streamed call can move to once nothing else can speak
+  getSayVoice(campaign: Campaign, language?: string): Speech['say'] | undefined {
+    const voice = getCampaignVoices(campaign, language).find(candidate => !ttsProviders[candidate.provider].playFormat);
+    return voice && this.toSay(voice).say;
+  }
+
+  // Campaign voices in order, with ones that failed recently moved to the back
+  private getVoices(campaign: Campaign, language?: string): VoiceSettings[] {
+    const now = Date.now();
+    const voices = getCampaignVoices(campaign, language);
+    const healthy = voices.filter(voice => (this.failedUntil.get(this.getKey(voice)) || 0) <= now);
+    return [...healthy, ...voices.filter(voice => !healthy.includes(voice))];
+  }
+
+  private markFailed(voice: VoiceSettings, error: unknown): void {
+    this.failedUntil.set(this.getKey(voice), Date.now() + FAILED_VOICE_COOLDOWN_MS);
+    console.error(`❌ TTS failed in ${voice.provider} voice ${voice.voiceId}:`, error instanceof Error ? error.message : error);
+  }
+
+  private logFailover(campaign: Campaign, voice: VoiceSettings, language?: string): void {
+    if (this.getKey(voice) !== this.getKey(getCampaignVoices(campaign, language)[0])) {
+      console.log(`🔁 Campaign ${campaign.id} speaking in backup ${voice.provider} voice ${voice.voiceId}`);
+    }
+  }
+
+  private toSay(voice: VoiceSettings): Speech {
+    return { say: { voice: voice.voiceId, language: voice.language } };
+  }
+
+  private getKey(voice: VoiceSettings): string {
+    return `${voice.provider}:${voice.voiceId}`;
+  }
+}
+
+// Export singleton instance
+export const ttsService = new TtsService();
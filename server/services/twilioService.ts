@@ -1,5 +1,10 @@
 import twilio from 'twilio';
+import type VoiceResponseType from 'twilio/lib/twiml/VoiceResponse';
 import { getBaseUrl } from '../config/environment';
+import type { Speech } from './ttsService';
+
+// A line for addSpeech - rendered audio or a Twilio voice, and the text a <Say> reads
+type SpeechOptions = Speech & { text?: string; voice?: string; language?: string };
 
 export class TwilioService {
   private client: twilio.Twilio;
@@ -46,7 +51,7 @@ export class TwilioService {
         statusCallbackMethod: 'POST',
         timeout: 15, // Faster connection timeout
         machineDetection: 'DetectMessageEnd' // Faster machine detection
-        // NO RECORDING - using direct speech recognition only
+        // Recording, for campaigns that want it, starts from the answer webhook once a person has picked up
       });
 
       return {
@@ -62,7 +67,7 @@ export class TwilioService {
     }
   }
 
-  // Generate TwiML for call handling with ElevenLabs-only voice synthesis
+  // Generate TwiML for call handling - lines play as rendered audio, or are spoken by a configured Twilio voice
   generateTwiML(action: 'gather' | 'say' | 'hangup', options: any = {}): string {
     const VoiceResponse = twilio.twiml.VoiceResponse;
     const twiml = new VoiceResponse();
@@ -81,33 +86,31 @@ export class TwilioService {
 
     switch (action) {
       case 'say':
-        // ONLY use ElevenLabs audio - no Twilio TTS fallback
-        if (options.audioUrl) {
-          console.log('🎵 Using ElevenLabs audio for TTS');
-          twiml.play(options.audioUrl);
-        } else {
-          console.error('❌ ERROR: No ElevenLabs audio URL provided - ElevenLabs is required');
-          // Add silence instead of Twilio TTS
-          twiml.pause({ length: 2 });
-        }
+        this.addSpeech(twiml, options, 2);
         break;
 
       case 'gather':
-        // ONLY use ElevenLabs audio - no Twilio TTS fallback to maintain voice consistency
-        if (options.audioUrl) {
-          console.log('🎵 Playing ElevenLabs audio:', options.audioUrl);
-          twiml.play(options.audioUrl);
-        } else {
-          console.error('❌ ERROR: No ElevenLabs audio URL provided - voice consistency requires ElevenLabs only');
-          // Add silence instead of changing voice
-          twiml.pause({ length: 2 });
+        this.addSpeech(twiml, options, 2);
+
+        // Campaigns on another STT provider record the answer and transcribe it themselves
+        if (options.record) {
+          twiml.record({
+            action: options.action || '/api/calls/process-speech',
+            method: 'POST',
+            timeout: 2, // Seconds of silence that end the answer
+            maxLength: 30,
+            playBeep: false,
+            trim: 'trim-silence'
+          });
+          twiml.redirect(options.action || '/api/calls/process-speech');
+          break;
         }
 
         // Use Twilio Gather with speech recognition for direct OpenAI Whisper processing
         const gather = twiml.gather({
           input: 'speech',
           speechTimeout: 3, // Faster speech detection
-          speechModel: 'experimental_conversations',
+          speechModel: options.speechModel || 'experimental_conversations',
           enhanced: true,
           language: options.language || 'en-US',
           action: options.action || '/api/calls/process-speech',
@@ -124,15 +127,7 @@ export class TwilioService {
 
       case 'hangup':
         if (options.text) {
-          // ONLY use ElevenLabs audio - no Twilio TTS fallback
-          if (options.audioUrl) {
-            console.log('🎵 Using ElevenLabs audio for hangup message');
-            twiml.play(options.audioUrl);
-          } else {
-            console.error('❌ ERROR: No ElevenLabs audio URL provided for hangup - ElevenLabs is required');
-            // Add silence instead of Twilio TTS
-            twiml.pause({ length: 1 });
-          }
+          this.addSpeech(twiml, options, 1);
         }
         twiml.hangup();
         break;
@@ -141,12 +136,188 @@ export class TwilioService {
     return twiml.toString();
   }
 
+  // Play the line's rendered audio, or have Twilio <Say> it when the voice speaking is a Twilio one
+  // (options.say) - with neither, the caller hears silence rather than a voice nobody chose
+  private addSpeech(twiml: InstanceType<typeof twilio.twiml.VoiceResponse>, options: SpeechOptions, silenceSeconds: number): void {
+    if (options.audioUrl) {
+      console.log('🎵 Playing audio:', options.audioUrl);
+      twiml.play(options.audioUrl);
+      return;
+    }
+
+    const sayVoice = options.say?.voice || options.voice;
+    if (options.text && sayVoice) {
+      console.log(`🗣️ Twilio speaking in ${sayVoice}`);
+      // Voices and locales come from campaign settings, so they can't be checked against Twilio's lists here
+      twiml.say({
+        voice: sayVoice as VoiceResponseType.SayAttributes['voice'],
+        language: options.say?.language as VoiceResponseType.SayAttributes['language']
+      }, options.text);
+      return;
+    }
+
+    console.error('❌ ERROR: No audio URL or Twilio voice provided - playing silence');
+    twiml.pause({ length: silenceSeconds });
+  }
+
+  // Generate TwiML that plays one line and then fetches the rest of the call from redirectUrl -
+  // for notices that must be heard in full before anything else happens, e.g. the recording notice
+  generateNoticeTwiML(notice: Speech & { text: string }, redirectUrl: string): string {
+    const VoiceResponse = twilio.twiml.VoiceResponse;
+    const twiml = new VoiceResponse();
+
+    this.addSpeech(twiml, notice, 0);
+    twiml.redirect({ method: 'POST' }, redirectUrl);
+
+    return twiml.toString();
+  }
+
+  // Generate TwiML that hands the call audio to our Media Streams WebSocket
+  generateStreamTwiML(streamUrl: string, parameters: Record<string, string> = {}): string {
+    const VoiceResponse = twilio.twiml.VoiceResponse;
+    const twiml = new VoiceResponse();
+
+    const connect = twiml.connect();
+    const stream = connect.stream({ url: streamUrl });
+    for (const [name, value] of Object.entries(parameters)) {
+      stream.parameter({ name, value });
+    }
+
+    return twiml.toString();
+  }
+
+  // Generate TwiML that bridges the caller to one or more reps
+  // Every number in the same <Dial> rings at once; the whisper URL runs on the rep's leg before they are connected
+  generateDialTwiML(options: {
+    numbers: string[];
+    action: string;
+    whisperUrl: string;
+    timeout: number;
+    audioUrl?: string;
+    text?: string;
+    say?: Speech['say'];
+  }): string {
+    const VoiceResponse = twilio.twiml.VoiceResponse;
+    const twiml = new VoiceResponse();
+
+    if (options.audioUrl || (options.text && options.say)) {
+      this.addSpeech(twiml, options, 0);
+    }
+
+    const dial = twiml.dial({
+      action: options.action,
+      method: 'POST',
+      timeout: options.timeout,
+      answerOnBridge: true // Caller keeps hearing ringback until a rep has heard the whisper
+    });
+    for (const number of options.numbers) {
+      dial.number({ url: options.whisperUrl, method: 'POST' }, number);
+    }
+
+    return twiml.toString();
+  }
+
+  // Generate the whisper a rep hears before being bridged - the caller never hears it,
+  // so Twilio's own voice is fine here and keeps the rep from waiting on synthesis
+  generateWhisperTwiML(summary: string): string {
+    const VoiceResponse = twilio.twiml.VoiceResponse;
+    const twiml = new VoiceResponse();
+    twiml.say(summary);
+    return twiml.toString();
+  }
+
+  // Replace the TwiML of an in-progress call, e.g. to leave a media stream for a <Dial>
+  async redirectCall(twilioCallSid: string, twiml: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { callSimulator, isSimulatedCallSid } = await import('./callSimulator');
+      if (isSimulatedCallSid(twilioCallSid)) {
+        return callSimulator.redirect(twilioCallSid, twiml) ? { success: true } : { success: false, error: 'Simulated call has ended' };
+      }
+
+      await this.client.calls(twilioCallSid).update({ twiml });
+      return { success: true };
+    } catch (error) {
+      console.error('Error redirecting call:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // End an in-progress call from outside its TwiML flow
+  async hangupCall(twilioCallSid: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { callSimulator, isSimulatedCallSid } = await import('./callSimulator');
+      if (isSimulatedCallSid(twilioCallSid)) {
+        return callSimulator.hangup(twilioCallSid) ? { success: true } : { success: false, error: 'Simulated call has ended' };
+      }
+
+      await this.client.calls(twilioCallSid).update({ status: 'completed' });
+      return { success: true };
+    } catch (error) {
+      console.error('Error hanging up call:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // Fetch a call recording as WAV - media URLs may require the account credentials
+  async downloadRecording(recordingUrl: string): Promise<Buffer> {
+    const auth = Buffer.from(`${process.env.TWILIO_ACCOUNT_SID}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64');
+    const response = await fetch(`${recordingUrl.replace(/\.(wav|mp3)$/, '')}.wav`, {
+      headers: { Authorization: `Basic ${auth}` }
+    });
+    if (!response.ok) {
+      throw new Error(`Recording download failed: ${response.status} ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  // Start recording an in-progress call, caller and agent on separate channels
+  async startRecording(twilioCallSid: string, statusCallbackUrl: string): Promise<{ success: boolean; recordingSid?: string; error?: string }> {
+    try {
+      const { isSimulatedCallSid } = await import('./callSimulator');
+      if (isSimulatedCallSid(twilioCallSid)) {
+        return { success: false, error: 'Simulated calls are not recorded' };
+      }
+
+      const recording = await this.client.calls(twilioCallSid).recordings.create({
+        recordingChannels: 'dual',
+        recordingTrack: 'both',
+        recordingStatusCallback: statusCallbackUrl,
+        recordingStatusCallbackEvent: ['completed', 'absent'],
+        recordingStatusCallbackMethod: 'POST'
+      });
+      return { success: true, recordingSid: recording.sid };
+    } catch (error) {
+      console.error('Error starting call recording:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async deleteRecording(recordingSid: string): Promise<void> {
+    await this.client.recordings(recordingSid).remove();
+  }
+
   // Send WhatsApp message via Twilio
   async sendWhatsAppMessage(
     whatsappNumber: string,
     message: string
   ): Promise<{ success: boolean; messageSid?: string; error?: string }> {
     try {
+      // Free-form sends honour the do-not-contact registry like template sends do
+      const { suppressionService } = await import('./suppressionService');
+      if (await suppressionService.isSuppressed({ phone: whatsappNumber.replace(/^whatsapp:/, '') }, 'whatsapp')) {
+        console.log(`🚫 Skipping WhatsApp message to ${whatsappNumber} - on the do-not-contact list`);
+        return { success: false, error: 'Number is on the do-not-contact list' };
+      }
+
       const fromNumber = `whatsapp:${process.env.TWILIO_PHONE_NUMBER}`;
       const toNumber = whatsappNumber.startsWith('whatsapp:')
         ? whatsappNumber
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Campaign, CampaignVariant } from '@shared/schema';
+import { compareRates, variantService } from './variantService';
+
+function campaignWith(variants: Array<Pick<CampaignVariant, 'id' | 'weight'>>): Campaign {
+  return { id: 'campaign-1', variants: variants.map(variant => ({ ...variant, name: variant.id })) } as unknown as Campaign;
+}
+
+test('a contact always lands on the same variant', () => {
+  const campaign = campaignWith([{ id: 'control', weight: 1 }, { id: 'short-intro', weight: 1 }]);
+  for (const contact of ['contact-1', 'contact-2', '+919876543210']) {
+    assert.equal(variantService.assign(campaign, contact)?.id, variantService.assign(campaign, contact)?.id);
+  }
+});
+
+test('variants are assigned in proportion to their weights', () => {
+  const campaign = campaignWith([{ id: 'control', weight: 1 }, { id: 'short-intro', weight: 3 }, { id: 'paused', weight: 0 }]);
+  const counts: Record<string, number> = {};
+  for (let i = 0; i < 2000; i++) {
+    const variant = variantService.assign(campaign, `contact-${i}`);
+    counts[variant!.id] = (counts[variant!.id] ?? 0) + 1;
+  }
+  assert.equal(counts.paused, undefined);
+  assert.ok(counts.control > 400 && counts.control < 600, `control got ${counts.control} of 2000`);
+});
+
+test('campaigns without weighted variants are not assigned one', () => {
+  assert.equal(variantService.assign(campaignWith([]), 'contact-1'), undefined);
+  assert.equal(variantService.assign(campaignWith([{ id: 'a', weight: 0 }, { id: 'b', weight: 0 }]), 'contact-1'), undefined);
+});
+
+test('rates are not tested below the minimum sample', () => {
+  const comparison = compareRates(20, 29, 5, 29);
+  assert.equal(comparison.pValue, null);
+  assert.equal(comparison.significant, false);
+});
+
+test('rate differences are significant only when they are large enough', () => {
+  const large = compareRates(60, 100, 30, 100);
+  assert.ok(Math.abs(large.difference - 0.3) < 1e-9);
+  assert.equal(large.significant, true);
+
+  const small = compareRates(32, 100, 30, 100);
+  assert.equal(small.significant, false);
+
+  const same = compareRates(20, 100, 20, 100);
+  assert.equal(same.difference, 0);
+  assert.ok(same.pValue! > 0.99);
+});
@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import type { Campaign, CampaignVariant, ExperimentReport, VariantComparison, VariantReport } from '@shared/schema';
+import { storage, type VariantCallStats } from '../storage';
+
+// A/B variants
+// A campaign can hold weighted variants of its intro, prompt, script, persona and voice. Each call is
+// assigned one when it is created, from a hash of the campaign and the contact (or number), so the
+// same person always hears the same variant - redials included - for as long as the weights stay
+// the same. The variant id is stored on the call, and everything that speaks or prompts on the
+// call's behalf uses the campaign with that variant applied. The experiment report compares each
+// variant against the first one (the control) with two-sided z-tests.
+
+const MIN_SAMPLE = 30; // Calls per arm before a difference is tested
+const SIGNIFICANCE_LEVEL = 0.05;
+
+export class VariantService {
+  getVariants(campaign: Campaign): CampaignVariant[] {
+    const variants = campaign.variants as CampaignVariant[] | null;
+    return variants && variants.length > 0 ? variants : [];
+  }
+
+  // Pick a variant for a call - the same contact always lands on the same one
+  assign(campaign: Campaign, contactKey: string): CampaignVariant | undefined {
+    const variants = this.getVariants(campaign).filter(variant => variant.weight > 0);
+    const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+    if (totalWeight === 0) return undefined;
+
+    const hash = createHash('sha256').update(`${campaign.id}:${contactKey}`).digest();
+    let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+    for (const variant of variants) {
+      point -= variant.weight;
+      if (point < 0) return variant;
+    }
+    return variants[variants.length - 1];
+  }
+
+  // The campaign as a variant runs it - unknown or removed variants run the campaign as configured
+  apply(campaign: Campaign, variantId: string | null | undefined): Campaign {
+    const variant = variantId ? this.getVariants(campaign).find(candidate => candidate.id === variantId) : undefined;
+    if (!variant) return campaign;
+
+    return {
+      ...campaign,
+      introLine: variant.introLine || campaign.introLine,
+      aiPrompt: variant.aiPrompt || campaign.aiPrompt,
+      script: variant.script || campaign.script,
+      agentName: variant.agentName || campaign.agentName,
+      voiceId: variant.voiceId || campaign.voiceId,
+      ttsVoice: variant.ttsVoice || campaign.ttsVoice
+    };
+  }
+
+  // The campaign a call should be run with
+  async getCampaignForCall(call: { campaignId: string | null; variantId?: string | null }): Promise<Campaign | undefined> {
+    if (!call.campaignId) return undefined;
+    const campaign = await storage.getCampaign(call.campaignId);
+    return campaign && this.apply(campaign, call.variantId);
+  }
+
+  // The campaign once per variant, for pre-rendering every intro in every voice
+  expand(campaign: Campaign): Campaign[] {
+    const variants = this.getVariants(campaign);
+    return variants.length > 0 ? variants.map(variant => this.apply(campaign, variant.id)) : [campaign];
+  }
+
+  async getReport(campaign: Campaign): Promise<ExperimentReport> {
+    const variants = this.getVariants(campaign);
+    const stats = await storage.getVariantCallStats(campaign.id);
+    const empty = (variantId: string): VariantCallStats => ({
+      variantId, calls: 0, answered: 0, conversations: 0, contactsCaptured: 0,
+      scoredCalls: 0, averageSuccessScore: null, successScoreVariance: null
+    });
+
+    // Removed variants still have calls worth reporting
+    const variantIds = Array.from(new Set([
+      ...variants.map(variant => variant.id),
+      ...stats.flatMap(row => row.variantId ? [row.variantId] : [])
+    ]));
+    const rows = variantIds.map(id => stats.find(row => row.variantId === id) || empty(id));
+    const control = rows[0];
+
+    return {
+      campaignId: campaign.id,
+      controlVariantId: control?.variantId ?? null,
+      variants: rows.map(row => {
+        const variant = variants.find(candidate => candidate.id === row.variantId);
+        const report: VariantReport = {
+          variantId: row.variantId!,
+          name: variant?.name || `${row.variantId} (removed)`,
+          weight: variant?.weight ?? 0,
+          calls: row.calls,
+          answered: row.answered,
+          conversations: row.conversations,
+          contactsCaptured: row.contactsCaptured,
+          scoredCalls: row.scoredCalls,
+          conversationRate: rate(row.conversations, row.answered),
+          captureRate: rate(row.contactsCaptured, row.answered),
+          averageSuccessScore: row.averageSuccessScore === null ? null : Math.round(row.averageSuccessScore * 10) / 10
+        };
+        if (row !== control) {
+          report.vsControl = {
+            conversationRate: compareRates(row.conversations, row.answered, control.conversations, control.answered),
+            captureRate: compareRates(row.contactsCaptured, row.answered, control.contactsCaptured, control.answered),
+            averageSuccessScore: compareMeans(row, control)
+          };
+        }
+        return report;
+      }),
+      unassignedCalls: stats.find(row => row.variantId === null)?.calls ?? 0
+    };
+  }
+}
+
+function rate(count: number, total: number): number {
+  return total > 0 ? count / total : 0;
+}
+
+// Two-proportion z-test with a pooled rate
+export function compareRates(successes: number, total: number, controlSuccesses: number, controlTotal: number): VariantComparison {
+  const difference = rate(successes, total) - rate(controlSuccesses, controlTotal);
+  if (total < MIN_SAMPLE || controlTotal < MIN_SAMPLE) return { difference, pValue: null, significant: false };
+
+  const pooled = (successes + controlSuccesses) / (total + controlTotal);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / total + 1 / controlTotal));
+  return toComparison(difference, standardError);
+}
+
+// Welch's z-test on the average success score
+function compareMeans(variant: VariantCallStats, control: VariantCallStats): VariantComparison {
+  const difference = (variant.averageSuccessScore ?? 0) - (control.averageSuccessScore ?? 0);
+  if (variant.scoredCalls < MIN_SAMPLE || control.scoredCalls < MIN_SAMPLE) return { difference, pValue: null, significant: false };
+
+  const standardError = Math.sqrt(
+    (variant.successScoreVariance ?? 0) / variant.scoredCalls + (control.successScoreVariance ?? 0) / control.scoredCalls
+  );
+  return toComparison(difference, standardError);
+}
+
+function toComparison(difference: number, standardError: number): VariantComparison {
+  const pValue = standardError > 0
+    ? 2 * (1 - normalCdf(Math.abs(difference / standardError)))
+    : difference === 0 ? 1 : 0;
+  return { difference, pValue, significant: pValue < SIGNIFICANCE_LEVEL };
+}
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26, accurate to about 1e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Export singleton instance
+export const variantService = new VariantService();
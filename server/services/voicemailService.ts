@@ -0,0 +1,50 @@
+import type { Campaign } from '@shared/schema';
+import { storage } from '../storage';
+import { twilioService } from './twilioService';
+import { ttsService } from './ttsService';
+import { transcriptService } from './transcriptService';
+
+// Answering machine handling
+// Twilio's AMD result arrives as AnsweredBy on the answer webhook. With DetectMessageEnd the
+// webhook fires after the greeting, so anything we play lands after the beep.
+
+const MACHINE_RESULTS = ['machine_start', 'machine_end_beep', 'machine_end_silence', 'machine_end_other', 'fax'];
+
+export class VoicemailService {
+  // Whether Twilio's AMD says nobody human picked up
+  isMachine(answeredBy?: string): boolean {
+    return !!answeredBy && MACHINE_RESULTS.includes(answeredBy);
+  }
+
+  // Mark the call and return TwiML that either drops the campaign voicemail or hangs up
+  async handleMachineAnswer(callId: string, campaign: Campaign, answeredBy: string): Promise<string> {
+    const isFax = answeredBy === 'fax';
+    await storage.updateCall(callId, {
+      answeredBy,
+      disposition: isFax ? 'fax' : 'voicemail'
+    });
+
+    if (isFax || campaign.voicemailAction !== 'leave_message' || !campaign.voicemailMessage) {
+      console.log(`📠 Call ${callId} answered by ${answeredBy}, hanging up`);
+      return twilioService.generateTwiML('hangup');
+    }
+
+    try {
+      console.log(`📼 Call ${callId} answered by ${answeredBy}, leaving voicemail`);
+      const speech = await ttsService.getSpeech(campaign, campaign.voicemailMessage);
+      transcriptService.recordAgentLine(callId, campaign.voicemailMessage, speech);
+      return twilioService.generateTwiML('hangup', {
+        text: campaign.voicemailMessage,
+        ...speech,
+        language: campaign.language || 'en'
+      });
+    } catch (error) {
+      // No message is better than a voice nobody configured
+      console.error('❌ Voicemail rendering failed in every campaign voice, hanging up:', error);
+      return twilioService.generateTwiML('hangup');
+    }
+  }
+}
+
+// Export singleton instance
+export const voicemailService = new VoicemailService();
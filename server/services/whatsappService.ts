@@ -1,4 +1,5 @@
 import { storage } from "../storage";
+import { suppressionService } from "./suppressionService";
 
 export interface WhatsAppMessage {
   messaging_product: string;
@@ -168,6 +169,11 @@ export class WhatsAppService {
   ): Promise<any> {
     const cleanedPhoneNumber = this.cleanPhoneNumber(to);
 
+    // Template sends are marketing outreach - never send them to anyone who opted out
+    if (await suppressionService.isSuppressed({ phone: to }, "whatsapp")) {
+      throw new Error(`${to} is on the do-not-contact list`);
+    }
+
     // Construct Meta Business API template message payload
     const whatsappMessage: WhatsAppMessage = {
       messaging_product: "whatsapp",
@@ -294,6 +300,21 @@ export class WhatsAppService {
           "✅ Incoming message stored for contact:",
           existingContact.name,
         );
+
+        // STOP and similar keywords opt the sender out of further WhatsApp campaigns
+        if (message.type === "text" && suppressionService.isWhatsAppStopKeyword(messageText)) {
+          await suppressionService.add({
+            phone: message.from,
+            channel: "whatsapp",
+            source: "whatsapp_keyword",
+            reason: messageText,
+            contactId: existingContact.id,
+          });
+          await this.sendTextMessage(
+            message.from,
+            "You have been unsubscribed and will not receive further messages from us.",
+          ).catch((error) => console.error("❌ Could not confirm WhatsApp opt-out:", error));
+        }
       } else {
         console.error(
           "❌ Could not find or create contact for phone:",
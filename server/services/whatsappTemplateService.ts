@@ -1,4 +1,5 @@
 import { storage } from '../storage';
+import { suppressionService } from './suppressionService';
 import { WhatsAppTemplate, BulkMessageJob, InsertWhatsAppTemplate, InsertBulkMessageJob } from '@shared/schema';
 
 export interface TemplateComponent {
@@ -157,6 +158,10 @@ export class WhatsAppTemplateService {
     variables?: string[]
   ): Promise<{ success: boolean; messageId?: string; error?: string }> {
     try {
+      if (await suppressionService.isSuppressed({ phone: phoneNumber }, 'whatsapp')) {
+        return { success: false, error: 'Number is on the do-not-contact list' };
+      }
+
       const components = variables ? [{
         type: 'body',
         parameters: variables.map(variable => ({
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import type { Campaign, SimulationResult } from '../shared/schema';
+
+// Run simulator scripts against a running server and fail when any expectation doesn't hold:
+//   npm run simulate -- [--campaign scripts/simulator/fixture-campaign.json] scripts/simulator/calls/opt-out.json [more.json ...]
+//   npm run test:calls   (every script in scripts/simulator/calls, against the fixture campaign, with stubs)
+// Each file holds one script or an array of them (see simulatorScriptSchema). --campaign creates the
+// campaign in that file - or updates the one with its name - and runs scripts without a campaignId
+// from it. With SIMULATOR_STUBS=true the runner switches the server's model and TTS stubs on for the
+// run, so conversations are deterministic and never reach OpenAI or a TTS provider.
+
+const serverUrl = process.env.SIMULATOR_SERVER_URL || `http://localhost:${process.env.PORT || '5000'}`;
+
+async function api<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const response = await fetch(`${serverUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (!response.ok) {
+    throw new Error(`${method} ${path} answered ${response.status}: ${await response.text()}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+// Create the fixture campaign, or bring the existing one of that name in line with the file
+async function upsertCampaign(file: string): Promise<string> {
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const campaigns = await api<Campaign[]>('GET', '/api/campaigns');
+  const existing = campaigns.find(campaign => campaign.name === fixture.name);
+  const campaign = existing
+    ? await api<Campaign>('PUT', `/api/campaigns/${existing.id}`, fixture)
+    : await api<Campaign>('POST', '/api/campaigns', fixture);
+  console.log(`📋 Using campaign "${campaign.name}" (${campaign.id})`);
+  return campaign.id;
+}
+
+async function runScripts(files: string[], campaignId?: string): Promise<boolean> {
+  let allPassed = true;
+
+  for (const file of files) {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const scripts = Array.isArray(parsed) ? parsed : [parsed];
+
+    for (let index = 0; index < scripts.length; index++) {
+      const script = { campaignId, ...scripts[index] };
+      const label = scripts.length > 1 ? `${file} #${index + 1}` : file;
+      const response = await fetch(`${serverUrl}/api/simulator/calls`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(script)
+      });
+      if (!response.ok) {
+        console.log(`❌ ${label}: ${response.status} ${await response.text()}`);
+        allPassed = false;
+        continue;
+      }
+
+      const result = await response.json() as SimulationResult;
+      console.log(`${result.passed ? '✅' : '❌'} ${label} - call ${result.callId ?? result.callSid} ended by ${result.endedBy}`);
+      for (const event of result.events) {
+        console.log(`   ${String(event.at).padStart(6)}ms ${event.kind.padEnd(7)} ${event.detail}`);
+      }
+      for (const check of result.checks) {
+        console.log(`   ${check.passed ? '✓' : '✗'} ${check.expectation}`);
+      }
+      allPassed &&= result.passed;
+    }
+  }
+
+  return allPassed;
+}
+
+async function main(args: string[]): Promise<boolean> {
+  const campaignFlag = args.indexOf('--campaign');
+  const campaignFile = campaignFlag >= 0 ? args[campaignFlag + 1] : undefined;
+  const files = campaignFlag >= 0 ? args.filter((_, index) => index !== campaignFlag && index !== campaignFlag + 1) : args;
+  if (files.length === 0 || (campaignFlag >= 0 && !campaignFile)) {
+    console.log('Usage: npm run simulate -- [--campaign <campaign.json>] <script.json> [more.json ...]');
+    return false;
+  }
+
+  // Stubs are a server-wide switch - put it back the way it was afterwards
+  const useStubs = process.env.SIMULATOR_STUBS === 'true';
+  const { stubs: stubsWereOn } = await api<{ stubs: boolean }>('GET', '/api/simulator');
+  if (useStubs && !stubsWereOn) await api('PUT', '/api/simulator/stubs', { enabled: true });
+
+  try {
+    const campaignId = campaignFile ? await upsertCampaign(campaignFile) : undefined;
+    return await runScripts(files, campaignId);
+  } finally {
+    if (useStubs && !stubsWereOn) await api('PUT', '/api/simulator/stubs', { enabled: false });
+  }
+}
+
+main(process.argv.slice(2))
+  .then(passed => process.exit(passed ? 0 : 1))
+  .catch(error => {
+    console.error('Simulation failed:', error);
+    process.exit(1);
+  });
@@ -1,21 +1,40 @@
 import { 
-  users, contacts, campaigns, calls, callMessages, callTranscriptions, callRecordings, whatsappTemplates, bulkMessageJobs,
-  contactEngagement, campaignMetrics, whatsappMessages,
+  users, contacts, campaigns, calls, callMessages, callTranscriptions, callEvents, callRecordings, whatsappTemplates, bulkMessageJobs,
+  contactEngagement, campaignMetrics, whatsappMessages, scheduledCalls, appSettings, holidayCalendars, suppressions,
   type User, type InsertUser, 
   type Contact, type InsertContact,
   type Campaign, type InsertCampaign,
   type Call, type InsertCall,
   type CallMessage, type InsertCallMessage,
   type CallTranscription, type InsertCallTranscription,
+  type CallEvent, type InsertCallEvent,
   type CallRecording, type InsertCallRecording,
+  type ScheduledCall, type InsertScheduledCall, type AppSetting,
+  type HolidayCalendar, type InsertHolidayCalendar,
+  type Suppression, type InsertSuppression, type SuppressionChannel,
   type WhatsAppTemplate, type InsertWhatsAppTemplate,
   type BulkMessageJob, type InsertBulkMessageJob,
   type ContactEngagement, type CampaignMetrics,
   type WhatsAppMessage, type InsertWhatsAppMessage,
   type DashboardStats, type CallWithDetails
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and, count, avg, sum, sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { eq, desc, and, or, asc, lt, lte, gte, inArray, notInArray, isNull, isNotNull, count, avg, sum, sql } from "drizzle-orm";
+
+// Advisory lock id held while a dialer tick measures load and dials, shared by every instance
+const DIALER_LOCK_KEY = 72410001;
+
+// Outcome counts for the calls one campaign variant made
+export interface VariantCallStats {
+  variantId: string | null;
+  calls: number;
+  answered: number;
+  conversations: number;
+  contactsCaptured: number;
+  scoredCalls: number;
+  averageSuccessScore: number | null;
+  successScoreVariance: number | null;
+}
 
 export interface IStorage {
   // Users
@@ -26,6 +45,7 @@ export interface IStorage {
   // Contacts
   getContact(id: string): Promise<Contact | undefined>;
   getContactByPhone(phoneNumber: string): Promise<Contact | undefined>;
+  getContactsByIds(ids: string[]): Promise<Contact[]>;
   createContact(contact: InsertContact): Promise<Contact>;
   updateContact(id: string, contact: Partial<InsertContact>): Promise<Contact>;
   deleteContact(id: string): Promise<boolean>;
@@ -59,21 +79,70 @@ export interface IStorage {
   deleteCall(id: string): Promise<boolean>;
   getCallsByCampaign(campaignId: string): Promise<Call[]>;
   getCallsByContact(contactId: string): Promise<Call[]>;
+  getCallByTwilioSid(twilioCallSid: string): Promise<Call | undefined>;
   getActiveCalls(): Promise<Call[]>;
+  updateCallSession(id: string, call: Partial<InsertCall>, expectedVersion: number): Promise<Call | undefined>;
+  completeActiveCall(id: string, call: Partial<InsertCall>): Promise<Call | undefined>;
+  getCallAttempts(originalCallId: string): Promise<Call[]>;
+  getCallsStartedSince(since: Date): Promise<Call[]>;
+
+  // Scheduled Calls
+  createScheduledCall(scheduledCall: InsertScheduledCall): Promise<ScheduledCall>;
+  createScheduledCalls(scheduledCalls: InsertScheduledCall[]): Promise<ScheduledCall[]>;
+  updateScheduledCall(id: string, scheduledCall: Partial<InsertScheduledCall>): Promise<ScheduledCall | undefined>;
+  getScheduledCallsForAttempt(originalCallId: string): Promise<ScheduledCall[]>;
+  getDueScheduledCalls(now: Date, limit: number): Promise<Array<{ scheduledCall: ScheduledCall; campaign: Campaign }>>;
+  claimScheduledCall(id: string): Promise<ScheduledCall | undefined>;
+  resetStaleDialingScheduledCalls(claimedBefore: Date): Promise<number>;
+  withDialerLock<T>(fn: () => Promise<T>): Promise<T | undefined>;
+  cancelScheduledCalls(campaignId: string): Promise<number>;
+  getScheduledCallCounts(campaignId: string): Promise<Record<string, number>>;
+  getScheduledCall(id: string): Promise<ScheduledCall | undefined>;
+  getCallbacks(filter: { campaignId?: string; statuses?: string[] }): Promise<Array<{ callback: ScheduledCall; contact: Contact; campaign: Campaign }>>;
+  getPendingCallbackForCall(sourceCallId: string): Promise<ScheduledCall | undefined>;
+  getCampaignsByDialerStatus(statuses: string[]): Promise<Campaign[]>;
+
+  // App Settings
+  getAppSetting(key: string): Promise<AppSetting | undefined>;
+  setAppSetting(key: string, value: unknown): Promise<AppSetting>;
+
+  // Holiday Calendars
+  getHolidayCalendars(): Promise<HolidayCalendar[]>;
+  getHolidayCalendar(id: string): Promise<HolidayCalendar | undefined>;
+  createHolidayCalendar(calendar: InsertHolidayCalendar): Promise<HolidayCalendar>;
+  updateHolidayCalendar(id: string, calendar: Partial<InsertHolidayCalendar>): Promise<HolidayCalendar | undefined>;
+  deleteHolidayCalendar(id: string): Promise<boolean>;
+
+  // Suppressions (do-not-contact)
+  getSuppressions(includeLifted?: boolean): Promise<Suppression[]>;
+  findActiveSuppressions(match: { phoneKey?: string; email?: string }, channel: SuppressionChannel): Promise<Suppression[]>;
+  getActiveSuppressedPhoneKeys(phoneKeys: string[]): Promise<string[]>;
+  createSuppressions(entries: InsertSuppression[]): Promise<Suppression[]>;
+  liftSuppression(id: string, liftReason?: string): Promise<Suppression | undefined>;
 
   // Call Messages
   createCallMessage(message: InsertCallMessage): Promise<CallMessage>;
   getCallMessages(callId: string): Promise<CallMessage[]>;
+  getCallConversation(callId: string): Promise<CallMessage[]>;
   deleteCallMessage(id: string): Promise<boolean>;
 
   // Call Transcriptions
   createCallTranscription(transcription: InsertCallTranscription): Promise<CallTranscription>;
   getCallTranscriptions(callId: string): Promise<CallTranscription[]>;
+  clearCallTranscriptionAudio(callId: string): Promise<void>;
+
+  // Call Events
+  createCallEvent(event: InsertCallEvent): Promise<CallEvent>;
+  getCallEvents(callId: string): Promise<CallEvent[]>;
 
   // Call Recordings
   createCallRecording(recording: InsertCallRecording): Promise<CallRecording>;
   getCallRecording(callId: string): Promise<CallRecording | null>;
   updateCallRecording(recordingId: string, updates: Partial<InsertCallRecording>): Promise<CallRecording>;
+  getCallRecordingBySid(recordingSid: string): Promise<CallRecording | null>;
+  claimPendingCallRecording(): Promise<CallRecording | null>;
+  resetStaleProcessingCallRecordings(claimedBefore: Date): Promise<number>;
+  getCallsPastAudioRetention(now: Date): Promise<Call[]>;
 
   // Dashboard Stats
   getDashboardStats(): Promise<DashboardStats>;
@@ -109,11 +178,14 @@ export interface IStorage {
   getWhatsAppMessage(id: string): Promise<WhatsAppMessage | undefined>;
   updateWhatsAppMessage(id: string, message: Partial<InsertWhatsAppMessage>): Promise<WhatsAppMessage | undefined>;
   deleteWhatsAppMessage(id: string): Promise<boolean>;
+  claimDueScheduledWhatsAppMessages(now: Date): Promise<WhatsAppMessage[]>;
+  resetStalePendingScheduledWhatsAppMessages(claimedBefore: Date): Promise<number>;
   getWhatsAppChatsByContact(): Promise<any[]>; // Grouped chats
 
   // Campaign Analytics
   getTotalCampaignAnalytics(): Promise<any>;
   getDayWiseAnalytics(): Promise<any[]>;
+  getVariantCallStats(campaignId: string): Promise<VariantCallStats[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -144,6 +216,11 @@ export class DatabaseStorage implements IStorage {
     return contact || undefined;
   }
 
+  async getContactsByIds(ids: string[]): Promise<Contact[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(contacts).where(inArray(contacts.id, ids));
+  }
+
   async createContact(contact: InsertContact): Promise<Contact> {
     const [newContact] = await db.insert(contacts).values(contact).returning();
     return newContact;
@@ -507,10 +584,11 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Bumps the session version too, so a session write racing this one retries on the fresh row
   async updateCall(id: string, call: Partial<InsertCall>): Promise<Call> {
     const [updatedCall] = await db
       .update(calls)
-      .set(call)
+      .set({ ...call, sessionVersion: sql`${calls.sessionVersion} + 1` })
       .where(eq(calls.id, id))
       .returning();
     return updatedCall;
@@ -529,10 +607,283 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(calls).where(eq(calls.contactId, contactId));
   }
 
+  async getCallByTwilioSid(twilioCallSid: string): Promise<Call | undefined> {
+    const [call] = await db.select().from(calls).where(eq(calls.twilioCallSid, twilioCallSid));
+    return call || undefined;
+  }
+
   async getActiveCalls(): Promise<Call[]> {
     return await db.select().from(calls).where(eq(calls.status, 'active'));
   }
 
+  // Versioned session write - returns undefined if another instance updated the call first
+  async updateCallSession(id: string, call: Partial<InsertCall>, expectedVersion: number): Promise<Call | undefined> {
+    const [updatedCall] = await db
+      .update(calls)
+      .set({ ...call, sessionVersion: expectedVersion + 1 })
+      .where(and(eq(calls.id, id), eq(calls.sessionVersion, expectedVersion)))
+      .returning();
+    return updatedCall || undefined;
+  }
+
+  // Only the first caller to complete an active call gets the row back
+  async completeActiveCall(id: string, call: Partial<InsertCall>): Promise<Call | undefined> {
+    const [updatedCall] = await db
+      .update(calls)
+      .set({ ...call, sessionVersion: sql`${calls.sessionVersion} + 1` })
+      .where(and(eq(calls.id, id), eq(calls.status, 'active')))
+      .returning();
+    return updatedCall || undefined;
+  }
+
+  // Every attempt in a redial chain, first dial included
+  async getCallAttempts(originalCallId: string): Promise<Call[]> {
+    return await db
+      .select()
+      .from(calls)
+      .where(or(eq(calls.id, originalCallId), eq(calls.originalCallId, originalCallId)))
+      .orderBy(asc(calls.attemptNumber));
+  }
+
+  async getCallsStartedSince(since: Date): Promise<Call[]> {
+    return await db.select().from(calls).where(gte(calls.startTime, since));
+  }
+
+  // Scheduled Calls
+  async createScheduledCall(scheduledCall: InsertScheduledCall): Promise<ScheduledCall> {
+    const [newScheduledCall] = await db.insert(scheduledCalls).values(scheduledCall).returning();
+    return newScheduledCall;
+  }
+
+  async updateScheduledCall(id: string, scheduledCall: Partial<InsertScheduledCall>): Promise<ScheduledCall | undefined> {
+    const [updated] = await db
+      .update(scheduledCalls)
+      .set(scheduledCall)
+      .where(eq(scheduledCalls.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getScheduledCallsForAttempt(originalCallId: string): Promise<ScheduledCall[]> {
+    return await db
+      .select()
+      .from(scheduledCalls)
+      .where(eq(scheduledCalls.originalCallId, originalCallId))
+      .orderBy(asc(scheduledCalls.attemptNumber));
+  }
+
+  async createScheduledCalls(rows: InsertScheduledCall[]): Promise<ScheduledCall[]> {
+    if (rows.length === 0) return [];
+    return await db.insert(scheduledCalls).values(rows).returning();
+  }
+
+  // Oldest due calls whose campaign isn't paused or cancelled
+  async getDueScheduledCalls(now: Date, limit: number): Promise<Array<{ scheduledCall: ScheduledCall; campaign: Campaign }>> {
+    return await db
+      .select({ scheduledCall: scheduledCalls, campaign: campaigns })
+      .from(scheduledCalls)
+      .innerJoin(campaigns, eq(scheduledCalls.campaignId, campaigns.id))
+      .where(and(
+        eq(scheduledCalls.status, 'pending'),
+        lte(scheduledCalls.scheduledFor, now),
+        notInArray(campaigns.dialerStatus, ['paused', 'cancelled'])
+      ))
+      .orderBy(asc(scheduledCalls.scheduledFor))
+      .limit(limit);
+  }
+
+  // Move a pending call to 'dialing' - only the instance that flips the row gets it back
+  async claimScheduledCall(id: string): Promise<ScheduledCall | undefined> {
+    const [claimed] = await db
+      .update(scheduledCalls)
+      .set({ status: 'dialing', claimedAt: new Date() })
+      .where(and(eq(scheduledCalls.id, id), eq(scheduledCalls.status, 'pending')))
+      .returning();
+    return claimed || undefined;
+  }
+
+  // Jobs left 'dialing' by an instance that died mid-dial go back in the queue
+  async resetStaleDialingScheduledCalls(claimedBefore: Date): Promise<number> {
+    const reset = await db
+      .update(scheduledCalls)
+      .set({ status: 'pending', claimedAt: null })
+      .where(and(
+        eq(scheduledCalls.status, 'dialing'),
+        or(isNull(scheduledCalls.claimedAt), lt(scheduledCalls.claimedAt, claimedBefore))
+      ))
+      .returning({ id: scheduledCalls.id });
+    return reset.length;
+  }
+
+  // Run fn holding the dialer's advisory lock, so one instance dials at a time - undefined when another holds it
+  async withDialerLock<T>(fn: () => Promise<T>): Promise<T | undefined> {
+    // The lock belongs to the connection that took it, so keep one connection for the whole run
+    const client = await pool.connect();
+    try {
+      const { rows } = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [DIALER_LOCK_KEY]);
+      if (!rows[0]?.locked) return undefined;
+      try {
+        return await fn();
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [DIALER_LOCK_KEY]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  async cancelScheduledCalls(campaignId: string): Promise<number> {
+    const cancelled = await db
+      .update(scheduledCalls)
+      .set({ status: 'cancelled' })
+      .where(and(eq(scheduledCalls.campaignId, campaignId), eq(scheduledCalls.status, 'pending')))
+      .returning({ id: scheduledCalls.id });
+    return cancelled.length;
+  }
+
+  async getScheduledCallCounts(campaignId: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: scheduledCalls.status, total: count() })
+      .from(scheduledCalls)
+      .where(eq(scheduledCalls.campaignId, campaignId))
+      .groupBy(scheduledCalls.status);
+    return Object.fromEntries(rows.map(row => [row.status, Number(row.total)]));
+  }
+
+  async getScheduledCall(id: string): Promise<ScheduledCall | undefined> {
+    const [scheduledCall] = await db.select().from(scheduledCalls).where(eq(scheduledCalls.id, id));
+    return scheduledCall || undefined;
+  }
+
+  // Prospect-requested callbacks, soonest first
+  async getCallbacks(filter: { campaignId?: string; statuses?: string[] }): Promise<Array<{ callback: ScheduledCall; contact: Contact; campaign: Campaign }>> {
+    return await db
+      .select({ callback: scheduledCalls, contact: contacts, campaign: campaigns })
+      .from(scheduledCalls)
+      .innerJoin(contacts, eq(scheduledCalls.contactId, contacts.id))
+      .innerJoin(campaigns, eq(scheduledCalls.campaignId, campaigns.id))
+      .where(and(
+        eq(scheduledCalls.reason, 'callback'),
+        filter.campaignId ? eq(scheduledCalls.campaignId, filter.campaignId) : undefined,
+        filter.statuses ? inArray(scheduledCalls.status, filter.statuses) : undefined
+      ))
+      .orderBy(asc(scheduledCalls.scheduledFor));
+  }
+
+  async getPendingCallbackForCall(sourceCallId: string): Promise<ScheduledCall | undefined> {
+    const [callback] = await db
+      .select()
+      .from(scheduledCalls)
+      .where(and(
+        eq(scheduledCalls.sourceCallId, sourceCallId),
+        eq(scheduledCalls.reason, 'callback'),
+        eq(scheduledCalls.status, 'pending')
+      ));
+    return callback || undefined;
+  }
+
+  async getCampaignsByDialerStatus(statuses: string[]): Promise<Campaign[]> {
+    return await db.select().from(campaigns).where(inArray(campaigns.dialerStatus, statuses));
+  }
+
+  // App Settings
+  async getAppSetting(key: string): Promise<AppSetting | undefined> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting || undefined;
+  }
+
+  async setAppSetting(key: string, value: unknown): Promise<AppSetting> {
+    const [setting] = await db
+      .insert(appSettings)
+      .values({ key, value, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: new Date() } })
+      .returning();
+    return setting;
+  }
+
+  // Holiday Calendars
+  async getHolidayCalendars(): Promise<HolidayCalendar[]> {
+    return await db.select().from(holidayCalendars).orderBy(asc(holidayCalendars.name));
+  }
+
+  async getHolidayCalendar(id: string): Promise<HolidayCalendar | undefined> {
+    const [calendar] = await db.select().from(holidayCalendars).where(eq(holidayCalendars.id, id));
+    return calendar || undefined;
+  }
+
+  async createHolidayCalendar(calendar: InsertHolidayCalendar): Promise<HolidayCalendar> {
+    const [newCalendar] = await db.insert(holidayCalendars).values(calendar).returning();
+    return newCalendar;
+  }
+
+  async updateHolidayCalendar(id: string, calendar: Partial<InsertHolidayCalendar>): Promise<HolidayCalendar | undefined> {
+    const [updated] = await db
+      .update(holidayCalendars)
+      .set(calendar)
+      .where(eq(holidayCalendars.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteHolidayCalendar(id: string): Promise<boolean> {
+    // Detach campaigns first so the foreign key doesn't block the delete
+    await db.update(campaigns).set({ holidayCalendarId: null }).where(eq(campaigns.holidayCalendarId, id));
+    const result = await db.delete(holidayCalendars).where(eq(holidayCalendars.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Suppressions (do-not-contact)
+  async getSuppressions(includeLifted = false): Promise<Suppression[]> {
+    return await db
+      .select()
+      .from(suppressions)
+      .where(includeLifted ? undefined : sql`${suppressions.liftedAt} IS NULL`)
+      .orderBy(desc(suppressions.createdAt));
+  }
+
+  async findActiveSuppressions(match: { phoneKey?: string; email?: string }, channel: SuppressionChannel): Promise<Suppression[]> {
+    const identities = [];
+    if (match.phoneKey) identities.push(eq(suppressions.phoneKey, match.phoneKey));
+    if (match.email) identities.push(sql`lower(${suppressions.email}) = ${match.email.toLowerCase()}`);
+    if (identities.length === 0) return [];
+
+    return await db
+      .select()
+      .from(suppressions)
+      .where(and(
+        or(...identities),
+        inArray(suppressions.channel, channel === 'all' ? ['all'] : ['all', channel]),
+        sql`${suppressions.liftedAt} IS NULL`
+      ));
+  }
+
+  async getActiveSuppressedPhoneKeys(phoneKeys: string[]): Promise<string[]> {
+    if (phoneKeys.length === 0) return [];
+    const rows = await db
+      .select({ phoneKey: suppressions.phoneKey })
+      .from(suppressions)
+      .where(and(
+        inArray(suppressions.phoneKey, phoneKeys),
+        eq(suppressions.channel, 'all'),
+        sql`${suppressions.liftedAt} IS NULL`
+      ));
+    return rows.map(row => row.phoneKey!);
+  }
+
+  async createSuppressions(entries: InsertSuppression[]): Promise<Suppression[]> {
+    if (entries.length === 0) return [];
+    return await db.insert(suppressions).values(entries).returning();
+  }
+
+  async liftSuppression(id: string, liftReason?: string): Promise<Suppression | undefined> {
+    const [lifted] = await db
+      .update(suppressions)
+      .set({ liftedAt: new Date(), liftReason })
+      .where(and(eq(suppressions.id, id), sql`${suppressions.liftedAt} IS NULL`))
+      .returning();
+    return lifted || undefined;
+  }
+
   // Call Messages
   async createCallMessage(message: InsertCallMessage): Promise<CallMessage> {
     const [newMessage] = await db.insert(callMessages).values(message).returning();
@@ -547,6 +898,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(callMessages.timestamp));
   }
 
+  // Messages in speaking order for rebuilding conversation history
+  async getCallConversation(callId: string): Promise<CallMessage[]> {
+    return await db
+      .select()
+      .from(callMessages)
+      .where(eq(callMessages.callId, callId))
+      .orderBy(callMessages.timestamp);
+  }
+
   async deleteCallMessage(id: string): Promise<boolean> {
     const result = await db.delete(callMessages).where(eq(callMessages.id, id));
     return (result.rowCount || 0) > 0;
@@ -565,6 +925,26 @@ export class DatabaseStorage implements IStorage {
       .orderBy(callTranscriptions.timestamp);
   }
 
+  // Unlink the caller segments we stored - the transcript text stays
+  async clearCallTranscriptionAudio(callId: string): Promise<void> {
+    await db.update(callTranscriptions)
+      .set({ audioSegmentUrl: null })
+      .where(and(eq(callTranscriptions.callId, callId), sql`${callTranscriptions.audioSegmentUrl} LIKE '/audio/segments/%'`));
+  }
+
+  // Call Events - supervisor audit trail
+  async createCallEvent(event: InsertCallEvent): Promise<CallEvent> {
+    const [result] = await db.insert(callEvents).values(event).returning();
+    return result;
+  }
+
+  async getCallEvents(callId: string): Promise<CallEvent[]> {
+    return await db.select()
+      .from(callEvents)
+      .where(eq(callEvents.callId, callId))
+      .orderBy(callEvents.createdAt);
+  }
+
   // Call Recordings for MP4 download functionality
   async createCallRecording(recording: InsertCallRecording): Promise<CallRecording> {
     const [result] = await db.insert(callRecordings).values(recording).returning();
@@ -587,6 +967,53 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async getCallRecordingBySid(recordingSid: string): Promise<CallRecording | null> {
+    const [result] = await db.select()
+      .from(callRecordings)
+      .where(eq(callRecordings.recordingSid, recordingSid))
+      .limit(1);
+    return result || null;
+  }
+
+  // Oldest recording waiting for conversion, marked as processing - null if none, or another worker got it first
+  async claimPendingCallRecording(): Promise<CallRecording | null> {
+    const [pending] = await db.select({ id: callRecordings.id })
+      .from(callRecordings)
+      .where(eq(callRecordings.conversionStatus, 'pending'))
+      .orderBy(callRecordings.createdAt)
+      .limit(1);
+    if (!pending) return null;
+
+    const [claimed] = await db.update(callRecordings)
+      .set({ conversionStatus: 'processing', updatedAt: new Date() })
+      .where(and(eq(callRecordings.id, pending.id), eq(callRecordings.conversionStatus, 'pending')))
+      .returning();
+    return claimed || null;
+  }
+
+  // Ended calls past their campaign's retention period whose audio hasn't been purged yet
+  async getCallsPastAudioRetention(now: Date): Promise<Call[]> {
+    const rows = await db.select({ call: calls })
+      .from(calls)
+      .innerJoin(campaigns, eq(calls.campaignId, campaigns.id))
+      .where(and(
+        isNotNull(calls.endTime),
+        isNull(calls.audioPurgedAt),
+        isNotNull(campaigns.recordingRetentionDays),
+        sql`${calls.endTime} < ${now.toISOString()}::timestamp - (${campaigns.recordingRetentionDays} * interval '1 day')`
+      ));
+    return rows.map(row => row.call);
+  }
+
+  // Conversions left 'processing' by an instance that died mid-conversion go back in the queue
+  async resetStaleProcessingCallRecordings(claimedBefore: Date): Promise<number> {
+    const reset = await db.update(callRecordings)
+      .set({ conversionStatus: 'pending', updatedAt: new Date() })
+      .where(and(eq(callRecordings.conversionStatus, 'processing'), lt(callRecordings.updatedAt, claimedBefore)))
+      .returning({ id: callRecordings.id });
+    return reset.length;
+  }
+
   // Dashboard Stats
   async getDashboardStats(): Promise<DashboardStats> {
     const [contactCount] = await db.select({ count: count() }).from(contacts);
@@ -645,6 +1072,29 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  // Move deferred sends that are now due to 'pending' - only the instance that flips the row gets it back
+  async claimDueScheduledWhatsAppMessages(now: Date): Promise<WhatsAppMessage[]> {
+    return await db
+      .update(whatsappMessages)
+      .set({ status: 'pending', claimedAt: new Date() })
+      .where(and(eq(whatsappMessages.status, 'scheduled'), lte(whatsappMessages.scheduledFor, now)))
+      .returning();
+  }
+
+  // Deferred sends left 'pending' by an instance that died mid-send go back to 'scheduled'
+  async resetStalePendingScheduledWhatsAppMessages(claimedBefore: Date): Promise<number> {
+    const reset = await db
+      .update(whatsappMessages)
+      .set({ status: 'scheduled', claimedAt: null })
+      .where(and(
+        eq(whatsappMessages.status, 'pending'),
+        isNotNull(whatsappMessages.scheduledFor),
+        or(isNull(whatsappMessages.claimedAt), lt(whatsappMessages.claimedAt, claimedBefore))
+      ))
+      .returning({ id: whatsappMessages.id });
+    return reset.length;
+  }
+
   async getWhatsAppMessageByWhatsAppId(whatsappMessageId: string): Promise<WhatsAppMessage[]> {
     return await db.select().from(whatsappMessages).where(eq(whatsappMessages.whatsappMessageId, whatsappMessageId));
   }
@@ -831,6 +1281,27 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // A campaign's calls grouped by A/B variant - answered excludes machines and calls nobody picked up
+  async getVariantCallStats(campaignId: string): Promise<VariantCallStats[]> {
+    const answered = sql`${calls.status} = 'completed' and coalesce(${calls.disposition}, '') not in ('voicemail', 'fax')`;
+    const callerSpoke = sql`exists (select 1 from ${callMessages} where ${callMessages.callId} = ${calls.id} and ${callMessages.role} = 'user')`;
+    const captured = sql`(${calls.extractedWhatsapp} is not null or ${calls.extractedEmail} is not null)`;
+
+    return await db.select({
+      variantId: calls.variantId,
+      calls: sql<number>`count(*)::int`,
+      answered: sql<number>`(count(*) filter (where ${answered}))::int`,
+      conversations: sql<number>`(count(*) filter (where ${answered} and ${callerSpoke}))::int`,
+      contactsCaptured: sql<number>`(count(*) filter (where ${answered} and ${captured}))::int`,
+      scoredCalls: sql<number>`count(${calls.successScore})::int`,
+      averageSuccessScore: sql<number | null>`avg(${calls.successScore})::float`,
+      successScoreVariance: sql<number | null>`var_samp(${calls.successScore})::float`
+    })
+      .from(calls)
+      .where(eq(calls.campaignId, campaignId))
+      .groupBy(calls.variantId);
+  }
+
   async getDayWiseAnalytics(): Promise<any[]> {
     try {
       // Get messages from last 30 days
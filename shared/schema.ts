@@ -27,6 +27,14 @@ export const contacts = pgTable("contacts", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Named lists of dates on which campaigns attached to the calendar stay silent
+export const holidayCalendars = pgTable("holiday_calendars", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  holidays: jsonb("holidays").notNull(), // Holiday[] - dates are in the contact's local time
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const campaigns = pgTable("campaigns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -35,11 +43,33 @@ export const campaigns = pgTable("campaigns", {
   script: text("script"), // Agent script for calling
   introLine: text("intro_line").default("Hi, this is Anvika from LabsCheck. Am I speaking with the owner or manager of the lab?").notNull(),
   agentName: text("agent_name").default("Anvika").notNull(),
-  openaiModel: text("openai_model").default("gpt-4o").notNull(),
+  openaiModel: text("openai_model").default("gpt-4o").notNull(), // Model the agent replies with, on the provider in llmConfig
+  llmConfig: jsonb("llm_config"), // LlmConfig for generating replies; null runs openaiModel on OpenAI with the defaults
   language: text("language").default("en").notNull(), // Language for the campaign
   elevenlabsModel: text("elevenlabs_model").default("eleven_multilingual_v2").notNull(), // ElevenLabs model selection
   voiceId: text("voice_id").default("21m00Tcm4TlvDq8ikWAM").notNull(), // Voice agent selection
   voiceConfig: jsonb("voice_config"), // ElevenLabs voice configuration (deprecated in favor of voiceId)
+  ttsProvider: text("tts_provider").default("elevenlabs").notNull(), // 'elevenlabs' speaks in voiceId; 'twilio' (<Say>/Polly) and 'local' (Piper/espeak) speak in ttsVoice
+  ttsVoice: text("tts_voice"), // Voice for a twilio or local primary provider, e.g. 'Polly.Aditi' or 'en_US-lessac-medium'
+  ttsFallback: jsonb("tts_fallback"), // TtsVoice the call switches to when the primary provider fails; null ends the call with an apology
+  callMode: text("call_mode").default("gather").notNull(), // 'gather' (TwiML round trips) or 'stream' (Media Streams with barge-in)
+  sttConfig: jsonb("stt_config"), // SttConfig for recognising the caller; null uses Twilio speech (Whisper on media streams)
+  conversationStages: jsonb("conversation_stages"), // Ordered ConversationStage[] the conversation engine walks through
+  slotSchema: jsonb("slot_schema"), // SlotDefinition[] the agent records through the record_slot tool
+  dispositionCodes: jsonb("disposition_codes"), // DispositionCode[] the post-call analysis picks from; null uses the defaults
+  voicemailAction: text("voicemail_action").default("hangup").notNull(), // 'hangup' or 'leave_message' when a machine answers
+  voicemailMessage: text("voicemail_message"), // Spoken in the campaign voice after the beep
+  recordingEnabled: boolean("recording_enabled").default(false).notNull(), // Record answered calls in dual channel (caller and agent on separate tracks)
+  recordingConsentMessage: text("recording_consent_message"), // Announced before the intro on recorded calls; null uses the default notice in the campaign language
+  recordingRetentionDays: integer("recording_retention_days"), // Call audio (recordings and caller segments) is purged this many days after the call ends; null keeps it
+  retryPolicy: jsonb("retry_policy"), // RetryPolicy for redialing unanswered calls; null disables redials
+  dialerStatus: text("dialer_status").default("idle").notNull(), // 'idle', 'running', 'paused', 'cancelled', 'completed'
+  maxConcurrentCalls: integer("max_concurrent_calls").default(3).notNull(), // Calls this campaign may have in progress at once
+  callsPerMinute: integer("calls_per_minute").default(10).notNull(), // Dialing pace for this campaign
+  callingWindow: jsonb("calling_window"), // CallingWindow in the contact's local time; null allows any time
+  holidayCalendarId: varchar("holiday_calendar_id").references(() => holidayCalendars.id), // No calls or sends on these dates
+  transferPolicy: jsonb("transfer_policy"), // TransferPolicy for handing calls to a human rep; null keeps every call with the agent
+  variants: jsonb("variants"), // CampaignVariant[] A/B tested against each other; null runs every call as configured above
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -49,7 +79,8 @@ export const calls = pgTable("calls", {
   contactId: varchar("contact_id").references(() => contacts.id),
   campaignId: varchar("campaign_id").references(() => campaigns.id),
   phoneNumber: text("phone_number").notNull(),
-  status: text("status").notNull(), // 'active', 'completed', 'failed', 'abandoned'
+  direction: text("direction").default("outbound").notNull(), // 'outbound' (we dialed) or 'inbound' (they called our number)
+  status: text("status").notNull(), // 'active', 'completed', 'failed', 'busy', 'no-answer', 'canceled', 'abandoned'
   duration: integer("duration"), // in seconds
   startTime: timestamp("start_time").defaultNow().notNull(),
   endTime: timestamp("end_time"),
@@ -62,7 +93,22 @@ export const calls = pgTable("calls", {
   emailSent: boolean("email_sent").default(false),
   collectedData: jsonb("collected_data"),
   aiResponseTime: integer("ai_response_time"), // in milliseconds
-  successScore: integer("success_score"), // 1-100
+  successScore: integer("success_score"), // 1-100, from the post-call analysis
+  sentiment: text("sentiment"), // 'positive', 'neutral' or 'negative', from the post-call analysis
+  analysis: jsonb("analysis"), // CallAnalysis - structured summary, objections and next step
+  sessionState: jsonb("session_state"), // Conversation state (stage, silence counters) rehydrated on every webhook
+  sessionVersion: integer("session_version").default(0).notNull(), // Optimistic lock so concurrent webhooks don't clobber state
+  answeredBy: text("answered_by"), // Twilio AMD result: 'human', 'machine_end_beep', 'fax', ...
+  disposition: text("disposition"), // Outcome category, e.g. 'voicemail', 'opted_out', 'callback_requested'
+  attemptNumber: integer("attempt_number").default(1).notNull(), // 1 for the first dial, 2+ for redials
+  originalCallId: varchar("original_call_id"), // First attempt this call redials; null on the first attempt
+  transferStatus: text("transfer_status"), // 'initiated', 'connected', 'no-answer', 'busy', 'failed', 'canceled'
+  transferReason: text("transfer_reason"), // 'caller_request', 'high_intent', 'stage'
+  transferredTo: text("transferred_to"), // Rep number that answered the bridged call
+  transferredAt: timestamp("transferred_at"),
+  language: text("language"), // Language the call is being held in - starts as the campaign's, follows the caller when they switch
+  variantId: text("variant_id"), // Campaign variant the caller was assigned; null when the campaign runs no experiment
+  audioPurgedAt: timestamp("audio_purged_at"), // When the campaign's retention policy deleted the call's audio
 });
 
 export const callMessages = pgTable("call_messages", {
@@ -80,24 +126,84 @@ export const callTranscriptions = pgTable("call_transcriptions", {
   speaker: text("speaker").notNull(), // 'customer', 'ai_agent'
   transcript: text("transcript").notNull(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-  confidence: real("confidence"), // Speech recognition confidence score
-  duration: integer("duration"), // Duration of this speech segment in seconds
+  confidence: real("confidence"), // Speech recognition confidence score (0-1), caller turns only
+  startOffset: real("start_offset"), // Seconds from the start of the call to when this segment began
+  duration: real("duration"), // Duration of this speech segment in seconds
   audioSegmentUrl: text("audio_segment_url"), // URL to audio segment
 });
 
+// Audit trail of supervisor interventions on a call
+export const callEvents = pgTable("call_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  callId: varchar("call_id").references(() => calls.id).notNull(),
+  type: text("type").notNull(), // 'whisper', 'hangup', 'takeover'
+  actor: text("actor").notNull(), // Supervisor who intervened
+  detail: text("detail"), // Whisper instruction, or the number bridged in on a takeover
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Call recordings for MP4 download functionality
 export const callRecordings = pgTable("call_recordings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   callId: varchar("call_id").references(() => calls.id).notNull(),
   recordingUrl: text("recording_url").notNull(), // Original Twilio recording URL
-  mp4Url: text("mp4_url"), // Converted MP4 download URL
+  recordingSid: text("recording_sid"), // Twilio recording SID - status callbacks can repeat, so rows are matched on it
+  channels: integer("channels"), // 2 for dual-channel recordings: caller on the left, agent on the right
+  mp3Url: text("mp3_url"), // Media store key of the converted MP3
+  mp4Url: text("mp4_url"), // Media store key of the converted MP4 - downloads go through short-lived signed URLs
+  storageBackend: text("storage_backend"), // 'disk', 's3' or 'gcs' - the store the converted files were written to
   duration: integer("duration"), // Total recording duration in seconds
-  fileSize: integer("file_size"), // File size in bytes
+  fileSize: integer("file_size"), // Size of the MP4 in bytes
   conversionStatus: text("conversion_status").default("pending").notNull(), // 'pending', 'processing', 'completed', 'failed'
+  conversionError: text("conversion_error"), // Why the last conversion failed
+  purgedAt: timestamp("purged_at"), // When the campaign's retention policy deleted the audio
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Dialer queue: calls waiting to be dialed, from campaign starts, retry-policy redials and requested callbacks
+export const scheduledCalls = pgTable("scheduled_calls", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").references(() => campaigns.id).notNull(),
+  contactId: varchar("contact_id").references(() => contacts.id).notNull(),
+  phoneNumber: text("phone_number").notNull(),
+  attemptNumber: integer("attempt_number").default(1).notNull(),
+  originalCallId: varchar("original_call_id").references(() => calls.id), // First attempt in the redial chain
+  reason: text("reason"), // Outcome of the previous attempt: 'no-answer', 'busy', 'failed', 'voicemail' - or 'callback'
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  sourceCallId: varchar("source_call_id").references(() => calls.id), // Call in which the prospect asked for this callback
+  requestedTime: text("requested_time"), // What the prospect said, e.g. "tomorrow after 4"
+  timezone: text("timezone"), // Contact timezone the requested time was resolved in
+  note: text("note"), // Summary of the earlier conversation, given to the agent on the callback
+  status: text("status").default("pending").notNull(), // 'pending', 'dialing', 'dialed', 'failed', 'cancelled'
+  callId: varchar("call_id").references(() => calls.id), // Call created when this was dialed
+  claimedAt: timestamp("claimed_at"), // When a dialer moved it to 'dialing'
+  lastError: text("last_error"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Operator settings saved from the settings page, one JSON document per key
+export const appSettings = pgTable("app_settings", {
+  key: varchar("key").primaryKey(),
+  value: jsonb("value").notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Do-not-contact registry: people who opted out, or appear on an uploaded national DNC list
+export const suppressions = pgTable("suppressions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  phone: text("phone"),
+  phoneKey: varchar("phone_key"), // Last 10 digits, so "+91 98765 43210" and "9876543210" match
+  email: text("email"),
+  channel: text("channel").default("all").notNull(), // 'all', 'call', 'whatsapp', 'email'
+  source: text("source").notNull(), // 'call_phrase', 'whatsapp_keyword', 'dnc_list', 'manual'
+  reason: text("reason"),
+  contactId: varchar("contact_id").references(() => contacts.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  liftedAt: timestamp("lifted_at"), // Lifted entries are kept for the audit trail but no longer block contact
+  liftReason: text("lift_reason"),
+});
+
 export const whatsappTemplates = pgTable("whatsapp_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -174,6 +280,8 @@ export const whatsappMessages = pgTable("whatsapp_messages", {
   deliveredAt: timestamp("delivered_at"),
   readAt: timestamp("read_at"),
   failedReason: text("failed_reason"),
+  scheduledFor: timestamp("scheduled_for"), // Deferred campaign sends wait in status 'scheduled' until this time
+  claimedAt: timestamp("claimed_at"), // When the deferred-send worker moved it to 'pending'
 });
 
 // Relations
@@ -228,6 +336,7 @@ export const callsRelations = relations(calls, ({ one, many }) => ({
   messages: many(callMessages),
   transcriptions: many(callTranscriptions),
   recordings: many(callRecordings),
+  events: many(callEvents),
 }));
 
 export const callMessagesRelations = relations(callMessages, ({ one }) => ({
@@ -244,6 +353,13 @@ export const callTranscriptionsRelations = relations(callTranscriptions, ({ one
   }),
 }));
 
+export const callEventsRelations = relations(callEvents, ({ one }) => ({
+  call: one(calls, {
+    fields: [callEvents.callId],
+    references: [calls.id],
+  }),
+}));
+
 export const callRecordingsRelations = relations(callRecordings, ({ one }) => ({
   call: one(calls, {
     fields: [callRecordings.callId],
@@ -290,6 +406,20 @@ export type InsertCallMessage = typeof callMessages.$inferInsert;
 export type CallTranscription = typeof callTranscriptions.$inferSelect;
 export type InsertCallTranscription = typeof callTranscriptions.$inferInsert;
 
+export type ScheduledCall = typeof scheduledCalls.$inferSelect;
+export type InsertScheduledCall = typeof scheduledCalls.$inferInsert;
+
+export type AppSetting = typeof appSettings.$inferSelect;
+
+export type Suppression = typeof suppressions.$inferSelect;
+export type InsertSuppression = typeof suppressions.$inferInsert;
+
+export type HolidayCalendar = typeof holidayCalendars.$inferSelect;
+export type InsertHolidayCalendar = typeof holidayCalendars.$inferInsert;
+
+export type CallEvent = typeof callEvents.$inferSelect;
+export type InsertCallEvent = typeof callEvents.$inferInsert;
+
 export type CallRecording = typeof callRecordings.$inferSelect;
 export type InsertCallRecording = typeof callRecordings.$inferInsert;
 
@@ -326,7 +456,414 @@ export interface CallWithDetails extends Call {
 // Zod schemas
 export const insertUserSchema = createInsertSchema(users);
 export const insertContactSchema = createInsertSchema(contacts);
-export const insertCampaignSchema = createInsertSchema(campaigns);
+
+// A campaign script step: what the agent is trying to achieve and where it may go next
+export const conversationStageSchema = z.object({
+  id: z.string().min(1).regex(/^[a-z0-9_]+$/, "Stage id may only contain lowercase letters, digits and underscores"),
+  name: z.string().min(1),
+  goal: z.string().min(1),
+  requiredSlots: z.array(z.string().min(1)).default([]), // Must be collected before leaving the stage (unless ending the call)
+  transitions: z.array(z.string()).default([]), // Stage ids the agent may move to next
+  exitCriteria: z.string().default(""),
+  terminal: z.boolean().default(false), // Reaching this stage ends the call
+});
+
+export const conversationStagesSchema = z.array(conversationStageSchema).min(1).superRefine((stages, ctx) => {
+  const ids = new Set<string>();
+  stages.forEach((stage, index) => {
+    if (ids.has(stage.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate stage id "${stage.id}"`, path: [index, "id"] });
+    }
+    ids.add(stage.id);
+  });
+  stages.forEach((stage, index) => {
+    stage.transitions.forEach(target => {
+      if (!ids.has(target)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Stage "${stage.id}" transitions to unknown stage "${target}"`, path: [index, "transitions"] });
+      }
+    });
+  });
+  if (!stages.some(stage => stage.terminal)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least one stage must be terminal" });
+  }
+});
+
+export type ConversationStage = z.infer<typeof conversationStageSchema>;
+
+// A piece of information the agent should capture during the call
+export const slotDefinitionSchema = z.object({
+  name: z.string().min(1).regex(/^[a-z0-9_]+$/, "Slot name may only contain lowercase letters, digits and underscores"),
+  description: z.string().min(1),
+  type: z.enum(["text", "phone", "email", "number", "enum"]).default("text"),
+  options: z.array(z.string().min(1)).default([]), // Allowed values for 'enum' slots
+});
+
+export const slotSchemaSchema = z.array(slotDefinitionSchema).min(1).superRefine((slots, ctx) => {
+  const names = new Set<string>();
+  slots.forEach((slot, index) => {
+    if (names.has(slot.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate slot "${slot.name}"`, path: [index, "name"] });
+    }
+    names.add(slot.name);
+    if (slot.type === "enum" && slot.options.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Slot "${slot.name}" needs at least one option`, path: [index, "options"] });
+    }
+  });
+});
+
+export type SlotDefinition = z.infer<typeof slotDefinitionSchema>;
+
+// A call outcome the post-call analysis may assign
+export const dispositionCodeSchema = z.object({
+  code: z.string().min(1).regex(/^[a-z0-9_]+$/, "Disposition code may only contain lowercase letters, digits and underscores"),
+  description: z.string().min(1), // Tells the model when the code applies
+});
+
+export const dispositionCodesSchema = z.array(dispositionCodeSchema).min(1).superRefine((codes, ctx) => {
+  const seen = new Set<string>();
+  codes.forEach((disposition, index) => {
+    if (seen.has(disposition.code)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate disposition "${disposition.code}"`, path: [index, "code"] });
+    }
+    seen.add(disposition.code);
+  });
+});
+
+export type DispositionCode = z.infer<typeof dispositionCodeSchema>;
+
+// One arm of a campaign's A/B test - fields left empty use the campaign's own
+export const campaignVariantSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]{1,40}$/, "Variant ids may only contain lowercase letters, digits, - and _"), // Stored on each call, so keep it once calls have run
+  name: z.string().trim().min(1, "Name every variant").max(100),
+  weight: z.number().int().min(0).max(100).default(1), // Share of calls relative to the other variants; 0 stops assigning it
+  introLine: z.string().optional(),
+  aiPrompt: z.string().optional(),
+  script: z.string().optional(),
+  agentName: z.string().optional(), // Persona the agent introduces itself as
+  voiceId: z.string().optional(), // ElevenLabs voice
+  ttsVoice: z.string().optional(), // Voice for a twilio or local primary provider
+});
+
+export const campaignVariantsSchema = z.array(campaignVariantSchema).min(2, "An experiment needs at least two variants").superRefine((variants, ctx) => {
+  const seen = new Set<string>();
+  variants.forEach((variant, index) => {
+    if (seen.has(variant.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate variant "${variant.id}"`, path: [index, "id"] });
+    }
+    seen.add(variant.id);
+  });
+  if (variants.every(variant => variant.weight === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least one variant needs a weight above 0" });
+  }
+});
+
+export type CampaignVariant = z.infer<typeof campaignVariantSchema>;
+
+// How one variant is doing against the first (control) variant
+export interface VariantComparison {
+  difference: number; // Variant minus control
+  pValue: number | null; // null until both arms have enough calls to test
+  significant: boolean; // p < 0.05
+}
+
+export interface VariantReport {
+  variantId: string;
+  name: string;
+  weight: number;
+  calls: number;
+  answered: number; // Picked up by a person - voicemail and unanswered calls excluded
+  conversations: number; // Answered calls where the caller said something
+  contactsCaptured: number; // Answered calls that captured a WhatsApp number or email
+  scoredCalls: number;
+  conversationRate: number; // conversations / answered
+  captureRate: number; // contactsCaptured / answered
+  averageSuccessScore: number | null;
+  vsControl?: { // Missing on the control itself
+    conversationRate: VariantComparison;
+    captureRate: VariantComparison;
+    averageSuccessScore: VariantComparison;
+  };
+}
+
+export interface ExperimentReport {
+  campaignId: string;
+  controlVariantId: string | null;
+  variants: VariantReport[];
+  unassignedCalls: number; // Calls from before the campaign had variants
+}
+
+export const SENTIMENTS = ["positive", "neutral", "negative"] as const;
+export type Sentiment = typeof SENTIMENTS[number];
+
+// What the post-call analysis reads out of a finished conversation
+export const callAnalysisSchema = z.object({
+  disposition: z.string().min(1), // One of the campaign's disposition codes
+  sentiment: z.enum(SENTIMENTS),
+  summary: z.string(),
+  keyPoints: z.array(z.string()),
+  objections: z.array(z.string()), // Concerns the caller raised
+  nextStep: z.string().nullable(), // What was agreed, if anything
+  successScore: z.number().int().min(1).max(100), // How close the call came to the campaign's goal
+});
+
+export type CallAnalysis = z.infer<typeof callAnalysisSchema>;
+
+// Call outcomes a campaign can choose to redial
+export const RETRYABLE_OUTCOMES = ["no-answer", "busy", "failed", "voicemail"] as const;
+
+export const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).default(3), // Including the first dial
+  backoffMinutes: z.number().min(1).default(30), // Wait before the first redial
+  backoffMultiplier: z.number().min(1).max(10).default(2), // Each further redial waits this many times longer
+  retryOn: z.array(z.enum(RETRYABLE_OUTCOMES)).min(1).default(["no-answer", "busy", "failed"]),
+  retryWindowHours: z.number().min(1).default(48), // No redials later than this after the first attempt
+});
+
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+
+// Where a campaign's dialer queue stands
+export const DIALER_STATUSES = ["idle", "running", "paused", "cancelled", "completed"] as const;
+export type DialerStatus = typeof DIALER_STATUSES[number];
+
+// Changes an operator can make to a pending callback
+export const updateCallbackSchema = z.object({
+  scheduledFor: z.coerce.date().optional(),
+  note: z.string().nullable().optional(),
+}).refine(update => !update.scheduledFor || update.scheduledFor.getTime() > Date.now(), {
+  message: "Callbacks must be scheduled in the future",
+});
+
+export type UpdateCallback = z.infer<typeof updateCallbackSchema>;
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM (24-hour)");
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const STT_PROVIDERS = ["twilio", "openai", "google", "local"] as const;
+export type SttProviderName = typeof STT_PROVIDERS[number];
+
+// How a campaign recognises what the caller says
+export const sttConfigSchema = z.object({
+  provider: z.enum(STT_PROVIDERS).default("twilio"), // 'local' is a Whisper-compatible server at LOCAL_STT_URL
+  language: z.string().optional(), // BCP-47 such as 'en-IN' or 'hi-IN'; derived from the campaign language when unset
+  model: z.string().optional(), // e.g. Twilio 'phone_call', 'whisper-1' / 'gpt-4o-transcribe', Google 'telephony'
+  minConfidence: z.number().min(0).max(1).default(0.4), // Transcripts below this make the agent ask the caller to repeat
+});
+
+export type SttConfig = z.infer<typeof sttConfigSchema>;
+
+export const LLM_PROVIDERS = ["openai", "anthropic", "local"] as const;
+export type LlmProviderName = typeof LLM_PROVIDERS[number];
+
+// A model on any LLM provider, used in a campaign's fallback chain
+export const llmModelSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS), // 'local' is an OpenAI-compatible server (Ollama, vLLM) at LOCAL_LLM_URL
+  model: z.string().trim().min(1, "Choose a fallback model"), // e.g. 'gpt-4o-mini', 'claude-3-5-haiku-latest', 'llama3.1:8b'
+});
+
+export type LlmModel = z.infer<typeof llmModelSchema>;
+
+// How a campaign's agent generates replies - the primary model is the campaign's openaiModel
+export const llmConfigSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS).default("openai"), // Provider serving openaiModel
+  temperature: z.number().min(0).max(2).default(0.6), // Anthropic models cap this at 1
+  maxTokens: z.number().int().min(16).max(4000).default(100), // Replies are spoken, so keep them short
+  timeoutMs: z.number().int().min(1000).max(60000).default(8000), // Per model; streaming calls only wait this long for the first token
+  fallbacks: z.array(llmModelSchema).max(3).default([]), // Tried in order when the model before them errors or times out
+});
+
+export type LlmConfig = z.infer<typeof llmConfigSchema>;
+
+export const TTS_PROVIDERS = ["elevenlabs", "twilio", "local"] as const;
+export type TtsProviderName = typeof TTS_PROVIDERS[number];
+
+// A voice from any TTS provider, used as a campaign's backup voice
+export const ttsVoiceSchema = z.object({
+  provider: z.enum(TTS_PROVIDERS),
+  voice: z.string().min(1, "Choose a backup voice"), // ElevenLabs voice id, Twilio voice such as 'Polly.Aditi', or a Piper model / espeak voice
+  language: z.string().optional(), // Twilio <Say> language such as 'en-IN'; espeak voices carry their own
+});
+
+export type TtsVoice = z.infer<typeof ttsVoiceSchema>;
+
+// Operator settings saved from the settings page; the dialer takes its global caps from `calling`
+export const callingSettingsSchema = z.object({
+  maxConcurrentCalls: z.number().int().min(1, "Max concurrent calls must be at least 1").max(50), // Calls in progress across all campaigns
+  callsPerMinute: z.number().int().min(1, "Calls per minute must be at least 1").max(120), // Dialing pace across all campaigns
+  callTimeout: z.number().int().min(30).max(1800),
+  recordCalls: z.boolean(),
+});
+
+// Sections are saved partially and merged over the stored document; other sections are kept as sent
+export const systemSettingsSchema = z.object({
+  calling: callingSettingsSchema.partial().optional(),
+}).passthrough();
+
+export type CallingSettings = z.infer<typeof callingSettingsSchema>;
+export type SystemSettingsUpdate = z.infer<typeof systemSettingsSchema>;
+
+// How inbound calls pick the campaign whose agent answers them
+export const inboundRoutingSchema = z.object({
+  numberRoutes: z.array(z.object({ // Checked first: which campaign answers each of our Twilio numbers
+    number: z.string().min(1, "Enter the dialled number"),
+    campaignId: z.string().min(1, "Choose a campaign"),
+  })).default([]),
+  routeToLastCampaign: z.boolean().default(true), // Then the campaign that last called or messaged the contact
+  defaultCampaignId: z.string().nullable().default(null), // Finally this one
+});
+
+export type InboundRouting = z.infer<typeof inboundRoutingSchema>;
+
+export const TRANSFER_REASONS = ["caller_request", "high_intent", "stage", "supervisor"] as const; // supervisor: taken over from the live calls page
+export type TransferReason = typeof TRANSFER_REASONS[number];
+
+// When and where the agent hands a call to a human rep
+export const transferPolicySchema = z.object({
+  targets: z.array(z.string().regex(/^\+[1-9]\d{6,14}$/, "Transfer numbers must be in E.164 format, e.g. +919876543210")).min(1), // One rep, or a ring group
+  ringStrategy: z.enum(["simultaneous", "sequential"]).default("simultaneous"), // Ring the whole group at once or one rep after another
+  ringTimeoutSeconds: z.number().int().min(5).max(60).default(20), // Per rep when sequential
+  onCallerRequest: z.boolean().default(true), // Caller asks for a person
+  onHighIntent: z.boolean().default(false), // Model judges the caller ready to buy
+  onStages: z.array(z.string()).default([]), // Reaching any of these stages
+  announcement: z.string().min(1).default("Let me connect you with one of our team members now. Please stay on the line."),
+  fallback: z.enum(["resume", "hangup"]).default("resume"), // Nobody answered: the agent carries on, or says goodbye
+});
+
+export type TransferPolicy = z.infer<typeof transferPolicySchema>;
+
+// Supervisor interventions on a live call - the supervisor's name goes into the call's audit trail
+const supervisorNameSchema = z.string().trim().min(1).max(100).default("supervisor");
+
+export const supervisorWhisperSchema = z.object({
+  supervisor: supervisorNameSchema,
+  instruction: z.string().trim().min(1, "Whisper an instruction for the agent").max(500), // Added to the agent's next prompt only
+});
+
+export const supervisorHangupSchema = z.object({
+  supervisor: supervisorNameSchema,
+});
+
+export const supervisorTakeoverSchema = z.object({
+  supervisor: supervisorNameSchema,
+  phone: z.string().regex(/^\+[1-9]\d{6,14}$/, "Takeover numbers must be in E.164 format, e.g. +919876543210"), // Where the human takes the call
+});
+
+export type SupervisorWhisper = z.infer<typeof supervisorWhisperSchema>;
+export type SupervisorTakeover = z.infer<typeof supervisorTakeoverSchema>;
+
+// Offline call simulator - a scripted caller driven through our own Twilio webhooks
+export const SIMULATION_ENDINGS = ["agent", "caller", "supervisor", "error"] as const; // Who ended the simulated call
+export type SimulationEnding = typeof SIMULATION_ENDINGS[number];
+
+export const simulatorTurnSchema = z.object({
+  say: z.string().trim().max(500).optional(), // Sent as SpeechResult
+  digits: z.string().regex(/^[0-9*#]{1,20}$/, "Digits may only be 0-9, * and #").optional(), // Sent as Digits
+  confidence: z.number().min(0).max(1).default(0.9),
+  agentReply: z.string().max(1000).optional(), // The stubbed model's answer to this turn, markers such as <<next:stage_id>> included
+  agentTools: z.array(z.object({ // Tool calls the stubbed model makes before answering, e.g. record_slot
+    name: z.string().min(1),
+    arguments: z.record(z.unknown()).default({}),
+  })).default([]),
+}).refine(turn => !(turn.say && turn.digits), { message: "A turn either says something or presses digits, not both" }); // Neither is silence
+
+export const simulatorScriptSchema = z.object({
+  campaignId: z.string().optional(), // Inbound calls are routed like real ones, so only outbound calls need it
+  direction: z.enum(["outbound", "inbound"]).default("outbound"),
+  contactId: z.string().optional(), // Outbound calls to an existing contact
+  phoneNumber: z.string().default("+15005550006"), // The simulated caller's number
+  to: z.string().optional(), // Number an inbound caller dials - defaults to TWILIO_PHONE_NUMBER
+  answeredBy: z.string().default("human"), // AMD result on the answer webhook, e.g. machine_end_beep
+  dialStatus: z.enum(["completed", "no-answer", "busy", "failed"]).default("no-answer"), // How a <Dial> to a rep ends
+  turns: z.array(simulatorTurnSchema).max(50).default([]), // The caller hangs up once these run out
+  expect: z.object({
+    endedBy: z.enum(SIMULATION_ENDINGS).optional(),
+    agentSaid: z.array(z.string().min(1)).default([]), // Phrases the agent must say at some point, case-insensitive
+  }).optional(),
+}).refine(script => script.direction === "inbound" || !!script.campaignId, { message: "Pick a campaign to call from" });
+
+export type SimulatorTurn = z.infer<typeof simulatorTurnSchema>;
+export type SimulatorScript = z.infer<typeof simulatorScriptSchema>;
+
+export interface SimulationEvent {
+  at: number; // ms since the simulated call started
+  kind: "request" | "agent" | "caller" | "dial" | "status" | "note";
+  detail: string;
+}
+
+export interface SimulationResult {
+  callId?: string;
+  callSid: string;
+  endedBy: SimulationEnding;
+  events: SimulationEvent[];
+  transcript: CallTranscription[];
+  checks: Array<{ expectation: string; passed: boolean }>;
+  passed: boolean; // Every expectation held and nothing went wrong
+}
+
+// When a campaign may call or message, evaluated in the contact's local time
+export const callingWindowSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1).default([1, 2, 3, 4, 5, 6]), // 0 = Sunday
+  start: timeOfDaySchema.default("09:00"),
+  end: timeOfDaySchema.default("19:00"),
+  quietWindows: z.array(z.object({ // Breaks inside the day, e.g. lunch
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  })).default([]),
+  defaultTimezone: z.string().refine(isValidTimezone, "Unknown timezone").default("Asia/Kolkata"), // Used when the contact's timezone can't be derived
+}).refine(window => window.start < window.end, { message: "Calling window must start before it ends" })
+  .refine(window => window.quietWindows.every(quiet => quiet.start < quiet.end), { message: "Quiet windows must start before they end" });
+
+export type CallingWindow = z.infer<typeof callingWindowSchema>;
+
+export const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Holiday dates must be YYYY-MM-DD"),
+  name: z.string().default(""),
+});
+
+export type Holiday = z.infer<typeof holidaySchema>;
+
+export const insertHolidayCalendarSchema = createInsertSchema(holidayCalendars, {
+  name: z.string().min(1, "Calendar name is required"),
+  holidays: z.array(holidaySchema),
+}).omit({ id: true, createdAt: true });
+
+export const SUPPRESSION_CHANNELS = ["all", "call", "whatsapp", "email"] as const;
+export type SuppressionChannel = typeof SUPPRESSION_CHANNELS[number];
+
+export const insertSuppressionSchema = createInsertSchema(suppressions, {
+  channel: z.enum(SUPPRESSION_CHANNELS).default("all"),
+  source: z.enum(["call_phrase", "whatsapp_keyword", "dnc_list", "manual"]).default("manual"),
+}).omit({ id: true, phoneKey: true, createdAt: true, liftedAt: true, liftReason: true })
+  .refine(entry => !!entry.phone?.trim() || !!entry.email?.trim(), { message: "A phone number or email is required" });
+
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  callMode: z.enum(["gather", "stream"]).optional(),
+  voicemailAction: z.enum(["hangup", "leave_message"]).optional(),
+  dialerStatus: z.enum(DIALER_STATUSES).optional(),
+  conversationStages: conversationStagesSchema.nullable().optional(),
+  slotSchema: slotSchemaSchema.nullable().optional(),
+  dispositionCodes: dispositionCodesSchema.nullable().optional(),
+  recordingRetentionDays: z.number()
+    .int("Recording retention must be a whole number of days, at least 1")
+    .min(1, "Recording retention must be a whole number of days, at least 1")
+    .nullable()
+    .optional(),
+  retryPolicy: retryPolicySchema.nullable().optional(),
+  callingWindow: callingWindowSchema.nullable().optional(),
+  transferPolicy: transferPolicySchema.nullable().optional(),
+  variants: campaignVariantsSchema.nullable().optional(),
+  ttsProvider: z.enum(TTS_PROVIDERS).optional(),
+  ttsFallback: ttsVoiceSchema.nullable().optional(),
+  sttConfig: sttConfigSchema.nullable().optional(),
+  llmConfig: llmConfigSchema.nullable().optional(),
+}).omit({ id: true, createdAt: true });
 export const insertCallSchema = createInsertSchema(calls);
 export const insertCallMessageSchema = createInsertSchema(callMessages);
 // Removed audio recording schema - using direct speech processing only